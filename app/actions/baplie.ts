@@ -0,0 +1,236 @@
+// ============================================================================
+// BAPLIE SERVER ACTIONS
+// Exports a plan's slotted deck containers as a UN/EDIFACT BAPLIE message and
+// reconciles a terminal's BAPLIE against the plan (missing / extra / changed).
+// Message building and parsing live in lib/baplie.ts.
+// ============================================================================
+
+'use server'
+
+import { z } from 'zod';
+import connectDB from '@/lib/db/connect';
+import { StowagePlanModel, VesselModel, VoyageModel, BookingModel } from '@/lib/db/schemas';
+import { auth } from '@/auth';
+import {
+  buildBaplie,
+  parseBaplie,
+  reconcileBaplie,
+  REEFER_ISO_SIZE_TYPE,
+  REEFER_TARE_KG,
+  type BaplieUnit,
+} from '@/lib/baplie';
+import { DEFAULT_DECK_CONTAINER_TYPE } from '@/lib/stowage-engine/deck';
+import { resolveCargoLeg } from '@/lib/cargo-leg';
+import type { ContainerType } from '@/types/models';
+
+// ----------------------------------------------------------------------------
+// VALIDATION SCHEMAS
+// ----------------------------------------------------------------------------
+
+const ExportBaplieSchema = z.object({
+  planId: z.string().min(1, 'Plan ID is required'),
+  portCode: z.string().min(5).max(5).optional(),   // departure port; last LOAD port when omitted
+});
+
+const ImportBaplieSchema = ExportBaplieSchema.extend({
+  content: z.string().min(1, 'BAPLIE file is empty').max(2_000_000, 'BAPLIE file too large'),
+});
+
+const BAPLIE_SENDER = 'REEFERPLAN';
+
+// ----------------------------------------------------------------------------
+// HELPERS
+// ----------------------------------------------------------------------------
+
+interface PlanBaplieContext {
+  plan: any;
+  vessel: any;
+  voyage: any;
+  departure: { portCode: string; sequence: number; etd?: Date };
+  nextPortCode?: string;
+  units: BaplieUnit[];
+  unslotted: number;
+}
+
+// Loads the plan and maps its slotted deck containers aboard on departure from
+// the chosen port to BAPLIE units (gross weight = cargo + reefer tare).
+async function loadPlanBaplieContext(planId: string, portCode?: string): Promise<PlanBaplieContext | { error: string }> {
+  const plan = await StowagePlanModel.findById(planId).lean() as any;
+  if (!plan) return { error: 'Plan not found' };
+
+  const [vessel, voyage] = await Promise.all([
+    VesselModel.findById(plan.vesselId).select('name imoNumber callSign').lean(),
+    VoyageModel.findById(plan.voyageId).select('voyageNumber portCalls').lean(),
+  ]) as [any, any];
+  if (!vessel) return { error: 'Vessel not found' };
+  if (!voyage) return { error: 'Voyage not found' };
+
+  const portCalls: any[] = (voyage.portCalls ?? [])
+    .filter((pc: any) => pc.status !== 'CANCELLED' && pc.status !== 'SKIPPED')
+    .sort((a: any, b: any) => a.sequence - b.sequence);
+  const departure = portCode
+    ? portCalls.find(pc => pc.portCode === portCode)
+    : [...portCalls].reverse().find(pc => pc.operations?.includes('LOAD'));
+  if (!departure) {
+    return { error: portCode ? `Port ${portCode} is not on this voyage` : 'Voyage has no LOAD port calls' };
+  }
+  const nextPort = portCalls.find(pc => pc.sequence > departure.sequence);
+
+  const deckPositions: any[] = (plan.cargoPositions ?? []).filter((p: any) => p.compartment?.level === 'DECK');
+  const slotted = deckPositions.filter(p => p.stackPosition?.bay != null);
+
+  const bookingIds = [...new Set(slotted.map(p => p.bookingId).filter((id: any) => /^[a-f\d]{24}$/i.test(id ?? '')))];
+  const bookings: any[] = bookingIds.length > 0
+    ? await BookingModel.find({ _id: { $in: bookingIds } })
+        .select('bookingNumber containerType requestedTemperature pol pod')
+        .lean()
+    : [];
+  const bookingMap = new Map(bookings.map(b => [b._id.toString(), b]));
+
+  const units: BaplieUnit[] = [];
+  for (const pos of slotted) {
+    const booking = bookingMap.get(pos.bookingId ?? '');
+    const pol = pos.polPortCode ?? booking?.pol?.portCode;
+    const pod = pos.podPortCode ?? booking?.pod?.portCode;
+    const leg = resolveCargoLeg({ ...pos, polPortCode: pol, podPortCode: pod }, portCalls);
+    const polSeq = leg.polSeq ?? -Infinity;
+    const podSeq = leg.podSeq ?? Infinity;
+    if (!(polSeq <= departure.sequence && departure.sequence < podSeq)) continue;
+
+    const containerType: ContainerType = booking?.containerType ?? DEFAULT_DECK_CONTAINER_TYPE;
+    units.push({
+      bay: pos.stackPosition.bay,
+      row: pos.stackPosition.row,
+      tier: pos.stackPosition.tier,
+      isoSizeType: REEFER_ISO_SIZE_TYPE[containerType],
+      grossWeightKg: (pos.weight ?? 0) + REEFER_TARE_KG[containerType],
+      setTemperature: pos.setTemperature ?? booking?.requestedTemperature ?? undefined,
+      polPortCode: pol,
+      podPortCode: pod,
+      bookingNumber: pos.bookingNumber ?? booking?.bookingNumber,
+    });
+  }
+
+  return {
+    plan,
+    vessel,
+    voyage,
+    departure: { portCode: departure.portCode, sequence: departure.sequence, etd: departure.etd },
+    nextPortCode: nextPort?.portCode,
+    units,
+    unslotted: deckPositions.length - slotted.length,
+  };
+}
+
+// ----------------------------------------------------------------------------
+// EXPORT BAPLIE
+// ----------------------------------------------------------------------------
+
+export async function exportPlanBaplie(input: unknown) {
+  try {
+    const session = await auth();
+    if (!session?.user) return { success: false, error: 'Unauthorized' };
+
+    const { planId, portCode } = ExportBaplieSchema.parse(input);
+
+    await connectDB();
+
+    const ctx = await loadPlanBaplieContext(planId, portCode);
+    if ('error' in ctx) return { success: false, error: ctx.error };
+    if (ctx.units.length === 0) {
+      return { success: false, error: `No slotted deck containers aboard on departure from ${ctx.departure.portCode}` };
+    }
+
+    const content = buildBaplie({
+      messageRef: `${ctx.voyage.voyageNumber}${ctx.departure.sequence}`.replace(/[^A-Z0-9]/gi, '').slice(0, 14),
+      sender: BAPLIE_SENDER,
+      recipient: ctx.departure.portCode,
+      vesselName: ctx.vessel.name,
+      imoNumber: ctx.vessel.imoNumber,
+      callSign: ctx.vessel.callSign,
+      voyageNumber: ctx.voyage.voyageNumber,
+      departurePortCode: ctx.departure.portCode,
+      nextPortCode: ctx.nextPortCode,
+      etd: ctx.departure.etd ? new Date(ctx.departure.etd) : undefined,
+      preparedAt: new Date(),
+    }, ctx.units);
+
+    const warnings: string[] = [];
+    if (ctx.unslotted > 0) {
+      warnings.push(`${ctx.unslotted} deck container(s) have no bay/row/tier slot and are not in the message`);
+    }
+
+    return {
+      success: true,
+      data: {
+        filename: `${ctx.plan.planNumber}-${ctx.departure.portCode}.baplie.edi`,
+        content,
+        containers: ctx.units.length,
+        warnings,
+      },
+    };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { success: false, error: `Validation error: ${error.issues[0].message}` };
+    }
+    console.error('Error exporting BAPLIE:', error);
+    return { success: false, error: 'Failed to export BAPLIE' };
+  }
+}
+
+// ----------------------------------------------------------------------------
+// IMPORT BAPLIE (RECONCILE)
+// Read-only: compares the terminal's message with the plan, nothing is saved.
+// ----------------------------------------------------------------------------
+
+export async function reconcilePlanBaplie(input: unknown) {
+  try {
+    const session = await auth();
+    if (!session?.user) return { success: false, error: 'Unauthorized' };
+    const role = (session.user as any).role as string;
+    if (!['ADMIN', 'SHIPPING_PLANNER'].includes(role)) return { success: false, error: 'Forbidden' };
+
+    const { planId, portCode, content } = ImportBaplieSchema.parse(input);
+    const message = parseBaplie(content);
+    if (message.units.length === 0 && !message.header.voyageNumber) {
+      return { success: false, error: 'File is not a readable BAPLIE message' };
+    }
+
+    await connectDB();
+
+    // The terminal's departure port wins over the default when the caller gave none
+    const departurePort = portCode ?? (message.header.departurePortCode?.length === 5
+      ? message.header.departurePortCode
+      : undefined);
+    const ctx = await loadPlanBaplieContext(planId, departurePort);
+    if ('error' in ctx) return { success: false, error: ctx.error };
+
+    const warnings = [...message.warnings];
+    if (message.header.voyageNumber && message.header.voyageNumber !== ctx.voyage.voyageNumber) {
+      warnings.push(`Message voyage ${message.header.voyageNumber} differs from plan voyage ${ctx.voyage.voyageNumber}`);
+    }
+    if (message.header.vesselName && message.header.vesselName.toUpperCase() !== String(ctx.vessel.name).toUpperCase()) {
+      warnings.push(`Message vessel ${message.header.vesselName} differs from plan vessel ${ctx.vessel.name}`);
+    }
+    if (ctx.unslotted > 0) {
+      warnings.push(`${ctx.unslotted} deck container(s) in the plan have no slot and cannot be reconciled`);
+    }
+
+    return {
+      success: true,
+      data: {
+        departurePortCode: ctx.departure.portCode,
+        planContainers: ctx.units.length,
+        terminalContainers: message.units.length,
+        reconciliation: reconcileBaplie(ctx.units, message.units),
+        warnings,
+      },
+    };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { success: false, error: `Validation error: ${error.issues[0].message}` };
+    }
+    console.error('Error reconciling BAPLIE:', error);
+    return { success: false, error: 'Failed to reconcile BAPLIE' };
+  }
+}
@@ -8,7 +8,7 @@
 
 import { z } from 'zod';
 import connectDB from '@/lib/db/connect';
-import { BookingModel, ContractModel, VoyageModel, VesselModel, ServiceModel, OfficeModel, UserModel, SpaceForecastModel, StowagePlanModel } from '@/lib/db/schemas';
+import { BookingModel, ContractModel, VoyageModel, VesselModel, ServiceModel, UserModel, SpaceForecastModel, StowagePlanModel } from '@/lib/db/schemas';
 import {
   sendBookingReceivedToShipper,
   sendBookingCreatedOnBehalf,
@@ -19,10 +19,15 @@ import {
   sendBookingModifiedToShipper,
   sendBookingModifiedToPlanners,
   sendStandbyResolved,
+  sendStandbyOffersToPlanners,
 } from '@/lib/email';
 import type { BookingStatus } from '@/types/models';
 import { auth } from '@/auth';
 import { buildServiceFilter } from '@/lib/utils/accessFilter';
+import { loadCargoCarriageSpecs } from '@/lib/cargo-carriage';
+import { loadBookingCapacity } from '@/lib/capacity-availability';
+import { committedPallets, promoteStandbyQueue, type StandbyPromotion } from '@/lib/standby-promotion';
+import { lookupPlannerRecipients } from '@/lib/notification-recipients';
 
 // ----------------------------------------------------------------------------
 // VALIDATION SCHEMAS
@@ -55,6 +60,8 @@ const ApproveBookingSchema = z.object({
   confirmedQuantity: z.number().int().min(0),
   standbyQuantity:   z.number().int().min(0),
   rejectedQuantity:  z.number().int().min(0),
+  // Required to confirm more pallets than the capacity check allows
+  overrideReason:    z.string().trim().max(500).optional(),
 }).refine(
   data => data.confirmedQuantity + data.standbyQuantity + data.rejectedQuantity > 0,
   { message: 'At least one quantity must be greater than zero' }
@@ -102,32 +109,77 @@ async function generateBookingNumber(
 }
 
 // ----------------------------------------------------------------------------
-// PLANNER RECIPIENT LOOKUP
-// Returns all SHIPPING_PLANNER users assigned to offices that serve the given
-// serviceCode. Falls back to every confirmed SHIPPING_PLANNER if none found.
+// STANDBY PROMOTION
+// Offers pallets a booking no longer holds to the voyage's standby queue
+// (lib/standby-promotion.ts): shippers hear about auto-confirmed promotions,
+// planners about offers waiting for their approval. Never fails the caller.
 // ----------------------------------------------------------------------------
 
-async function lookupPlannerRecipients(
-  serviceCode: string
-): Promise<{ name: string; email: string }[]> {
-  const offices = await OfficeModel.find({ services: serviceCode, active: true })
-    .select('_id').lean();
-  const officeIds = (offices as any[]).map((o: any) => o._id);
-  let planners: any[] = [];
-  if (officeIds.length > 0) {
-    planners = await UserModel.find({
-      role: 'SHIPPING_PLANNER',
-      offices: { $in: officeIds },
-      emailConfirmed: true,
-    }).select('name email').lean();
-  }
-  if (planners.length === 0) {
-    planners = await UserModel.find({
-      role: 'SHIPPING_PLANNER',
-      emailConfirmed: true,
-    }).select('name email').lean();
+async function offerFreedSpace(
+  freedBy: any,
+  freedPallets: number,
+  changedBy: string,
+): Promise<StandbyPromotion[]> {
+  if (freedPallets <= 0) return [];
+  try {
+    const promotions = await promoteStandbyQueue({ freedBy, freedPallets, changedBy });
+    if (promotions.length === 0) return [];
+
+    let vesselName = freedBy.vesselName ?? '';
+    if (!vesselName && freedBy.voyageId) {
+      const voy = await VoyageModel.findById(freedBy.voyageId).select('vesselName vesselId').lean();
+      vesselName = (voy as any)?.vesselName ?? '';
+      if (!vesselName && (voy as any)?.vesselId) {
+        const ves = await VesselModel.findById((voy as any).vesselId).select('name').lean();
+        vesselName = (ves as any)?.name ?? '';
+      }
+    }
+
+    for (const promotion of promotions.filter(p => p.autoConfirmed)) {
+      const booking = await BookingModel.findById(promotion.bookingId).lean() as any;
+      const shipperUser = booking
+        ? await UserModel.findOne({ shipperId: booking.shipperId }).select('email').lean() as any
+        : null;
+      if (!shipperUser?.email) {
+        console.warn('[email] no shipper user found for booking', promotion.bookingNumber, '— skipping standby promotion email');
+        continue;
+      }
+      sendStandbyResolved(
+        { email: shipperUser.email },
+        {
+          bookingId: promotion.bookingId,
+          bookingNumber: booking.bookingNumber,
+          voyageNumber: booking.voyageNumber ?? '',
+          vesselName,
+          serviceCode: booking.serviceCode ?? '',
+          polPortName: booking.pol?.portName ?? booking.pol?.portCode ?? '',
+          podPortName: booking.pod?.portName ?? booking.pod?.portCode ?? '',
+          cargoType: booking.cargoType,
+          action: 'CONFIRM',
+          resolvedQuantity: promotion.pallets,
+          confirmedQuantity: booking.confirmedQuantity ?? 0,
+          standbyQuantity: booking.standbyQuantity ?? 0,
+          rejectedQuantity: booking.rejectedQuantity ?? 0,
+        }
+      ).catch(err => console.error('[email] standby promotion email failed:', err.message));
+    }
+
+    const offers = promotions.filter(p => !p.autoConfirmed);
+    if (offers.length > 0) {
+      const plannerRecipients = await lookupPlannerRecipients(freedBy.serviceCode ?? '');
+      sendStandbyOffersToPlanners(plannerRecipients, {
+        voyageNumber: freedBy.voyageNumber ?? '',
+        vesselName,
+        freedByBookingNumber: freedBy.bookingNumber,
+        freedPallets,
+        offers: offers.map(o => ({ bookingNumber: o.bookingNumber, shipperName: o.shipperName, pallets: o.pallets })),
+      }).catch(err => console.error('[email] standby offer planner notify failed:', err.message));
+    }
+    return promotions;
+  } catch (err) {
+    console.warn('[standby] Failed to offer freed space to the standby queue:', err);
+    return [];
   }
-  return (planners as any[]).map((p: any) => ({ name: p.name, email: p.email }));
 }
 
 // ----------------------------------------------------------------------------
@@ -155,6 +207,23 @@ export async function createBookingFromContract(data: unknown) {
       return { success: false, error: `Cargo type must be ${contract.cargoType} for this contract` };
     }
 
+    // Cargo type must be plannable (active CargoProduct or built-in default)
+    // and the requested temperature must sit inside its carriage range
+    const carriageSpecs = await loadCargoCarriageSpecs();
+    const carriage = carriageSpecs[validated.cargoType];
+    if (!carriage) {
+      return { success: false, error: `Unknown cargo type "${validated.cargoType}" — add it under Admin → Cargo Products first` };
+    }
+    if (
+      validated.requestedTemperature !== undefined &&
+      (validated.requestedTemperature < carriage.min || validated.requestedTemperature > carriage.max)
+    ) {
+      return {
+        success: false,
+        error: `Requested temperature ${validated.requestedTemperature}°C is outside the carriage range for ${carriage.label} (${carriage.min}°C – ${carriage.max}°C)`,
+      };
+    }
+
     // Prevent duplicate active bookings for same contract + voyage + shipper
     const shipperOrQuery: any[] = [{ 'shipper.code': validated.shipperCode }];
     if (validated.shipperId) shipperOrQuery.push({ shipperId: validated.shipperId });
@@ -446,8 +515,41 @@ export async function createBookingFromContract(data: unknown) {
   }
 }
 
+// ----------------------------------------------------------------------------
+// GET BOOKING CAPACITY
+// Space left for the booking on each leg between its POL and POD at its
+// temperature regime, and the suggested confirm/standby split. data is null
+// when no check applies (container cargo, ports not on the voyage).
+// ----------------------------------------------------------------------------
+
+export async function getBookingCapacity(bookingId: unknown) {
+  try {
+    const session = await auth();
+    if (!session?.user) return { success: false, error: 'Unauthorized' };
+    const role = (session.user as any).role;
+    if (role !== 'ADMIN' && role !== 'SHIPPING_PLANNER') return { success: false, error: 'Forbidden' };
+
+    const id = BookingIdSchema.parse(bookingId);
+    await connectDB();
+
+    const booking = await BookingModel.findById(id).lean();
+    if (!booking) return { success: false, error: 'Booking not found' };
+
+    const capacity = await loadBookingCapacity(booking);
+    return { success: true, data: JSON.parse(JSON.stringify(capacity)) };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { success: false, error: `Validation error: ${error.issues[0].message}` };
+    }
+    console.error('Error checking booking capacity:', error);
+    return { success: false, error: 'Failed to check booking capacity' };
+  }
+}
+
 // ----------------------------------------------------------------------------
 // APPROVE BOOKING (Full or Partial)
+// Confirming more than the space left on the booking's legs is refused unless
+// the planner gives an override reason, which is recorded on the booking.
 // ----------------------------------------------------------------------------
 
 export async function approveBooking(data: unknown) {
@@ -480,6 +582,31 @@ export async function approveBooking(data: unknown) {
       };
     }
 
+    const approvedBy = session.user.name ?? (session.user as any).email ?? 'system';
+    const capacity = await loadBookingCapacity(booking);
+    const available = capacity ? Math.max(0, capacity.available) : null;
+    if (capacity && available !== null && confirmed > available) {
+      if (!validated.overrideReason) {
+        const tightest = capacity.legs.find(l => l.available === capacity.available);
+        return {
+          success: false,
+          error: `Only ${available} ${capacity.regime.toLowerCase()} pallets are available` +
+            (tightest ? ` on ${tightest.fromPortCode} → ${tightest.toPortCode}` : '') +
+            `. Confirming ${confirmed} requires an override reason.`,
+          capacity: JSON.parse(JSON.stringify(capacity)),
+        };
+      }
+      booking.capacityOverride = {
+        reason:            validated.overrideReason,
+        availablePallets:  available,
+        confirmedQuantity: confirmed,
+        overriddenBy:      approvedBy,
+        overriddenAt:      new Date(),
+      };
+    } else {
+      booking.capacityOverride = undefined;
+    }
+
     let status: BookingStatus;
     if (confirmed === requested) {
       status = 'CONFIRMED';
@@ -496,7 +623,7 @@ export async function approveBooking(data: unknown) {
     booking.rejectedQuantity  = rejected;
     booking.status = status;
     booking.confirmedDate = new Date();
-    booking.approvedBy = session.user.name ?? (session.user as any).email ?? 'system';
+    booking.approvedBy = approvedBy;
     await booking.save();
 
     let resolvedVesselName = booking.vesselName ?? '';
@@ -602,6 +729,8 @@ export async function resolveStandby(data: unknown) {
         ? 'REJECTED'
         : 'PARTIAL';
     }
+    // Resolving the standby settles any promotion offer on it
+    booking.standbyOffer = undefined;
 
     if (!(booking as any).changelog) (booking as any).changelog = [];
     (booking as any).changelog.push({
@@ -677,12 +806,16 @@ export async function rejectBooking(data: unknown) {
       return { success: false, error: 'Booking not found' };
     }
 
+    const freedPallets = committedPallets(booking);
     booking.status = 'REJECTED';
     booking.rejectionReason = validated.rejectionReason.trim();
     booking.confirmedDate = new Date();
     booking.approvedBy = session.user.name ?? (session.user as any).email ?? 'system';
+    booking.standbyOffer = undefined;
     await booking.save();
 
+    const promotions = await offerFreedSpace(booking, freedPallets, booking.approvedBy);
+
     let resolvedVesselName = booking.vesselName ?? '';
     if (!resolvedVesselName && booking.voyageId) {
       const voy = await VoyageModel.findById(booking.voyageId).select('vesselName vesselId').lean();
@@ -722,6 +855,7 @@ export async function rejectBooking(data: unknown) {
     return {
       success: true,
       data: JSON.parse(JSON.stringify(booking)),
+      promotions,
     };
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -750,11 +884,15 @@ export async function cancelBooking(data: unknown) {
     if (!booking) return { success: false, error: 'Booking not found' };
     if (booking.status === 'CANCELLED') return { success: false, error: 'Booking is already cancelled' };
 
+    const freedPallets = committedPallets(booking);
     booking.status = 'CANCELLED';
     if (validated.reason) booking.rejectionReason = validated.reason;
     booking.approvedBy = session.user.name ?? (session.user as any).email ?? 'system';
+    booking.standbyOffer = undefined;
     await booking.save();
 
+    const promotions = await offerFreedSpace(booking, freedPallets, booking.approvedBy);
+
     let resolvedVesselName = booking.vesselName ?? '';
     if (!resolvedVesselName && booking.voyageId) {
       const voy = await VoyageModel.findById(booking.voyageId).select('vesselName vesselId').lean();
@@ -791,7 +929,7 @@ export async function cancelBooking(data: unknown) {
       }
     }
 
-    return { success: true, data: JSON.parse(JSON.stringify(booking)) };
+    return { success: true, data: JSON.parse(JSON.stringify(booking)), promotions };
   } catch (error) {
     if (error instanceof z.ZodError) {
       return { success: false, error: `Validation error: ${error.issues[0].message}` };
@@ -871,6 +1009,7 @@ export async function updateBookingQuantity(data: unknown) {
 
     const previousRequestedQty = booking.requestedQuantity;
     const previousConfirmedQty = booking.confirmedQuantity ?? 0;
+    const previousCommitted = committedPallets(booking);
     const newRequestedQty = validated.requestedQuantity ?? booking.requestedQuantity;
     const newQuantity = validated.confirmedQuantity ?? validated.requestedQuantity ?? 0;
     const previousQuantity = previousRequestedQty;
@@ -932,6 +1071,7 @@ export async function updateBookingQuantity(data: unknown) {
       fromValue: isAgencyEdit ? String(previousConfirmedQty) : String(previousRequestedQty),
       toValue: isAgencyEdit ? String(validated.confirmedQuantity) : String(newRequestedQty),
     });
+    if (booking.status === 'CANCELLED' || booking.status === 'REJECTED') booking.standbyOffer = undefined;
 
     await booking.save();
 
@@ -984,6 +1124,12 @@ export async function updateBookingQuantity(data: unknown) {
       console.warn('[forecast-sync] Failed to sync SpaceForecasts after booking quantity change:', err);
     }
 
+    const promotions = await offerFreedSpace(
+      booking,
+      previousCommitted - committedPallets(booking),
+      session.user.name ?? (session.user as any).email ?? 'system',
+    );
+
     let resolvedVesselName = booking.vesselName ?? '';
     if (!resolvedVesselName && booking.voyageId) {
       const voy = await VoyageModel.findById(booking.voyageId).select('vesselName vesselId').lean();
@@ -1025,7 +1171,7 @@ export async function updateBookingQuantity(data: unknown) {
       }
     }
 
-    return { success: true, data: JSON.parse(JSON.stringify(booking)) };
+    return { success: true, data: JSON.parse(JSON.stringify(booking)), promotions };
   } catch (error) {
     if (error instanceof z.ZodError) {
       return { success: false, error: `Validation error: ${error.issues[0].message}` };
@@ -11,6 +11,7 @@ import connectDB from '@/lib/db/connect';
 import { CompatibilityGroupModel, CargoProductModel } from '@/lib/db/schemas';
 import { auth } from '@/auth';
 import { toUpperCode, toTitleCase } from '@/lib/utils/normalize';
+import { loadCargoCarriageSpecs } from '@/lib/cargo-carriage';
 
 // ----------------------------------------------------------------------------
 // HELPERS
@@ -52,11 +53,40 @@ const UpdateCompatibilityGroupSchema = z.object({
   active:         z.boolean().optional(),
 });
 
+const CarriageTempSchema = z.number().min(-40, 'Temperature must be at least -40°C').max(40, 'Temperature must be at most +40°C');
+
+const HumiditySchema = z.object({
+  min: z.number().min(0).max(100),
+  max: z.number().min(0).max(100),
+}).refine(h => h.min <= h.max, { message: 'Humidity min must not exceed max' });
+
+const GasBandSchema = z.object({
+  min: z.number().min(0).max(21),
+  max: z.number().min(0).max(21),
+}).refine(b => b.min <= b.max, { message: 'Gas band min must not exceed max' });
+
+// CA needs both O2 and CO2 bands; regular atmosphere carries none
+const AtmosphereSchema = z.object({
+  mode: z.enum(['REGULAR', 'CA']),
+  o2:   GasBandSchema.optional(),
+  co2:  GasBandSchema.optional(),
+}).refine(a => a.mode === 'REGULAR' || (a.o2 && a.co2), {
+  message: 'Controlled atmosphere requires O2 and CO2 ranges',
+}).transform(a => (a.mode === 'CA' ? a : { mode: a.mode }));
+
 const CreateCargoProductSchema = z.object({
   code:                 z.string().min(2, 'Code must be at least 2 characters').max(50),
   name:                 z.string().min(1, 'Name is required').max(200),
   shortLabel:           z.string().min(1, 'Short label is required').max(4, 'Short label must be at most 4 characters'),
   compatibilityGroupId: z.string().min(1, 'Compatibility group is required'),
+  temperature:          CarriageTempSchema,
+  minCarriageTemp:      CarriageTempSchema,
+  maxCarriageTemp:      CarriageTempSchema,
+  humidity:             HumiditySchema.optional(),
+  ventilation:          z.number().min(0).max(100).optional(),
+  atmosphere:           AtmosphereSchema.optional(),
+  ethyleneSensitive:    z.boolean().default(false),
+  ethyleneProducer:     z.boolean().default(false),
   notes:                z.string().max(500).optional(),
 });
 
@@ -64,11 +94,27 @@ const UpdateCargoProductSchema = z.object({
   name:                 z.string().min(1, 'Name is required').max(200).optional(),
   shortLabel:           z.string().min(1, 'Short label is required').max(4, 'Short label must be at most 4 characters').optional(),
   compatibilityGroupId: z.string().min(1, 'Compatibility group is required').optional(),
-  temperature:          z.number().optional(),
+  temperature:          CarriageTempSchema.optional(),
+  minCarriageTemp:      CarriageTempSchema.optional(),
+  maxCarriageTemp:      CarriageTempSchema.optional(),
+  humidity:             HumiditySchema.optional(),
+  ventilation:          z.number().min(0).max(100).optional(),
+  atmosphere:           AtmosphereSchema.optional(),
+  ethyleneSensitive:    z.boolean().optional(),
+  ethyleneProducer:     z.boolean().optional(),
   notes:                z.string().max(500).optional(),
   active:               z.boolean().optional(),
 });
 
+// Set point must sit inside the carriage range
+function checkCarriageRange(temperature: number, min: number, max: number): string | null {
+  if (min > max) return 'Minimum carriage temperature must not exceed the maximum';
+  if (temperature < min || temperature > max) {
+    return `Transport temperature ${temperature}°C is outside the carriage range (${min}°C – ${max}°C)`;
+  }
+  return null;
+}
+
 // ============================================================================
 // COMPATIBILITY GROUP ACTIONS
 // ============================================================================
@@ -205,6 +251,23 @@ export async function getCargoProducts() {
   }
 }
 
+/**
+ * Carriage requirements per cargo code (active products merged over the
+ * built-in defaults). Used by UI that checks temperatures against cargo.
+ */
+export async function getCargoCarriageSpecs() {
+  try {
+    const session = await auth();
+    if (!session?.user) return { success: false, data: {}, error: 'Unauthorized' };
+
+    const specs = await loadCargoCarriageSpecs();
+    return { success: true, data: specs };
+  } catch (error) {
+    console.error('Error fetching cargo carriage specs:', error);
+    return { success: false, data: {}, error: 'Failed to fetch cargo carriage specs' };
+  }
+}
+
 export async function createCargoProduct(data: unknown) {
   try {
     const auth_result = await requireMutatingRole();
@@ -215,6 +278,9 @@ export async function createCargoProduct(data: unknown) {
 
     const code = toUpperCode(validated.code);
 
+    const rangeError = checkCarriageRange(validated.temperature, validated.minCarriageTemp, validated.maxCarriageTemp);
+    if (rangeError) return { success: false, error: rangeError };
+
     const exists = await CargoProductModel.findOne({ code });
     if (exists) {
       return { success: false, error: `Cargo product code "${code}" already exists` };
@@ -231,6 +297,14 @@ export async function createCargoProduct(data: unknown) {
       shortLabel:             toUpperCode(validated.shortLabel),
       compatibilityGroupId:   validated.compatibilityGroupId,
       compatibilityGroupCode: group.groupCode,
+      temperature:            validated.temperature,
+      minCarriageTemp:        validated.minCarriageTemp,
+      maxCarriageTemp:        validated.maxCarriageTemp,
+      humidity:               validated.humidity,
+      ventilation:            validated.ventilation,
+      atmosphere:             validated.atmosphere,
+      ethyleneSensitive:      validated.ethyleneSensitive,
+      ethyleneProducer:       validated.ethyleneProducer,
       notes:                  validated.notes?.trim(),
       createdBy:              createdByLabel(auth_result.session),
     });
@@ -259,6 +333,25 @@ export async function updateCargoProduct(id: string, data: unknown) {
     if (validated.temperature !== undefined) setFields.temperature = validated.temperature;
     if (validated.notes       !== undefined) setFields.notes       = validated.notes.trim();
     if (validated.active      !== undefined) setFields.active      = validated.active;
+    if (validated.minCarriageTemp   !== undefined) setFields.minCarriageTemp   = validated.minCarriageTemp;
+    if (validated.maxCarriageTemp   !== undefined) setFields.maxCarriageTemp   = validated.maxCarriageTemp;
+    if (validated.humidity          !== undefined) setFields.humidity          = validated.humidity;
+    if (validated.ventilation       !== undefined) setFields.ventilation       = validated.ventilation;
+    if (validated.atmosphere        !== undefined) setFields.atmosphere        = validated.atmosphere;
+    if (validated.ethyleneSensitive !== undefined) setFields.ethyleneSensitive = validated.ethyleneSensitive;
+    if (validated.ethyleneProducer  !== undefined) setFields.ethyleneProducer  = validated.ethyleneProducer;
+
+    // Validate the resulting set point / range against the stored values
+    if (validated.temperature !== undefined || validated.minCarriageTemp !== undefined || validated.maxCarriageTemp !== undefined) {
+      const current = await CargoProductModel.findById(id)
+        .select('temperature minCarriageTemp maxCarriageTemp').lean() as any;
+      if (!current) return { success: false, error: 'Cargo product not found' };
+      const temperature = validated.temperature ?? current.temperature;
+      const min = validated.minCarriageTemp ?? current.minCarriageTemp ?? temperature - 1;
+      const max = validated.maxCarriageTemp ?? current.maxCarriageTemp ?? temperature + 1;
+      const rangeError = checkCarriageRange(temperature, min, max);
+      if (rangeError) return { success: false, error: rangeError };
+    }
 
     // If group is changing, re-resolve the denormalized code
     if (validated.compatibilityGroupId !== undefined) {
@@ -0,0 +1,101 @@
+// ============================================================================
+// SCHEDULED JOB SERVER ACTIONS
+// Admin view of the job registry (lib/jobs): definitions, run history and
+// lock state, plus manual runs
+// ============================================================================
+
+'use server'
+
+import { z } from 'zod';
+import { auth } from '@/auth';
+import connectDB from '@/lib/db/connect';
+import { JobLockModel, JobRunModel } from '@/lib/db/schemas';
+import { JOBS, JOB_TIMEZONE } from '@/lib/jobs/definitions';
+import { runJob } from '@/lib/jobs/runner';
+
+const RECENT_RUNS_PER_JOB = 10;
+
+const JobNameSchema = z.string().refine(
+  name => JOBS.some(j => j.name === name),
+  'Unknown job',
+);
+
+// ----------------------------------------------------------------------------
+// GET JOBS
+// ----------------------------------------------------------------------------
+
+export async function getJobs() {
+  try {
+    const session = await auth();
+    if (!session?.user) return { success: false, data: [], error: 'Unauthorized' };
+    if ((session.user as any).role !== 'ADMIN') return { success: false, data: [], error: 'Forbidden' };
+
+    await connectDB();
+
+    const now = new Date();
+    const locks = await JobLockModel.find({ _id: { $in: JOBS.map(j => j.name) } }).lean();
+    const lockByJob = new Map((locks as any[]).map(l => [l._id, l]));
+
+    const data = await Promise.all(JOBS.map(async job => {
+      const recentRuns = await JobRunModel.find({ jobName: job.name })
+        .sort({ startedAt: -1 })
+        .limit(RECENT_RUNS_PER_JOB)
+        .lean();
+      const lastError = (recentRuns as any[]).find(r => r.status === 'FAILED')
+        ?? await JobRunModel.findOne({ jobName: job.name, status: 'FAILED' }).sort({ startedAt: -1 }).lean();
+      const lock: any = lockByJob.get(job.name);
+      const locked = !!lock?.lockedUntil && new Date(lock.lockedUntil) > now;
+
+      return {
+        name: job.name,
+        label: job.label,
+        description: job.description,
+        schedule: job.schedule,
+        scheduleLabel: job.scheduleLabel,
+        timezone: JOB_TIMEZONE,
+        lastRun: recentRuns[0] ?? null,
+        lastError: lastError ?? null,
+        recentRuns,
+        lockedBy: locked ? lock.lockedBy : null,
+        lockedUntil: locked ? lock.lockedUntil : null,
+      };
+    }));
+
+    return { success: true, data: JSON.parse(JSON.stringify(data)) };
+  } catch (error) {
+    console.error('Error fetching jobs:', error);
+    return { success: false, data: [], error: 'Failed to fetch jobs' };
+  }
+}
+
+// ----------------------------------------------------------------------------
+// RUN JOB NOW
+// Runs the job in this request and waits for it to finish
+// ----------------------------------------------------------------------------
+
+export async function runJobNow(jobName: unknown) {
+  try {
+    const session = await auth();
+    if (!session?.user) return { success: false, error: 'Unauthorized' };
+    if ((session.user as any).role !== 'ADMIN') return { success: false, error: 'Forbidden' };
+
+    const name = JobNameSchema.parse(jobName);
+    const triggeredBy = session.user.name ?? (session.user as any).email ?? 'system';
+
+    const result = await runJob(name, 'MANUAL', triggeredBy);
+    if (!result.ran) {
+      return {
+        success: false,
+        error: result.reason === 'LOCKED' ? 'Job is already running' : 'Unknown job',
+      };
+    }
+
+    return { success: true, data: result };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { success: false, error: `Validation error: ${error.issues[0].message}` };
+    }
+    console.error('Error running job:', error);
+    return { success: false, error: 'Failed to run job' };
+  }
+}
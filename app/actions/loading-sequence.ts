@@ -0,0 +1,242 @@
+// ============================================================================
+// LOADING SEQUENCE SERVER ACTIONS
+// Generates the work order for each LOAD port call of a plan, stores it on the
+// plan (StowagePlan.loadingSequence) and ticks steps off from the stevedore
+// checklist. Sequencing lives in lib/loading-sequence.ts; the PDF is served by
+// /api/stowage-plans/[id]/loading-sequence.
+// ============================================================================
+
+'use server'
+
+import { z } from 'zod';
+import connectDB from '@/lib/db/connect';
+import { StowagePlanModel, VoyageModel, PortModel } from '@/lib/db/schemas';
+import { auth } from '@/auth';
+import {
+  buildLoadingSequences,
+  DEFAULT_LOADING_GANGS,
+  DEFAULT_PALLETS_PER_HOUR,
+  type LoadingRate,
+} from '@/lib/loading-sequence';
+import type { LoadingSequence } from '@/types/models';
+
+// ----------------------------------------------------------------------------
+// VALIDATION SCHEMAS
+// ----------------------------------------------------------------------------
+
+const PlanIdSchema = z.string().min(1, 'Plan ID is required');
+
+const GenerateLoadingSequenceSchema = z.object({
+  planId: PlanIdSchema,
+  // Per-port overrides of the Port master rates, for this sequence only
+  rates: z.array(z.object({
+    portCode: z.string().min(1),
+    palletsPerHour: z.number().positive('Pallets per hour must be positive').max(1000),
+    gangs: z.number().int().min(1, 'At least one gang is required').max(10),
+  })).optional(),
+});
+
+const SetLoadingStepDoneSchema = z.object({
+  planId: PlanIdSchema,
+  portCode: z.string().min(1),
+  step: z.number().int().positive(),
+  done: z.boolean(),
+});
+
+// ----------------------------------------------------------------------------
+// HELPERS
+// ----------------------------------------------------------------------------
+
+const loadingSequencePdfUrl = (planId: string) => `/api/stowage-plans/${planId}/loading-sequence`;
+
+// Pallets-per-hour and gangs from the Port master, defaults where unset
+async function loadPortRates(portCodes: string[]): Promise<Record<string, LoadingRate>> {
+  const ports = await PortModel.find({ unlocode: { $in: portCodes } })
+    .select('unlocode palletsPerHour loadingGangs')
+    .lean() as any[];
+  const byCode = new Map(ports.map(p => [p.unlocode as string, p]));
+  return Object.fromEntries(portCodes.map(code => [code, {
+    palletsPerHour: byCode.get(code)?.palletsPerHour ?? DEFAULT_PALLETS_PER_HOUR,
+    gangs: byCode.get(code)?.loadingGangs ?? DEFAULT_LOADING_GANGS,
+  }]));
+}
+
+const loadPortCodes = (voyage: any): string[] => [...new Set<string>(
+  (voyage?.portCalls ?? [])
+    .filter((pc: any) => pc.operations?.includes('LOAD') && pc.status !== 'CANCELLED' && pc.status !== 'SKIPPED')
+    .map((pc: any) => pc.portCode),
+)];
+
+// ----------------------------------------------------------------------------
+// GET LOADING SEQUENCE
+// Stored sequence plus the rates a new one would use. `stale` = the plan was
+// edited after the sequence was generated.
+// ----------------------------------------------------------------------------
+
+export async function getLoadingSequence(id: unknown) {
+  try {
+    const session = await auth();
+    if (!session?.user) return { success: false, error: 'Unauthorized' };
+
+    const planId = PlanIdSchema.parse(id);
+
+    await connectDB();
+
+    const plan = await StowagePlanModel.findById(planId)
+      .select('planNumber status voyageId voyageNumber vesselName lastEditedAt loadingSequence')
+      .lean() as any;
+    if (!plan) return { success: false, error: 'Plan not found' };
+
+    const voyage = await VoyageModel.findById(plan.voyageId).select('serviceCode portCalls').lean() as any;
+
+    const role = (session.user as any).role as string;
+    const serviceFilter: string[] = (session.user as any).serviceFilter ?? [];
+    if (!['ADMIN', 'SUPERUSER'].includes(role) && serviceFilter.length > 0 &&
+        voyage?.serviceCode && !serviceFilter.includes(voyage.serviceCode)) {
+      return { success: false, error: 'Access denied' };
+    }
+
+    const sequence: LoadingSequence | null = plan.loadingSequence?.generatedAt ? plan.loadingSequence : null;
+    const rates = await loadPortRates(loadPortCodes(voyage));
+
+    return {
+      success: true,
+      data: JSON.parse(JSON.stringify({
+        planNumber: plan.planNumber,
+        status: plan.status,
+        voyageNumber: plan.voyageNumber,
+        vesselName: plan.vesselName,
+        sequence,
+        rates,
+        stale: !!sequence && !!plan.lastEditedAt && new Date(plan.lastEditedAt) > new Date(sequence.generatedAt),
+        pdfUrl: sequence ? loadingSequencePdfUrl(planId) : null,
+      })),
+    };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { success: false, error: `Validation error: ${error.issues[0].message}` };
+    }
+    console.error('Error fetching loading sequence:', error);
+    return { success: false, error: 'Failed to fetch loading sequence' };
+  }
+}
+
+// ----------------------------------------------------------------------------
+// GENERATE LOADING SEQUENCE
+// Replaces the stored sequence. Steps that survive unchanged (same port,
+// section and pallets) keep their checklist ticks.
+// ----------------------------------------------------------------------------
+
+export async function generateLoadingSequence(input: unknown) {
+  try {
+    const session = await auth();
+    if (!session?.user) return { success: false, error: 'Unauthorized' };
+    const role = (session.user as any).role as string;
+    if (!['ADMIN', 'SHIPPING_PLANNER'].includes(role)) return { success: false, error: 'Forbidden' };
+
+    const { planId, rates: overrides } = GenerateLoadingSequenceSchema.parse(input);
+
+    await connectDB();
+
+    const plan = await StowagePlanModel.findById(planId)
+      .select('voyageId cargoPositions loadingSequence')
+      .lean() as any;
+    if (!plan) return { success: false, error: 'Plan not found' };
+
+    const voyage = await VoyageModel.findById(plan.voyageId).select('portCalls').lean() as any;
+    if (!voyage) return { success: false, error: 'Voyage not found' };
+
+    const rates = await loadPortRates(loadPortCodes(voyage));
+    for (const o of overrides ?? []) rates[o.portCode] = { palletsPerHour: o.palletsPerHour, gangs: o.gangs };
+
+    const ports = buildLoadingSequences({
+      cargoPositions: plan.cargoPositions ?? [],
+      portCalls: voyage.portCalls ?? [],
+      rates,
+    });
+    if (ports.length === 0) return { success: false, error: 'No cargo is loaded at any LOAD port of this voyage' };
+
+    const previousSteps = new Map<string, any>();
+    for (const port of plan.loadingSequence?.ports ?? []) {
+      for (const step of port.steps ?? []) {
+        if (step.doneAt) previousSteps.set(`${port.portCode}|${step.sectionId}|${step.pallets}`, step);
+      }
+    }
+    for (const port of ports) {
+      for (const step of port.steps) {
+        const previous = previousSteps.get(`${port.portCode}|${step.sectionId}|${step.pallets}`);
+        if (previous) {
+          step.doneAt = previous.doneAt;
+          step.doneBy = previous.doneBy;
+        }
+      }
+    }
+
+    const loadingSequence: LoadingSequence = {
+      generatedAt: new Date(),
+      generatedBy: session.user.name ?? (session.user as any).email ?? 'system',
+      ports,
+    };
+    await StowagePlanModel.updateOne({ _id: planId }, {
+      $set: {
+        loadingSequence,
+        'generatedDocuments.loadingSequencePDF': loadingSequencePdfUrl(planId),
+      },
+    });
+
+    const steps = ports.reduce((sum, p) => sum + p.steps.length, 0);
+    return {
+      success: true,
+      data: JSON.parse(JSON.stringify(loadingSequence)),
+      message: `Loading sequence generated: ${steps} step(s) across ${ports.length} port(s)`,
+    };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { success: false, error: `Validation error: ${error.issues[0].message}` };
+    }
+    console.error('Error generating loading sequence:', error);
+    return { success: false, error: 'Failed to generate loading sequence' };
+  }
+}
+
+// ----------------------------------------------------------------------------
+// SET LOADING STEP DONE
+// Checklist tick from the stevedore view (or untick).
+// ----------------------------------------------------------------------------
+
+export async function setLoadingStepDone(input: unknown) {
+  try {
+    const session = await auth();
+    if (!session?.user) return { success: false, error: 'Unauthorized' };
+    const role = (session.user as any).role as string;
+    if (!['ADMIN', 'SHIPPING_PLANNER', 'STEVEDORE'].includes(role)) return { success: false, error: 'Forbidden' };
+
+    const { planId, portCode, step, done } = SetLoadingStepDoneSchema.parse(input);
+
+    await connectDB();
+
+    const doneBy = session.user.name ?? (session.user as any).email ?? 'system';
+    const doneAt = new Date();
+    const path = 'loadingSequence.ports.$[port].steps.$[step]';
+    const result = await StowagePlanModel.updateOne(
+      { _id: planId },
+      done
+        ? { $set: { [`${path}.doneAt`]: doneAt, [`${path}.doneBy`]: doneBy } }
+        : { $unset: { [`${path}.doneAt`]: '', [`${path}.doneBy`]: '' } },
+      { arrayFilters: [{ 'port.portCode': portCode }, { 'step.step': step }] },
+    );
+    if (result.matchedCount === 0) return { success: false, error: 'Plan not found' };
+    if (result.modifiedCount === 0 && done) return { success: false, error: 'Step not found' };
+
+    return {
+      success: true,
+      data: JSON.parse(JSON.stringify(done ? { doneAt, doneBy } : { doneAt: null, doneBy: null })),
+    };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { success: false, error: `Validation error: ${error.issues[0].message}` };
+    }
+    console.error('Error updating loading step:', error);
+    return { success: false, error: 'Failed to update loading step' };
+  }
+}
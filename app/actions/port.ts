@@ -35,6 +35,9 @@ const UpdatePortSchema = z.object({
   latitude:    z.number().min(-90).max(90).optional(),
   longitude:   z.number().min(-180).max(180).optional(),
   active:      z.boolean().optional(),
+  // Loading sequence rates — null clears back to the defaults
+  palletsPerHour: z.number().positive('Pallets per hour must be positive').max(1000).nullable().optional(),
+  loadingGangs:   z.number().int().min(1, 'At least one gang is required').max(10).nullable().optional(),
 });
 
 // ----------------------------------------------------------------------------
@@ -56,6 +59,8 @@ export async function getPorts() {
         weatherCity: p.weatherCity,
         latitude:    p.latitude,
         longitude:   p.longitude,
+        palletsPerHour: p.palletsPerHour,
+        loadingGangs:   p.loadingGangs,
         active:      p.active ?? true,
       })),
     };
@@ -129,6 +134,16 @@ export async function updatePort(id: unknown, input: unknown) {
     if (data.latitude    !== undefined) update.latitude    = data.latitude;
     if (data.longitude   !== undefined) update.longitude   = data.longitude;
     if (data.active      !== undefined) update.active      = data.active;
+    const unset: Record<string, ''> = {};
+    if (data.palletsPerHour !== undefined) {
+      if (data.palletsPerHour === null) unset.palletsPerHour = '';
+      else update.palletsPerHour = data.palletsPerHour;
+    }
+    if (data.loadingGangs !== undefined) {
+      if (data.loadingGangs === null) unset.loadingGangs = '';
+      else update.loadingGangs = data.loadingGangs;
+    }
+    if (Object.keys(unset).length > 0) update.$unset = unset;
 
     const port = await PortModel.findByIdAndUpdate(portId, update, { new: true }).lean() as any;
     if (!port) return { success: false, error: 'Port not found' };
@@ -144,6 +159,8 @@ export async function updatePort(id: unknown, input: unknown) {
         weatherCity: port.weatherCity,
         latitude:    port.latitude,
         longitude:   port.longitude,
+        palletsPerHour: port.palletsPerHour,
+        loadingGangs:   port.loadingGangs,
         active:      port.active ?? true,
       },
     };
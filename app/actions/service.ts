@@ -44,6 +44,11 @@ const CreateServiceSchema = z.object({
   portRotation: z.array(RoutePortSchema).min(2, 'Port rotation must have at least 2 ports'),
   vessels: z.array(z.string()).optional().default([]),
   active: z.boolean().optional().default(true),
+  standbyPolicy: z.object({
+    order: z.enum(['FIFO', 'CONTRACT_PRIORITY', 'CARGO_FIT']),
+    autoConfirmMaxPallets: z.number().int().min(0).max(10000),
+  }).optional(),
+  bookingDeadlineReminderHours: z.array(z.number().int().positive().max(24 * 30)).max(5).optional(),
 });
 
 const UpdateServiceSchema = CreateServiceSchema.partial();
@@ -12,10 +12,10 @@ import {
   VoyageModel,
   ContractModel,
   StowagePlanModel,
-  BookingModel,
 } from '@/lib/db/schemas';
 import type { SpaceForecast, SpaceForecastSource, SpaceForecastPlanImpact } from '@/types/models';
 import { auth } from '@/auth';
+import { expireVoyageForecasts } from '@/lib/forecast-housekeeping';
 
 // ----------------------------------------------------------------------------
 // VALIDATION SCHEMAS
@@ -471,43 +471,8 @@ export async function expireForecasts(voyageId: string): Promise<{
       return { success: false, expiredCount: 0, error: 'Booking deadline has not passed yet' };
     }
 
-    const activeForecasts = await SpaceForecastModel.find({
-      voyageId,
-      planImpact: { $in: ['PENDING_REVIEW', 'INCORPORATED'] },
-    }).select('_id contractId shipperId').lean();
-
-    if (activeForecasts.length === 0) {
-      return { success: true, expiredCount: 0 };
-    }
-
-    const toExpireIds: string[] = [];
-    for (const fc of activeForecasts as any[]) {
-      const booking = await BookingModel.findOne({
-        contractId: fc.contractId,
-        voyageId,
-        shipperId: fc.shipperId,
-        status: { $in: ['CONFIRMED', 'PARTIAL', 'PENDING'] },
-      }).select('_id').lean();
-      if (!booking) {
-        toExpireIds.push(fc._id.toString());
-      }
-    }
-
-    if (toExpireIds.length === 0) {
-      return { success: true, expiredCount: 0 };
-    }
-
-    await SpaceForecastModel.updateMany(
-      { _id: { $in: toExpireIds } },
-      { $set: { planImpact: 'EXPIRED' } }
-    );
-
-    await StowagePlanModel.updateMany(
-      { voyageId, status: { $nin: ['COMPLETED', 'CANCELLED'] } },
-      { $addToSet: { expiredForecasts: { $each: toExpireIds } } }
-    );
-
-    return { success: true, expiredCount: toExpireIds.length };
+    const expired = await expireVoyageForecasts(voyageId);
+    return { success: true, expiredCount: expired.length };
   } catch (err: any) {
     return { success: false, expiredCount: 0, error: err.message ?? 'Failed to expire forecasts' };
   }
@@ -12,8 +12,23 @@
 
 import { z } from 'zod';
 import connectDB from '@/lib/db/connect';
-import { StowagePlanModel, VesselModel } from '@/lib/db/schemas';
-import type { PreliminaryStabilityEstimate } from '@/types/models';
+import { StowagePlanModel, VesselModel, VoyageModel } from '@/lib/db/schemas';
+import { auth } from '@/auth';
+import { calculateFloatingCondition, type FloatingCondition } from '@/lib/stability/hydrostatics';
+import { calculateTankLoads, proposeTrimBallast } from '@/lib/stability/tanks';
+import {
+  STABILITY_SERVICE_CONTRACT_VERSION,
+  StabilityServiceError,
+  checkStabilityServiceHealth,
+  requestStabilityCalculation,
+  type StabilityServiceConditionResult,
+  type StabilityServiceRequest,
+} from '@/lib/stability/service-client';
+import { findSectionCompartment, getSectionArms, getVesselDimensions } from '@/lib/stowage-engine/geometry';
+import { findDeckStack, getDeckSlotArms } from '@/lib/stowage-engine/deck';
+import { resolveWeightPerUnit } from '@/lib/stowage-engine/weights';
+import { resolveCargoLeg } from '@/lib/cargo-leg';
+import type { DepartureCondition, PreliminaryStabilityEstimate, TankLevel } from '@/types/models';
 
 // ----------------------------------------------------------------------------
 // VALIDATION SCHEMAS
@@ -21,9 +36,20 @@ import type { PreliminaryStabilityEstimate } from '@/types/models';
 
 const StowagePlanIdSchema = z.string().min(1, 'Plan ID is required');
 
+const UpdateTankPlanSchema = z.object({
+  planId: z.string().min(1, 'Plan ID is required'),
+  portSequence: z.number().int().min(0),
+  levels: z.array(z.object({
+    tankId: z.string().min(1),
+    fillPercent: z.number().min(0).max(100),
+  })),
+  source: z.enum(['PLANNER', 'BALLAST_PROPOSAL']).optional().default('PLANNER'),
+});
+
 // ----------------------------------------------------------------------------
 // CALCULATE PRELIMINARY STABILITY
-// Estimates GM, Trim, List, and Drafts for planning purposes
+// Estimates GM, Trim, List, and Drafts for planning purposes.
+// Requires vessel.stability.hydrostatics + lpp (see importHydrostaticTables).
 // ----------------------------------------------------------------------------
 
 export async function calculatePreliminaryStability(planId: unknown) {
@@ -42,99 +68,185 @@ export async function calculatePreliminaryStability(planId: unknown) {
       return { success: false, error: 'Vessel not found' };
     }
     
-    // Calculate total weight
-    const totalCargoWeight = plan.cargoPositions.reduce(
-      (sum: number, pos: any) => sum + (pos.weight ?? 0),
-      0
-    );
+    if (!hasHydrostatics(vessel)) {
+      return { success: false, error: NO_HYDROSTATICS_ERROR };
+    }
     
-    // Simple preliminary calculations (will be replaced with Python microservice)
-    const displacement = vessel.stability.lightship.weight + (totalCargoWeight / 1000); // Convert kg to tons
+    const stabilityEstimate = estimatePreliminaryStability(plan, vessel);
+    const warnings = stabilityEstimate.preliminaryCheck.warnings;
     
-    // Estimate centers of gravity (simplified)
-    const estimatedLCG = calculateWeightedLCG(plan, vessel);
-    const estimatedVCG = calculateWeightedVCG(plan, vessel);
-    const estimatedTCG = calculateWeightedTCG(plan, vessel);
+    // Update plan with stability estimate
+    plan.preliminaryStability = stabilityEstimate;
+    await plan.save();
     
-    // Estimate GM (very simplified - proper calculation needs hydrostatic tables)
-    const estimatedKG = estimatedVCG;
-    const estimatedKM = 10.0; // Placeholder - should come from vessel's hydrostatic tables
-    const estimatedGM = estimatedKM - estimatedKG;
+    return {
+      success: true,
+      data: JSON.parse(JSON.stringify(stabilityEstimate)),
+      withinLimits: warnings.length === 0,
+    };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        error: `Validation error: ${error.issues[0].message}`,
+      };
+    }
+    console.error('Error calculating stability:', error);
+    return {
+      success: false,
+      error: 'Failed to calculate stability',
+    };
+  }
+}
+
+// ----------------------------------------------------------------------------
+// CALCULATE DEPARTURE CONDITIONS
+// One full loading condition per LOAD/DISCHARGE port call of the voyage.
+// Cargo is aboard at departure from port N when polSeq <= N < podSeq, so the
+// worst condition is often mid-rotation rather than at the first departure.
+// ----------------------------------------------------------------------------
+
+export async function calculateDepartureConditions(planId: unknown) {
+  try {
+    const id = StowagePlanIdSchema.parse(planId);
     
-    // Estimate trim (simplified)
-    const lpp = vessel.dimensions.loa * 0.95; // Length between perpendiculars (approx)
-    const estimatedTrim = (estimatedLCG * displacement) / (lpp * 100); // Very simplified
+    await connectDB();
     
-    // Estimate list (simplified)
-    const estimatedList = Math.atan(estimatedTCG / estimatedGM) * (180 / Math.PI);
+    const plan = await StowagePlanModel.findById(id);
+    if (!plan) {
+      return { success: false, error: 'Plan not found' };
+    }
     
-    // Estimate drafts (simplified)
-    const meanDraft = displacement / (vessel.dimensions.loa * vessel.dimensions.beam * 0.7); // Very simplified
-    const trimEffect = estimatedTrim / 2;
+    const [vessel, voyage] = await Promise.all([
+      VesselModel.findById(plan.vesselId).lean(),
+      VoyageModel.findById(plan.voyageId).select('portCalls').lean(),
+    ]) as [any, any];
+    if (!vessel) {
+      return { success: false, error: 'Vessel not found' };
+    }
+    if (!voyage) {
+      return { success: false, error: 'Voyage not found' };
+    }
+    if (!hasHydrostatics(vessel)) {
+      return { success: false, error: NO_HYDROSTATICS_ERROR };
+    }
     
-    const estimatedDrafts = {
-      forward: meanDraft - trimEffect,
-      aft: meanDraft + trimEffect,
-      mean: meanDraft,
-    };
+    const portCalls = cargoPortCalls(voyage);
+    if (portCalls.length === 0) {
+      return { success: false, error: 'Voyage has no LOAD/DISCHARGE port calls' };
+    }
     
-    // Validate against reference limits
-    const warnings: string[] = [];
-    const notes: string[] = [];
+    const positions: any[] = plan.cargoPositions ?? [];
+    const legs = positions.map(pos => cargoLegBounds(pos, portCalls));
     
-    if (estimatedGM < vessel.stability.referenceLimits.minGM) {
-      warnings.push(
-        `GM below minimum reference (${estimatedGM.toFixed(2)}m < ${vessel.stability.referenceLimits.minGM}m)`
+    const departureConditions: DepartureCondition[] = portCalls.map(pc => {
+      const aboard = positions.filter((_, i) =>
+        legs[i].polSeq <= pc.sequence && legs[i].podSeq > pc.sequence
       );
+      const loading = computeLoadingCondition(vessel, aboard, tankLevelsAtPort(plan.tankPlan, pc.sequence));
+      const warnings = checkReferenceLimits(vessel, loading);
+      
+      return {
+        portCode: pc.portCode,
+        portName: pc.portName,
+        sequence: pc.sequence,
+        operations: pc.operations ?? [],
+        palletsAboard: aboard.reduce((sum, pos) => sum + (pos.quantity ?? 0), 0),
+        cargoWeight: loading.cargoWeight,
+        tankWeight: loading.tankWeight,
+        displacement: loading.displacement,
+        kg: loading.kg,
+        lcg: loading.lcg,
+        tcg: loading.tcg,
+        gm: loading.condition.gm,
+        freeSurfaceCorrection: loading.condition.freeSurfaceCorrection,
+        trim: loading.condition.trim,
+        list: loading.condition.list,
+        drafts: loading.condition.drafts,
+        withinReferenceLimits: warnings.length === 0,
+        warnings,
+      };
+    });
+    
+    plan.departureConditions = departureConditions;
+    plan.departureConditionsCalculatedAt = new Date();
+    await plan.save();
+    
+    return {
+      success: true,
+      data: JSON.parse(JSON.stringify(departureConditions)),
+      withinLimits: departureConditions.every(c => c.withinReferenceLimits),
+    };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        error: `Validation error: ${error.issues[0].message}`,
+      };
     }
+    console.error('Error calculating departure conditions:', error);
+    return {
+      success: false,
+      error: 'Failed to calculate departure conditions',
+    };
+  }
+}
+
+// ----------------------------------------------------------------------------
+// UPDATE TANK PLAN
+// Stores planned tank fill levels at departure from one port call.
+// Levels carry forward to later ports until another entry overrides them.
+// ----------------------------------------------------------------------------
+
+export async function updateTankPlan(input: unknown) {
+  try {
+    const session = await auth();
+    if (!session?.user) return { success: false, error: 'Unauthorized' };
+    const role = (session.user as any).role as string;
+    if (!['ADMIN', 'SHIPPING_PLANNER'].includes(role)) return { success: false, error: 'Forbidden' };
+
+    const data = UpdateTankPlanSchema.parse(input);
     
-    if (Math.abs(estimatedTrim) > vessel.stability.referenceLimits.maxTrim) {
-      warnings.push(
-        `Trim exceeds reference limit (${Math.abs(estimatedTrim).toFixed(2)}m > ${vessel.stability.referenceLimits.maxTrim}m)`
-      );
+    await connectDB();
+    
+    const plan = await StowagePlanModel.findById(data.planId);
+    if (!plan) {
+      return { success: false, error: 'Plan not found' };
     }
     
-    if (Math.abs(estimatedList) > vessel.stability.referenceLimits.maxList) {
-      warnings.push(
-        `List exceeds reference limit (${Math.abs(estimatedList).toFixed(2)}° > ${vessel.stability.referenceLimits.maxList}°)`
-      );
+    const [vessel, voyage] = await Promise.all([
+      VesselModel.findById(plan.vesselId).select('tanks').lean(),
+      VoyageModel.findById(plan.voyageId).select('portCalls').lean(),
+    ]) as [any, any];
+    if (!vessel) {
+      return { success: false, error: 'Vessel not found' };
     }
     
-    if (estimatedDrafts.mean > vessel.stability.referenceLimits.maxDraft) {
-      warnings.push(
-        `Draft exceeds maximum (${estimatedDrafts.mean.toFixed(2)}m > ${vessel.stability.referenceLimits.maxDraft}m)`
-      );
+    const portCall = (voyage?.portCalls ?? []).find((pc: any) => pc.sequence === data.portSequence);
+    if (!portCall) {
+      return { success: false, error: `Port call ${data.portSequence} not found on voyage` };
     }
     
-    notes.push('Captain must verify with onboard stability system');
-    notes.push('Use official hydrostatic tables for accurate calculations');
-    
-    const stabilityEstimate: PreliminaryStabilityEstimate = {
-      calculatedAt: new Date(),
-      displacement,
-      estimatedKG,
-      estimatedLCG,
-      estimatedTCG,
-      estimatedGM,
-      estimatedTrim,
-      estimatedList,
-      estimatedDrafts,
-      preliminaryCheck: {
-        withinReferenceLimits: warnings.length === 0,
-        warnings,
-        notes,
-      },
-      disclaimer: 'Estos cálculos son estimaciones para planificación. El capitán debe aprobar y verificar con sistemas oficiales a bordo.',
-    };
+    const knownTanks = new Set((vessel.tanks ?? []).map((t: any) => t.tankId));
+    const unknown = data.levels.find(l => !knownTanks.has(l.tankId));
+    if (unknown) {
+      return { success: false, error: `Tank ${unknown.tankId} is not defined on this vessel` };
+    }
     
-    // Update plan with stability estimate
-    plan.preliminaryStability = stabilityEstimate;
+    const entry = {
+      portSequence: data.portSequence,
+      portCode: portCall.portCode,
+      levels: data.levels,
+      source: data.source,
+      updatedAt: new Date(),
+    };
+    const others = (plan.tankPlan ?? []).filter((e: any) => e.portSequence !== data.portSequence);
+    plan.tankPlan = [...others, entry].sort((a: any, b: any) => a.portSequence - b.portSequence);
     await plan.save();
     
     return {
       success: true,
-      data: JSON.parse(JSON.stringify(stabilityEstimate)),
-      withinLimits: warnings.length === 0,
+      data: JSON.parse(JSON.stringify(plan.tankPlan)),
     };
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -143,10 +255,82 @@ export async function calculatePreliminaryStability(planId: unknown) {
         error: `Validation error: ${error.issues[0].message}`,
       };
     }
-    console.error('Error calculating stability:', error);
+    console.error('Error updating tank plan:', error);
     return {
       success: false,
-      error: 'Failed to calculate stability',
+      error: 'Failed to update tank plan',
+    };
+  }
+}
+
+// ----------------------------------------------------------------------------
+// PROPOSE BALLAST FOR TRIM
+// Suggests ballast tank levels that bring trim within the reference limit at
+// departure from the given port. Nothing is saved — the planner applies the
+// proposal through updateTankPlan (source BALLAST_PROPOSAL).
+// ----------------------------------------------------------------------------
+
+export async function proposeBallastForTrim(planId: unknown, portSequence: unknown) {
+  try {
+    const id = StowagePlanIdSchema.parse(planId);
+    const sequence = z.number().int().min(0).parse(portSequence);
+    
+    await connectDB();
+    
+    const plan = await StowagePlanModel.findById(id).lean() as any;
+    if (!plan) {
+      return { success: false, error: 'Plan not found' };
+    }
+    
+    const [vessel, voyage] = await Promise.all([
+      VesselModel.findById(plan.vesselId).lean(),
+      VoyageModel.findById(plan.voyageId).select('portCalls').lean(),
+    ]) as [any, any];
+    if (!vessel) {
+      return { success: false, error: 'Vessel not found' };
+    }
+    if (!hasHydrostatics(vessel)) {
+      return { success: false, error: NO_HYDROSTATICS_ERROR };
+    }
+    if (!(vessel.tanks ?? []).some((t: any) => t.type === 'BALLAST')) {
+      return { success: false, error: 'Vessel has no ballast tanks defined' };
+    }
+    
+    const portCalls = ((voyage?.portCalls ?? []) as any[])
+      .filter(pc => pc.status !== 'CANCELLED' && pc.status !== 'SKIPPED')
+      .sort((a, b) => a.sequence - b.sequence);
+    if (!portCalls.some(pc => pc.sequence === sequence)) {
+      return { success: false, error: `Port call ${sequence} not found on voyage` };
+    }
+    
+    const positions: any[] = plan.cargoPositions ?? [];
+    const aboard = positions.filter(pos => {
+      const leg = cargoLegBounds(pos, portCalls);
+      return leg.polSeq <= sequence && leg.podSeq > sequence;
+    });
+    
+    const proposal = proposeTrimBallast({
+      tanks: vessel.tanks,
+      levels: tankLevelsAtPort(plan.tankPlan, sequence),
+      evaluate: levels => computeLoadingCondition(vessel, aboard, levels).condition,
+      limits: vessel.stability.referenceLimits,
+    });
+    
+    return {
+      success: true,
+      data: JSON.parse(JSON.stringify(proposal)),
+    };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        error: `Validation error: ${error.issues[0].message}`,
+      };
+    }
+    console.error('Error proposing ballast:', error);
+    return {
+      success: false,
+      error: 'Failed to propose ballast',
     };
   }
 }
@@ -237,50 +421,441 @@ export async function validateStability(planId: unknown) {
 }
 
 // ----------------------------------------------------------------------------
-// CALL PYTHON MICROSERVICE (Future Implementation)
-// This will replace the simplified calculations above
+// CALCULATE STABILITY WITH PYTHON SERVICE
+// Sends the plan, vessel geometry, tanks and per-port conditions to
+// stability-service (/calculate-stability, see lib/stability/service-client.ts).
+// Falls back to the TS estimate when the service is down, times out or
+// answers outside the contract. Either way the result is persisted as
+// plan.preliminaryStability; the service path also refreshes departureConditions.
 // ----------------------------------------------------------------------------
 
 export async function calculateStabilityWithPython(planId: unknown) {
   try {
     const id = StowagePlanIdSchema.parse(planId);
     
-    // TODO: Implement when Python FastAPI microservice is ready
-    // const response = await fetch('http://localhost:8000/calculate-stability', {
-    //   method: 'POST',
-    //   headers: { 'Content-Type': 'application/json' },
-    //   body: JSON.stringify({ planId: id }),
-    // });
+    await connectDB();
+    
+    const plan = await StowagePlanModel.findById(id);
+    if (!plan) {
+      return { success: false, error: 'Plan not found' };
+    }
+    
+    const [vessel, voyage] = await Promise.all([
+      VesselModel.findById(plan.vesselId).lean(),
+      VoyageModel.findById(plan.voyageId).select('voyageNumber portCalls').lean(),
+    ]) as [any, any];
+    if (!vessel) {
+      return { success: false, error: 'Vessel not found' };
+    }
+    if (!hasHydrostatics(vessel)) {
+      return { success: false, error: NO_HYDROSTATICS_ERROR };
+    }
+    
+    const portCalls = cargoPortCalls(voyage);
+    const request = buildStabilityServiceRequest(plan, vessel, voyage, portCalls);
+    
+    // Health first so a stopped service costs ~2 s, not the full request timeout
+    const health = await checkStabilityServiceHealth();
+    let results: StabilityServiceConditionResult[] | null = null;
+    let serviceVersion: string | undefined;
+    let fallbackReason: string | undefined;
+    
+    if (!health.ok) {
+      fallbackReason = health.error ?? 'health check failed';
+    } else {
+      try {
+        const response = await requestStabilityCalculation(request);
+        results = response.results;
+        serviceVersion = response.service.version;
+      } catch (err) {
+        if (!(err instanceof StabilityServiceError)) throw err;
+        fallbackReason = err.message;
+      }
+    }
+    
+    if (!results) {
+      console.warn(`[stability] Service unavailable for plan ${id}, using TS estimate: ${fallbackReason}`);
+      const stabilityEstimate = estimatePreliminaryStability(plan, vessel);
+      stabilityEstimate.preliminaryCheck.notes.unshift(
+        `Stability service unavailable (${fallbackReason}) — TS estimate used`
+      );
+      plan.preliminaryStability = stabilityEstimate;
+      await plan.save();
+      
+      return {
+        success: true,
+        data: JSON.parse(JSON.stringify(stabilityEstimate)),
+        withinLimits: stabilityEstimate.preliminaryCheck.withinReferenceLimits,
+        source: 'TS_ESTIMATE' as const,
+        fallbackReason,
+      };
+    }
+    
+    const preliminary = results.find(r => r.id === PRELIMINARY_CONDITION_ID)!;
+    const stabilityEstimate = toPreliminaryEstimate(preliminary, preliminary.warnings, 'STABILITY_SERVICE', serviceVersion);
+    
+    const positions: any[] = plan.cargoPositions ?? [];
+    const legs = positions.map(pos => cargoLegBounds(pos, portCalls));
+    const departureConditions: DepartureCondition[] = portCalls.map(pc => {
+      const result = results.find(r => r.id === departureConditionId(pc.sequence))!;
+      const palletsAboard = positions
+        .filter((_, i) => legs[i].polSeq <= pc.sequence && legs[i].podSeq > pc.sequence)
+        .reduce((sum, pos) => sum + (pos.quantity ?? 0), 0);
+      return {
+        portCode: pc.portCode,
+        portName: pc.portName,
+        sequence: pc.sequence,
+        operations: pc.operations ?? [],
+        palletsAboard,
+        cargoWeight: result.cargoWeight,
+        tankWeight: result.tankWeight,
+        displacement: result.displacement,
+        kg: result.kg,
+        lcg: result.lcg,
+        tcg: result.tcg,
+        gm: result.gm,
+        freeSurfaceCorrection: result.freeSurfaceCorrection,
+        trim: result.trim,
+        list: result.list,
+        drafts: result.drafts,
+        withinReferenceLimits: result.warnings.length === 0,
+        warnings: result.warnings,
+      };
+    });
+    
+    plan.preliminaryStability = stabilityEstimate;
+    if (departureConditions.length > 0) {
+      plan.departureConditions = departureConditions;
+      plan.departureConditionsCalculatedAt = new Date();
+    }
+    await plan.save();
     
     return {
-      success: false,
-      error: 'Python microservice not implemented yet. Use calculatePreliminaryStability instead.',
+      success: true,
+      data: JSON.parse(JSON.stringify(stabilityEstimate)),
+      withinLimits: stabilityEstimate.preliminaryCheck.withinReferenceLimits,
+      source: 'STABILITY_SERVICE' as const,
+      serviceVersion,
     };
   } catch (error) {
-    console.error('Error calling Python microservice:', error);
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        error: `Validation error: ${error.issues[0].message}`,
+      };
+    }
+    console.error('Error calling stability service:', error);
     return {
       success: false,
-      error: 'Failed to call Python microservice',
+      error: 'Failed to calculate stability with stability service',
     };
   }
 }
 
 // ----------------------------------------------------------------------------
 // HELPER FUNCTIONS
-// Simplified calculations - will be replaced with proper hydrostatic calculations
+// Weighted centres of gravity (cargo in kg, lightship in tonnes)
 // ----------------------------------------------------------------------------
 
-function calculateWeightedLCG(plan: any, vessel: any): number {
+const NO_HYDROSTATICS_ERROR = 'Vessel has no hydrostatic tables. Import them before calculating stability.';
+
+function hasHydrostatics(vessel: any): boolean {
+  return (vessel.stability?.hydrostatics?.length ?? 0) >= 2 && !!vessel.stability?.lpp;
+}
+
+const STABILITY_DISCLAIMER = 'Estos cálculos son estimaciones para planificación. El capitán debe aprobar y verificar con sistemas oficiales a bordo.';
+
+const PRELIMINARY_CONDITION_ID = 'PRELIMINARY';
+
+function departureConditionId(sequence: number): string {
+  return `DEP-${sequence}`;
+}
+
+// Non-cancelled port calls with cargo operations, in voyage order
+function cargoPortCalls(voyage: any): any[] {
+  return ((voyage?.portCalls ?? []) as any[])
+    .filter(pc => pc.status !== 'CANCELLED' && pc.status !== 'SKIPPED')
+    .filter(pc => (pc.operations ?? []).some((op: string) => op === 'LOAD' || op === 'DISCHARGE'))
+    .sort((a, b) => a.sequence - b.sequence);
+}
+
+// Tank levels for the preliminary condition: first tankPlan entry of the voyage
+function firstPlannedTankLevels(plan: any): TankLevel[] {
+  const entry = [...(plan.tankPlan ?? [])].sort((a: any, b: any) => a.portSequence - b.portSequence)[0];
+  return (entry?.levels ?? []).map((l: any) => ({ tankId: l.tankId, fillPercent: l.fillPercent }));
+}
+
+// Fields shared by a TS loading condition and a stability-service result
+interface ConditionSummary {
+  displacement: number;
+  kg: number;
+  lcg: number;
+  tcg: number;
+  gm: number;
+  trim: number;
+  list: number;
+  drafts: { forward: number; aft: number; mean: number };
+  freeSurfaceCorrection: number;
+  tankWeight: number;
+  hydrostatics: { draft: number; km: number; lcb: number; lcf: number; mct1cm: number; tpc: number };
+}
+
+function toPreliminaryEstimate(
+  summary: ConditionSummary,
+  warnings: string[],
+  source: 'TS_ESTIMATE' | 'STABILITY_SERVICE',
+  serviceVersion?: string,
+): PreliminaryStabilityEstimate {
+  const { hydrostatics } = summary;
+  const notes: string[] = [];
+  
+  notes.push('Captain must verify with onboard stability system');
+  if (source === 'STABILITY_SERVICE') {
+    notes.push(`Calculated by stability-service${serviceVersion ? ` v${serviceVersion}` : ''}`);
+  }
+  notes.push(
+    `Hydrostatics at ${hydrostatics.draft.toFixed(2)}m: KM ${hydrostatics.km.toFixed(2)}m, ` +
+    `LCB ${hydrostatics.lcb.toFixed(2)}m, LCF ${hydrostatics.lcf.toFixed(2)}m, ` +
+    `MCT1cm ${hydrostatics.mct1cm.toFixed(1)}t·m, TPC ${hydrostatics.tpc.toFixed(2)}t`
+  );
+  notes.push(
+    summary.tankWeight > 0
+      ? `Tanks ${summary.tankWeight.toFixed(0)}t included, free-surface correction ${summary.freeSurfaceCorrection.toFixed(2)}m`
+      : 'No tank levels planned — ballast, fuel and fresh water not included'
+  );
+  
+  return {
+    calculatedAt: new Date(),
+    displacement: summary.displacement,
+    estimatedKG: summary.kg,
+    estimatedLCG: summary.lcg,
+    estimatedTCG: summary.tcg,
+    estimatedGM: summary.gm,
+    estimatedTrim: summary.trim,
+    estimatedList: summary.list,
+    estimatedDrafts: summary.drafts,
+    preliminaryCheck: {
+      withinReferenceLimits: warnings.length === 0,
+      warnings,
+      notes,
+    },
+    source,
+    serviceVersion,
+    disclaimer: STABILITY_DISCLAIMER,
+  };
+}
+
+// Lightship + all cargo in the plan + tanks as planned for the first departure
+function estimatePreliminaryStability(plan: any, vessel: any): PreliminaryStabilityEstimate {
+  const loading = computeLoadingCondition(vessel, plan.cargoPositions, firstPlannedTankLevels(plan));
+  const { condition } = loading;
+  return toPreliminaryEstimate(
+    {
+      displacement: loading.displacement,
+      kg: loading.kg,
+      lcg: loading.lcg,
+      tcg: loading.tcg,
+      gm: condition.gm,
+      trim: condition.trim,
+      list: condition.list,
+      drafts: condition.drafts,
+      freeSurfaceCorrection: condition.freeSurfaceCorrection,
+      tankWeight: loading.tankWeight,
+      hydrostatics: condition.hydrostatics,
+    },
+    checkReferenceLimits(vessel, loading),
+    'TS_ESTIMATE',
+  );
+}
+
+// Request body for /calculate-stability: one PRELIMINARY condition (all cargo,
+// first planned tank levels) plus one departure condition per cargo port call.
+function buildStabilityServiceRequest(plan: any, vessel: any, voyage: any, portCalls: any[]): StabilityServiceRequest {
+  const { lpp, beam, depth } = getVesselDimensions(vessel);
+  const lightship = vessel.stability.lightship;
+  const limits = vessel.stability.referenceLimits;
+  
+  const cargo = (plan.cargoPositions ?? []).map((pos: any) => {
+    const deckArms = deckSlotCentroid(vessel, pos);
+    const arms = getSectionArms(vessel, pos.compartment.id);
+    const leg = cargoLegBounds(pos, portCalls);
+    return {
+      sectionId: pos.compartment.id,
+      bookingId: pos.bookingId ?? undefined,
+      quantity: pos.quantity ?? 0,
+      weight: positionWeightKg(pos) / 1000,
+      lcg: deckArms?.lcg ?? arms.longitudinalArm,
+      vcg: deckArms?.vcg ?? arms.verticalArm,
+      tcg: deckArms?.tcg ?? arms.transverseArm,
+      polSeq: Number.isFinite(leg.polSeq) ? leg.polSeq : null,
+      podSeq: Number.isFinite(leg.podSeq) ? leg.podSeq : null,
+    };
+  });
+  
+  return {
+    contractVersion: STABILITY_SERVICE_CONTRACT_VERSION,
+    plan: {
+      planId: plan._id.toString(),
+      planNumber: plan.planNumber,
+      voyageNumber: voyage?.voyageNumber,
+    },
+    vessel: {
+      name: vessel.name,
+      imoNumber: vessel.imoNumber,
+      lpp: vessel.stability.lpp ?? lpp,
+      beam,
+      depth,
+      lightship: {
+        weight: lightship.weight,
+        lcg: lightship.lcg,
+        vcg: lightship.vcg,
+        tcg: lightship.tcg ?? 0,
+      },
+      hydrostatics: vessel.stability.hydrostatics.map((r: any) => ({
+        draft: r.draft,
+        displacement: r.displacement,
+        km: r.km,
+        lcb: r.lcb,
+        lcf: r.lcf,
+        mct1cm: r.mct1cm,
+        tpc: r.tpc,
+      })),
+      referenceLimits: {
+        minGM: limits.minGM,
+        maxGM: limits.maxGM,
+        maxTrim: limits.maxTrim,
+        maxList: limits.maxList,
+        maxDraft: limits.maxDraft,
+      },
+    },
+    tanks: (vessel.tanks ?? []).map((t: any) => ({
+      tankId: t.tankId,
+      name: t.name,
+      type: t.type,
+      capacity: t.capacity,
+      density: t.density,
+      lcg: t.lcg,
+      vcg: t.vcg,
+      tcg: t.tcg ?? 0,
+      freeSurfaceMoment: t.freeSurfaceMoment ?? 0,
+    })),
+    cargo,
+    conditions: [
+      { id: PRELIMINARY_CONDITION_ID, portSequence: null, tankLevels: firstPlannedTankLevels(plan) },
+      ...portCalls.map(pc => ({
+        id: departureConditionId(pc.sequence),
+        portSequence: pc.sequence,
+        portCode: pc.portCode,
+        tankLevels: tankLevelsAtPort(plan.tankPlan, pc.sequence),
+      })),
+    ],
+  };
+}
+
+interface LoadingCondition {
+  cargoWeight: number;   // tonnes
+  tankWeight: number;    // tonnes
+  displacement: number;  // tonnes
+  kg: number;
+  lcg: number;
+  tcg: number;
+  condition: FloatingCondition;
+}
+
+// Lightship + cargo positions + tank contents → centres of gravity → floating condition
+function computeLoadingCondition(vessel: any, positions: any[], tankLevels: TankLevel[] = []): LoadingCondition {
+  const cargoWeightKg = positions.reduce(
+    (sum: number, pos: any) => sum + positionWeightKg(pos),
+    0
+  );
+  const baseDisplacement = vessel.stability.lightship.weight + (cargoWeightKg / 1000); // Convert kg to tons
+  
+  // Lightship + cargo centres, then combined with tank moments
+  const baseLCG = calculateWeightedLCG(positions, vessel);
+  const baseVCG = calculateWeightedVCG(positions, vessel);
+  const baseTCG = calculateWeightedTCG(positions, vessel);
+  
+  const tanks = calculateTankLoads(vessel.tanks ?? [], tankLevels);
+  const displacement = baseDisplacement + tanks.weight;
+  const lcg = (baseLCG * baseDisplacement + tanks.lcgMoment) / displacement;
+  const kg = (baseVCG * baseDisplacement + tanks.vcgMoment) / displacement;
+  const tcg = (baseTCG * baseDisplacement + tanks.tcgMoment) / displacement;
+  
+  const condition = calculateFloatingCondition({
+    displacement,
+    kg,
+    lcg,
+    tcg,
+    lpp: vessel.stability.lpp,
+    hydrostatics: vessel.stability.hydrostatics,
+    freeSurfaceMoment: tanks.freeSurfaceMoment,
+  });
+  
+  return { cargoWeight: cargoWeightKg / 1000, tankWeight: tanks.weight, displacement, kg, lcg, tcg, condition };
+}
+
+// Planned tank levels in force at departure from `sequence`: the latest
+// tankPlan entry at or before that port (levels carry forward).
+function tankLevelsAtPort(tankPlan: any[] | undefined, sequence: number): TankLevel[] {
+  const entry = [...(tankPlan ?? [])]
+    .filter(e => e.portSequence <= sequence)
+    .sort((a, b) => b.portSequence - a.portSequence)[0];
+  return (entry?.levels ?? []).map((l: any) => ({ tankId: l.tankId, fillPercent: l.fillPercent }));
+}
+
+function checkReferenceLimits(vessel: any, loading: LoadingCondition): string[] {
+  const limits = vessel.stability.referenceLimits;
+  const { gm, trim, list, drafts } = loading.condition;
+  const warnings: string[] = [];
+  
+  if (gm < limits.minGM) {
+    warnings.push(`GM below minimum reference (${gm.toFixed(2)}m < ${limits.minGM}m)`);
+  }
+  
+  if (gm > limits.maxGM) {
+    warnings.push(`GM above maximum reference (${gm.toFixed(2)}m > ${limits.maxGM}m)`);
+  }
+  
+  if (Math.abs(trim) > limits.maxTrim) {
+    warnings.push(`Trim exceeds reference limit (${Math.abs(trim).toFixed(2)}m > ${limits.maxTrim}m)`);
+  }
+  
+  if (Math.abs(list) > limits.maxList) {
+    warnings.push(`List exceeds reference limit (${Math.abs(list).toFixed(2)}° > ${limits.maxList}°)`);
+  }
+  
+  const deepestDraft = Math.max(drafts.forward, drafts.aft);
+  if (deepestDraft > limits.maxDraft) {
+    warnings.push(`Draft exceeds maximum (${deepestDraft.toFixed(2)}m > ${limits.maxDraft}m)`);
+  }
+  
+  if (loading.condition.hydrostatics.outOfRange) {
+    warnings.push(
+      `Displacement ${loading.displacement.toFixed(0)}t is outside the hydrostatic table range — values clamped to the nearest row`
+    );
+  }
+  
+  return warnings;
+}
+
+// Voyage sequences a cargo position travels between (see lib/cargo-leg.ts).
+// Unknown POL means aboard from the first call, unknown POD means aboard to the last.
+function cargoLegBounds(pos: any, portCalls: any[]): { polSeq: number; podSeq: number } {
+  const leg = resolveCargoLeg(pos, portCalls);
+  return { polSeq: leg.polSeq ?? -Infinity, podSeq: leg.podSeq ?? Infinity };
+}
+
+function calculateWeightedLCG(positions: any[], vessel: any): number {
   // Simplified: weighted average of cargo positions
   let totalMoment = 0;
   let totalWeight = 0;
   
-  for (const position of plan.cargoPositions) {
-    // Find compartment in vessel
-    const compartment = findCompartment(vessel, position.compartment.id);
-    if (compartment) {
-      totalMoment += position.weight * compartment.position.lcg;
-      totalWeight += position.weight;
+  for (const position of positions) {
+    const centroid = cargoPositionCentroid(vessel, position);
+    if (centroid) {
+      const weight = positionWeightKg(position);
+      totalMoment += weight * centroid.lcg;
+      totalWeight += weight;
     }
   }
   
@@ -291,16 +866,17 @@ function calculateWeightedLCG(plan: any, vessel: any): number {
   return totalWeight > 0 ? totalMoment / totalWeight : 0;
 }
 
-function calculateWeightedVCG(plan: any, vessel: any): number {
+function calculateWeightedVCG(positions: any[], vessel: any): number {
   // Simplified: weighted average of cargo positions
   let totalMoment = 0;
   let totalWeight = 0;
   
-  for (const position of plan.cargoPositions) {
-    const compartment = findCompartment(vessel, position.compartment.id);
-    if (compartment) {
-      totalMoment += position.weight * compartment.position.vcg;
-      totalWeight += position.weight;
+  for (const position of positions) {
+    const centroid = cargoPositionCentroid(vessel, position);
+    if (centroid) {
+      const weight = positionWeightKg(position);
+      totalMoment += weight * centroid.vcg;
+      totalWeight += weight;
     }
   }
   
@@ -311,16 +887,17 @@ function calculateWeightedVCG(plan: any, vessel: any): number {
   return totalWeight > 0 ? totalMoment / totalWeight : 0;
 }
 
-function calculateWeightedTCG(plan: any, vessel: any): number {
+function calculateWeightedTCG(positions: any[], vessel: any): number {
   // Simplified: weighted average of cargo positions
   let totalMoment = 0;
   let totalWeight = 0;
   
-  for (const position of plan.cargoPositions) {
-    const compartment = findCompartment(vessel, position.compartment.id);
-    if (compartment) {
-      totalMoment += position.weight * compartment.position.tcg;
-      totalWeight += position.weight;
+  for (const position of positions) {
+    const centroid = cargoPositionCentroid(vessel, position);
+    if (centroid) {
+      const weight = positionWeightKg(position);
+      totalMoment += weight * centroid.tcg;
+      totalWeight += weight;
     }
   }
   
@@ -331,10 +908,32 @@ function calculateWeightedTCG(plan: any, vessel: any): number {
   return totalWeight > 0 ? totalMoment / totalWeight : 0;
 }
 
+// Positions saved before per-unit weights were resolved carry weight 0;
+// estimate those from quantity and the cargo-type default.
+function positionWeightKg(position: any): number {
+  if (position.weight > 0) return position.weight;
+  return (position.quantity ?? 0) * resolveWeightPerUnit({ cargoType: position.cargoType }).kgPerUnit;
+}
+
 function findCompartment(vessel: any, compartmentId: string): any {
-  for (const hold of vessel.holds) {
-    const comp = hold.compartments.find((c: any) => (c as any).id === compartmentId);
-    if (comp) return comp;
-  }
-  return null;
+  // Cargo positions use section ids ("1A"); vessel.holds may use "H1-A"
+  return findSectionCompartment(vessel, compartmentId);
+}
+
+// Deck containers placed in a bay-plan slot sit at the slot centroid stored at
+// assignment time; older positions without arms are resolved from the bay plan.
+function deckSlotCentroid(vessel: any, position: any): { lcg: number; vcg: number; tcg: number } | null {
+  const slot = position.stackPosition;
+  if (position.compartment?.level !== 'DECK' || slot?.bay == null) return null;
+  const stored = position.position;
+  if (stored && stored.vcg > 0) return { lcg: stored.lcg, vcg: stored.vcg, tcg: stored.tcg ?? 0 };
+  const stack = findDeckStack(vessel.deckBayPlan ?? [], slot.bay, slot.row);
+  return stack ? getDeckSlotArms(stack, slot.tier) : null;
+}
+
+function cargoPositionCentroid(vessel: any, position: any): { lcg: number; vcg: number; tcg: number } | null {
+  const deck = deckSlotCentroid(vessel, position);
+  if (deck) return deck;
+  const compartment = findCompartment(vessel, position.compartment.id);
+  return compartment ? compartment.position : null;
 }
@@ -10,19 +10,67 @@
 'use server'
 
 import { z } from 'zod';
+import mongoose from 'mongoose';
 import connectDB from '@/lib/db/connect';
-import { StowagePlanModel, VesselModel, VoyageModel, BookingModel, ContractModel, ServiceModel, SpaceForecastModel, CargoProductModel } from '@/lib/db/schemas';
-import type { StowagePlan, StowagePlanStatus } from '@/types/models';
+import { StowagePlanModel, VesselModel, VoyageModel, BookingModel, ContractModel, ServiceModel, SpaceForecastModel, CargoProductModel, ShipmentModel, OfficeModel, PlanPresenceModel } from '@/lib/db/schemas';
+import type {
+  CargoChangelogEntry,
+  ContainerType,
+  DeckStack,
+  PlanEditConflict,
+  PlanOperation,
+  PlanOperationType,
+  PlanViewer,
+  StagedCargo,
+  StowagePlan,
+  StowagePlanStatus,
+} from '@/types/models';
 import { sendPlanNotification } from '@/lib/email';
 import { generatePlanPdf } from '@/lib/generate-plan-pdf';
 import { auth } from '@/auth';
 import { generateStowagePlan } from '@/lib/stowage-engine';
-import { getTempRange } from '@/lib/stowage-engine/temperature';
-import type { EngineInput, EngineSection, EngineZone, EngineBooking } from '@/lib/stowage-engine/types';
-
-// Placeholder longitudinal arms by hold (metres from midship, +fwd/-aft).
-// Replace with real hydrostatic data when available per vessel.
-const HOLD_LONGITUDINAL_ARM: Record<number, number> = { 1: 60, 2: 20, 3: -20, 4: -60 };
+import { diffStowagePlans } from '@/lib/plan-diff';
+import {
+  appendOperation,
+  applyEditSlice,
+  captureEdit,
+  planRestoreSteps,
+  summarizeOperations,
+} from '@/lib/plan-history';
+import { updateBookingQuantity } from '@/app/actions/booking';
+import { loadCargoCarriageSpecs, loadCargoCompatibility } from '@/lib/cargo-carriage';
+import { buildCargoAtmospheres, type CargoCarriageSpecs } from '@/lib/constants/cargo-carriage';
+import { buildEngineInput, type EngineInputSources } from '@/lib/stowage-engine/input';
+import {
+  getIncompatibleZoneGroups,
+  getIncompatibleZoneAtmospheres,
+  getZoneCargoTypes,
+  resolveZoneAtmosphere,
+} from '@/lib/stowage-engine/constraints';
+import {
+  buildPlanState,
+  evaluateStowage,
+  previewTransfer,
+  removePallets,
+  type PlanState,
+  type StowageEvaluation,
+} from '@/lib/stowage-engine/plan-edit';
+import { resolveWeightPerUnit, summarizeShipmentWeights } from '@/lib/stowage-engine/weights';
+import {
+  allocateDeckSlots,
+  countReeferPlugs,
+  DEFAULT_DECK_CONTAINER_TYPE,
+  findDeckStack,
+  formatDeckSlot,
+  getDeckSlotArms,
+  type DeckSlotRef,
+} from '@/lib/stowage-engine/deck';
+import type {
+  CargoAssignment,
+  CargoAtmosphere,
+  CargoCompatibility,
+  EngineBooking,
+} from '@/lib/stowage-engine/types';
 
 // ISO week number from a date (1–53)
 function getISOWeek(date: Date): number {
@@ -56,6 +104,9 @@ async function generatePlanNumber(
 
 const StowagePlanIdSchema = z.string().min(1, 'Plan ID is required');
 
+// editVersion the client loaded; omitted by callers outside the plan page
+const ExpectedVersionSchema = z.number().int().nonnegative().optional();
+
 const CreateStowagePlanSchema = z.object({
   vesselId: z.string().min(1),
   voyageId: z.string().min(1),
@@ -77,15 +128,92 @@ const AssignCargoSchema = z.object({
   compartmentId: z.string().min(1),
   quantity: z.number().int().positive(),
   temperature: z.number().min(-30).max(20),
+  expectedVersion: ExpectedVersionSchema,
+});
+
+const DeckSlotSchema = z.object({
+  bay: z.number().int().min(1).max(99),
+  row: z.number().int().min(0).max(99),
+  tier: z.number().int().min(1).max(99),
 });
 
 const AssignDeckContainerSchema = z.object({
   planId: z.string().min(1),
   bookingId: z.string().min(1),
-  quantity: z.number().int().positive().max(19), // Max reefer plugs
+  quantity: z.number().int().positive().max(200), // bounded by the vessel's plugs / bay plan
   temperature: z.number().min(-30).max(20),
+  slots: z.array(DeckSlotSchema).optional(),      // explicit slots; auto-picked when omitted
+  expectedVersion: ExpectedVersionSchema,
 });
 
+// ----------------------------------------------------------------------------
+// PLAN EDIT VERSION
+// Optimistic concurrency between planners editing the same plan. Every save
+// bumps editVersion; mutating actions take the version the caller loaded as
+// `expectedVersion` and refuse to write over a newer plan. The save itself
+// only matches the version it read, so two saves racing each other cannot
+// both succeed.
+// ----------------------------------------------------------------------------
+
+// Refused-save result naming who changed the plan and when
+function planConflictResult(plan: any) {
+  const conflict: PlanEditConflict = {
+    version: plan.editVersion ?? 0,
+    lastEditedBy: plan.lastEditedBy ?? null,
+    lastEditedAt: plan.lastEditedAt ?? null,
+  };
+  const when = conflict.lastEditedAt
+    ? ` at ${new Date(conflict.lastEditedAt).toISOString().slice(11, 16)} UTC`
+    : '';
+  return {
+    success: false as const,
+    error: `Plan was changed by ${conflict.lastEditedBy ?? 'another user'}${when} after you opened it`,
+    conflict: JSON.parse(JSON.stringify(conflict)) as PlanEditConflict,
+  };
+}
+
+function checkPlanVersion(plan: any, expectedVersion: number | undefined) {
+  if (expectedVersion === undefined || (plan.editVersion ?? 0) === expectedVersion) return null;
+  return planConflictResult(plan);
+}
+
+// Filter matching a plan still at `version`. Plans created before
+// versioning have no editVersion field yet.
+const planVersionFilter = (version: number) => ({ editVersion: version === 0 ? { $in: [0, null] } : version });
+
+// Conflict result for a conditional write that matched no plan
+async function latestConflictResult(planId: unknown) {
+  const latest = await StowagePlanModel.findById(planId)
+    .select('editVersion lastEditedBy lastEditedAt')
+    .lean();
+  return latest ? planConflictResult(latest) : { success: false as const, error: 'Plan not found' };
+}
+
+// Marks a loaded plan document as the next version, saved by `editedBy`
+function stampPlanEdit(plan: any, editedBy: string) {
+  plan.editVersion = (plan.editVersion ?? 0) + 1;
+  plan.lastEditedBy = editedBy;
+  plan.lastEditedAt = new Date();
+}
+
+// Saves an edited plan document as the next version. Returns the conflict
+// result when another save landed between this action's read and its write.
+async function savePlanEdit(plan: any, editedBy: string) {
+  plan.$where = planVersionFilter(plan.editVersion ?? 0);
+  stampPlanEdit(plan, editedBy);
+  try {
+    await plan.save();
+    return null;
+  } catch (error) {
+    if (!(error instanceof mongoose.Error.DocumentNotFoundError)) throw error;
+    return latestConflictResult(plan._id);
+  }
+}
+
+// Fields $set next to `$inc: { editVersion: 1 }` by whole-plan updates
+// (regeneration, status change) that do not go through savePlanEdit
+const planEditStamp = (editedBy: string) => ({ lastEditedBy: editedBy, lastEditedAt: new Date() });
+
 // ----------------------------------------------------------------------------
 // CREATE STOWAGE PLAN
 // CHANGE #1: Can create plans weeks in advance with ESTIMATED status
@@ -265,6 +393,7 @@ export async function createStowagePlanFromWizard(data: unknown) {
 // ----------------------------------------------------------------------------
 // ASSIGN CARGO TO COMPARTMENT
 // CHANGE #6: Validates cooling section temperature compatibility
+// Also enforces compatibility groups and atmosphere needs within the zone
 // ----------------------------------------------------------------------------
 
 export async function assignCargoToCompartment(data: unknown) {
@@ -282,6 +411,9 @@ export async function assignCargoToCompartment(data: unknown) {
     if (!plan) {
       return { success: false, error: 'Plan not found' };
     }
+    const stale = checkPlanVersion(plan, validated.expectedVersion);
+    if (stale) return stale;
+    const before = plan.toObject() as any;
     
     const vessel = await VesselModel.findById(plan.vesselId);
     if (!vessel) {
@@ -331,16 +463,62 @@ export async function assignCargoToCompartment(data: unknown) {
       }
     }
     
+    // CRITICAL: Validate compatibility groups sharing this cooling section
+    const booking = /^[a-f\d]{24}$/i.test(validated.bookingId)
+      ? await BookingModel.findById(validated.bookingId).select('bookingNumber cargoType').lean() as any
+      : null;
+    const cargoType: string | undefined = booking?.cargoType;
+    if (cargoType) {
+      const compatibility = await loadCargoCompatibility();
+      const zoneSectionIds: string[] = coolingSection.coolingSections.map((s: any) => s.sectionId);
+      const zoneCargoTypes = new Set<string>(
+        (plan.cargoPositions ?? [])
+          .filter((p: any) => p.cargoType && zoneSectionIds.includes(p.compartment?.id))
+          .map((p: any) => p.cargoType as string),
+      );
+      const zoneGroups = [...zoneCargoTypes]
+        .map(t => compatibility.groupByCargoType[t])
+        .filter(Boolean);
+      const incompatible = getIncompatibleZoneGroups({ cargoType }, zoneGroups, compatibility);
+      if (incompatible.length > 0) {
+        const blockingTypes = [...zoneCargoTypes].filter(t => incompatible.includes(compatibility.groupByCargoType[t]));
+        return {
+          success: false,
+          error: `Compatibility conflict: ${cargoType} (group ${compatibility.groupByCargoType[cargoType]}) cannot share cooling section ${coolingSection.zoneId} with ${blockingTypes.join(', ')} (group ${incompatible.join(', ')})`,
+        };
+      }
+
+      // Controlled atmosphere: CA and regular cargo never share a zone; CA bands must overlap
+      const atmosphere = buildCargoAtmospheres(await loadCargoCarriageSpecs());
+      const blockingAtmosphere = getIncompatibleZoneAtmospheres({ cargoType }, zoneCargoTypes, atmosphere);
+      if (blockingAtmosphere.length > 0) {
+        const mode = atmosphere[cargoType]?.mode === 'CA' ? 'controlled atmosphere' : 'regular atmosphere';
+        return {
+          success: false,
+          error: `Atmosphere conflict: ${cargoType} (${mode}) cannot share cooling section ${coolingSection.zoneId} with ${blockingAtmosphere.join(', ')}`,
+        };
+      }
+      if (sectionStatus) {
+        sectionStatus.atmosphere = resolveZoneAtmosphere([...zoneCargoTypes, cargoType], atmosphere);
+      }
+    }
+
+    // Weight from shipment actuals → booking estimate → cargo default
+    const weightsPerUnit = await loadBookingWeightsPerUnit([validated.bookingId]);
+    const kgPerUnit = weightsPerUnit.get(validated.bookingId) ?? resolveWeightPerUnit({ cargoType }).kgPerUnit;
+
     // Add cargo to plan
     plan.cargoPositions.push({
       bookingId: validated.bookingId,
+      cargoType,
       cargoUnitId: `UNIT-${Date.now()}`, // Generate unique ID
       compartment: {
         id: validated.compartmentId,
         holdNumber: getHoldNumber(validated.compartmentId),
         level: getLevel(validated.compartmentId),
       },
-      weight: 0, // Will be calculated from booking data
+      quantity: validated.quantity,
+      weight: validated.quantity * kgPerUnit,
       position: {
         lcg: 0, // Will be calculated from compartment position
         tcg: 0,
@@ -348,7 +526,15 @@ export async function assignCargoToCompartment(data: unknown) {
       },
     });
     
-    await plan.save();
+    const changedBy = session.user.name ?? (session.user as any).email ?? 'system';
+    recordPlanOperation(
+      plan, before, 'ASSIGN',
+      `Assigned ${validated.quantity} plt ${booking?.bookingNumber ?? validated.bookingId} to ${validated.compartmentId}`,
+      changedBy,
+    );
+
+    const lost = await savePlanEdit(plan, changedBy);
+    if (lost) return lost;
     
     return {
       success: true,
@@ -373,10 +559,17 @@ export async function assignCargoToCompartment(data: unknown) {
 // ----------------------------------------------------------------------------
 // ASSIGN CONTAINERS TO DECK
 // CHANGE #7: Validates reefer plug limit (19 for ACONCAGUA BAY)
+// Vessels with a deck bay plan get slot-level placement: each container is
+// stored with its bay/row/tier (stackPosition) and slot centroid (position).
 // ----------------------------------------------------------------------------
 
 export async function assignContainersToDeck(data: unknown) {
   try {
+    const session = await auth();
+    if (!session?.user) return { success: false, error: 'Unauthorized' };
+    const role = (session.user as any).role as string;
+    if (!['ADMIN', 'SHIPPING_PLANNER'].includes(role)) return { success: false, error: 'Forbidden' };
+
     const validated = AssignDeckContainerSchema.parse(data);
     
     await connectDB();
@@ -385,46 +578,106 @@ export async function assignContainersToDeck(data: unknown) {
     if (!plan) {
       return { success: false, error: 'Plan not found' };
     }
+    const stale = checkPlanVersion(plan, validated.expectedVersion);
+    if (stale) return stale;
+    const before = plan.toObject() as any;
     
     const vessel = await VesselModel.findById(plan.vesselId);
     if (!vessel) {
       return { success: false, error: 'Vessel not found' };
     }
-    
-    // CRITICAL: Check reefer plug limit
-    const currentDeckContainers = plan.cargoPositions.filter(
+
+    const booking = /^[a-f\d]{24}$/i.test(validated.bookingId)
+      ? await BookingModel.findById(validated.bookingId)
+          .select('bookingNumber cargoType containerType pol pod')
+          .lean() as any
+      : null;
+
+    const deckPositions = plan.cargoPositions.filter(
       (p: any) => p.compartment.level === 'DECK'
-    ).length;
-    const maxReeferPlugs = vessel.deckContainerCapacity?.maxReeferPlugs || 0;
+    );
+    const currentDeckContainers = deckPositions.length;
+    const bayPlan: DeckStack[] = (vessel.toObject() as any).deckBayPlan ?? [];
+    const maxReeferPlugs = bayPlan.length > 0
+      ? countReeferPlugs(bayPlan)
+      : vessel.deckContainerCapacity?.maxReeferPlugs || 0;
 
+    // CRITICAL: Check reefer plug limit
     if (currentDeckContainers + validated.quantity > maxReeferPlugs) {
       return {
         success: false,
         error: `Reefer plug limit exceeded: ${currentDeckContainers} + ${validated.quantity} > ${maxReeferPlugs} max plugs`,
       };
     }
+    if (validated.slots && bayPlan.length === 0) {
+      return { success: false, error: 'Vessel has no deck bay plan — slots cannot be chosen' };
+    }
+
+    const weightsPerUnit = await loadBookingWeightsPerUnit([validated.bookingId]);
+    const kgPerContainer = weightsPerUnit.get(validated.bookingId) ?? resolveWeightPerUnit({}).kgPerUnit;
+    const containerType: ContainerType = booking?.containerType ?? DEFAULT_DECK_CONTAINER_TYPE;
+
+    let slots: DeckSlotRef[] = [];
+    if (bayPlan.length > 0) {
+      const occupied = deckPositions
+        .filter((p: any) => p.stackPosition?.bay != null)
+        .map((p: any) => ({
+          bay: p.stackPosition.bay,
+          row: p.stackPosition.row,
+          tier: p.stackPosition.tier,
+          weight: p.weight ?? 0,
+        }));
+      const allocation = allocateDeckSlots(bayPlan, occupied, {
+        containerType,
+        weightPerContainer: kgPerContainer,
+        quantity: validated.quantity,
+        slots: validated.slots,
+      });
+      if ('error' in allocation) return { success: false, error: allocation.error };
+      slots = allocation.slots;
+    }
 
     // Add containers to deck
     for (let i = 0; i < validated.quantity; i++) {
+      const slot = slots[i];
+      const stack = slot ? findDeckStack(bayPlan, slot.bay, slot.row) : undefined;
       plan.cargoPositions.push({
         bookingId: validated.bookingId,
+        bookingNumber: booking?.bookingNumber,
+        cargoType: booking?.cargoType,
+        polPortCode: booking?.pol?.portCode,
+        podPortCode: booking?.pod?.portCode,
         cargoUnitId: `DECK-${Date.now()}-${i}`,
         compartment: {
           id: 'DECK',
-          holdNumber: 0,
+          holdNumber: stack?.holdNumber ?? 0,
           level: 'DECK',
         },
-        weight: 0,
-        position: { lcg: 0, tcg: 0, vcg: 0 },
+        ...(slot ? { stackPosition: { bay: slot.bay, row: slot.row, tier: slot.tier } } : {}),
+        quantity: 1,
+        weight: kgPerContainer,
+        position: stack
+          ? getDeckSlotArms(stack, slot.tier, containerType)
+          : { lcg: 0, tcg: 0, vcg: 0 },
+        setTemperature: validated.temperature,
       });
     }
     
-    await plan.save();
-    
+    const slotNote = slots.length > 0 ? ` in slots ${slots.map(formatDeckSlot).join(', ')}` : '';
+    const changedBy = session.user.name ?? (session.user as any).email ?? 'system';
+    recordPlanOperation(
+      plan, before, 'ASSIGN',
+      `Assigned ${validated.quantity} container(s) ${booking?.bookingNumber ?? validated.bookingId} to deck${slotNote}`,
+      changedBy,
+    );
+
+    const lost = await savePlanEdit(plan, changedBy);
+    if (lost) return lost;
+
     return {
       success: true,
       data: JSON.parse(JSON.stringify(plan)),
-      message: `${validated.quantity} containers assigned to deck (${currentDeckContainers + validated.quantity}/${maxReeferPlugs} reefer plugs used)`,
+      message: `${validated.quantity} containers assigned to deck${slotNote} (${currentDeckContainers + validated.quantity}/${maxReeferPlugs} reefer plugs used)`,
     };
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -678,7 +931,8 @@ export async function getStowagePlans() {
 
 export async function updatePlanStatus(
   planId: unknown,
-  status: unknown
+  status: unknown,
+  expectedVersion?: unknown,
 ) {
   try {
     const session = await auth();
@@ -700,17 +954,23 @@ export async function updatePlanStatus(
       'COMPLETED',
       'CANCELLED',
     ]).parse(status);
+    const version = ExpectedVersionSchema.parse(expectedVersion);
     
     await connectDB();
     
-    const plan = await StowagePlanModel.findByIdAndUpdate(
-      id,
-      { status: newStatus },
+    const plan = await StowagePlanModel.findOneAndUpdate(
+      version === undefined ? { _id: id } : { _id: id, ...planVersionFilter(version) },
+      {
+        $set: { status: newStatus, ...planEditStamp(session.user.name ?? (session.user as any).email ?? 'system') },
+        $inc: { editVersion: 1 },
+      },
       { new: true }
     );
     
     if (!plan) {
-      return { success: false, error: 'Plan not found' };
+      return version === undefined
+        ? { success: false, error: 'Plan not found' }
+        : await latestConflictResult(id);
     }
     
     return {
@@ -740,6 +1000,7 @@ const UpdateZoneTemperaturesSchema = z.object({
     newTemp: z.number().min(-25).max(15),
   })).min(1),
   reason: z.string().optional(),
+  expectedVersion: ExpectedVersionSchema,
 });
 
 export async function updateZoneTemperatures(data: unknown) {
@@ -757,10 +1018,13 @@ export async function updateZoneTemperatures(data: unknown) {
     if (!plan) {
       return { success: false, error: 'Plan not found' };
     }
+    const stale = checkPlanVersion(plan, validated.expectedVersion);
+    if (stale) return stale;
 
     if (!plan.coolingSectionStatus || plan.coolingSectionStatus.length === 0) {
       return { success: false, error: 'Plan has no cooling section configuration' };
     }
+    const before = plan.toObject() as any;
 
     // Determine what actually changed
     const changes: Array<{
@@ -819,10 +1083,17 @@ export async function updateZoneTemperatures(data: unknown) {
       changes,
       affectedBookings: Array.from(affectedBookings),
     });
+    const changedBy = session.user.name ?? (session.user as any).email ?? 'system';
+    recordPlanOperation(
+      plan, before, 'SET_TEMPERATURE',
+      changes.map(c => `${c.zoneId} ${c.fromTemp}°C → ${c.toTemp}°C`).join(', '),
+      changedBy,
+    );
 
     plan.markModified('temperatureChangelog');
     plan.markModified('coolingSectionStatus');
-    await plan.save();
+    const lost = await savePlanEdit(plan, changedBy);
+    if (lost) return lost;
 
     return {
       success: true,
@@ -928,6 +1199,7 @@ const MarkPlanSentSchema = z.object({
     role: z.enum(['CAPTAIN', 'CC']),
   })).min(1, 'Select at least one recipient'),
   note: z.string().optional(),
+  expectedVersion: ExpectedVersionSchema,
 });
 
 export async function markPlanSent(data: unknown) {
@@ -952,6 +1224,9 @@ export async function markPlanSent(data: unknown) {
     if (LOCKED.includes(plan.status)) {
       return { success: false, error: `Plan is already locked (status: ${plan.status})` };
     }
+    // The captain must get the plan the sender has on screen
+    const stale = checkPlanVersion(plan, validated.expectedVersion);
+    if (stale) return stale;
 
     const captain = validated.recipients.find(r => r.role === 'CAPTAIN');
     if (!captain) {
@@ -1017,6 +1292,12 @@ export async function markPlanSent(data: unknown) {
           zoneId: cs.zoneId,
           coolingSectionIds: cs.coolingSectionIds ?? [],
           assignedTemperature: cs.assignedTemperature ?? 13,
+          atmosphere: cs.atmosphere?.mode ? {
+            mode: cs.atmosphere.mode,
+            o2: cs.atmosphere.o2 ?? undefined,
+            co2: cs.atmosphere.co2 ?? undefined,
+            ventilation: cs.atmosphere.ventilation ?? undefined,
+          } : undefined,
         })),
         cargoRows: (plan.cargoPositions ?? [])
           .filter((pos: any) => pos.compartment?.id && (pos.quantity ?? 0) > 0)
@@ -1083,6 +1364,8 @@ export async function markPlanSent(data: unknown) {
 
     plan.markModified('captainCommunication');
     plan.markModified('communicationLog');
+    // The email is out — record it even if the plan changed meanwhile
+    stampPlanEdit(plan, session.user.name ?? (session.user as any).email ?? 'system');
     await plan.save();
 
     return {
@@ -1143,6 +1426,7 @@ export async function markCaptainResponse(
     });
     plan.markModified('communicationLog');
 
+    stampPlanEdit(plan, 'SYSTEM');
     await plan.save();
 
     return { success: true };
@@ -1264,6 +1548,94 @@ export async function copyStowagePlan(sourcePlanId: unknown) {
   }
 }
 
+// ----------------------------------------------------------------------------
+// COMPARE STOWAGE PLANS
+// Diff between two revisions of the same voyage (lib/plan-diff.ts). Without a
+// base the previous revision created before the target is used.
+// ----------------------------------------------------------------------------
+
+const ComparePlansSchema = z.object({
+  targetPlanId: z.string().min(1, 'Plan ID is required'),
+  basePlanId: z.string().min(1).optional(),
+});
+
+export async function compareStowagePlans(input: unknown) {
+  try {
+    const session = await auth();
+    if (!session?.user) return { success: false, error: 'Unauthorized' };
+
+    const { targetPlanId, basePlanId } = ComparePlansSchema.parse(input);
+
+    await connectDB();
+
+    const target = await StowagePlanModel.findById(targetPlanId)
+      .populate('vesselId', 'name temperatureZones')
+      .lean() as any;
+    if (!target) return { success: false, error: 'Plan not found' };
+
+    const revisions = await StowagePlanModel.find({ voyageId: target.voyageId, _id: { $ne: target._id } })
+      .select('planNumber status createdAt')
+      .sort({ createdAt: -1 })
+      .lean() as any[];
+
+    let base: any = null;
+    if (basePlanId) {
+      base = await StowagePlanModel.findById(basePlanId).lean();
+      if (!base) return { success: false, error: 'Base plan not found' };
+      if (String(base.voyageId) !== String(target.voyageId)) {
+        return { success: false, error: 'Plans belong to different voyages' };
+      }
+    } else {
+      const previous = revisions.find(r =>
+        r.status !== 'CANCELLED' && new Date(r.createdAt) < new Date(target.createdAt));
+      if (previous) base = await StowagePlanModel.findById(previous._id).lean();
+    }
+
+    // Older positions may lack the booking number snapshot
+    const diff = base ? diffStowagePlans(base, target) : null;
+    const missing = (diff?.bookings ?? [])
+      .filter(b => !b.bookingNumber && /^[a-f\d]{24}$/i.test(b.bookingId))
+      .map(b => b.bookingId);
+    if (diff && missing.length > 0) {
+      const numbers = await BookingModel.find({ _id: { $in: missing } }).select('bookingNumber').lean() as any[];
+      const byId = new Map(numbers.map(b => [b._id.toString(), b.bookingNumber as string]));
+      for (const b of diff.bookings) {
+        if (!b.bookingNumber) b.bookingNumber = byId.get(b.bookingId);
+      }
+    }
+
+    const header = (p: any) => ({
+      _id: p._id.toString(),
+      planNumber: p.planNumber,
+      status: p.status,
+      createdAt: p.createdAt,
+    });
+
+    return {
+      success: true,
+      data: JSON.parse(JSON.stringify({
+        target: {
+          ...header(target),
+          voyageNumber: target.voyageNumber,
+          vesselName: target.vesselName ?? target.vesselId?.name,
+          cargoPositions: target.cargoPositions ?? [],
+          coolingSectionStatus: target.coolingSectionStatus ?? [],
+        },
+        base: base ? header(base) : null,
+        revisions: revisions.map(header),
+        temperatureZones: target.vesselId?.temperatureZones ?? [],
+        diff,
+      })),
+    };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { success: false, error: `Validation error: ${error.issues[0].message}` };
+    }
+    console.error('Error comparing stowage plans:', error);
+    return { success: false, error: 'Failed to compare plans' };
+  }
+}
+
 // ----------------------------------------------------------------------------
 // SAVE CARGO ASSIGNMENTS
 // Replaces all cargoPositions on a plan with the current in-memory assignments.
@@ -1284,8 +1656,54 @@ const SaveCargoAssignmentsSchema = z.object({
     podPortCode: z.string().optional(),
     consigneeName: z.string().optional(),
   })),
+  // How the edit shows in the plan history; "Save Draft" sends none
+  operation: z.object({
+    type: z.enum(['ASSIGN', 'REMOVE']),
+    summary: z.string().min(1).max(200),
+  }).optional(),
+  expectedVersion: ExpectedVersionSchema,
 });
 
+// Cargo newly placed in a section has to share its cooling section with the
+// rest of what the save leaves there, as assignCargoToCompartment and
+// previewTransfer require. Returns the first conflict found.
+async function findZoneMixConflict(
+  vesselId: unknown,
+  positions: any[],
+  placed: { cargoType: string; sectionId: string }[],
+): Promise<string | null> {
+  const vessel = await VesselModel.findById(vesselId).select('temperatureZones').lean() as any;
+  if (!vessel) return null;
+  const zoneBySection = new Map<string, string>();
+  for (const zone of vessel.temperatureZones ?? []) {
+    for (const cs of zone.coolingSections ?? []) zoneBySection.set(cs.sectionId, zone.zoneId);
+  }
+
+  const [compatibility, carriage] = await Promise.all([loadCargoCompatibility(), loadCargoCarriageSpecs()]);
+  const atmosphere = buildCargoAtmospheres(carriage);
+  for (const { cargoType, sectionId } of placed) {
+    const zoneId = zoneBySection.get(sectionId);
+    if (!zoneId) continue;
+    const zoneCargoTypes = new Set<string>(
+      positions
+        .filter(p => p.cargoType && zoneBySection.get(p.compartment?.id) === zoneId)
+        .map(p => p.cargoType as string),
+    );
+    const zoneGroups = [...zoneCargoTypes].map(t => compatibility.groupByCargoType[t]).filter(Boolean);
+    const incompatible = getIncompatibleZoneGroups({ cargoType }, zoneGroups, compatibility);
+    if (incompatible.length > 0) {
+      const blockingTypes = [...zoneCargoTypes].filter(t => incompatible.includes(compatibility.groupByCargoType[t]));
+      return `Compatibility conflict: ${cargoType} (group ${compatibility.groupByCargoType[cargoType]}) cannot share cooling section ${zoneId} with ${blockingTypes.join(', ')} (group ${incompatible.join(', ')})`;
+    }
+    const blockingAtmosphere = getIncompatibleZoneAtmospheres({ cargoType }, zoneCargoTypes, atmosphere);
+    if (blockingAtmosphere.length > 0) {
+      const mode = atmosphere[cargoType]?.mode === 'CA' ? 'controlled atmosphere' : 'regular atmosphere';
+      return `Atmosphere conflict: ${cargoType} (${mode}) cannot share cooling section ${zoneId} with ${blockingAtmosphere.join(', ')}`;
+    }
+  }
+  return null;
+}
+
 export async function saveCargoAssignments(data: unknown) {
   try {
     const session = await auth();
@@ -1301,8 +1719,27 @@ export async function saveCargoAssignments(data: unknown) {
     if (!plan) {
       return { success: false, error: 'Plan not found' };
     }
+    const stale = checkPlanVersion(plan, validated.expectedVersion);
+    if (stale) return stale;
+    const before = plan.toObject() as any;
+
+    // Deck containers keep their bay/row/tier, arms and set point: they are
+    // placed by assignContainersToDeck, so this save replaces hold positions
+    // only and ignores any DECK entries in the payload.
+    const storedDeck = (before.cargoPositions ?? []).filter((pos: any) => pos.compartment?.level === 'DECK');
+    const holdBefore = (before.cargoPositions ?? []).filter((pos: any) => pos.compartment?.level !== 'DECK');
+    const holdAssignments = validated.assignments.filter(a => a.compartmentId !== 'DECK');
+
+    const weightsPerUnit = await loadBookingWeightsPerUnit(holdAssignments.map(a => a.bookingId));
+
+    // Pallets per booking × section before the save, to see what was placed from staging
+    const placedBefore = new Map<string, number>();
+    for (const pos of holdBefore) {
+      const key = `${pos.bookingId ?? ''}|${pos.compartment?.id ?? ''}`;
+      placedBefore.set(key, (placedBefore.get(key) ?? 0) + (pos.quantity ?? 0));
+    }
 
-    plan.cargoPositions = validated.assignments.map((a: any) => ({
+    const holdPositions = holdAssignments.map((a: any) => ({
       shipmentId: a.shipmentId || undefined,
       bookingId: a.bookingId || undefined,
       bookingNumber: a.bookingNumber || undefined,
@@ -1317,16 +1754,75 @@ export async function saveCargoAssignments(data: unknown) {
       polPortCode: a.polPortCode || undefined,
       podPortCode: a.podPortCode || undefined,
       consigneeName: a.consigneeName || undefined,
-      weight: 0,
+      weight: a.quantity * (weightsPerUnit.get(a.bookingId) ?? resolveWeightPerUnit({ cargoType: a.cargoType }).kgPerUnit),
       position: { lcg: 0, tcg: 0, vcg: 0 },
     }));
+    plan.cargoPositions = [...holdPositions, ...storedDeck];
+
+    // Staged pallets placed back into a section leave the staging pool
+    const placedAfter = new Map<string, number>();
+    for (const a of holdAssignments) {
+      const key = `${a.bookingId ?? ''}|${a.compartmentId}`;
+      placedAfter.set(key, (placedAfter.get(key) ?? 0) + a.quantity);
+    }
+
+    // Sections that gained pallets of a booking are checked for cargo mixing
+    const placedNow = holdAssignments
+      .filter(a => {
+        const key = `${a.bookingId ?? ''}|${a.compartmentId}`;
+        return (placedAfter.get(key) ?? 0) > (placedBefore.get(key) ?? 0);
+      })
+      .map(a => ({ cargoType: a.cargoType, sectionId: a.compartmentId }));
+    if (placedNow.length > 0) {
+      const conflict = await findZoneMixConflict(plan.vesselId, holdPositions, placedNow);
+      if (conflict) return { success: false, error: conflict };
+    }
+    const planObj = plan.toObject() as any;
+    const staged: StagedCargo[] = planObj.stagedCargo ?? [];
+    const placements: Omit<CargoChangelogEntry, 'changedAt' | 'changedBy'>[] = [];
+    const stagedAfter = staged.map(entry => {
+      let quantity = entry.quantity;
+      for (const [key, after] of placedAfter) {
+        const [bookingId, sectionId] = key.split('|');
+        const added = after - (placedBefore.get(key) ?? 0);
+        if (bookingId !== entry.bookingId || added <= 0 || quantity <= 0) continue;
+        const pallets = Math.min(added, quantity);
+        quantity -= pallets;
+        placements.push({
+          action: 'PLACE',
+          bookingId: entry.bookingId,
+          bookingNumber: entry.bookingNumber,
+          cargoType: entry.cargoType,
+          toSectionId: sectionId,
+          pallets,
+        });
+      }
+      const kgPerPallet = entry.quantity > 0 ? (entry.weight ?? 0) / entry.quantity : 0;
+      return { ...entry, quantity, weight: quantity * kgPerPallet };
+    }).filter(entry => entry.quantity > 0);
+    const changedBy = session.user.name ?? (session.user as any).email ?? 'system';
+    if (placements.length > 0) {
+      (plan as any).stagedCargo = stagedAfter;
+      appendCargoChangelog(plan, planObj, changedBy, placements);
+    }
+
+    const palletDelta = holdAssignments.reduce((sum, a) => sum + a.quantity, 0)
+      - holdBefore.reduce((sum: number, pos: any) => sum + (pos.quantity ?? 0), 0);
+    const operation = validated.operation ?? {
+      type: palletDelta >= 0 ? 'ASSIGN' : 'REMOVE',
+      summary: palletDelta >= 0 ? `Saved draft (+${palletDelta} plt)` : `Saved draft (${palletDelta} plt)`,
+    };
+    recordPlanOperation(plan, before, operation.type, operation.summary, changedBy);
 
     plan.markModified('cargoPositions');
-    await plan.save();
+    const lost = await savePlanEdit(plan, changedBy);
+    if (lost) return lost;
 
+    const saved = plan.toObject() as any;
     return {
       success: true,
-      message: `Plan saved with ${validated.assignments.length} cargo position(s)`,
+      data: JSON.parse(JSON.stringify({ stagedCargo: saved.stagedCargo ?? [], version: saved.editVersion })),
+      message: `Plan saved with ${holdAssignments.length} cargo position(s)`,
     };
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -1339,351 +1835,1109 @@ export async function saveCargoAssignments(data: unknown) {
 }
 
 // ----------------------------------------------------------------------------
-// HELPER FUNCTIONS
+// TRANSFER CARGO
+// Moves N pallets of one booking between two cooling sections of a saved plan.
+// The move is checked like an engine assignment (temperature, capacity,
+// overstow, compatibility group, atmosphere); stability and refrigeration
+// warnings are recomputed and the move is recorded in cargoChangelog.
+// previewCargoTransfer returns the same before/after figures without saving.
 // ----------------------------------------------------------------------------
 
-function getHoldNumber(compartmentId: string): number {
-  // Extract hold number from compartment ID (e.g., "2UPD" -> 2, "1A" -> 1)
-  const match = compartmentId.match(/^(\d+)/);
-  return match ? parseInt(match[1]) : 0;
-}
+const TransferCargoSchema = z.object({
+  planId: z.string().min(1, 'Plan ID is required'),
+  bookingId: z.string().min(1, 'Booking is required'),
+  fromSectionId: z.string().min(1, 'Source section is required'),
+  toSectionId: z.string().min(1, 'Target section is required'),
+  pallets: z.number().int().positive('Pallets must be at least 1'),
+  reason: z.string().max(500).optional(),
+  expectedVersion: ExpectedVersionSchema,
+});
 
-function getLevel(compartmentId: string): string {
-  // Extract level from compartment ID (e.g., "2UPD" -> "UPD", "1A" -> "A")
-  const match = compartmentId.match(/^\d+(.*)/);
-  return match ? match[1] : '';
+// Plans already sent to the captain are edited through a new draft
+const LOCKED_PLAN_STATUSES = [
+  'EMAIL_SENT', 'CAPTAIN_APPROVED', 'CAPTAIN_REJECTED',
+  'IN_REVISION', 'READY_FOR_EXECUTION', 'IN_EXECUTION', 'COMPLETED',
+];
+
+// Conflict types that depend on the whole stowage and are recomputed after an edit
+const EVALUATED_CONFLICT_TYPES = ['STABILITY_WARNING', 'REFRIGERATION_WARNING'];
+
+type TransferInput = z.infer<typeof TransferCargoSchema>;
+
+// Engine state of a saved plan plus the cargo specs edits are checked against
+async function loadPlanEditContext(plan: any) {
+  const [vessel, voyage, carriage, compatibility] = await Promise.all([
+    VesselModel.findById(plan.vesselId).lean(),
+    VoyageModel.findById(plan.voyageId).select('portCalls').lean(),
+    loadCargoCarriageSpecs(),
+    loadCargoCompatibility(),
+  ]) as [any, any, CargoCarriageSpecs, CargoCompatibility];
+  if (!vessel) return { error: 'Vessel not found' };
+  if (!voyage) return { error: 'Voyage not found' };
+
+  return {
+    state: buildPlanState(vessel, voyage, plan, carriage),
+    compatibility,
+    atmosphere: buildCargoAtmospheres(carriage),
+  };
 }
 
-// ----------------------------------------------------------------------------
-// AUTO-GENERATE DRAFT PLANS
-// Scans all non-cancelled voyages departing within the next 28 days.
-// For each voyage that has ≥1 CONFIRMED or PARTIAL booking and no existing
-// non-cancelled stowage plan, creates a new DRAFT plan.
-// Returns a summary so the UI can display what was created / skipped.
-// ----------------------------------------------------------------------------
+async function loadTransferPreview(plan: any, move: TransferInput) {
+  const context = await loadPlanEditContext(plan);
+  if ('error' in context) return { error: context.error };
 
-// ----------------------------------------------------------------------------
-// BUILD ENGINE INPUT — shared by autoGenerateDraftPlans and replanAfterTemperatureOverride
-// ----------------------------------------------------------------------------
+  const { state, compatibility, atmosphere } = context;
+  const preview = previewTransfer(state, move, compatibility, atmosphere);
+  return { state, preview, atmosphere };
+}
 
-function buildEngineSections(vessel: any): EngineSection[] {
-  const sections: EngineSection[] = [];
-  for (const zone of vessel.temperatureZones ?? []) {
-    for (const cs of zone.coolingSections ?? []) {
-      const holdNumber = parseInt(String(cs.sectionId).charAt(0), 10) || 1;
-      const dsf = cs.designStowageFactor ?? 1.32;
-      sections.push({
-        sectionId:           cs.sectionId,
-        zoneId:              zone.zoneId,
-        sqm:                 cs.sqm,
-        designStowageFactor: dsf,
-        maxPallets:          Math.floor(cs.sqm * dsf),
-        holdNumber,
-        longitudinalArm:     HOLD_LONGITUDINAL_ARM[holdNumber] ?? 0,
-        transverseArm:       0,
-        assignedTemperature: null,
-      });
-    }
+// Takes `pallets` of a booking out of one section's positions, in stored order.
+// `template` is the first position touched; its snapshot fields label the pallets.
+function takePalletsFromSection(
+  positions: any[],
+  bookingId: string,
+  sectionId: string,
+  pallets: number,
+  kgPerPallet: number,
+) {
+  let remaining = pallets;
+  let template: any;
+  const result: any[] = [];
+  for (const pos of positions) {
+    if (remaining > 0 && String(pos.bookingId ?? '') === bookingId && pos.compartment?.id === sectionId) {
+      template = template ?? pos;
+      const quantity = pos.quantity ?? 0;
+      const taken = Math.min(remaining, quantity);
+      const kg = quantity > 0 && (pos.weight ?? 0) > 0 ? pos.weight / quantity : kgPerPallet;
+      remaining -= taken;
+      if (quantity - taken <= 0) continue;
+      result.push({ ...pos, quantity: quantity - taken, weight: (quantity - taken) * kg });
+      continue;
+    }
+    result.push(pos);
   }
-  return sections;
+  return { positions: result, template };
 }
 
-function buildEngineZones(vessel: any): EngineZone[] {
-  return (vessel.temperatureZones ?? []).map((zone: any): EngineZone => ({
-    zoneId:              zone.zoneId,
-    sectionIds:          (zone.coolingSections ?? []).map((s: any) => s.sectionId as string),
-    assignedTemperature: null,
-    source:              null,
-  }));
+// Booking snapshot fields copied onto a new position
+function positionSnapshot(template: any) {
+  return {
+    shipmentId: template.shipmentId ?? undefined,
+    bookingId: template.bookingId,
+    bookingNumber: template.bookingNumber ?? undefined,
+    shipperName: template.shipperName ?? undefined,
+    consigneeName: template.consigneeName ?? undefined,
+    cargoType: template.cargoType ?? undefined,
+    polPortCode: template.polPortCode ?? undefined,
+    podPortCode: template.podPortCode ?? undefined,
+    snapshotTotalQuantity: template.snapshotTotalQuantity ?? undefined,
+    confidence: template.confidence ?? undefined,
+    polSeq: template.polSeq ?? undefined,
+    podSeq: template.podSeq ?? undefined,
+  };
 }
 
-function buildEngineBookings(bookings: any[], voyage: any): EngineBooking[] {
-  const portCallMap = new Map<string, number>(
-    (voyage.portCalls ?? []).map((pc: any) => [pc.portCode as string, pc.sequence as number]),
-  );
-
-  const engineBookings: EngineBooking[] = [];
-  for (const b of bookings) {
-    const polSeq = portCallMap.get(b.pol?.portCode);
-    const podSeq = portCallMap.get(b.pod?.portCode);
-    if (polSeq === undefined || podSeq === undefined) continue; // port not in this voyage
-
-    const tempRange = getTempRange(b.cargoType ?? '');
-    const confirmed = (b.confirmedQuantity ?? 0) > 0;
-    const pallets   = confirmed ? b.confirmedQuantity : b.requestedQuantity;
-
-    engineBookings.push({
-      bookingId:    b._id.toString(),
-      cargoType:    b.cargoType ?? 'OTHER_CHILLED',
-      tempMin:      tempRange.min,
-      tempMax:      tempRange.max,
-      pallets,
-      polPortCode:  b.pol?.portCode ?? '',
-      podPortCode:  b.pod?.portCode ?? '',
-      polSeq:       polSeq,
-      podSeq:       podSeq,
-      polSequence:  polSeq,
-      podSequence:  podSeq,
-      shipperId:    b.shipperId?.toString() ?? b.shipper?.code ?? '',
-      consigneeCode: b.consignee?.code ?? '',
-      confidence:   confirmed ? 'CONFIRMED' : 'ESTIMATED',
-      frozen:       confirmed,
-    });
+// Writes a re-evaluated stowage onto the plan document: atmosphere of the
+// touched zones, heat load of every zone, recomputed warnings and stability.
+function applyEvaluationToPlan(
+  plan: any,
+  planObj: any,
+  state: PlanState,
+  assignments: CargoAssignment[],
+  evaluation: StowageEvaluation,
+  atmosphere: Record<string, CargoAtmosphere>,
+  touchedZoneIds: (string | undefined)[],
+) {
+  const zoneCargoTypes = getZoneCargoTypes(state.sections, assignments, state.bookings);
+  const heatLoads = new Map(evaluation.zones.map(z => [z.zoneId, z.heatLoadKw]));
+  for (const cs of plan.coolingSectionStatus ?? []) {
+    if (touchedZoneIds.includes(cs.zoneId)) {
+      cs.atmosphere = resolveZoneAtmosphere(zoneCargoTypes.get(cs.zoneId) ?? [], atmosphere);
+    }
+    cs.heatLoadKw = heatLoads.get(cs.zoneId) ?? undefined;
   }
-  return engineBookings;
+
+  plan.conflicts = [
+    ...(planObj.conflicts ?? []).filter((c: any) => !EVALUATED_CONFLICT_TYPES.includes(c.type)),
+    ...evaluation.conflicts,
+  ];
+  plan.stabilityIndicators = evaluation.stabilityByPort;
+  plan.markModified('coolingSectionStatus');
 }
 
-function mapEngineOutputToDocument(engineOutput: ReturnType<typeof generateStowagePlan>, bookings: any[]) {
-  const bookingMap = new Map(bookings.map((b: any) => [b._id.toString(), b]));
+function appendCargoChangelog(
+  plan: any,
+  planObj: any,
+  changedBy: string,
+  entries: Omit<CargoChangelogEntry, 'changedAt' | 'changedBy'>[],
+) {
+  const changedAt = new Date();
+  plan.cargoChangelog = [
+    ...(planObj.cargoChangelog ?? []),
+    ...entries.map(e => ({ changedAt, changedBy, ...e })),
+  ];
+}
 
-  // CargoPositionOutput keyed by bookingId::sectionId — populated only if a future engine
-  // version exposes cargoPositions on EngineOutput; empty map otherwise (harmless).
-  const cpLookup = new Map<string, any>();
-  for (const cp of (engineOutput as any).cargoPositions ?? []) {
-    const key = `${cp.bookingId ?? ''}::${cp.sectionId}`;
-    cpLookup.set(key, cp);
+// Before/after of both sections and of every discharge port, for the modal
+function summarizeTransfer(
+  plan: any,
+  state: PlanState,
+  preview: ReturnType<typeof previewTransfer>,
+  move: TransferInput,
+) {
+  const labels = new Map<string, any>();
+  for (const pos of plan.cargoPositions ?? []) {
+    if (pos.bookingId && !labels.has(String(pos.bookingId))) labels.set(String(pos.bookingId), pos);
   }
+  const tempByZone = new Map(state.zones.map(z => [z.zoneId, z.assignedTemperature]));
+
+  const sectionSummary = (sectionId: string) => {
+    const section = state.sections.find(s => s.sectionId === sectionId);
+    const inSection = (assignments: typeof state.assignments) =>
+      new Map(assignments.filter(a => a.sectionId === sectionId).map(a => [a.bookingId, a.palletsAssigned]));
+    const before = inSection(state.assignments);
+    const after = inSection(preview.assignmentsAfter);
+    const bookingIds = [...new Set([...before.keys(), ...after.keys()])];
+    const temperatureBefore = section ? tempByZone.get(section.zoneId) ?? null : null;
+    return {
+      sectionId,
+      zoneId: section?.zoneId ?? '',
+      capacity: section?.maxPallets ?? 0,
+      temperatureBefore,
+      temperatureAfter: sectionId === move.toSectionId ? preview.targetTemperature : temperatureBefore,
+      palletsBefore: [...before.values()].reduce((sum, n) => sum + n, 0),
+      palletsAfter: [...after.values()].reduce((sum, n) => sum + n, 0),
+      bookings: bookingIds.map(bookingId => ({
+        bookingId,
+        bookingNumber: labels.get(bookingId)?.bookingNumber ?? undefined,
+        cargoType: labels.get(bookingId)?.cargoType ?? undefined,
+        podPortCode: labels.get(bookingId)?.podPortCode ?? undefined,
+        before: before.get(bookingId) ?? 0,
+        after: after.get(bookingId) ?? 0,
+      })),
+    };
+  };
 
-  const cargoPositions = engineOutput.assignments.map(a => {
-    const bk = bookingMap.get(a.bookingId);
-    const holdNumber = parseInt(String(a.sectionId).charAt(0), 10) || 1;
-    const level = String(a.sectionId).slice(1); // "1A" → "A", "2UPD" → "UPD"
-    // Real bookings have pol/pod on bk.pol?.portCode; contract estimates store them as bk.polPortCode.
-    const polPortCode = (bk as any)?.pol?.portCode ?? (bk as any)?.polPortCode ?? undefined;
-    const podPortCode = (bk as any)?.pod?.portCode ?? (bk as any)?.podPortCode ?? undefined;
-    const cpKey = `${a.bookingId}::${a.sectionId}`;
-    const cpSnap = cpLookup.get(cpKey);
-    // Derive confidence from bk (synthetic entries carry it) or from bookingId prefix as fallback.
-    const confidence: string = (bk as any)?.confidence
-      ?? (a.bookingId?.startsWith('FORECAST-') ? 'ESTIMATED'
-        : a.bookingId?.startsWith('CONTRACT-ESTIMATE-') ? 'CONTRACT_ESTIMATE'
-        : 'CONFIRMED');
+  const afterByPort = new Map(preview.after.stabilityByPort.map(s => [s.portSequence, s]));
+  const stability = preview.before.stabilityByPort.map(b => {
+    const a = afterByPort.get(b.portSequence);
     return {
-      bookingId:        a.bookingId,
-      cargoType:        bk?.cargoType ?? cpSnap?.cargoType ?? undefined,
-      shipperName:      (bk as any)?.shipperName ?? cpSnap?.shipperName ?? undefined,
-      consigneeName:    (bk as any)?.consignee?.name ?? (bk as any)?.consigneeName ?? cpSnap?.consigneeName ?? undefined,
-      polPortCode,
-      podPortCode,
-      quantity:         a.palletsAssigned,
-      snapshotQuantity: cpSnap?.snapshotQuantity ?? a.palletsAssigned,
-      confidence,
-      polSeq:           (bk as any)?.polSeq ?? cpSnap?.polSeq ?? 0,
-      podSeq:           (bk as any)?.podSeq ?? cpSnap?.podSeq ?? 0,
-      compartment:      { id: a.sectionId, holdNumber, level },
+      portSequence: b.portSequence,
+      portCode: b.portCode,
+      before: { trimIndex: b.trimIndex, listIndex: b.listIndex, status: b.status },
+      after: a ? { trimIndex: a.trimIndex, listIndex: a.listIndex, status: a.status } : null,
     };
   });
 
-  const coolingSectionStatus = engineOutput.zoneTemps.map(z => ({
-    zoneId:              z.zoneId,
-    coolingSectionIds:   z.sectionIds,
-    assignedTemperature: z.assignedTemperature ?? undefined,
-    locked:              false,
-    temperatureSource:   z.source ?? undefined,
-  }));
-
-  const hasHardConflict = engineOutput.conflicts.some(c =>
-    c.type === 'TEMPERATURE_CONFLICT' || c.type === 'OVERSTOW_CONFLICT',
-  );
-
-  return { cargoPositions, coolingSectionStatus, hasHardConflict };
+  const beforeWarnings = new Set(preview.before.conflicts.map(c => `${c.type}|${c.message}`));
+  return {
+    violations: preview.violations,
+    from: sectionSummary(move.fromSectionId),
+    to: sectionSummary(move.toSectionId),
+    stability,
+    newWarnings: preview.after.conflicts
+      .filter(c => !beforeWarnings.has(`${c.type}|${c.message}`))
+      .map(c => c.message),
+  };
 }
 
-export async function autoGenerateDraftPlans() {
+export async function previewCargoTransfer(input: unknown) {
   try {
     const session = await auth();
     if (!session?.user) return { success: false, error: 'Unauthorized' };
     const role = (session.user as any).role as string;
     if (!['ADMIN', 'SHIPPING_PLANNER'].includes(role)) return { success: false, error: 'Forbidden' };
 
+    const move = TransferCargoSchema.parse(input);
+
     await connectDB();
 
-    const now = new Date();
-    // Extended to 60 days to capture more voyages for testing
-    const cutoff = new Date(now.getTime() + 60 * 24 * 60 * 60 * 1000);
+    const plan = await StowagePlanModel.findById(move.planId).lean() as any;
+    if (!plan) return { success: false, error: 'Plan not found' };
 
-    const voyages = await VoyageModel.find({
-      departureDate: { $gte: now, $lte: cutoff },
-      status: { $ne: 'CANCELLED' },
-    }).lean();
+    const loaded = await loadTransferPreview(plan, move);
+    if ('error' in loaded) return { success: false, error: loaded.error };
 
-    type DetailItem = {
-      voyageNumber: string;
-      action: 'CREATED' | 'UPDATED' | 'SKIPPED';
-      reason?: string;
-      bookingsUsed: number;
-      contractEstimatesUsed: number;
-      conflictCount: number;
-      sectionsAssigned: number;
+    return {
+      success: true,
+      data: JSON.parse(JSON.stringify(summarizeTransfer(plan, loaded.state, loaded.preview, move))),
     };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { success: false, error: `Validation error: ${error.issues[0].message}` };
+    }
+    console.error('Error previewing cargo transfer:', error);
+    return { success: false, error: 'Failed to preview transfer' };
+  }
+}
 
-    const details: DetailItem[] = [];
-    let created = 0, updated = 0, skipped = 0;
+export async function transferCargo(input: unknown) {
+  try {
+    const session = await auth();
+    if (!session?.user) return { success: false, error: 'Unauthorized' };
+    const role = (session.user as any).role as string;
+    if (!['ADMIN', 'SHIPPING_PLANNER'].includes(role)) return { success: false, error: 'Forbidden' };
 
-    const LOCKED_STATUSES = [
-      'EMAIL_SENT', 'CAPTAIN_APPROVED', 'CAPTAIN_REJECTED',
-      'IN_REVISION', 'READY_FOR_EXECUTION', 'IN_EXECUTION', 'COMPLETED',
-    ];
+    const move = TransferCargoSchema.parse(input);
 
-    for (const voyage of voyages as any[]) {
-      // ── Step 1: Determine action (CREATE / UPDATE / SKIP) ────────────────
-      const existingPlan = await StowagePlanModel.findOne({
-        voyageId: voyage._id,
-        status: { $nin: ['CANCELLED'] },
-      }).sort({ createdAt: -1 }).lean() as any;
+    await connectDB();
 
-      let planAction: 'CREATED' | 'UPDATED' = 'CREATED';
+    const plan = await StowagePlanModel.findById(move.planId);
+    if (!plan) return { success: false, error: 'Plan not found' };
+    if (LOCKED_PLAN_STATUSES.includes(plan.status)) {
+      return { success: false, error: 'Plan is locked — create a new draft to move cargo' };
+    }
+    const stale = checkPlanVersion(plan, move.expectedVersion);
+    if (stale) return stale;
 
-      if (existingPlan) {
-        if (LOCKED_STATUSES.includes(existingPlan.status)) {
-          skipped++;
-          details.push({
-            voyageNumber: voyage.voyageNumber,
-            action: 'SKIPPED',
-            reason: 'plan already sent to captain',
-            bookingsUsed: 0,
-            contractEstimatesUsed: 0,
-            conflictCount: 0,
-            sectionsAssigned: 0,
-          });
-          continue;
-        }
-        // DRAFT or ESTIMATED → update
-        planAction = 'UPDATED';
+    const planObj = plan.toObject() as any;
+    const loaded = await loadTransferPreview(planObj, move);
+    if ('error' in loaded) return { success: false, error: loaded.error };
+    const { state, preview, atmosphere } = loaded;
+    if (preview.violations.length > 0) {
+      return { success: false, error: preview.violations.map(v => v.message).join('; ') };
+    }
+
+    const kgPerPallet = state.bookings.find(b => b.bookingId === move.bookingId)!.weightPerUnitKg;
+
+    // Take the pallets out of the source section…
+    const { positions, template } = takePalletsFromSection(
+      planObj.cargoPositions ?? [], move.bookingId, move.fromSectionId, move.pallets, kgPerPallet,
+    );
+
+    // …and into the target: grow the booking's position there or add one
+    const target = positions.find(pos =>
+      String(pos.bookingId ?? '') === move.bookingId && pos.compartment?.id === move.toSectionId);
+    if (target) {
+      target.quantity = (target.quantity ?? 0) + move.pallets;
+      target.weight = (target.weight ?? 0) + move.pallets * kgPerPallet;
+    } else {
+      positions.push({
+        ...positionSnapshot(template),
+        compartment: {
+          id: move.toSectionId,
+          holdNumber: getHoldNumber(move.toSectionId),
+          level: getLevel(move.toSectionId),
+        },
+        quantity: move.pallets,
+        weight: move.pallets * kgPerPallet,
+        position: { lcg: 0, tcg: 0, vcg: 0 },
+      });
+    }
+    plan.cargoPositions = positions as any;
+
+    // Zone set point of the target, then atmosphere, heat loads and warnings
+    const fromZoneId = state.sections.find(s => s.sectionId === move.fromSectionId)?.zoneId;
+    const toZoneId = state.sections.find(s => s.sectionId === move.toSectionId)?.zoneId;
+    for (const cs of plan.coolingSectionStatus ?? []) {
+      if (cs.zoneId === toZoneId && cs.assignedTemperature == null && preview.targetTemperature !== null) {
+        cs.assignedTemperature = preview.targetTemperature;
       }
+    }
+    applyEvaluationToPlan(
+      plan, planObj, state, preview.assignmentsAfter, preview.after, atmosphere, [fromZoneId, toZoneId],
+    );
 
-      // ── Step 2a: Real bookings (priority 1) ──────────────────────────────
-      const bookings: any[] = await BookingModel.find({
-        voyageId: voyage._id,
-        status: { $in: ['CONFIRMED', 'PARTIAL', 'PENDING'] },
-      }).lean();
+    const changedBy = session.user.name ?? (session.user as any).email ?? 'system';
+    appendCargoChangelog(plan, planObj, changedBy, [{
+      action: 'TRANSFER',
+      bookingId: move.bookingId,
+      bookingNumber: template?.bookingNumber ?? undefined,
+      cargoType: template?.cargoType ?? undefined,
+      fromSectionId: move.fromSectionId,
+      toSectionId: move.toSectionId,
+      pallets: move.pallets,
+      reason: move.reason || undefined,
+    }]);
+    recordPlanOperation(
+      plan, planObj, 'TRANSFER',
+      `Moved ${move.pallets} plt ${template?.bookingNumber ?? move.bookingId} ${move.fromSectionId} → ${move.toSectionId}`,
+      changedBy,
+    );
 
-      // ── Step 2b: Contract estimates (priority 2) ─────────────────────────
-      const contractEstimates: EngineBooking[] = [];
+    plan.markModified('cargoPositions');
+    const lost = await savePlanEdit(plan, changedBy);
+    if (lost) return lost;
 
-      if (voyage.serviceId) {
-        const portCallMap = new Map<string, number>(
-          (voyage.portCalls ?? []).map((pc: any) => [pc.portCode as string, pc.sequence as number]),
-        );
-        console.log(`[AutoGen] ${voyage.voyageNumber}: portCallMap = ${JSON.stringify([...portCallMap.entries()])}`);
+    const saved = plan.toObject() as any;
+    return {
+      success: true,
+      data: JSON.parse(JSON.stringify({
+        cargoPositions: saved.cargoPositions,
+        coolingSectionStatus: saved.coolingSectionStatus,
+        conflicts: saved.conflicts,
+        stabilityIndicators: saved.stabilityIndicators,
+        version: saved.editVersion,
+      })),
+      message: `${move.pallets} pallet(s) moved from ${move.fromSectionId} to ${move.toSectionId}`,
+    };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { success: false, error: `Validation error: ${error.issues[0].message}` };
+    }
+    const msg = error instanceof Error ? error.message : String(error);
+    console.error('Error transferring cargo:', msg);
+    return { success: false, error: `Failed to transfer cargo: ${msg}` };
+  }
+}
 
-        // Contracts that already have a booking for this voyage
-        const coveredContractIds = new Set(
-          bookings.map((b: any) => b.contractId?.toString()).filter(Boolean),
-        );
+// ----------------------------------------------------------------------------
+// REDUCE / CANCEL CARGO
+// Takes N pallets of one booking off a cooling section, with a reason.
+// STAGE keeps them on the plan in stagedCargo — unassigned, but distinct from
+// cargo the plan never placed — so they can be re-placed later.
+// CANCEL drops them and lowers the booking through updateBookingQuantity.
+// Stability and refrigeration warnings are recomputed as for a transfer.
+// ----------------------------------------------------------------------------
 
-        const activeContracts = await ContractModel.find({
-          serviceId: voyage.serviceId,
-          active: true,
-        }).lean();
+const ReduceCargoSchema = z.object({
+  planId: z.string().min(1, 'Plan ID is required'),
+  bookingId: z.string().min(1, 'Booking is required'),
+  sectionId: z.string().min(1, 'Section is required'),
+  pallets: z.number().int().positive('Pallets must be at least 1'),
+  reason: z.string().trim().min(1, 'Reason is required').max(500),
+  mode: z.enum(['STAGE', 'CANCEL']),
+  expectedVersion: ExpectedVersionSchema,
+});
 
-        console.log(`[AutoGen] ${voyage.voyageNumber}: found ${(activeContracts as any[]).length} active contracts for serviceId=${voyage.serviceId}`);
+// New staged entry for the booking, or the existing one grown by `pallets`
+function stagePallets(
+  staged: StagedCargo[],
+  template: any,
+  pallets: number,
+  kgPerPallet: number,
+  sectionId: string,
+  reason: string,
+  stagedBy: string,
+): StagedCargo[] {
+  const bookingId = String(template.bookingId);
+  const existing = staged.find(s => s.bookingId === bookingId);
+  const stagedAt = new Date();
+  if (existing) {
+    return staged.map(s => s === existing
+      ? {
+          ...s,
+          quantity: s.quantity + pallets,
+          weight: (s.weight ?? 0) + pallets * kgPerPallet,
+          fromSectionId: sectionId,
+          reason,
+          stagedAt,
+          stagedBy,
+        }
+      : s);
+  }
+  return [
+    ...staged,
+    {
+      bookingId,
+      bookingNumber: template.bookingNumber ?? undefined,
+      cargoType: template.cargoType ?? undefined,
+      shipperName: template.shipperName ?? undefined,
+      consigneeName: template.consigneeName ?? undefined,
+      polPortCode: template.polPortCode ?? undefined,
+      podPortCode: template.podPortCode ?? undefined,
+      polSeq: template.polSeq ?? undefined,
+      podSeq: template.podSeq ?? undefined,
+      confidence: template.confidence ?? undefined,
+      quantity: pallets,
+      weight: pallets * kgPerPallet,
+      fromSectionId: sectionId,
+      reason,
+      stagedAt,
+      stagedBy,
+    },
+  ];
+}
 
-        for (const contract of activeContracts as any[]) {
-          const contractId = contract._id.toString();
-          if (coveredContractIds.has(contractId)) {
-            console.log(`[AutoGen] ${voyage.voyageNumber}: contract ${contract.contractNumber} already covered by booking — skipping`);
-            continue;
-          }
+export async function reduceCargo(input: unknown) {
+  try {
+    const session = await auth();
+    if (!session?.user) return { success: false, error: 'Unauthorized' };
+    const role = (session.user as any).role as string;
+    if (!['ADMIN', 'SHIPPING_PLANNER'].includes(role)) return { success: false, error: 'Forbidden' };
 
-          const polCode = contract.originPort?.portCode;
-          const podCode = contract.destinationPort?.portCode;
-          const polSeq = portCallMap.get(polCode);
-          const podSeq = portCallMap.get(podCode);
+    const validated = ReduceCargoSchema.parse(input);
+    const changedBy = session.user.name ?? (session.user as any).email ?? 'system';
 
-          console.log(`[AutoGen] ${voyage.voyageNumber}: contract ${contract.contractNumber} pol=${polCode}(seq=${polSeq}) pod=${podCode}(seq=${podSeq})`);
+    await connectDB();
 
-          if (polSeq === undefined || podSeq === undefined) {
-            console.log(`[AutoGen] ${voyage.voyageNumber}: contract ${contract.contractNumber} pol/pod not in voyage — skipping`);
-            continue;
-          }
+    const plan = await StowagePlanModel.findById(validated.planId);
+    if (!plan) return { success: false, error: 'Plan not found' };
+    if (LOCKED_PLAN_STATUSES.includes(plan.status)) {
+      return { success: false, error: 'Plan is locked — create a new draft to change cargo' };
+    }
+    const stale = checkPlanVersion(plan, validated.expectedVersion);
+    if (stale) return stale;
 
-          // Fix 5 — warn if contract.cargoType differs from any counterparty cargoTypes
-          const counterparties: any[] = contract.counterparties ?? [];
-          for (const cp of counterparties) {
-            if (cp.active && contract.cargoType && (cp.cargoTypes ?? []).length > 0) {
-              if (!cp.cargoTypes.includes(contract.cargoType)) {
-                console.warn(`[AutoGen] Contract ${contract.contractNumber}: cargoType "${contract.cargoType}" not in counterparty "${cp.shipperCode}" cargoTypes [${cp.cargoTypes.join(', ')}]`);
-              }
-            }
-          }
+    const planObj = plan.toObject() as any;
+    const context = await loadPlanEditContext(planObj);
+    if ('error' in context) return { success: false, error: context.error };
+    const { state, atmosphere } = context;
 
-          // Per-counterparty estimates — use counterparty.weeklyEstimate + cargoTypes[0]
-          if (counterparties.length > 0) {
-            for (let i = 0; i < counterparties.length; i++) {
-              const cp = counterparties[i];
-              if (!cp.active) continue;
-              const pallets = cp.weeklyEstimate;
-              if (!pallets || pallets <= 0) continue;
-              const cargoType = (cp.cargoTypes ?? [])[0] ?? contract.cargoType ?? 'OTHER_CHILLED';
-              const tempRange = getTempRange(cargoType);
-              contractEstimates.push({
-                bookingId:     `CONTRACT-ESTIMATE-${contractId}-${i}`,
-                cargoType,
-                tempMin:       tempRange.min,
-                tempMax:       tempRange.max,
-                pallets,
-                polPortCode:   polCode ?? '',
-                podPortCode:   podCode ?? '',
-                polSeq:        polSeq as number,
-                podSeq:        podSeq as number,
-                polSequence:   polSeq,
-                podSequence:   podSeq,
-                shipperId:     '',
-                consigneeCode: '',
-                confidence:    'CONTRACT_ESTIMATE' as const,
-                frozen:        false,
-              });
-              console.log(`[AutoGen] ${voyage.voyageNumber}: contract ${contract.contractNumber} cp[${i}] ${cp.shipperCode} → ${pallets} pallets of ${cargoType}`);
-            }
-          } else {
-            // Fallback: use contract-level weeklyPallets + cargoType
-            const pallets = contract.weeklyPallets;
-            if (!pallets || pallets <= 0) continue;
-            const cargoType = contract.cargoType ?? 'OTHER_CHILLED';
-            const tempRange = getTempRange(cargoType);
-            contractEstimates.push({
-              bookingId:     `CONTRACT-ESTIMATE-${contractId}`,
-              cargoType,
-              tempMin:       tempRange.min,
-              tempMax:       tempRange.max,
-              pallets,
-              polPortCode:   polCode ?? '',
-              podPortCode:   podCode ?? '',
-              polSeq:        polSeq as number,
-              podSeq:        podSeq as number,
-              polSequence:   polSeq,
-              podSequence:   podSeq,
-              shipperId:     '',
-              consigneeCode: '',
-              confidence:    'CONTRACT_ESTIMATE' as const,
-              frozen:        false,
-            });
-            console.log(`[AutoGen] ${voyage.voyageNumber}: contract ${contract.contractNumber} fallback → ${pallets} pallets of ${cargoType}`);
-          }
-        }
+    const stowed = state.assignments
+      .filter(a => a.bookingId === validated.bookingId && a.sectionId === validated.sectionId)
+      .reduce((sum, a) => sum + a.palletsAssigned, 0);
+    if (stowed === 0) {
+      return { success: false, error: `Booking has no cargo in ${validated.sectionId}` };
+    }
+    if (validated.pallets > stowed) {
+      return { success: false, error: `Only ${stowed} pallet(s) of this booking are stowed in ${validated.sectionId}` };
+    }
 
-        console.log(`[AutoGen] ${voyage.voyageNumber}: contractEstimates count = ${contractEstimates.length}`);
+    // Cancelling lowers the booking first — if that is refused, the plan is left as is
+    let bookingQuantity: number | undefined;
+    if (validated.mode === 'CANCEL') {
+      if (!/^[a-f\d]{24}$/i.test(validated.bookingId)) {
+        return { success: false, error: 'Estimated cargo has no booking to reduce — move it to staging instead' };
       }
+      const booking = await BookingModel.findById(validated.bookingId)
+        .select('requestedQuantity confirmedQuantity')
+        .lean() as any;
+      if (!booking) return { success: false, error: 'Booking not found' };
+
+      const confirmed = booking.confirmedQuantity ?? 0;
+      bookingQuantity = Math.max(0, (confirmed > 0 ? confirmed : booking.requestedQuantity ?? 0) - validated.pallets);
+      const update = bookingQuantity === 0
+        ? { bookingId: validated.bookingId, status: 'CANCELLED' }
+        : confirmed > 0
+          ? { bookingId: validated.bookingId, confirmedQuantity: bookingQuantity }
+          : { bookingId: validated.bookingId, requestedQuantity: bookingQuantity };
+      const updated = await updateBookingQuantity(update);
+      if (!updated.success) return { success: false, error: updated.error ?? 'Failed to update booking' };
+    }
+
+    const kgPerPallet = state.bookings.find(b => b.bookingId === validated.bookingId)!.weightPerUnitKg;
+    const { positions, template } = takePalletsFromSection(
+      planObj.cargoPositions ?? [], validated.bookingId, validated.sectionId, validated.pallets, kgPerPallet,
+    );
+    plan.cargoPositions = (bookingQuantity === undefined
+      ? positions
+      : positions.map(pos => String(pos.bookingId ?? '') === validated.bookingId
+          ? { ...pos, snapshotTotalQuantity: bookingQuantity }
+          : pos)) as any;
+
+    if (validated.mode === 'STAGE') {
+      (plan as any).stagedCargo = stagePallets(
+        planObj.stagedCargo ?? [],
+        template,
+        validated.pallets,
+        kgPerPallet,
+        validated.sectionId,
+        validated.reason,
+        changedBy,
+      );
+    }
 
-      // ── Step 2c: Combine ─────────────────────────────────────────────────
-      const realEngineBookings = buildEngineBookings(bookings, voyage);
-      const allEngineBookings = [...realEngineBookings, ...contractEstimates];
+    const assignmentsAfter = removePallets(
+      state.assignments, validated.bookingId, validated.sectionId, validated.pallets,
+    );
+    const evaluation = evaluateStowage(
+      state.sections, state.zones, assignmentsAfter, state.bookings, state.portSequenceToCode, state.dimensions,
+    );
+    const zoneId = state.sections.find(s => s.sectionId === validated.sectionId)?.zoneId;
+    applyEvaluationToPlan(plan, planObj, state, assignmentsAfter, evaluation, atmosphere, [zoneId]);
 
-      if (allEngineBookings.length === 0) {
-        skipped++;
-        details.push({
-          voyageNumber: voyage.voyageNumber,
-          action: 'SKIPPED',
-          reason: 'no bookings and no matching contracts',
-          bookingsUsed: 0,
-          contractEstimatesUsed: 0,
-          conflictCount: 0,
-          sectionsAssigned: 0,
-        });
-        continue;
+    appendCargoChangelog(plan, planObj, changedBy, [{
+      action: validated.mode === 'STAGE' ? 'OFFLOAD' : 'CANCEL',
+      bookingId: validated.bookingId,
+      bookingNumber: template?.bookingNumber ?? undefined,
+      cargoType: template?.cargoType ?? undefined,
+      fromSectionId: validated.sectionId,
+      pallets: validated.pallets,
+      reason: validated.reason,
+    }]);
+    const label = template?.bookingNumber ?? validated.bookingId;
+    recordPlanOperation(
+      plan, planObj, 'REDUCE',
+      validated.mode === 'STAGE'
+        ? `Staged ${validated.pallets} plt ${label} from ${validated.sectionId}`
+        : `Cancelled ${validated.pallets} plt ${label} from ${validated.sectionId} (booking reduced)`,
+      changedBy,
+      validated.mode,
+    );
+
+    plan.markModified('cargoPositions');
+    if (bookingQuantity === undefined) {
+      const lost = await savePlanEdit(plan, changedBy);
+      if (lost) return lost;
+    } else {
+      // The booking is already lowered — the plan has to follow it
+      stampPlanEdit(plan, changedBy);
+      await plan.save();
+    }
+
+    const saved = plan.toObject() as any;
+    return {
+      success: true,
+      data: JSON.parse(JSON.stringify({
+        cargoPositions: saved.cargoPositions,
+        stagedCargo: saved.stagedCargo ?? [],
+        coolingSectionStatus: saved.coolingSectionStatus,
+        conflicts: saved.conflicts,
+        stabilityIndicators: saved.stabilityIndicators,
+        bookingQuantity: bookingQuantity ?? null,
+        version: saved.editVersion,
+      })),
+      message: validated.mode === 'STAGE'
+        ? `${validated.pallets} pallet(s) moved from ${validated.sectionId} to staging`
+        : `${validated.pallets} pallet(s) cancelled from ${validated.sectionId}`,
+    };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { success: false, error: `Validation error: ${error.issues[0].message}` };
+    }
+    const msg = error instanceof Error ? error.message : String(error);
+    console.error('Error reducing cargo:', msg);
+    return { success: false, error: `Failed to reduce cargo: ${msg}` };
+  }
+}
+
+// ----------------------------------------------------------------------------
+// EDIT HISTORY
+// Undo/redo log of manual edits (assign, remove, transfer, reduce, set
+// temperature) kept on the plan in editHistory — see lib/plan-history.ts.
+// Undo / redo / restore write the logged slices back and recompute stability
+// and refrigeration warnings. Engine regeneration clears the log.
+// A cancel also lowered the booking, so history cannot step across it.
+// ----------------------------------------------------------------------------
+
+const RestorePlanSchema = z.object({
+  planId: z.string().min(1, 'Plan ID is required'),
+  seq: z.number().int().nonnegative(),
+  expectedVersion: ExpectedVersionSchema,
+});
+
+// Appends a manual edit to the plan's history. `before` is the plan as
+// loaded; the document carries the edited state. No-op edits are not logged.
+function recordPlanOperation(
+  plan: any,
+  before: any,
+  type: PlanOperationType,
+  summary: string,
+  performedBy: string,
+  reduceMode?: PlanOperation['reduceMode'],
+) {
+  const captured = captureEdit(before, plan.toObject());
+  if (!captured) return;
+  plan.editHistory = appendOperation(before.editHistory ?? [], {
+    type,
+    summary,
+    performedAt: new Date(),
+    performedBy,
+    reduceMode,
+    ...captured,
+  });
+}
+
+// Undoes / redoes the given operations in order and re-evaluates the stowage
+async function stepPlanHistory(
+  planId: string,
+  expectedVersion: number | undefined,
+  pickSteps: (history: PlanOperation[]) => { undo: PlanOperation[]; redo: PlanOperation[] },
+) {
+  const session = await auth();
+  if (!session?.user) return { success: false, error: 'Unauthorized' };
+  const role = (session.user as any).role as string;
+  if (!['ADMIN', 'SHIPPING_PLANNER'].includes(role)) return { success: false, error: 'Forbidden' };
+
+  await connectDB();
+
+  const plan = await StowagePlanModel.findById(planId);
+  if (!plan) return { success: false, error: 'Plan not found' };
+  if (LOCKED_PLAN_STATUSES.includes(plan.status)) {
+    return { success: false, error: 'Plan is locked — create a new draft to change cargo' };
+  }
+  const stale = checkPlanVersion(plan, expectedVersion);
+  if (stale) return stale;
+
+  const planObj = plan.toObject() as any;
+  const history: PlanOperation[] = planObj.editHistory ?? [];
+  const steps = pickSteps(history);
+  if (steps.undo.length === 0 && steps.redo.length === 0) {
+    return { success: false, error: 'Nothing to undo or redo' };
+  }
+  // Replaying the slices would move pallets without changing the booking back
+  const cancel = [...steps.undo, ...steps.redo].find(op => op.reduceMode === 'CANCEL');
+  if (cancel) {
+    return {
+      success: false,
+      error: `Cannot step across "${cancel.summary}" — the booking quantity was changed; amend the booking instead`,
+    };
+  }
+
+  let current = { cargoPositions: planObj.cargoPositions ?? [], stagedCargo: planObj.stagedCargo ?? [] };
+  const temperatures = new Map<string, number | null>();
+  const apply = (op: PlanOperation, side: 'before' | 'after') => {
+    const result = applyEditSlice(current, op, op[side]);
+    current = { cargoPositions: result.cargoPositions, stagedCargo: result.stagedCargo };
+    result.temperatures.forEach((t, zoneId) => temperatures.set(zoneId, t));
+  };
+  steps.undo.forEach(op => apply(op, 'before'));
+  steps.redo.forEach(op => apply(op, 'after'));
+
+  plan.cargoPositions = current.cargoPositions as any;
+  (plan as any).stagedCargo = current.stagedCargo;
+  for (const cs of plan.coolingSectionStatus ?? []) {
+    if (temperatures.has(cs.zoneId)) cs.assignedTemperature = temperatures.get(cs.zoneId) ?? undefined;
+  }
+  const undoneSeqs = new Set(steps.undo.map(op => op.seq));
+  const redoneSeqs = new Set(steps.redo.map(op => op.seq));
+  (plan as any).editHistory = history.map(op => ({
+    ...op,
+    undone: undoneSeqs.has(op.seq) ? true : redoneSeqs.has(op.seq) ? false : op.undone,
+  }));
+
+  const context = await loadPlanEditContext(plan.toObject());
+  if ('error' in context) return { success: false, error: context.error };
+  const { state, atmosphere } = context;
+  const evaluation = evaluateStowage(
+    state.sections, state.zones, state.assignments, state.bookings, state.portSequenceToCode, state.dimensions,
+  );
+  applyEvaluationToPlan(
+    plan, planObj, state, state.assignments, evaluation, atmosphere, state.zones.map(z => z.zoneId),
+  );
+
+  plan.markModified('cargoPositions');
+  const lost = await savePlanEdit(plan, session.user.name ?? (session.user as any).email ?? 'system');
+  if (lost) return lost;
+
+  const saved = plan.toObject() as any;
+  return {
+    success: true,
+    data: JSON.parse(JSON.stringify({
+      cargoPositions: saved.cargoPositions,
+      stagedCargo: saved.stagedCargo ?? [],
+      coolingSectionStatus: saved.coolingSectionStatus,
+      conflicts: saved.conflicts,
+      stabilityIndicators: saved.stabilityIndicators,
+      history: summarizeOperations(saved.editHistory ?? []),
+      version: saved.editVersion,
+    })),
+    message: steps.undo.length > 0 && steps.redo.length === 0
+      ? `Undid ${steps.undo.map(op => op.summary).join('; ')}`
+      : steps.redo.length > 0 && steps.undo.length === 0
+        ? `Redid ${steps.redo.map(op => op.summary).join('; ')}`
+        : 'Plan restored',
+  };
+}
+
+export async function getPlanHistory(planId: unknown) {
+  try {
+    const session = await auth();
+    if (!session?.user) return { success: false, error: 'Unauthorized' };
+
+    const id = StowagePlanIdSchema.parse(planId);
+
+    await connectDB();
+
+    const plan = await StowagePlanModel.findById(id).select('editHistory').lean() as any;
+    if (!plan) return { success: false, error: 'Plan not found' };
+
+    return {
+      success: true,
+      data: JSON.parse(JSON.stringify(summarizeOperations(plan.editHistory ?? []))),
+    };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { success: false, error: `Validation error: ${error.issues[0].message}` };
+    }
+    console.error('Error fetching plan history:', error);
+    return { success: false, error: 'Failed to fetch plan history' };
+  }
+}
+
+export async function undoPlanOperation(planId: unknown, expectedVersion?: unknown) {
+  try {
+    const id = StowagePlanIdSchema.parse(planId);
+    const version = ExpectedVersionSchema.parse(expectedVersion);
+    return await stepPlanHistory(id, version, history => {
+      const last = history.filter(op => !op.undone).sort((a, b) => b.seq - a.seq)[0];
+      return { undo: last ? [last] : [], redo: [] };
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { success: false, error: `Validation error: ${error.issues[0].message}` };
+    }
+    const msg = error instanceof Error ? error.message : String(error);
+    console.error('Error undoing plan edit:', msg);
+    return { success: false, error: `Failed to undo: ${msg}` };
+  }
+}
+
+export async function redoPlanOperation(planId: unknown, expectedVersion?: unknown) {
+  try {
+    const id = StowagePlanIdSchema.parse(planId);
+    const version = ExpectedVersionSchema.parse(expectedVersion);
+    return await stepPlanHistory(id, version, history => {
+      const next = history.filter(op => op.undone).sort((a, b) => a.seq - b.seq)[0];
+      return { undo: [], redo: next ? [next] : [] };
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { success: false, error: `Validation error: ${error.issues[0].message}` };
+    }
+    const msg = error instanceof Error ? error.message : String(error);
+    console.error('Error redoing plan edit:', msg);
+    return { success: false, error: `Failed to redo: ${msg}` };
+  }
+}
+
+// Puts the plan back to how it was right after operation `seq` (0 = before the first)
+export async function restorePlanToOperation(input: unknown) {
+  try {
+    const validated = RestorePlanSchema.parse(input);
+    return await stepPlanHistory(validated.planId, validated.expectedVersion, history => planRestoreSteps(history, validated.seq));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { success: false, error: `Validation error: ${error.issues[0].message}` };
+    }
+    const msg = error instanceof Error ? error.message : String(error);
+    console.error('Error restoring plan:', msg);
+    return { success: false, error: `Failed to restore plan: ${msg}` };
+  }
+}
+
+// ----------------------------------------------------------------------------
+// PLAN PRESENCE
+// The plan page sends a heartbeat while it is open. The reply lists the other
+// users on the page and the plan's current edit version, so a planner sees who
+// else is working on the voyage — and whether someone saved since they loaded.
+// Users silent for longer than PRESENCE_WINDOW_MS count as gone; the TTL index
+// on PlanPresence removes their entries later.
+// ----------------------------------------------------------------------------
+
+const PRESENCE_WINDOW_MS = 60_000;
+
+const PlanHeartbeatSchema = z.object({
+  planId: z.string().min(1, 'Plan ID is required'),
+  editing: z.boolean().default(false),   // edit dialog open or save in flight
+});
+
+export async function heartbeatPlanPresence(input: unknown) {
+  try {
+    const session = await auth();
+    if (!session?.user) return { success: false, error: 'Unauthorized' };
+
+    const validated = PlanHeartbeatSchema.parse(input);
+    const userId = String((session.user as any).id ?? session.user.email);
+    const officeIds: string[] = (session.user as any).officeIds ?? [];
+
+    await connectDB();
+
+    const office = officeIds.length > 0
+      ? await OfficeModel.findOne({ _id: { $in: officeIds } }).select('code').lean() as any
+      : null;
+    await PlanPresenceModel.updateOne(
+      { planId: validated.planId, userId },
+      {
+        $set: {
+          userName: session.user.name ?? session.user.email ?? 'Unknown user',
+          officeCode: office?.code ?? undefined,
+          editing: validated.editing,
+          lastSeenAt: new Date(),
+        },
+      },
+      { upsert: true },
+    );
+
+    const [viewers, plan] = await Promise.all([
+      PlanPresenceModel.find({
+        planId: validated.planId,
+        userId: { $ne: userId },
+        lastSeenAt: { $gte: new Date(Date.now() - PRESENCE_WINDOW_MS) },
+      }).sort({ userName: 1 }).lean(),
+      StowagePlanModel.findById(validated.planId).select('editVersion lastEditedBy lastEditedAt').lean(),
+    ]) as [any[], any];
+    if (!plan) return { success: false, error: 'Plan not found' };
+
+    const others: PlanViewer[] = viewers.map(v => ({
+      userId: v.userId,
+      userName: v.userName,
+      officeCode: v.officeCode ?? undefined,
+      editing: v.editing ?? false,
+      lastSeenAt: v.lastSeenAt,
+    }));
+    return {
+      success: true,
+      data: JSON.parse(JSON.stringify({
+        viewers: others,
+        version: plan.editVersion ?? 0,
+        lastEditedBy: plan.lastEditedBy ?? null,
+        lastEditedAt: plan.lastEditedAt ?? null,
+      })),
+    };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { success: false, error: `Validation error: ${error.issues[0].message}` };
+    }
+    console.error('Error updating plan presence:', error);
+    return { success: false, error: 'Failed to update plan presence' };
+  }
+}
+
+// Called when the plan page closes, so others stop seeing the user at once
+export async function leavePlanPresence(planId: unknown) {
+  try {
+    const session = await auth();
+    if (!session?.user) return { success: false, error: 'Unauthorized' };
+
+    const id = StowagePlanIdSchema.parse(planId);
+
+    await connectDB();
+
+    await PlanPresenceModel.deleteOne({ planId: id, userId: String((session.user as any).id ?? session.user.email) });
+    return { success: true };
+  } catch (error) {
+    console.error('Error clearing plan presence:', error);
+    return { success: false, error: 'Failed to clear plan presence' };
+  }
+}
+
+// ----------------------------------------------------------------------------
+// HELPER FUNCTIONS
+// ----------------------------------------------------------------------------
+
+function getHoldNumber(compartmentId: string): number {
+  // Extract hold number from compartment ID (e.g., "2UPD" -> 2, "1A" -> 1)
+  const match = compartmentId.match(/^(\d+)/);
+  return match ? parseInt(match[1]) : 0;
+}
+
+function getLevel(compartmentId: string): string {
+  // Extract level from compartment ID (e.g., "2UPD" -> "UPD", "1A" -> "A")
+  const match = compartmentId.match(/^\d+(.*)/);
+  return match ? match[1] : '';
+}
+
+// ----------------------------------------------------------------------------
+// AUTO-GENERATE DRAFT PLANS
+// Scans all non-cancelled voyages departing within the next 28 days.
+// For each voyage that has ≥1 CONFIRMED or PARTIAL booking and no existing
+// non-cancelled stowage plan, creates a new DRAFT plan.
+// Returns a summary so the UI can display what was created / skipped.
+// ----------------------------------------------------------------------------
+
+// ----------------------------------------------------------------------------
+// ENGINE INPUT SOURCES — loaded the same way for every plan-generation entry
+// point; lib/stowage-engine/input.ts turns them into the EngineInput
+// ----------------------------------------------------------------------------
+
+// Zone temperatures of the vessel's last completed plan on another voyage
+async function loadPreviousZoneTemps(voyage: any): Promise<Record<string, number> | undefined> {
+  const priorPlan = await StowagePlanModel.findOne({
+    vesselId: voyage.vesselId,
+    status: 'COMPLETED',
+    voyageId: { $ne: voyage._id },
+  }).sort({ createdAt: -1 }).select('coolingSectionStatus').lean() as any;
+
+  const temps: Record<string, number> = {};
+  for (const css of priorPlan?.coolingSectionStatus ?? []) {
+    if (css.assignedTemperature != null) temps[css.zoneId] = css.assignedTemperature;
+  }
+  return Object.keys(temps).length > 0 ? temps : undefined;
+}
+
+// Bookings, active forecasts (EXPIRED ones must not feed new plans), active
+// service contracts, actual weights and inherited zone temperatures.
+// Callers looping over voyages pass the carriage specs / compatibility once.
+async function loadEngineSources(
+  voyage: any,
+  shared?: { carriage: CargoCarriageSpecs; compatibility: CargoCompatibility },
+): Promise<Omit<EngineInputSources, 'vessel'>> {
+  const [bookings, forecasts, contracts, previousZoneTemps, carriage, compatibility] = await Promise.all([
+    BookingModel.find({
+      voyageId: voyage._id,
+      status: { $in: ['CONFIRMED', 'PARTIAL', 'PENDING'] },
+    }).lean(),
+    SpaceForecastModel.find({
+      voyageId: voyage._id,
+      planImpact: { $in: ['PENDING_REVIEW', 'INCORPORATED'] },
+    }).lean(),
+    voyage.serviceId
+      ? ContractModel.find({ serviceId: voyage.serviceId, active: true }).lean()
+      : Promise.resolve([]),
+    loadPreviousZoneTemps(voyage),
+    shared?.carriage ?? loadCargoCarriageSpecs(),
+    shared?.compatibility ?? loadCargoCompatibility(),
+  ]) as [any[], any[], any[], Record<string, number> | undefined, CargoCarriageSpecs, CargoCompatibility];
+
+  return {
+    voyage,
+    bookings,
+    forecasts,
+    contracts,
+    carriage,
+    compatibility,
+    shipmentWeights: await loadShipmentWeights(bookings),
+    previousZoneTemps,
+  };
+}
+
+// Actual weights recorded on shipments, keyed by bookingId (see weights.ts)
+async function loadShipmentWeights(bookings: any[]) {
+  if (bookings.length === 0) return new Map<string, { actualWeightKg: number; actualUnits: number }>();
+  const shipments = await ShipmentModel.find({
+    bookingId: { $in: bookings.map((b: any) => b._id) },
+    actualWeight: { $gt: 0 },
+  }).select('bookingId quantity actualWeight status').lean();
+  return summarizeShipmentWeights(shipments as any[]);
+}
+
+// Resolved per-unit weight (kg) for real bookings, keyed by bookingId.
+// Synthetic ids (FORECAST-…, CONTRACT-ESTIMATE-…) are not looked up — callers
+// fall back to the cargo-type default for those.
+async function loadBookingWeightsPerUnit(bookingIds: (string | undefined)[]): Promise<Map<string, number>> {
+  const ids = [...new Set(bookingIds.filter((id): id is string => !!id && /^[a-f\d]{24}$/i.test(id)))];
+  if (ids.length === 0) return new Map();
+  const bookings: any[] = await BookingModel.find({ _id: { $in: ids } })
+    .select('cargoType estimatedWeightPerUnit')
+    .lean();
+  const shipmentWeights = await loadShipmentWeights(bookings);
+  return new Map(bookings.map((b: any) => [
+    b._id.toString(),
+    resolveWeightPerUnit({
+      cargoType: b.cargoType,
+      estimatedWeightPerUnit: b.estimatedWeightPerUnit,
+      ...shipmentWeights.get(b._id.toString()),
+    }).kgPerUnit,
+  ]));
+}
+
+function mapEngineOutputToDocument(
+  engineOutput: ReturnType<typeof generateStowagePlan>,
+  bookings: any[],
+  engineBookings: EngineBooking[],
+) {
+  const bookingMap = new Map(bookings.map((b: any) => [b._id.toString(), b]));
+  // Port-call sequences as buildEngineInput resolved them — Booking documents carry none
+  const legByBooking = new Map(engineBookings.map(b => [b.bookingId, b]));
+
+  // CargoPositionOutput keyed by bookingId::sectionId — populated only if a future engine
+  // version exposes cargoPositions on EngineOutput; empty map otherwise (harmless).
+  const cpLookup = new Map<string, any>();
+  for (const cp of (engineOutput as any).cargoPositions ?? []) {
+    const key = `${cp.bookingId ?? ''}::${cp.sectionId}`;
+    cpLookup.set(key, cp);
+  }
+
+  const cargoPositions = engineOutput.assignments.map(a => {
+    const bk = bookingMap.get(a.bookingId);
+    const holdNumber = parseInt(String(a.sectionId).charAt(0), 10) || 1;
+    const level = String(a.sectionId).slice(1); // "1A" → "A", "2UPD" → "UPD"
+    // Real bookings have pol/pod on bk.pol?.portCode; contract estimates store them as bk.polPortCode.
+    const polPortCode = (bk as any)?.pol?.portCode ?? (bk as any)?.polPortCode ?? undefined;
+    const podPortCode = (bk as any)?.pod?.portCode ?? (bk as any)?.podPortCode ?? undefined;
+    const cpKey = `${a.bookingId}::${a.sectionId}`;
+    const cpSnap = cpLookup.get(cpKey);
+    // Derive confidence from bk (synthetic entries carry it) or from bookingId prefix as fallback.
+    const confidence: string = (bk as any)?.confidence
+      ?? (a.bookingId?.startsWith('FORECAST-') ? 'ESTIMATED'
+        : a.bookingId?.startsWith('CONTRACT-ESTIMATE-') ? 'CONTRACT_ESTIMATE'
+        : 'CONFIRMED');
+    return {
+      bookingId:        a.bookingId,
+      cargoType:        bk?.cargoType ?? cpSnap?.cargoType ?? undefined,
+      shipperName:      (bk as any)?.shipperName ?? cpSnap?.shipperName ?? undefined,
+      consigneeName:    (bk as any)?.consignee?.name ?? (bk as any)?.consigneeName ?? cpSnap?.consigneeName ?? undefined,
+      polPortCode,
+      podPortCode,
+      quantity:         a.palletsAssigned,
+      snapshotQuantity: cpSnap?.snapshotQuantity ?? a.palletsAssigned,
+      weight:           a.weightKg,
+      confidence,
+      polSeq:           legByBooking.get(a.bookingId)?.polSeq ?? cpSnap?.polSeq ?? undefined,
+      podSeq:           legByBooking.get(a.bookingId)?.podSeq ?? cpSnap?.podSeq ?? undefined,
+      compartment:      { id: a.sectionId, holdNumber, level },
+    };
+  });
+
+  const coolingSectionStatus = engineOutput.zoneTemps.map(z => ({
+    zoneId:              z.zoneId,
+    coolingSectionIds:   z.sectionIds,
+    assignedTemperature: z.assignedTemperature ?? undefined,
+    locked:              false,
+    temperatureSource:   z.source ?? undefined,
+    atmosphere:          z.atmosphere,
+    heatLoadKw:          z.heatLoadKw,
+  }));
+
+  const hasHardConflict = engineOutput.conflicts.some(c =>
+    c.type === 'TEMPERATURE_CONFLICT' || c.type === 'OVERSTOW_CONFLICT' ||
+    c.type === 'COMPATIBILITY_CONFLICT' || c.type === 'ATMOSPHERE_CONFLICT',
+  );
+
+  return { cargoPositions, coolingSectionStatus, hasHardConflict };
+}
+
+export async function autoGenerateDraftPlans() {
+  try {
+    const session = await auth();
+    if (!session?.user) return { success: false, error: 'Unauthorized' };
+    const role = (session.user as any).role as string;
+    if (!['ADMIN', 'SHIPPING_PLANNER'].includes(role)) return { success: false, error: 'Forbidden' };
+
+    await connectDB();
+
+    const now = new Date();
+    // Extended to 60 days to capture more voyages for testing
+    const cutoff = new Date(now.getTime() + 60 * 24 * 60 * 60 * 1000);
+
+    const voyages = await VoyageModel.find({
+      departureDate: { $gte: now, $lte: cutoff },
+      status: { $ne: 'CANCELLED' },
+    }).lean();
+
+    const carriage = await loadCargoCarriageSpecs();
+    const compatibility = await loadCargoCompatibility();
+
+    type DetailItem = {
+      voyageNumber: string;
+      action: 'CREATED' | 'UPDATED' | 'SKIPPED';
+      reason?: string;
+      bookingsUsed: number;
+      contractEstimatesUsed: number;
+      conflictCount: number;
+      sectionsAssigned: number;
+    };
+
+    const details: DetailItem[] = [];
+    let created = 0, updated = 0, skipped = 0;
+
+    const LOCKED_STATUSES = [
+      'EMAIL_SENT', 'CAPTAIN_APPROVED', 'CAPTAIN_REJECTED',
+      'IN_REVISION', 'READY_FOR_EXECUTION', 'IN_EXECUTION', 'COMPLETED',
+    ];
+
+    for (const voyage of voyages as any[]) {
+      // ── Step 1: Determine action (CREATE / UPDATE / SKIP) ────────────────
+      const existingPlan = await StowagePlanModel.findOne({
+        voyageId: voyage._id,
+        status: { $nin: ['CANCELLED'] },
+      }).sort({ createdAt: -1 }).lean() as any;
+
+      let planAction: 'CREATED' | 'UPDATED' = 'CREATED';
+
+      if (existingPlan) {
+        if (LOCKED_STATUSES.includes(existingPlan.status)) {
+          skipped++;
+          details.push({
+            voyageNumber: voyage.voyageNumber,
+            action: 'SKIPPED',
+            reason: 'plan already sent to captain',
+            bookingsUsed: 0,
+            contractEstimatesUsed: 0,
+            conflictCount: 0,
+            sectionsAssigned: 0,
+          });
+          continue;
+        }
+        // DRAFT or ESTIMATED → update
+        planAction = 'UPDATED';
       }
 
+      // ── Step 2: Cargo sources (bookings → forecasts → contract defaults) ─
+      const sources = await loadEngineSources(voyage, { carriage, compatibility });
+
       // ── Step 3: Fetch vessel ─────────────────────────────────────────────
       const vessel = await VesselModel.findById(voyage.vesselId).lean() as any;
       if (!vessel) {
@@ -1692,8 +2946,8 @@ export async function autoGenerateDraftPlans() {
           voyageNumber: voyage.voyageNumber,
           action: 'SKIPPED',
           reason: 'vessel not found',
-          bookingsUsed: realEngineBookings.length,
-          contractEstimatesUsed: contractEstimates.length,
+          bookingsUsed: sources.bookings.length,
+          contractEstimatesUsed: 0,
           conflictCount: 0,
           sectionsAssigned: 0,
         });
@@ -1701,61 +2955,30 @@ export async function autoGenerateDraftPlans() {
       }
 
       try {
-        // ── Step 4: Inherited zone temps from prior completed plan ───────
-        let previousZoneTemps: Record<string, number> | undefined;
-        const priorPlan = await StowagePlanModel.findOne({
-          vesselId: voyage.vesselId,
-          status: 'COMPLETED',
-          voyageId: { $ne: voyage._id },
-        }).sort({ createdAt: -1 }).lean() as any;
-
-        if (priorPlan?.coolingSectionStatus?.length) {
-          previousZoneTemps = {};
-          for (const css of priorPlan.coolingSectionStatus) {
-            if (css.assignedTemperature != null) {
-              previousZoneTemps[css.zoneId] = css.assignedTemperature;
-            }
-          }
-          if (Object.keys(previousZoneTemps).length === 0) previousZoneTemps = undefined;
+        // ── Step 4: Build engine input (lib/stowage-engine/input.ts) ─────
+        const { input, realBookings, forecastBookings, contractEstimates, cargoSnapshot, bookingMeta } =
+          buildEngineInput({ ...sources, vessel });
+        const estimatesUsed = forecastBookings.length + contractEstimates.length;
+
+        if (realBookings.length + estimatesUsed === 0) {
+          skipped++;
+          details.push({
+            voyageNumber: voyage.voyageNumber,
+            action: 'SKIPPED',
+            reason: 'no bookings and no matching contracts',
+            bookingsUsed: 0,
+            contractEstimatesUsed: 0,
+            conflictCount: 0,
+            sectionsAssigned: 0,
+          });
+          continue;
         }
 
         // ── Step 5: Run engine ───────────────────────────────────────────
-        const engineInput: EngineInput = {
-          vessel: {
-            sections: buildEngineSections(vessel),
-            zones:    buildEngineZones(vessel),
-          },
-          bookings:          realEngineBookings,
-          contractEstimates: contractEstimates,
-          portCalls:         (voyage.portCalls ?? []).map((pc: any) => ({
-            sequence: pc.sequence as number,
-            portCode: pc.portCode as string,
-          })),
-          previousZoneTemps,
-          plannerOverrides: undefined,
-          phase: bookings.some((b: any) => (b.confirmedQuantity ?? 0) > 0) ? 'CONFIRMED' : 'ESTIMATED',
-        };
-
-        const engineOutput = generateStowagePlan(engineInput);
-
-        // Build combined booking metadata for mapEngineOutputToDocument
-        // Real bookings carry the full DB doc; contract estimates carry pol/pod snapshots.
-        const allBookingMeta = [
-          ...bookings,
-          ...contractEstimates.map(ce => ({
-            _id:        { toString: () => ce.bookingId },
-            cargoType:  ce.cargoType,
-            polPortCode: ce.polPortCode,
-            podPortCode: ce.podPortCode,
-            shipperName: (ce as any).shipperName ?? undefined,
-            confidence:  ce.confidence,
-            polSeq:      ce.polSeq,
-            podSeq:      ce.podSeq,
-          })),
-        ];
+        const engineOutput = generateStowagePlan(input);
 
         const { cargoPositions, coolingSectionStatus, hasHardConflict } =
-          mapEngineOutputToDocument(engineOutput, allBookingMeta);
+          mapEngineOutputToDocument(engineOutput, bookingMeta, [...input.bookings, ...input.contractEstimates]);
 
         const hardConflictCount = engineOutput.conflicts.filter(c =>
           c.type !== 'STABILITY_WARNING',
@@ -1768,35 +2991,41 @@ export async function autoGenerateDraftPlans() {
           const updatePayload = {
             cargoPositions,
             coolingSectionStatus,
+            cargoSnapshot,
             conflicts:           engineOutput.conflicts,
             stabilityIndicators: engineOutput.stabilityByPort,
             generationMethod:    'AUTO',
             status:              newStatus,
+            editHistory:         [],   // manual edits no longer apply to a regenerated plan
           };
 
           if ((existingPlan.communicationLog ?? []).length > 0) {
             await StowagePlanModel.findByIdAndUpdate(existingPlan._id, {
-              $set: updatePayload,
+              $set: { ...updatePayload, ...planEditStamp('AUTO') },
+              $inc: { editVersion: 1 },
               $push: {
                 communicationLog: {
                   sentAt: new Date(),
                   sentBy: 'AUTO',
                   recipients: [],
                   planStatus: newStatus,
-                  note: `Auto-regenerated: ${realEngineBookings.length} booking(s), ${contractEstimates.length} contract estimate(s)`,
+                  note: `Auto-regenerated: ${realBookings.length} booking(s), ${estimatesUsed} estimate(s)`,
                 },
               },
             });
           } else {
-            await StowagePlanModel.findByIdAndUpdate(existingPlan._id, { $set: updatePayload });
+            await StowagePlanModel.findByIdAndUpdate(existingPlan._id, {
+              $set: { ...updatePayload, ...planEditStamp('AUTO') },
+              $inc: { editVersion: 1 },
+            });
           }
 
           updated++;
           details.push({
             voyageNumber:          voyage.voyageNumber,
             action:                'UPDATED',
-            bookingsUsed:          realEngineBookings.length,
-            contractEstimatesUsed: contractEstimates.length,
+            bookingsUsed:          realBookings.length,
+            contractEstimatesUsed: estimatesUsed,
             conflictCount:         hardConflictCount,
             sectionsAssigned,
           });
@@ -1818,6 +3047,7 @@ export async function autoGenerateDraftPlans() {
             status:      newStatus,
             cargoPositions,
             coolingSectionStatus,
+            cargoSnapshot,
             conflicts:            engineOutput.conflicts,
             stabilityIndicators:  engineOutput.stabilityByPort,
             overstowViolations:   [],
@@ -1830,8 +3060,8 @@ export async function autoGenerateDraftPlans() {
           details.push({
             voyageNumber:          voyage.voyageNumber,
             action:                'CREATED',
-            bookingsUsed:          realEngineBookings.length,
-            contractEstimatesUsed: contractEstimates.length,
+            bookingsUsed:          realBookings.length,
+            contractEstimatesUsed: estimatesUsed,
             conflictCount:         hardConflictCount,
             sectionsAssigned,
           });
@@ -1883,6 +3113,7 @@ export async function autoGenerateDraftPlans() {
 export async function replanAfterTemperatureOverride(
   planId: unknown,
   zoneOverrides: { zoneId: string; temperature: number }[],
+  expectedVersion?: unknown,
 ) {
   try {
     const session = await auth();
@@ -1891,6 +3122,7 @@ export async function replanAfterTemperatureOverride(
     if (!['ADMIN', 'SHIPPING_PLANNER'].includes(role)) return { success: false, error: 'Forbidden' };
 
     const id = z.string().min(1).parse(planId);
+    const version = ExpectedVersionSchema.parse(expectedVersion);
     if (!Array.isArray(zoneOverrides) || zoneOverrides.length === 0) {
       return { success: false, error: 'At least one zone override is required' };
     }
@@ -1899,6 +3131,8 @@ export async function replanAfterTemperatureOverride(
 
     const plan = await StowagePlanModel.findById(id);
     if (!plan) return { success: false, error: 'Plan not found' };
+    const stale = checkPlanVersion(plan, version);
+    if (stale) return stale;
 
     const voyage = await VoyageModel.findById(plan.voyageId).lean() as any;
     if (!voyage) return { success: false, error: 'Voyage not found' };
@@ -1906,36 +3140,20 @@ export async function replanAfterTemperatureOverride(
     const vessel = await VesselModel.findById(plan.vesselId).lean() as any;
     if (!vessel) return { success: false, error: 'Vessel not found' };
 
-    const bookings: any[] = await BookingModel.find({
-      voyageId: plan.voyageId,
-      status: { $in: ['CONFIRMED', 'PARTIAL'] },
-    }).lean();
-
     // Build planner overrides map
     const plannerOverrides: Record<string, number> = {};
     for (const o of zoneOverrides) {
       plannerOverrides[o.zoneId] = o.temperature;
     }
 
-    // Build engine input — confirmed bookings are frozen
-    const engineInput: EngineInput = {
-      vessel: {
-        sections: buildEngineSections(vessel),
-        zones:    buildEngineZones(vessel),
-      },
-      bookings:         buildEngineBookings(bookings, voyage),
-      portCalls:        (voyage.portCalls ?? []).map((pc: any) => ({
-        sequence: pc.sequence as number,
-        portCode: pc.portCode as string,
-      })),
-      previousZoneTemps: undefined,
-      plannerOverrides,
-      phase: bookings.some((b: any) => (b.confirmedQuantity ?? 0) > 0) ? 'CONFIRMED' : 'ESTIMATED',
-    };
+    // Same cargo sources as generation — confirmed bookings are frozen
+    const sources = await loadEngineSources(voyage);
+    const { bookings } = sources;
+    const { input, bookingMeta } = buildEngineInput({ ...sources, vessel, plannerOverrides });
 
-    const engineOutput = generateStowagePlan(engineInput);
+    const engineOutput = generateStowagePlan(input);
     const { cargoPositions, coolingSectionStatus, hasHardConflict } =
-      mapEngineOutputToDocument(engineOutput, bookings);
+      mapEngineOutputToDocument(engineOutput, bookingMeta, [...input.bookings, ...input.contractEstimates]);
 
     // Compute temperatureChangelog entry
     const changedBy = (session.user as any).name ?? (session.user as any).email ?? 'SYSTEM';
@@ -1968,6 +3186,7 @@ export async function replanAfterTemperatureOverride(
 
     // Apply updates
     plan.cargoPositions         = cargoPositions as any;
+    (plan as any).editHistory   = [];
     plan.coolingSectionStatus   = coolingSectionStatus as any;
     (plan as any).conflicts     = engineOutput.conflicts;
     (plan as any).stabilityIndicators = engineOutput.stabilityByPort;
@@ -1987,7 +3206,8 @@ export async function replanAfterTemperatureOverride(
     plan.markModified('cargoPositions');
     plan.markModified('coolingSectionStatus');
     plan.markModified('temperatureChangelog');
-    await plan.save();
+    const lost = await savePlanEdit(plan, changedBy);
+    if (lost) return lost;
 
     return {
       success: true,
@@ -2174,238 +3394,6 @@ export async function autoGenerateSinglePlan(
 
     const planAction = existingPlan ? 'UPDATED' : 'CREATED';
 
-    // ── Step 1: Real bookings ─────────────────────────────────────────────────
-    const bookings: any[] = await BookingModel.find({
-      voyageId: voyage._id,
-      status: { $in: ['CONFIRMED', 'PARTIAL', 'PENDING'] },
-    }).lean();
-
-    // ── Step 2: SpaceForecasts for this voyage (PENDING_REVIEW or INCORPORATED)
-    // EXPIRED forecasts are intentionally excluded — they must not feed into new plans.
-    const activeForecasts = await SpaceForecastModel.find({
-      voyageId: voyage._id,
-      planImpact: { $in: ['PENDING_REVIEW', 'INCORPORATED'] },
-    }).lean();
-
-    // Map: `${shipperId}:${contractId}` → forecast doc (at most one active per pair)
-    const forecastByPair = new Map<string, any>();
-    for (const fc of activeForecasts as any[]) {
-      const key = `${fc.shipperId?.toString() ?? ''}:${fc.contractId?.toString() ?? ''}`;
-      forecastByPair.set(key, fc);
-    }
-
-    // ── Step 3: Resolve per-counterparty cargo source with forecast priority ──
-    // forecastBookings: SHIPPER_PORTAL / PLANNER_ENTRY → confidence ESTIMATED
-    // contractDefaultEstimates: CONTRACT_DEFAULT → confidence CONTRACT_ESTIMATE
-    const forecastBookings: EngineBooking[] = [];
-    const contractDefaultEstimates: EngineBooking[] = [];
-    type SnapshotEntry = {
-      shipperId: string; shipperName: string; contractId: string;
-      polPortCode: string; podPortCode: string; pallets: number;
-      source: string; sourceId: string; snapshotAt: Date;
-    };
-    const cargoSnapshot: SnapshotEntry[] = [];
-
-    if (voyage.serviceId) {
-      const portCallMap = new Map<string, number>(
-        (voyage.portCalls ?? []).map((pc: any) => [pc.portCode as string, pc.sequence as number]),
-      );
-
-      // Build per-contract coverage from bookings.
-      // contractCoverageMap[contractId] = Set<shipperId> (specific shippers covered)
-      //                                 | 'ALL' (if a booking has no shipperId — whole contract covered)
-      const contractCoverageMap = new Map<string, Set<string> | 'ALL'>();
-      for (const b of bookings) {
-        const cid = b.contractId?.toString();
-        if (!cid) continue;
-        const sid = b.shipperId?.toString();
-        if (!sid) {
-          contractCoverageMap.set(cid, 'ALL');
-        } else if (contractCoverageMap.get(cid) !== 'ALL') {
-          if (!contractCoverageMap.has(cid)) contractCoverageMap.set(cid, new Set());
-          (contractCoverageMap.get(cid) as Set<string>).add(sid);
-        }
-      }
-
-      const activeContracts = await ContractModel.find({
-        serviceId: voyage.serviceId,
-        active: true,
-      }).lean();
-
-      for (const contract of activeContracts as any[]) {
-        const contractId = contract._id.toString();
-        const polCode = contract.originPort?.portCode;
-        const podCode = contract.destinationPort?.portCode;
-        const polSeq = portCallMap.get(polCode);
-        const podSeq = portCallMap.get(podCode);
-        if (polSeq === undefined || podSeq === undefined) continue;
-
-        const counterparties: any[] = contract.counterparties ?? [];
-
-        if (counterparties.length > 0) {
-          for (let i = 0; i < counterparties.length; i++) {
-            const cp = counterparties[i];
-            if (!cp.active) continue;
-
-            const shipperId = cp.shipperId?.toString() ?? '';
-
-            // Priority 1: booking exists for this shipper+contract → skip
-            const coverage = contractCoverageMap.get(contractId);
-            if (coverage === 'ALL') continue;
-            if (coverage instanceof Set && coverage.has(shipperId)) continue;
-
-            const pairKey = `${shipperId}:${contractId}`;
-            const forecast = forecastByPair.get(pairKey);
-
-            // Priority 4: NO_CARGO forecast → skip engine, record snapshot
-            if (forecast?.source === 'NO_CARGO') {
-              cargoSnapshot.push({
-                shipperId,
-                shipperName: cp.shipperName ?? '',
-                contractId,
-                polPortCode: polCode ?? '',
-                podPortCode: podCode ?? '',
-                pallets: 0,
-                source: 'NO_CARGO',
-                sourceId: (forecast as any)._id.toString(),
-                snapshotAt: new Date(),
-              });
-              continue;
-            }
-
-            // Priority 2: SHIPPER_PORTAL or PLANNER_ENTRY forecast → use forecast pallets
-            if (forecast && (forecast.source === 'SHIPPER_PORTAL' || forecast.source === 'PLANNER_ENTRY')) {
-              const pallets: number = forecast.estimatedPallets;
-              const cargoType: string = forecast.cargoType ?? (cp.cargoTypes ?? [])[0] ?? contract.cargoType ?? 'OTHER_CHILLED';
-              const tempRange = getTempRange(cargoType);
-              const sourceId: string = (forecast as any)._id.toString();
-              forecastBookings.push({
-                bookingId:    `FORECAST-${sourceId}`,
-                cargoType,
-                tempMin:      tempRange.min,
-                tempMax:      tempRange.max,
-                pallets,
-                polPortCode:  polCode ?? '',
-                podPortCode:  podCode ?? '',
-                polSeq:       polSeq as number,
-                podSeq:       podSeq as number,
-                polSequence:  polSeq,
-                podSequence:  podSeq,
-                shipperId,
-                consigneeCode: (forecast as any).consigneeCode ?? '',
-                consigneeName: (forecast as any).consigneeName ?? '',
-                confidence:   'ESTIMATED' as const,
-                contractId,
-                shipperName:  cp.shipperName ?? '',
-                frozen:       false,
-              });
-              cargoSnapshot.push({
-                shipperId,
-                shipperName: cp.shipperName ?? '',
-                contractId,
-                polPortCode: polCode ?? '',
-                podPortCode: podCode ?? '',
-                pallets,
-                source: forecast.source as string,
-                sourceId,
-                snapshotAt: new Date(),
-              });
-              continue;
-            }
-
-            // Priority 3: CONTRACT_DEFAULT — use counterparty weeklyEstimate
-            const pallets: number = cp.weeklyEstimate;
-            if (!pallets || pallets <= 0) continue;
-            const cargoType: string = (cp.cargoTypes ?? [])[0] ?? contract.cargoType ?? 'OTHER_CHILLED';
-            const tempRange = getTempRange(cargoType);
-            contractDefaultEstimates.push({
-              bookingId:    `CONTRACT-ESTIMATE-${contractId}-${i}`,
-              cargoType,
-              tempMin:      tempRange.min,
-              tempMax:      tempRange.max,
-              pallets,
-              polPortCode:  polCode ?? '',
-              podPortCode:  podCode ?? '',
-              polSeq:       polSeq as number,
-              podSeq:       podSeq as number,
-              polSequence:  polSeq,
-              podSequence:  podSeq,
-              shipperId,
-              consigneeCode: '',
-              confidence:   'CONTRACT_ESTIMATE' as const,
-              contractId,
-              shipperName:  cp.shipperName ?? '',
-              frozen:       false,
-            });
-            cargoSnapshot.push({
-              shipperId,
-              shipperName: cp.shipperName ?? '',
-              contractId,
-              polPortCode: polCode ?? '',
-              podPortCode: podCode ?? '',
-              pallets,
-              source: 'CONTRACT_DEFAULT',
-              sourceId: `${contractId}-${i}`,
-              snapshotAt: new Date(),
-            });
-          }
-        } else {
-          // No counterparties — contract-level fallback, only if not already covered by any booking
-          if (contractCoverageMap.has(contractId)) continue;
-          if (!contract.weeklyPallets) continue;
-          const cargoType: string = contract.cargoType ?? 'OTHER_CHILLED';
-          const tempRange = getTempRange(cargoType);
-          contractDefaultEstimates.push({
-            bookingId:    `CONTRACT-ESTIMATE-${contractId}`,
-            cargoType,
-            tempMin:      tempRange.min,
-            tempMax:      tempRange.max,
-            pallets:      contract.weeklyPallets,
-            polPortCode:  polCode ?? '',
-            podPortCode:  podCode ?? '',
-            polSeq:       polSeq as number,
-            podSeq:       podSeq as number,
-            polSequence:  polSeq,
-            podSequence:  podSeq,
-            shipperId:    '',
-            consigneeCode: '',
-            confidence:   'CONTRACT_ESTIMATE' as const,
-            frozen:       false,
-          });
-          cargoSnapshot.push({
-            shipperId: '',
-            shipperName: '',
-            contractId,
-            polPortCode: polCode ?? '',
-            podPortCode: podCode ?? '',
-            pallets: contract.weeklyPallets,
-            source: 'CONTRACT_DEFAULT',
-            sourceId: contractId,
-            snapshotAt: new Date(),
-          });
-        }
-      }
-    }
-
-    // ── Step 4: Add booking entries to snapshot ───────────────────────────────
-    for (const b of bookings) {
-      const pallets = (b.confirmedQuantity ?? 0) > 0 ? b.confirmedQuantity : (b.requestedQuantity ?? 0);
-      cargoSnapshot.push({
-        shipperId:   b.shipperId?.toString() ?? '',
-        shipperName: b.shipper?.name ?? '',
-        contractId:  b.contractId?.toString() ?? '',
-        polPortCode: b.pol?.portCode ?? '',
-        podPortCode: b.pod?.portCode ?? '',
-        pallets,
-        source: 'BOOKING',
-        sourceId: b._id.toString(),
-        snapshotAt: new Date(),
-      });
-    }
-
-    // ── Step 5: Build engine input ────────────────────────────────────────────
-    const realEngineBookings = buildEngineBookings(bookings, voyage);
-
     const vessel = await VesselModel.findById(voyage.vesselId).lean() as any;
     if (!vessel) return { success: false, error: 'Vessel not found' };
 
@@ -2414,51 +3402,18 @@ export async function autoGenerateSinglePlan(
       if (!isNaN(v)) validZoneTemps[k] = v;
     }
 
-    const engineInput: EngineInput = {
-      vessel: {
-        sections: buildEngineSections(vessel),
-        zones:    buildEngineZones(vessel),
-      },
-      bookings:          [...realEngineBookings, ...forecastBookings],
-      contractEstimates: contractDefaultEstimates,
-      portCalls:         (voyage.portCalls ?? []).map((pc: any) => ({
-        sequence: pc.sequence as number,
-        portCode: pc.portCode as string,
-      })),
-      previousZoneTemps: undefined,
-      plannerOverrides:  Object.keys(validZoneTemps).length > 0 ? validZoneTemps : undefined,
-      phase: bookings.some((b: any) => (b.confirmedQuantity ?? 0) > 0) ? 'CONFIRMED' : 'ESTIMATED',
-    } as any; // portSequence is required by EngineInput but derived internally from portCalls
-
-    const engineOutput = generateStowagePlan(engineInput as any);
-
-    const allBookingMeta = [
-      ...bookings,
-      ...forecastBookings.map(fe => ({
-        _id:        { toString: () => fe.bookingId },
-        cargoType:  fe.cargoType,
-        polPortCode: fe.polPortCode,
-        podPortCode: fe.podPortCode,
-        shipperName:   fe.shipperName ?? undefined,
-        consigneeName: (fe as any).consigneeName ?? undefined,
-        confidence:  fe.confidence,
-        polSeq:      fe.polSeq,
-        podSeq:      fe.podSeq,
-      })),
-      ...contractDefaultEstimates.map(ce => ({
-        _id:        { toString: () => ce.bookingId },
-        cargoType:  ce.cargoType,
-        polPortCode: ce.polPortCode,
-        podPortCode: ce.podPortCode,
-        shipperName: ce.shipperName ?? undefined,
-        confidence:  ce.confidence,
-        polSeq:      ce.polSeq,
-        podSeq:      ce.podSeq,
-      })),
-    ];
+    // Bookings first, then forecasts, then contract defaults (lib/stowage-engine/input.ts)
+    const sources = await loadEngineSources(voyage);
+    const { input, cargoSnapshot, bookingMeta } = buildEngineInput({
+      ...sources,
+      vessel,
+      plannerOverrides: validZoneTemps,
+    });
+
+    const engineOutput = generateStowagePlan(input);
 
     const { cargoPositions, coolingSectionStatus, hasHardConflict } =
-      mapEngineOutputToDocument(engineOutput, allBookingMeta);
+      mapEngineOutputToDocument(engineOutput, bookingMeta, [...input.bookings, ...input.contractEstimates]);
 
     const newStatus = hasHardConflict ? 'ESTIMATED' : 'DRAFT';
     let planId: string;
@@ -2473,7 +3428,10 @@ export async function autoGenerateSinglePlan(
           stabilityIndicators: engineOutput.stabilityByPort,
           generationMethod:    'AUTO',
           status:              newStatus,
+          editHistory:         [],
+          ...planEditStamp(session.user.name ?? (session.user as any).email ?? 'system'),
         },
+        $inc: { editVersion: 1 },
       });
       planId = existingPlan._id.toString();
     } else {
@@ -2583,6 +3541,8 @@ export async function savePythonPlan(
       voyage.departureDate ?? undefined,
     );
 
+    const weightsPerUnit = await loadBookingWeightsPerUnit(solution.cargoPositions.map(pos => pos.bookingId));
+
     const cargoPositions = solution.cargoPositions.map(pos => ({
       bookingId:        pos.bookingId,
       bookingNumber:    pos.bookingId,
@@ -2591,6 +3551,7 @@ export async function savePythonPlan(
       podPortCode:      pos.podPortCode,
       quantity:         pos.quantity,
       snapshotQuantity: pos.quantity,
+      weight:           pos.quantity * (weightsPerUnit.get(pos.bookingId) ?? resolveWeightPerUnit({ cargoType: pos.cargoType }).kgPerUnit),
       shipperName:      pos.shipperName,
       consigneeName:    pos.consigneeName,
       confidence:       pos.confidence,
@@ -10,6 +10,8 @@ import connectDB from '@/lib/db/connect';
 import { VesselModel, VoyageModel, StowagePlanModel, ServiceModel } from '@/lib/db/schemas';
 import type { Vessel } from '@/types/models';
 import { auth } from '@/auth';
+import { parseHydrostaticCsv, validateHydrostaticTable } from '@/lib/stability/hydrostatics';
+import { countReeferPlugs } from '@/lib/stowage-engine/deck';
 
 // ----------------------------------------------------------------------------
 // VALIDATION SCHEMAS
@@ -30,6 +32,8 @@ const CoolingSectionDetailEntrySchema = z.object({
 const TemperatureZoneEntrySchema = z.object({
   zoneId: z.string().min(1).max(20),
   coolingSections: z.array(CoolingSectionDetailEntrySchema).default([]),
+  refrigerationCapacityKw: z.number().positive('Refrigeration capacity must be positive').optional(),
+  maxAdjacentDelta: z.number().positive('Adjacent-zone delta must be positive').max(60).optional(),
 });
 
 const CreateVesselSchema = z.object({
@@ -62,6 +66,66 @@ const UpdateVesselSchema = z.object({
   active: z.boolean().optional(),
 });
 
+const HydrostaticRowEntrySchema = z.object({
+  draft: z.number().positive('Draft must be positive'),
+  displacement: z.number().positive('Displacement must be positive'),
+  km: z.number().positive('KM must be positive'),
+  lcb: z.number(),
+  lcf: z.number(),
+  mct1cm: z.number().positive('MCT1cm must be positive'),
+  tpc: z.number().positive('TPC must be positive'),
+});
+
+// Either structured rows or the raw CSV export from the vessel's stability booklet
+const ImportHydrostaticsSchema = z.object({
+  lpp: z.number().positive('LPP must be positive').max(500),
+  rows: z.array(HydrostaticRowEntrySchema).optional(),
+  csv: z.string().max(200_000).optional(),
+}).refine(d => (d.rows && d.rows.length > 0) || (d.csv && d.csv.trim().length > 0), {
+  message: 'Provide hydrostatic rows or CSV data',
+});
+
+const VesselTankEntrySchema = z.object({
+  tankId: z.string().min(1).max(20),
+  name: z.string().max(100).optional().default(''),
+  type: z.enum(['BALLAST', 'FUEL', 'FRESH_WATER']),
+  capacity: z.number().positive('Tank capacity must be positive'),
+  density: z.number().min(0.5).max(2),
+  lcg: z.number(),
+  vcg: z.number().min(0),
+  tcg: z.number().default(0),
+  freeSurfaceMoment: z.number().min(0).default(0),
+});
+
+const UpdateVesselTanksSchema = z.array(VesselTankEntrySchema).max(200)
+  .refine(tanks => new Set(tanks.map(t => t.tankId.toUpperCase())).size === tanks.length, {
+    message: 'Tank IDs must be unique',
+  });
+
+const DeckStackEntrySchema = z.object({
+  bay: z.number().int().min(1).max(99),
+  row: z.number().int().min(0).max(99),
+  holdNumber: z.number().int().min(1),
+  slotLength: z.enum(['20FT', '40FT']),
+  maxStackWeight: z.number().positive('Stack weight limit must be positive'),
+  lcg: z.number(),
+  tcg: z.number().default(0),
+  baseVcg: z.number().min(0),
+  tiers: z.array(z.object({
+    tier: z.number().int().min(1).max(99),
+    reeferPlug: z.boolean().default(false),
+    allowsHighCube: z.boolean().default(true),
+  })).min(1, 'Each stack needs at least one tier')
+    .refine(tiers => tiers.every((t, i) => i === 0 || t.tier > tiers[i - 1].tier), {
+      message: 'Tiers must be listed bottom to top',
+    }),
+});
+
+const UpdateDeckBayPlanSchema = z.array(DeckStackEntrySchema).max(500)
+  .refine(stacks => new Set(stacks.map(s => `${s.bay}-${s.row}`)).size === stacks.length, {
+    message: 'Each bay/row stack may appear only once',
+  });
+
 // ----------------------------------------------------------------------------
 // GET ALL VESSELS
 // ----------------------------------------------------------------------------
@@ -392,6 +456,8 @@ export async function createVessel(input: unknown) {
     const zones = (data.temperatureZones ?? []).map((z: any) => ({
       zoneId: z.zoneId.toUpperCase(),
       coolingSections: z.coolingSections,
+      refrigerationCapacityKw: z.refrigerationCapacityKw,
+      maxAdjacentDelta: z.maxAdjacentDelta,
       locked: false,
     }));
 
@@ -426,6 +492,8 @@ export async function createVessel(input: unknown) {
             sqm: s.sqm,
             designStowageFactor: s.designStowageFactor,
           })),
+          refrigerationCapacityKw: z.refrigerationCapacityKw,
+          maxAdjacentDelta: z.maxAdjacentDelta,
         })),
         captainEmail: vessel.captainEmail,
         active: vessel.active !== false,
@@ -491,6 +559,8 @@ export async function updateVessel(id: unknown, input: unknown) {
       update.temperatureZones = data.temperatureZones.map((z: any) => ({
         zoneId: z.zoneId.toUpperCase(),
         coolingSections: z.coolingSections,
+        refrigerationCapacityKw: z.refrigerationCapacityKw,
+        maxAdjacentDelta: z.maxAdjacentDelta,
         locked: false,
       }));
       update.maxTemperatureZones = data.temperatureZones.length;
@@ -520,6 +590,8 @@ export async function updateVessel(id: unknown, input: unknown) {
             sqm: s.sqm,
             designStowageFactor: s.designStowageFactor,
           })),
+          refrigerationCapacityKw: z.refrigerationCapacityKw,
+          maxAdjacentDelta: z.maxAdjacentDelta,
         })),
         captainEmail: vessel.captainEmail,
         active: vessel.active !== false,
@@ -579,6 +651,140 @@ export async function deleteVessel(vesselId: unknown) {
   }
 }
 
+// ----------------------------------------------------------------------------
+// IMPORT HYDROSTATIC TABLES
+// Replaces vessel.stability.hydrostatics + lpp. Used by
+// calculatePreliminaryStability to interpolate KM/LCB/LCF/MCT1cm/TPC.
+// ----------------------------------------------------------------------------
+
+export async function importHydrostaticTables(vesselId: unknown, input: unknown) {
+  try {
+    const session = await auth();
+    if (!session?.user) return { success: false, error: 'Unauthorized' };
+    if ((session.user as any).role !== 'ADMIN') return { success: false, error: 'Forbidden' };
+
+    const id = VesselIdSchema.parse(vesselId);
+    const data = ImportHydrostaticsSchema.parse(input);
+
+    let rows;
+    try {
+      rows = data.rows && data.rows.length > 0
+        ? data.rows
+        : parseHydrostaticCsv(data.csv ?? '').map(r => HydrostaticRowEntrySchema.parse(r));
+    } catch (parseError) {
+      if (parseError instanceof z.ZodError) throw parseError;
+      return { success: false, error: (parseError as Error).message };
+    }
+
+    const tableError = validateHydrostaticTable(rows);
+    if (tableError) return { success: false, error: tableError };
+
+    rows = [...rows].sort((a, b) => a.displacement - b.displacement);
+
+    await connectDB();
+
+    const vessel = await VesselModel.findByIdAndUpdate(
+      id,
+      { $set: { 'stability.lpp': data.lpp, 'stability.hydrostatics': rows } },
+      { new: true },
+    ).lean() as any;
+    if (!vessel) return { success: false, error: 'Vessel not found' };
+
+    return {
+      success: true,
+      data: {
+        lpp: vessel.stability.lpp,
+        rowCount: rows.length,
+        draftRange: { min: rows[0].draft, max: rows[rows.length - 1].draft },
+        displacementRange: { min: rows[0].displacement, max: rows[rows.length - 1].displacement },
+      },
+    };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { success: false, error: `Validation error: ${error.issues[0].message}` };
+    }
+    console.error('Error importing hydrostatic tables:', error);
+    return { success: false, error: 'Failed to import hydrostatic tables' };
+  }
+}
+
+// ----------------------------------------------------------------------------
+// UPDATE VESSEL TANKS
+// Replaces the ballast / fuel / fresh-water tank list used by stability.
+// ----------------------------------------------------------------------------
+
+export async function updateVesselTanks(vesselId: unknown, input: unknown) {
+  try {
+    const session = await auth();
+    if (!session?.user) return { success: false, error: 'Unauthorized' };
+    if ((session.user as any).role !== 'ADMIN') return { success: false, error: 'Forbidden' };
+
+    const id = VesselIdSchema.parse(vesselId);
+    const tanks = UpdateVesselTanksSchema.parse(input).map(t => ({
+      ...t,
+      tankId: t.tankId.toUpperCase().trim(),
+    }));
+
+    await connectDB();
+
+    const vessel = await VesselModel.findByIdAndUpdate(
+      id,
+      { $set: { tanks } },
+      { new: true },
+    ).lean() as any;
+    if (!vessel) return { success: false, error: 'Vessel not found' };
+
+    return {
+      success: true,
+      data: JSON.parse(JSON.stringify(vessel.tanks ?? [])),
+    };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { success: false, error: `Validation error: ${error.issues[0].message}` };
+    }
+    console.error('Error updating vessel tanks:', error);
+    return { success: false, error: 'Failed to update vessel tanks' };
+  }
+}
+
+// ----------------------------------------------------------------------------
+// UPDATE DECK BAY PLAN
+// Replaces the deck container slot model (bay × row stacks, tiers with reefer
+// plugs) and keeps deckContainerCapacity.maxReeferPlugs in step with it.
+// ----------------------------------------------------------------------------
+
+export async function updateVesselDeckBayPlan(vesselId: unknown, input: unknown) {
+  try {
+    const session = await auth();
+    if (!session?.user) return { success: false, error: 'Unauthorized' };
+    if ((session.user as any).role !== 'ADMIN') return { success: false, error: 'Forbidden' };
+
+    const id = VesselIdSchema.parse(vesselId);
+    const stacks = UpdateDeckBayPlanSchema.parse(input);
+    const plugs = countReeferPlugs(stacks);
+
+    await connectDB();
+
+    const vessel = await VesselModel.findByIdAndUpdate(
+      id,
+      { $set: { deckBayPlan: stacks, 'deckContainerCapacity.maxReeferPlugs': plugs } },
+      { new: true },
+    ).lean() as any;
+    if (!vessel) return { success: false, error: 'Vessel not found' };
+
+    return {
+      success: true,
+      data: JSON.parse(JSON.stringify(vessel.deckBayPlan ?? [])),
+    };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { success: false, error: `Validation error: ${error.issues[0].message}` };
+    }
+    console.error('Error updating deck bay plan:', error);
+    return { success: false, error: 'Failed to update deck bay plan' };
+  }
+}
+
 // ----------------------------------------------------------------------------
 // RECALCULATE HISTORICAL STOWAGE FACTORS
 // Called when a voyage is marked COMPLETED.
@@ -14,6 +14,8 @@ import connectDB from '@/lib/db/connect';
 import { VoyageModel, VesselModel, StowagePlanModel, BookingModel, ServiceModel, SpaceForecastModel } from '@/lib/db/schemas';
 import type { Voyage, VoyagePortCall } from '@/types/models';
 import { auth } from '@/auth';
+import { syncVoyageStatuses } from '@/lib/voyage-status';
+import { proposeSeasonSchedule, type ProposedVoyage } from '@/lib/season-schedule';
 
 // ----------------------------------------------------------------------------
 // VALIDATION SCHEMAS
@@ -71,6 +73,49 @@ const CreateVoyageFromWizardSchema = z.object({
   portCalls: z.array(WizardPortCallSchema).min(2, 'Voyage must have at least 2 ports'),
 });
 
+// Shared by createVoyageFromWizard and createSeasonSchedule. Caller connects to the DB.
+async function _createVoyageFromWizardCore(
+  validated: z.infer<typeof CreateVoyageFromWizardSchema>
+): Promise<{ success: true; voyage: any } | { success: false; error: string }> {
+  // Check duplicate voyage number
+  const existing = await VoyageModel.findOne({ voyageNumber: validated.voyageNumber });
+  if (existing) {
+    return { success: false, error: `Voyage number ${validated.voyageNumber} already exists` };
+  }
+
+  // Build portCalls with Date objects
+  const portCalls = validated.portCalls.map((pc: any) => ({
+    portCode: pc.portCode,
+    portName: pc.portName,
+    country: pc.country,
+    sequence: pc.sequence,
+    eta: pc.eta ? new Date(pc.eta) : undefined,
+    etd: pc.etd ? new Date(pc.etd) : undefined,
+    operations: pc.operations,
+    status: 'SCHEDULED',
+    locked: false,
+  }));
+
+  // Estimated arrival = last port's ETD or ETA
+  const lastPort = portCalls[portCalls.length - 1];
+  const estimatedArrivalDate = lastPort.etd || lastPort.eta || new Date(validated.departureDate);
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const voyage: any = await VoyageModel.create({
+    voyageNumber: validated.voyageNumber.toUpperCase().trim(),
+    weekNumber: validated.weekNumber,
+    serviceId: validated.serviceId,
+    vesselId: validated.vesselId,
+    vesselName: validated.vesselName.trim().toUpperCase(),
+    departureDate: new Date(validated.departureDate),
+    estimatedArrivalDate,
+    status: 'PLANNED',
+    portCalls,
+  } as any);
+
+  return { success: true, voyage };
+}
+
 export async function createVoyageFromWizard(data: unknown) {
   try {
     const session = await auth();
@@ -82,41 +127,9 @@ export async function createVoyageFromWizard(data: unknown) {
 
     await connectDB();
 
-    // Check duplicate voyage number
-    const existing = await VoyageModel.findOne({ voyageNumber: validated.voyageNumber });
-    if (existing) {
-      return { success: false, error: `Voyage number ${validated.voyageNumber} already exists` };
-    }
-
-    // Build portCalls with Date objects
-    const portCalls = validated.portCalls.map((pc: any) => ({
-      portCode: pc.portCode,
-      portName: pc.portName,
-      country: pc.country,
-      sequence: pc.sequence,
-      eta: pc.eta ? new Date(pc.eta) : undefined,
-      etd: pc.etd ? new Date(pc.etd) : undefined,
-      operations: pc.operations,
-      status: 'SCHEDULED',
-      locked: false,
-    }));
-
-    // Estimated arrival = last port's ETD or ETA
-    const lastPort = portCalls[portCalls.length - 1];
-    const estimatedArrivalDate = lastPort.etd || lastPort.eta || new Date(validated.departureDate);
-
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const voyage: any = await VoyageModel.create({
-      voyageNumber: validated.voyageNumber.toUpperCase().trim(),
-      weekNumber: validated.weekNumber,
-      serviceId: validated.serviceId,
-      vesselId: validated.vesselId,
-      vesselName: validated.vesselName.trim().toUpperCase(),
-      departureDate: new Date(validated.departureDate),
-      estimatedArrivalDate,
-      status: 'PLANNED',
-      portCalls,
-    } as any);
+    const result = await _createVoyageFromWizardCore(validated);
+    if (!result.success) return result;
+    const voyage = result.voyage;
 
     return {
       success: true,
@@ -134,6 +147,158 @@ export async function createVoyageFromWizard(data: unknown) {
   }
 }
 
+// ----------------------------------------------------------------------------
+// SEASON SCHEDULE
+// Proposes a run of weekly voyages for a service (lib/season-schedule.ts) and
+// bulk-creates the selected ones with createVoyageFromWizard semantics.
+// Proposals are recomputed on create so conflicts are checked against the
+// database as it is at that moment.
+// ----------------------------------------------------------------------------
+
+const SeasonScheduleSchema = z.object({
+  serviceId: z.string().min(1, 'Service ID is required'),
+  startYear: z.number().int().min(2000).max(2100),
+  startWeek: z.number().int().min(1).max(53),
+  weeks: z.number().int().min(1, 'Generate at least one week').max(52, 'A season is at most 52 weeks'),
+});
+
+const CreateSeasonScheduleSchema = SeasonScheduleSchema.extend({
+  voyageNumbers: z.array(z.string().min(1)).min(1, 'Select at least one voyage'),
+});
+
+async function _proposeSeasonForService(params: z.infer<typeof SeasonScheduleSchema>) {
+  const service: any = await ServiceModel.findById(params.serviceId).lean();
+  if (!service) throw new Error('Service not found');
+
+  const poolIds = (service.vesselPool ?? []).map((id: any) => id.toString());
+  const vessels = await VesselModel.find({ _id: { $in: poolIds } }).select('_id name').lean();
+
+  const existing = await VoyageModel.find({
+    vesselId: { $in: poolIds },
+    status: { $ne: 'CANCELLED' },
+  }).select('voyageNumber vesselId departureDate estimatedArrivalDate portCalls').lean();
+
+  const existingVoyages = (existing as any[]).map(v => {
+    const dates = (v.portCalls ?? [])
+      .flatMap((pc: any) => [pc.eta, pc.etd])
+      .filter(Boolean)
+      .map((d: any) => new Date(d).getTime());
+    if (v.departureDate) dates.push(new Date(v.departureDate).getTime());
+    if (v.estimatedArrivalDate) dates.push(new Date(v.estimatedArrivalDate).getTime());
+    return {
+      voyageNumber: v.voyageNumber,
+      vesselId: v.vesselId?.toString(),
+      start: new Date(Math.min(...dates)),
+      end: new Date(Math.max(...dates)),
+    };
+  }).filter(v => !isNaN(v.start.getTime()));
+
+  const propose = (takenVoyageNumbers: Set<string>) => proposeSeasonSchedule({
+    service: {
+      cycleDurationWeeks: service.cycleDurationWeeks,
+      portRotation: service.portRotation ?? [],
+      vesselPool: poolIds,
+    },
+    vessels: (vessels as any[]).map(v => ({ _id: v._id.toString(), name: v.name })),
+    existingVoyages,
+    takenVoyageNumbers,
+    startYear: params.startYear,
+    startWeek: params.startWeek,
+    weeks: params.weeks,
+  });
+
+  // Voyage numbers are unique across all voyages, cancelled ones included
+  const taken = await VoyageModel.find({
+    voyageNumber: { $in: propose(new Set()).map(p => p.voyageNumber) },
+  }).select('voyageNumber').lean();
+  const proposals = propose(new Set((taken as any[]).map(v => v.voyageNumber as string)));
+  return { service, proposals };
+}
+
+export async function previewSeasonSchedule(data: unknown) {
+  try {
+    const session = await auth();
+    if (!session?.user) return { success: false, data: [], error: 'Unauthorized' };
+    const role = (session.user as any).role as string;
+    if (!['ADMIN', 'SHIPPING_PLANNER'].includes(role)) return { success: false, data: [], error: 'Forbidden' };
+
+    const validated = SeasonScheduleSchema.parse(data);
+
+    await connectDB();
+
+    const { proposals } = await _proposeSeasonForService(validated);
+    return { success: true, data: proposals as ProposedVoyage[] };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { success: false, data: [], error: `Validation error: ${error.issues[0].message}` };
+    }
+    console.error('Error previewing season schedule:', error);
+    return { success: false, data: [], error: error instanceof Error ? error.message : 'Failed to preview season schedule' };
+  }
+}
+
+export async function createSeasonSchedule(data: unknown) {
+  try {
+    const session = await auth();
+    if (!session?.user) return { success: false, error: 'Unauthorized' };
+    const role = (session.user as any).role as string;
+    if (!['ADMIN', 'SHIPPING_PLANNER'].includes(role)) return { success: false, error: 'Forbidden' };
+
+    const validated = CreateSeasonScheduleSchema.parse(data);
+
+    await connectDB();
+
+    const { proposals } = await _proposeSeasonForService(validated);
+    const selected = new Set(validated.voyageNumbers);
+
+    const created: { voyageNumber: string; voyageId: string }[] = [];
+    const skipped: { voyageNumber: string; reason: string }[] = [];
+
+    for (const proposal of proposals) {
+      if (!selected.has(proposal.voyageNumber)) continue;
+      selected.delete(proposal.voyageNumber);
+
+      if (proposal.conflicts.length > 0) {
+        skipped.push({ voyageNumber: proposal.voyageNumber, reason: proposal.conflicts[0].message });
+        continue;
+      }
+
+      const result = await _createVoyageFromWizardCore(CreateVoyageFromWizardSchema.parse({
+        voyageNumber: proposal.voyageNumber,
+        weekNumber: proposal.weekNumber,
+        serviceId: validated.serviceId,
+        vesselId: proposal.vesselId,
+        vesselName: proposal.vesselName,
+        departureDate: proposal.departureDate,
+        portCalls: proposal.portCalls,
+      }));
+      if (result.success) {
+        created.push({ voyageNumber: proposal.voyageNumber, voyageId: result.voyage._id.toString() });
+      } else {
+        skipped.push({ voyageNumber: proposal.voyageNumber, reason: result.error });
+      }
+    }
+
+    // Selected numbers the recomputed schedule no longer proposes
+    for (const voyageNumber of selected) {
+      skipped.push({ voyageNumber, reason: 'No longer part of the proposed schedule' });
+    }
+
+    return {
+      success: true,
+      created,
+      skipped,
+      message: `${created.length} voyage(s) created${skipped.length > 0 ? `, ${skipped.length} skipped` : ''}`,
+    };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { success: false, error: `Validation error: ${error.issues[0].message}` };
+    }
+    console.error('Error creating season schedule:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to create season schedule' };
+  }
+}
+
 // ----------------------------------------------------------------------------
 // CREATE VOYAGE
 // Creates a new voyage with port calls
@@ -872,70 +1037,13 @@ export async function checkVoyageNumberExists(voyageNumber: unknown) {
   }
 }
 
-// ----------------------------------------------------------------------------
-// SYNC VOYAGE STATUSES — automatic PLANNED → IN_PROGRESS → COMPLETED transitions
-//
-// Runs against all non-CLOSED, non-CANCELLED voyages.
-// Rules (based on port call ETAs):
-//   firstLoadPort.eta <= now  AND  status === 'PLANNED'    → IN_PROGRESS
-//   lastPort.eta      <= now  AND  status === 'IN_PROGRESS' → COMPLETED
-//
-// Silent: never throws, only logs errors. Called fire-and-forget from
-// getVoyages() and getAdminVoyages() so the views always reflect reality.
-// ----------------------------------------------------------------------------
-
-async function syncVoyageStatuses(): Promise<void> {
-  try {
-    await connectDB();
-    const now = new Date();
-
-    const voyages = await VoyageModel.find({
-      status: { $in: ['PLANNED', 'IN_PROGRESS'] },
-    }).lean();
-
-    const updates: Promise<any>[] = [];
-
-    for (const voyage of voyages as any[]) {
-      const portCalls: any[] = (voyage.portCalls ?? []).filter(
-        (pc: any) => pc.status !== 'CANCELLED' && pc.status !== 'SKIPPED'
-      );
-
-      if (portCalls.length === 0) continue;
-
-      // First load port (lowest sequence among ports with LOAD operation)
-      const loadPorts = portCalls.filter((pc: any) => (pc.operations ?? []).includes('LOAD'));
-      const firstLoadPort = loadPorts.sort((a: any, b: any) => a.sequence - b.sequence)[0];
-
-      // Last port overall (highest sequence)
-      const lastPort = [...portCalls].sort((a: any, b: any) => b.sequence - a.sequence)[0];
-
-      if (voyage.status === 'PLANNED' && firstLoadPort?.eta && new Date(firstLoadPort.eta) <= now) {
-        updates.push(
-          VoyageModel.updateOne({ _id: voyage._id }, { $set: { status: 'IN_PROGRESS' } })
-        );
-      } else if (voyage.status === 'IN_PROGRESS' && lastPort?.eta && new Date(lastPort.eta) <= now) {
-        updates.push(
-          VoyageModel.updateOne({ _id: voyage._id }, { $set: { status: 'COMPLETED' } })
-        );
-      }
-    }
-
-    if (updates.length > 0) {
-      await Promise.all(updates);
-      console.log(`[syncVoyageStatuses] Updated ${updates.length} voyage(s)`);
-    }
-  } catch (error) {
-    console.error('[syncVoyageStatuses] Error:', error);
-  }
-}
-
 // ----------------------------------------------------------------------------
 // GET ALL VOYAGES
 // ----------------------------------------------------------------------------
 
 export async function getVoyages() {
   // Fire-and-forget: auto-advance voyage statuses before returning results
-  syncVoyageStatuses().catch(() => {});
+  syncVoyageStatuses().catch(error => console.error('[syncVoyageStatuses] Error:', error));
 
   try {
     await connectDB();
@@ -1363,7 +1471,7 @@ export async function cancelVoyage(voyageId: unknown) {
 
 export async function getAdminVoyages() {
   // Fire-and-forget: auto-advance voyage statuses before returning results
-  syncVoyageStatuses().catch(() => {});
+  syncVoyageStatuses().catch(error => console.error('[syncVoyageStatuses] Error:', error));
 
   try {
     const session = await auth();
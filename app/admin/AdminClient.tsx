@@ -13,11 +13,13 @@ import { createShipper, updateShipper, deactivateShipper } from '@/app/actions/s
 import { createOffice, updateOffice, deleteOffice } from '@/app/actions/office';
 import { approveBooking, rejectBooking, cancelBooking } from '@/app/actions/booking';
 import { createCustomer, updateCustomer, deactivateCustomer } from '@/app/actions/customer';
-import { getCargoProducts, updateCargoProduct } from '@/app/actions/cargo-product';
+import { getCargoProducts, createCargoProduct, updateCargoProduct, getCompatibilityGroups } from '@/app/actions/cargo-product';
 import { getCountries } from '@/app/actions/country';
+import { getJobs, runJobNow } from '@/app/actions/jobs';
 import CountrySelect from '@/components/ui/CountrySelect';
 import ContractsClient from '@/app/contracts/ContractsClient';
 import type { DisplayContract } from '@/app/contracts/ContractsClient';
+import type { StandbyOrder } from '@/types/models';
 import styles from './page.module.css';
 import TabBar from './TabBar';
 
@@ -58,6 +60,8 @@ interface ZoneSection {
 interface VesselZone {
   zoneId: string;
   coolingSections: ZoneSection[];
+  refrigerationCapacityKw?: number;
+  maxAdjacentDelta?: number;
 }
 
 interface AdminVessel {
@@ -87,7 +91,7 @@ interface AdminShipper {
 
 // Form-level zone types (string values for number inputs during editing)
 interface FormSection { sectionId: string; sqm: string; factor: string; }
-interface FormZone { zoneId: string; sections: FormSection[]; }
+interface FormZone { zoneId: string; sections: FormSection[]; capacityKw: string; maxDelta: string; }
 
 function toFormZones(zones?: VesselZone[]): FormZone[] {
   return (zones ?? []).map(z => ({
@@ -97,6 +101,8 @@ function toFormZones(zones?: VesselZone[]): FormZone[] {
       sqm: String(s.sqm),
       factor: String(s.designStowageFactor),
     })),
+    capacityKw: z.refrigerationCapacityKw !== undefined ? String(z.refrigerationCapacityKw) : '',
+    maxDelta: z.maxAdjacentDelta !== undefined ? String(z.maxAdjacentDelta) : '',
   }));
 }
 
@@ -108,6 +114,9 @@ function fromFormZones(formZones: FormZone[]) {
       sqm: parseFloat(s.sqm) || 0,
       designStowageFactor: parseFloat(s.factor) || 1.32,
     })),
+    // Blank = not configured; the engine skips the refrigeration check for that zone
+    refrigerationCapacityKw: parseFloat(z.capacityKw) > 0 ? parseFloat(z.capacityKw) : undefined,
+    maxAdjacentDelta: parseFloat(z.maxDelta) > 0 ? parseFloat(z.maxDelta) : undefined,
   }));
 }
 
@@ -136,6 +145,8 @@ interface AdminService {
   cycleDurationWeeks?: number;
   active: boolean;
   vesselPool?: string[];
+  standbyPolicy?: { order: StandbyOrder; autoConfirmMaxPallets: number };
+  bookingDeadlineReminderHours?: number[];
   portRotation: Array<{
     portCode: string;
     portName: string;
@@ -164,6 +175,8 @@ interface AdminPort {
   weatherCity: string;
   latitude?: number;
   longitude?: number;
+  palletsPerHour?: number;
+  loadingGangs?: number;
   active: boolean;
 }
 
@@ -228,6 +241,13 @@ interface AdminCargoProduct {
   name: string;
   shortLabel: string;
   temperature: number;
+  minCarriageTemp?: number;
+  maxCarriageTemp?: number;
+  humidity?: { min: number; max: number };
+  ventilation?: number;
+  atmosphere?: { mode: 'REGULAR' | 'CA'; o2?: { min: number; max: number }; co2?: { min: number; max: number } };
+  ethyleneSensitive: boolean;
+  ethyleneProducer: boolean;
   active: boolean;
 }
 
@@ -253,7 +273,7 @@ function fmtCargo(type: string): string {
   return type.replace(/_/g, ' ').toLowerCase().replace(/\b\w/g, c => c.toUpperCase());
 }
 
-type Tab = 'voyages' | 'contracts' | 'plans' | 'vessels' | 'services' | 'users' | 'ports' | 'shippers' | 'offices' | 'bookings' | 'customers' | 'cargo-products';
+type Tab = 'voyages' | 'contracts' | 'plans' | 'vessels' | 'services' | 'users' | 'ports' | 'shippers' | 'offices' | 'bookings' | 'customers' | 'cargo-products' | 'jobs';
 
 type ConfirmAction =
   | { type: 'cancel'; voyage: AdminVoyage }
@@ -286,6 +306,11 @@ function fmtDate(d?: string) {
   return new Date(d).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: '2-digit' });
 }
 
+function fmtDateTime(d?: string) {
+  if (!d) return '—';
+  return new Date(d).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit', hour12: false });
+}
+
 // ---------------------------------------------------------------------------
 // Detail Panel helpers (shared across all tab detail views)
 // ---------------------------------------------------------------------------
@@ -784,7 +809,7 @@ function TemperatureZoneEditor({ zones, onChange }: {
     const zid = newZoneId.trim().toUpperCase();
     if (!zid) return;
     if (zones.some(z => z.zoneId === zid)) { setZoneErr('Zone already exists'); return; }
-    onChange([...zones, { zoneId: zid, sections: [] }]);
+    onChange([...zones, { zoneId: zid, sections: [], capacityKw: '', maxDelta: '' }]);
     setNewZoneId('');
     setZoneErr('');
   };
@@ -804,6 +829,9 @@ function TemperatureZoneEditor({ zones, onChange }: {
     setAdding(zoneId, { sectionId: '', sqm: '', factor: '1.32' });
   };
 
+  const setZoneField = (zoneId: string, field: 'capacityKw' | 'maxDelta', value: string) =>
+    onChange(zones.map(z => z.zoneId === zoneId ? { ...z, [field]: value } : z));
+
   const removeSection = (zoneId: string, sectionId: string) =>
     onChange(zones.map(z => z.zoneId === zoneId
       ? { ...z, sections: z.sections.filter(s => s.sectionId !== sectionId) }
@@ -833,6 +861,31 @@ function TemperatureZoneEditor({ zones, onChange }: {
                 onClick={() => removeZone(zone.zoneId)} title="Remove zone">×</button>
             </div>
 
+            <div className={styles.zoneRefrigerationRow}>
+              <span className={styles.calcPallets}>Refrigeration</span>
+              <input
+                type="number"
+                className={`${styles.sectionAddInput} ${styles.sectionAddInputNum}`}
+                value={zone.capacityKw}
+                onChange={e => setZoneField(zone.zoneId, 'capacityKw', e.target.value)}
+                placeholder="kW"
+                min={0}
+                step={1}
+              />
+              <span className={styles.calcPallets}>kW · max Δ to neighbouring zones</span>
+              <input
+                type="number"
+                className={`${styles.sectionAddInput} ${styles.sectionAddInputNum}`}
+                value={zone.maxDelta}
+                onChange={e => setZoneField(zone.zoneId, 'maxDelta', e.target.value)}
+                placeholder="°C"
+                min={0}
+                max={60}
+                step={1}
+              />
+              <span className={styles.calcPallets}>°C (blank = not checked)</span>
+            </div>
+
             {zone.sections.length > 0 && (
               <div className={styles.zoneTableWrap}>
                 <table className={styles.zoneTable}>
@@ -1681,6 +1734,11 @@ function EditServiceModal({ service, onClose, onUpdated }: {
     (service.frequency as any) ?? 'WEEKLY'
   );
   const [cycleDurationWeeks, setCycleDurationWeeks] = useState(service.cycleDurationWeeks ?? 4);
+  const [standbyOrder, setStandbyOrder] = useState<StandbyOrder>(service.standbyPolicy?.order ?? 'FIFO');
+  const [autoConfirmMax, setAutoConfirmMax] = useState(service.standbyPolicy?.autoConfirmMaxPallets ?? 0);
+  const [reminderHours, setReminderHours] = useState(
+    (service.bookingDeadlineReminderHours ?? [72, 24]).join(', ')
+  );
   const [ports, setPorts] = useState<PortEntry[]>(
     service.portRotation
       .slice()
@@ -1699,6 +1757,15 @@ function EditServiceModal({ service, onClose, onUpdated }: {
   const handleSave = () => {
     if (!serviceName.trim()) { setError('Service name is required'); return; }
     if (ports.length < 2) { setError('At least 2 ports are required'); return; }
+    const bookingDeadlineReminderHours = reminderHours
+      .split(',')
+      .map(h => h.trim())
+      .filter(Boolean)
+      .map(Number);
+    if (bookingDeadlineReminderHours.some(h => !Number.isInteger(h) || h <= 0)) {
+      setError('Deadline reminders must be whole hours, e.g. 72, 24');
+      return;
+    }
     setError(null);
     startTransition(async () => {
       const portRotation = ports.map((p, i) => ({
@@ -1716,6 +1783,8 @@ function EditServiceModal({ service, onClose, onUpdated }: {
         frequency,
         cycleDurationWeeks,
         portRotation,
+        standbyPolicy: { order: standbyOrder, autoConfirmMaxPallets: autoConfirmMax },
+        bookingDeadlineReminderHours,
       });
       if (result.success) {
         onUpdated(result.data as AdminService);
@@ -1774,6 +1843,39 @@ function EditServiceModal({ service, onClose, onUpdated }: {
               max={52}
             />
           </div>
+          <div className={styles.formGroup}>
+            <label className={styles.formLabel}>Standby Queue Order</label>
+            <select
+              className={styles.formSelect}
+              value={standbyOrder}
+              onChange={e => setStandbyOrder(e.target.value as StandbyOrder)}
+            >
+              <option value="FIFO">First requested first</option>
+              <option value="CONTRACT_PRIORITY">Contract priority</option>
+              <option value="CARGO_FIT">Cargo type fit</option>
+            </select>
+          </div>
+          <div className={styles.formGroup}>
+            <label className={styles.formLabel}>Auto-confirm Standby up to (pallets)</label>
+            <input
+              type="number"
+              className={styles.formInput}
+              value={autoConfirmMax}
+              onChange={e => setAutoConfirmMax(Math.max(0, parseInt(e.target.value, 10) || 0))}
+              min={0}
+              title="Promotions up to this size are confirmed without planner approval. 0 = always ask."
+            />
+          </div>
+          <div className={styles.formGroup}>
+            <label className={styles.formLabel}>Deadline Reminders (hours before)</label>
+            <input
+              className={styles.formInput}
+              value={reminderHours}
+              onChange={e => setReminderHours(e.target.value)}
+              placeholder="72, 24"
+              title="Shippers with unbooked forecasts are emailed this many hours before the booking deadline. Leave empty for no reminders."
+            />
+          </div>
         </div>
 
         <div>
@@ -2888,6 +2990,8 @@ function EditPortModal({ port, onClose, onUpdated }: {
   const [weatherCity, setWeatherCity] = useState(port.weatherCity);
   const [latitude, setLatitude]       = useState(port.latitude != null ? String(port.latitude) : '');
   const [longitude, setLongitude]     = useState(port.longitude != null ? String(port.longitude) : '');
+  const [palletsPerHour, setPalletsPerHour] = useState(port.palletsPerHour != null ? String(port.palletsPerHour) : '');
+  const [loadingGangs, setLoadingGangs]     = useState(port.loadingGangs != null ? String(port.loadingGangs) : '');
   const [active, setActive]           = useState(port.active);
   const [isPending, startTransition] = useTransition();
   const [error, setError] = useState<string | null>(null);
@@ -2905,6 +3009,8 @@ function EditPortModal({ port, onClose, onUpdated }: {
         weatherCity: weatherCity.trim(),
         latitude:    latitude ? parseFloat(latitude) : undefined,
         longitude:   longitude ? parseFloat(longitude) : undefined,
+        palletsPerHour: palletsPerHour ? parseFloat(palletsPerHour) : null,
+        loadingGangs:   loadingGangs ? parseInt(loadingGangs, 10) : null,
         active,
       });
       if (result.success) {
@@ -2948,6 +3054,14 @@ function EditPortModal({ port, onClose, onUpdated }: {
             <label className={styles.formLabel}>Longitude</label>
             <input className={styles.formInput} type="number" step="0.0001" value={longitude} onChange={e => setLongitude(e.target.value)} />
           </div>
+          <div className={styles.formGroup}>
+            <label className={styles.formLabel}>Loading rate (pallets / hour / gang)</label>
+            <input className={styles.formInput} type="number" min="1" value={palletsPerHour} onChange={e => setPalletsPerHour(e.target.value)} placeholder="40" />
+          </div>
+          <div className={styles.formGroup}>
+            <label className={styles.formLabel}>Loading gangs</label>
+            <input className={styles.formInput} type="number" min="1" max="10" value={loadingGangs} onChange={e => setLoadingGangs(e.target.value)} placeholder="2" />
+          </div>
           <div className={styles.formGroupFull}>
             <label className={styles.formLabel}>
               <input type="checkbox" checked={active} onChange={e => setActive(e.target.checked)} style={{ marginRight: 6 }} />
@@ -3008,6 +3122,8 @@ function PortsTab({ initialPorts, unecePorts }: { initialPorts: AdminPort[]; une
             <DRow label="Weather City" value={selectedPort.weatherCity} />
             <DRow label="Latitude" value={selectedPort.latitude} />
             <DRow label="Longitude" value={selectedPort.longitude} />
+            <DRow label="Loading Rate" value={selectedPort.palletsPerHour != null ? `${selectedPort.palletsPerHour} plt/h per gang` : undefined} />
+            <DRow label="Loading Gangs" value={selectedPort.loadingGangs} />
             <DRow label="Status" value={
               <span className={styles.badge} style={{
                 background: selectedPort.active ? 'var(--color-success-muted)' : 'var(--color-bg-tertiary)',
@@ -3891,6 +4007,218 @@ function OfficesTab({ initialOffices, allServices }: { initialOffices: AdminOffi
   );
 }
 
+// ---------------------------------------------------------------------------
+// Scheduled Jobs tab
+// ---------------------------------------------------------------------------
+
+interface AdminJobRun {
+  _id: string;
+  trigger: 'SCHEDULE' | 'MANUAL';
+  triggeredBy?: string;
+  status: 'RUNNING' | 'SUCCESS' | 'FAILED';
+  startedAt: string;
+  finishedAt?: string;
+  durationMs?: number;
+  summary?: string;
+  error?: string;
+  instanceId?: string;
+}
+
+interface AdminJob {
+  name: string;
+  label: string;
+  description: string;
+  schedule: string;
+  scheduleLabel: string;
+  timezone: string;
+  lastRun: AdminJobRun | null;
+  lastError: AdminJobRun | null;
+  recentRuns: AdminJobRun[];
+  lockedBy: string | null;
+  lockedUntil: string | null;
+}
+
+const JOB_RUN_COLORS: Record<string, { bg: string; color: string }> = {
+  RUNNING: { bg: 'var(--color-blue-muted)',    color: 'var(--color-blue-light)' },
+  SUCCESS: { bg: 'var(--color-success-muted)', color: 'var(--color-success)'    },
+  FAILED:  { bg: 'var(--color-danger-muted)',  color: 'var(--color-danger)'     },
+};
+
+function JobRunBadge({ status }: { status: string }) {
+  const s = JOB_RUN_COLORS[status] ?? { bg: 'var(--color-bg-tertiary)', color: 'var(--color-text-secondary)' };
+  return <span className={styles.badge} style={{ background: s.bg, color: s.color }}>{status}</span>;
+}
+
+function fmtDuration(ms?: number) {
+  if (ms == null) return '—';
+  return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+}
+
+function JobsTab() {
+  const [jobs, setJobs] = useState<AdminJob[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [runningJob, setRunningJob] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+
+  const loadJobs = () =>
+    getJobs().then(result => {
+      if (result.success) setJobs(result.data as AdminJob[]);
+      else setErrorMsg(result.error ?? 'Failed to load jobs');
+      setLoading(false);
+    });
+
+  useEffect(() => {
+    loadJobs();
+  }, []);
+
+  const handleRun = (name: string) => {
+    setErrorMsg(null);
+    setRunningJob(name);
+    startTransition(async () => {
+      const result = await runJobNow(name);
+      if (!result.success) setErrorMsg(result.error ?? 'Run failed');
+      await loadJobs();
+      setRunningJob(null);
+    });
+  };
+
+  return (
+    <div className={styles.tabContent}>
+      <div className={styles.toolbar}>
+        <div className={styles.toolbarLeft}>
+          <span className={styles.toolbarCount}>{jobs.length} scheduled jobs</span>
+        </div>
+        <button className={styles.btnSm} onClick={() => { setLoading(true); loadJobs(); }} disabled={loading || isPending}>
+          Refresh
+        </button>
+      </div>
+
+      {errorMsg && <div className={styles.modalError}>{errorMsg}</div>}
+
+      <div className={styles.tableWrap}>
+        <table className={styles.table}>
+          <thead>
+            <tr>
+              <th>Job</th>
+              <th>Schedule</th>
+              <th>Last Run</th>
+              <th>Status</th>
+              <th>Result</th>
+              <th>Last Error</th>
+              <th className={styles.thActions}>Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {loading && jobs.length === 0 ? (
+              <tr><td colSpan={7} className={styles.emptyCell}>Loading…</td></tr>
+            ) : jobs.length === 0 ? (
+              <tr><td colSpan={7} className={styles.emptyCell}>No jobs registered.</td></tr>
+            ) : (
+              jobs.flatMap(job => {
+                const isOpen = expanded === job.name;
+                const rows = [
+                  <tr key={job.name}>
+                    <td>
+                      <button
+                        className={styles.voyageLink}
+                        style={{ background: 'none', border: 'none', padding: 0, cursor: 'pointer' }}
+                        onClick={() => setExpanded(isOpen ? null : job.name)}
+                        title={job.description}
+                      >
+                        {isOpen ? '▾' : '▸'} {job.label}
+                      </button>
+                      <div className={styles.cellSecondary} style={{ fontSize: 'var(--text-xs)' }}>{job.description}</div>
+                    </td>
+                    <td className={styles.cellSecondary}>
+                      {job.scheduleLabel}
+                      <div className={styles.cellMono} style={{ fontSize: 'var(--text-xs)' }}>{job.schedule} · {job.timezone}</div>
+                    </td>
+                    <td className={styles.cellMono}>
+                      {job.lastRun ? fmtDateTime(job.lastRun.startedAt) : 'Never'}
+                      {job.lastRun && (
+                        <div className={styles.cellSecondary} style={{ fontSize: 'var(--text-xs)' }}>
+                          {job.lastRun.trigger === 'MANUAL' ? `manual · ${job.lastRun.triggeredBy ?? ''}` : 'scheduled'}
+                        </div>
+                      )}
+                    </td>
+                    <td>
+                      {job.lockedBy
+                        ? <JobRunBadge status="RUNNING" />
+                        : job.lastRun ? <JobRunBadge status={job.lastRun.status} /> : '—'}
+                    </td>
+                    <td className={styles.cellSecondary}>{job.lastRun?.summary ?? '—'}</td>
+                    <td className={styles.cellSecondary}>
+                      {job.lastError ? (
+                        <>
+                          <span style={{ color: 'var(--color-danger)' }}>{job.lastError.error}</span>
+                          <div className={styles.cellMono} style={{ fontSize: 'var(--text-xs)' }}>{fmtDateTime(job.lastError.startedAt)}</div>
+                        </>
+                      ) : '—'}
+                    </td>
+                    <td className={styles.cellActions}>
+                      <button
+                        className={styles.btnPrimary}
+                        onClick={() => handleRun(job.name)}
+                        disabled={isPending || !!job.lockedBy}
+                        title={job.lockedBy ? `Running on ${job.lockedBy}` : undefined}
+                      >
+                        {runningJob === job.name ? 'Running…' : 'Run now'}
+                      </button>
+                    </td>
+                  </tr>,
+                ];
+                if (isOpen) {
+                  rows.push(
+                    <tr key={`${job.name}-history`}>
+                      <td colSpan={7}>
+                        {job.recentRuns.length === 0 ? (
+                          <span className={styles.cellSecondary}>No runs recorded yet.</span>
+                        ) : (
+                          <table className={styles.table}>
+                            <thead>
+                              <tr>
+                                <th>Started</th>
+                                <th>Trigger</th>
+                                <th>Status</th>
+                                <th className={styles.thNum}>Duration</th>
+                                <th>Result</th>
+                                <th>Instance</th>
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {job.recentRuns.map(r => (
+                                <tr key={r._id}>
+                                  <td className={styles.cellMono}>{fmtDateTime(r.startedAt)}</td>
+                                  <td className={styles.cellSecondary}>
+                                    {r.trigger === 'MANUAL' ? `Manual · ${r.triggeredBy ?? ''}` : 'Scheduled'}
+                                  </td>
+                                  <td><JobRunBadge status={r.status} /></td>
+                                  <td className={styles.cellNum}>{fmtDuration(r.durationMs)}</td>
+                                  <td className={styles.cellSecondary} style={r.error ? { color: 'var(--color-danger)' } : undefined}>
+                                    {r.error ?? r.summary ?? '—'}
+                                  </td>
+                                  <td className={styles.cellMono}>{r.instanceId ?? '—'}</td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                }
+                return rows;
+              })
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
 // ---------------------------------------------------------------------------
 // Main component
 // ---------------------------------------------------------------------------
@@ -3908,6 +4236,7 @@ const TABS: { id: Tab; label: string }[] = [
   { id: 'bookings',       label: 'Bookings'       },
   { id: 'customers',      label: 'Customers'      },
   { id: 'cargo-products', label: 'Cargo Products' },
+  { id: 'jobs',           label: 'Scheduled Jobs' },
 ];
 
 interface AdminClientProps {
@@ -3977,6 +4306,7 @@ export default function AdminClient({ voyages, contracts, offices, services, pla
       )}
       {activeTab === 'customers'      && <CustomersTab initialCustomers={customers} />}
       {activeTab === 'cargo-products' && <CargoProductsTab initialProducts={cargoProducts} />}
+      {activeTab === 'jobs'           && <JobsTab />}
     </div>
   );
 }
@@ -5051,24 +5381,251 @@ function AdminCancelModal({
 // Cargo Products Tab
 // ---------------------------------------------------------------------------
 
+// Carriage requirement inputs shared by the create / edit modals (kept as strings while editing)
+interface CarriageDraft {
+  temperature: string;
+  minCarriageTemp: string;
+  maxCarriageTemp: string;
+  humidityMin: string;
+  humidityMax: string;
+  ventilation: string;
+  controlledAtmosphere: boolean;
+  o2Min: string;
+  o2Max: string;
+  co2Min: string;
+  co2Max: string;
+  ethyleneSensitive: boolean;
+  ethyleneProducer: boolean;
+}
+
+function carriageDraftFrom(product?: AdminCargoProduct): CarriageDraft {
+  const t = product?.temperature;
+  return {
+    temperature:       t !== undefined ? String(t) : '',
+    // Legacy products without a range show the ±1 °C the planner applies to them
+    minCarriageTemp:   product?.minCarriageTemp !== undefined ? String(product.minCarriageTemp) : t !== undefined ? String(t - 1) : '',
+    maxCarriageTemp:   product?.maxCarriageTemp !== undefined ? String(product.maxCarriageTemp) : t !== undefined ? String(t + 1) : '',
+    humidityMin:       product?.humidity ? String(product.humidity.min) : '',
+    humidityMax:       product?.humidity ? String(product.humidity.max) : '',
+    ventilation:       product?.ventilation !== undefined ? String(product.ventilation) : '',
+    controlledAtmosphere: product?.atmosphere?.mode === 'CA',
+    o2Min:             product?.atmosphere?.o2 ? String(product.atmosphere.o2.min) : '',
+    o2Max:             product?.atmosphere?.o2 ? String(product.atmosphere.o2.max) : '',
+    co2Min:            product?.atmosphere?.co2 ? String(product.atmosphere.co2.min) : '',
+    co2Max:            product?.atmosphere?.co2 ? String(product.atmosphere.co2.max) : '',
+    ethyleneSensitive: product?.ethyleneSensitive ?? false,
+    ethyleneProducer:  product?.ethyleneProducer ?? false,
+  };
+}
+
+function parseCarriageDraft(d: CarriageDraft): { error: string } | { data: Record<string, unknown> } {
+  const temperature = parseFloat(d.temperature);
+  const min = parseFloat(d.minCarriageTemp);
+  const max = parseFloat(d.maxCarriageTemp);
+  if (isNaN(temperature)) return { error: 'Temperature must be a number' };
+  if (isNaN(min) || isNaN(max)) return { error: 'Min and max carriage temperature are required' };
+  if (min > max) return { error: 'Min carriage temperature must not exceed max' };
+  if (temperature < min || temperature > max) return { error: 'Transport temperature must be inside the carriage range' };
+
+  const data: Record<string, unknown> = {
+    temperature,
+    minCarriageTemp:   min,
+    maxCarriageTemp:   max,
+    ethyleneSensitive: d.ethyleneSensitive,
+    ethyleneProducer:  d.ethyleneProducer,
+  };
+  if (d.humidityMin !== '' || d.humidityMax !== '') {
+    const hMin = parseFloat(d.humidityMin);
+    const hMax = parseFloat(d.humidityMax);
+    if (isNaN(hMin) || isNaN(hMax)) return { error: 'Enter both humidity min and max, or leave both empty' };
+    data.humidity = { min: hMin, max: hMax };
+  }
+  if (d.ventilation !== '') {
+    const vent = parseFloat(d.ventilation);
+    if (isNaN(vent) || vent < 0) return { error: 'Ventilation must be a positive number' };
+    data.ventilation = vent;
+  }
+  if (d.controlledAtmosphere) {
+    const [o2Min, o2Max, co2Min, co2Max] = [d.o2Min, d.o2Max, d.co2Min, d.co2Max].map(parseFloat);
+    if ([o2Min, o2Max, co2Min, co2Max].some(isNaN)) return { error: 'Controlled atmosphere requires O2 and CO2 min / max' };
+    if (o2Min > o2Max || co2Min > co2Max) return { error: 'O2 / CO2 min must not exceed max' };
+    data.atmosphere = { mode: 'CA', o2: { min: o2Min, max: o2Max }, co2: { min: co2Min, max: co2Max } };
+  } else {
+    data.atmosphere = { mode: 'REGULAR' };
+  }
+  return { data };
+}
+
+function CarriageFields({ draft, onChange }: {
+  draft: CarriageDraft;
+  onChange: (d: CarriageDraft) => void;
+}) {
+  const set = (field: keyof CarriageDraft) => (e: React.ChangeEvent<HTMLInputElement>) =>
+    onChange({ ...draft, [field]: e.target.type === 'checkbox' ? e.target.checked : e.target.value });
+
+  return (
+    <>
+      <div className={styles.formGroup}>
+        <label className={styles.formLabel}>Transport Temperature (°C) *</label>
+        <input className={styles.formInput} type="number" step="0.5" value={draft.temperature} onChange={set('temperature')} />
+      </div>
+      <div className={styles.formGroup}>
+        <label className={styles.formLabel}>Carriage Range (°C) * min / max</label>
+        <div style={{ display: 'flex', gap: '0.5rem' }}>
+          <input className={styles.formInput} type="number" step="0.5" value={draft.minCarriageTemp} onChange={set('minCarriageTemp')} placeholder="min" />
+          <input className={styles.formInput} type="number" step="0.5" value={draft.maxCarriageTemp} onChange={set('maxCarriageTemp')} placeholder="max" />
+        </div>
+      </div>
+      <div className={styles.formGroup}>
+        <label className={styles.formLabel}>Humidity (% RH) min / max</label>
+        <div style={{ display: 'flex', gap: '0.5rem' }}>
+          <input className={styles.formInput} type="number" step="1" min={0} max={100} value={draft.humidityMin} onChange={set('humidityMin')} placeholder="min" />
+          <input className={styles.formInput} type="number" step="1" min={0} max={100} value={draft.humidityMax} onChange={set('humidityMax')} placeholder="max" />
+        </div>
+      </div>
+      <div className={styles.formGroup}>
+        <label className={styles.formLabel}>Ventilation (air changes/h, 0 = closed)</label>
+        <input className={styles.formInput} type="number" step="0.5" min={0} value={draft.ventilation} onChange={set('ventilation')} />
+      </div>
+      <div className={styles.formGroupFull}>
+        <label className={styles.formLabel}>
+          <input type="checkbox" checked={draft.controlledAtmosphere} onChange={set('controlledAtmosphere')} style={{ marginRight: 6 }} />
+          Controlled atmosphere (CA)
+        </label>
+      </div>
+      {draft.controlledAtmosphere && (
+        <>
+          <div className={styles.formGroup}>
+            <label className={styles.formLabel}>O2 (%) * min / max</label>
+            <div style={{ display: 'flex', gap: '0.5rem' }}>
+              <input className={styles.formInput} type="number" step="0.5" min={0} max={21} value={draft.o2Min} onChange={set('o2Min')} placeholder="min" />
+              <input className={styles.formInput} type="number" step="0.5" min={0} max={21} value={draft.o2Max} onChange={set('o2Max')} placeholder="max" />
+            </div>
+          </div>
+          <div className={styles.formGroup}>
+            <label className={styles.formLabel}>CO2 (%) * min / max</label>
+            <div style={{ display: 'flex', gap: '0.5rem' }}>
+              <input className={styles.formInput} type="number" step="0.5" min={0} max={21} value={draft.co2Min} onChange={set('co2Min')} placeholder="min" />
+              <input className={styles.formInput} type="number" step="0.5" min={0} max={21} value={draft.co2Max} onChange={set('co2Max')} placeholder="max" />
+            </div>
+          </div>
+        </>
+      )}
+      <div className={styles.formGroupFull}>
+        <label className={styles.formLabel}>
+          <input type="checkbox" checked={draft.ethyleneSensitive} onChange={set('ethyleneSensitive')} style={{ marginRight: 6 }} />
+          Ethylene sensitive
+        </label>
+        <label className={styles.formLabel}>
+          <input type="checkbox" checked={draft.ethyleneProducer} onChange={set('ethyleneProducer')} style={{ marginRight: 6 }} />
+          Ethylene producer
+        </label>
+      </div>
+    </>
+  );
+}
+
+function CreateCargoProductModal({ onClose, onCreated }: {
+  onClose: () => void;
+  onCreated: (p: AdminCargoProduct) => void;
+}) {
+  const [code, setCode]             = useState('');
+  const [name, setName]             = useState('');
+  const [shortLabel, setShortLabel] = useState('');
+  const [groupId, setGroupId]       = useState('');
+  const [groups, setGroups]         = useState<{ _id: string; groupCode: string; groupName: string }[]>([]);
+  const [carriage, setCarriage]     = useState<CarriageDraft>(carriageDraftFrom());
+  const [isPending, startTransition] = useTransition();
+  const [error, setError]           = useState<string | null>(null);
+
+  useEffect(() => {
+    getCompatibilityGroups().then(r => {
+      if (r.success) setGroups(r.data);
+    });
+  }, []);
+
+  const handleSubmit = () => {
+    if (!code.trim() || !name.trim() || !shortLabel.trim() || !groupId) {
+      setError('Code, Name, Short Label and Compatibility Group are required');
+      return;
+    }
+    const parsed = parseCarriageDraft(carriage);
+    if ('error' in parsed) { setError(parsed.error); return; }
+    setError(null);
+    startTransition(async () => {
+      const result = await createCargoProduct({
+        code: code.trim().toUpperCase(),
+        name: name.trim(),
+        shortLabel: shortLabel.trim().toUpperCase(),
+        compatibilityGroupId: groupId,
+        ...parsed.data,
+      });
+      if (result.success) {
+        onCreated(result.data as AdminCargoProduct);
+      } else {
+        setError(result.error ?? 'Failed to create cargo product');
+      }
+    });
+  };
+
+  return (
+    <div className={styles.overlay}>
+      <div className={styles.modal}>
+        <h3 className={styles.modalTitle}>New Cargo Product</h3>
+        <div className={styles.formGrid}>
+          <div className={styles.formGroup}>
+            <label className={styles.formLabel}>Code * (unique)</label>
+            <input className={`${styles.formInput} ${styles.formInputMono}`} value={code} onChange={e => setCode(e.target.value.toUpperCase())} placeholder="LIME" maxLength={50} />
+          </div>
+          <div className={styles.formGroup}>
+            <label className={styles.formLabel}>Short Label * (max 4)</label>
+            <input className={`${styles.formInput} ${styles.formInputMono}`} value={shortLabel} onChange={e => setShortLabel(e.target.value.toUpperCase())} placeholder="LIME" maxLength={4} />
+          </div>
+          <div className={styles.formGroupFull}>
+            <label className={styles.formLabel}>Name *</label>
+            <input className={styles.formInput} value={name} onChange={e => setName(e.target.value)} placeholder="Limes" maxLength={200} />
+          </div>
+          <div className={styles.formGroupFull}>
+            <label className={styles.formLabel}>Compatibility Group *</label>
+            <select className={styles.formInput} value={groupId} onChange={e => setGroupId(e.target.value)}>
+              <option value="">Select group…</option>
+              {groups.map(g => (
+                <option key={g._id} value={g._id}>{g.groupCode} — {g.groupName}</option>
+              ))}
+            </select>
+          </div>
+          <CarriageFields draft={carriage} onChange={setCarriage} />
+        </div>
+        {error && <div className={styles.modalError}>{error}</div>}
+        <div className={styles.modalActions}>
+          <button className={styles.btnModalCancel} onClick={onClose} disabled={isPending}>Cancel</button>
+          <button className={styles.btnPrimary} onClick={handleSubmit} disabled={isPending || !code.trim() || !name.trim() || !groupId}>
+            {isPending ? 'Creating…' : 'Create Product'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
 function EditCargoProductModal({ product, onClose, onUpdated }: {
   product: AdminCargoProduct;
   onClose: () => void;
   onUpdated: (p: AdminCargoProduct) => void;
 }) {
   const [name, setName]           = useState(product.name);
-  const [temperature, setTemp]    = useState(String(product.temperature));
+  const [carriage, setCarriage]   = useState<CarriageDraft>(carriageDraftFrom(product));
   const [active, setActive]       = useState(product.active);
   const [isPending, startTransition] = useTransition();
   const [error, setError]         = useState<string | null>(null);
 
   const handleSave = () => {
-    const tempNum = parseFloat(temperature);
     if (!name.trim()) { setError('Name is required'); return; }
-    if (isNaN(tempNum)) { setError('Temperature must be a number'); return; }
+    const parsed = parseCarriageDraft(carriage);
+    if ('error' in parsed) { setError(parsed.error); return; }
     setError(null);
     startTransition(async () => {
-      const result = await updateCargoProduct(product._id, { name: name.trim(), temperature: tempNum, active });
+      const result = await updateCargoProduct(product._id, { name: name.trim(), ...parsed.data, active });
       if (result.success) {
         onUpdated(result.data as AdminCargoProduct);
       } else {
@@ -5091,16 +5648,7 @@ function EditCargoProductModal({ product, onClose, onUpdated }: {
               maxLength={200}
             />
           </div>
-          <div className={styles.formGroup}>
-            <label className={styles.formLabel}>Transport Temperature (°C) *</label>
-            <input
-              className={styles.formInput}
-              type="number"
-              step="0.5"
-              value={temperature}
-              onChange={e => setTemp(e.target.value)}
-            />
-          </div>
+          <CarriageFields draft={carriage} onChange={setCarriage} />
           <div className={styles.formGroup}>
             <label className={styles.formLabel}>Status</label>
             <select className={styles.formInput} value={active ? 'true' : 'false'} onChange={e => setActive(e.target.value === 'true')}>
@@ -5125,6 +5673,7 @@ function CargoProductsTab({ initialProducts }: { initialProducts: AdminCargoProd
   const router = useRouter();
   const [products, setProducts]       = useState<AdminCargoProduct[]>(initialProducts);
   const [editing, setEditing]         = useState<AdminCargoProduct | null>(null);
+  const [showCreate, setShowCreate]   = useState(false);
   const [showInactive, setShowInactive] = useState(false);
 
   const filtered = showInactive ? products : products.filter(p => p.active);
@@ -5141,6 +5690,7 @@ function CargoProductsTab({ initialProducts }: { initialProducts: AdminCargoProd
             <input type="checkbox" checked={showInactive} onChange={e => setShowInactive(e.target.checked)} />
             Show inactive
           </label>
+          <button className={styles.btnPrimary} onClick={() => setShowCreate(true)}>+ New Product</button>
         </div>
       </div>
 
@@ -5152,6 +5702,10 @@ function CargoProductsTab({ initialProducts }: { initialProducts: AdminCargoProd
               <th className={styles.th}>Name</th>
               <th className={styles.th}>Short Label</th>
               <th className={styles.th} style={{ textAlign: 'right' }}>Temp (°C)</th>
+              <th className={styles.th} style={{ textAlign: 'right' }}>Carriage (°C)</th>
+              <th className={styles.th}>Humidity / Vent.</th>
+              <th className={styles.th}>Atmosphere</th>
+              <th className={styles.th}>Ethylene</th>
               <th className={styles.th}>Status</th>
               <th className={styles.th}></th>
             </tr>
@@ -5163,6 +5717,24 @@ function CargoProductsTab({ initialProducts }: { initialProducts: AdminCargoProd
                 <td>{p.name}</td>
                 <td className={styles.cellMono}>{p.shortLabel}</td>
                 <td className={styles.cellNum}>{p.temperature >= 0 ? `+${p.temperature}` : p.temperature}°C</td>
+                <td className={styles.cellNum}>
+                  {p.minCarriageTemp !== undefined && p.maxCarriageTemp !== undefined
+                    ? `${p.minCarriageTemp} … ${p.maxCarriageTemp}`
+                    : <span title="No range set — planned at ±1 °C around the transport temperature">±1</span>}
+                </td>
+                <td>
+                  {p.humidity ? `${p.humidity.min}–${p.humidity.max}%` : '—'}
+                  {' / '}
+                  {p.ventilation !== undefined ? (p.ventilation === 0 ? 'closed' : `${p.ventilation}/h`) : '—'}
+                </td>
+                <td>
+                  {p.atmosphere?.mode === 'CA'
+                    ? `CA O2 ${p.atmosphere.o2?.min}–${p.atmosphere.o2?.max}% / CO2 ${p.atmosphere.co2?.min}–${p.atmosphere.co2?.max}%`
+                    : 'Regular'}
+                </td>
+                <td>
+                  {[p.ethyleneProducer && 'producer', p.ethyleneSensitive && 'sensitive'].filter(Boolean).join(', ') || '—'}
+                </td>
                 <td>
                   <span className={styles.badge} style={{
                     background: p.active ? 'var(--color-success-muted)' : 'var(--color-bg-tertiary)',
@@ -5187,6 +5759,17 @@ function CargoProductsTab({ initialProducts }: { initialProducts: AdminCargoProd
         </table>
       </div>
 
+      {showCreate && (
+        <CreateCargoProductModal
+          onClose={() => setShowCreate(false)}
+          onCreated={created => {
+            setProducts(prev => [...prev, created].sort((a, b) => a.code.localeCompare(b.code)));
+            setShowCreate(false);
+            router.refresh();
+          }}
+        />
+      )}
+
       {editing && (
         <EditCargoProductModal
           product={editing}
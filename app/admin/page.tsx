@@ -16,7 +16,7 @@ import type { DisplayContract } from '@/app/contracts/ContractsClient';
 
 export const metadata = { title: 'Admin — Reefer Planner' };
 
-const VALID_TABS = ['voyages','contracts','plans','vessels','services','users','ports','shippers','offices','bookings','customers','cargo-products'];
+const VALID_TABS = ['voyages','contracts','plans','vessels','services','users','ports','shippers','offices','bookings','customers','cargo-products','jobs'];
 
 const ARCHIVED_STATUSES = ['CANCELLED', 'REJECTED'];
 
@@ -59,6 +59,13 @@ export default async function AdminPage({ searchParams }: { searchParams: Promis
     name:        p.name,
     shortLabel:  p.shortLabel,
     temperature: p.temperature,
+    minCarriageTemp:   p.minCarriageTemp,
+    maxCarriageTemp:   p.maxCarriageTemp,
+    humidity:          p.humidity,
+    ventilation:       p.ventilation,
+    atmosphere:        p.atmosphere,
+    ethyleneSensitive: p.ethyleneSensitive ?? false,
+    ethyleneProducer:  p.ethyleneProducer ?? false,
     active:      p.active,
   })) : [];
 
@@ -0,0 +1,99 @@
+// app/api/stowage-plans/[id]/live/route.ts
+// Server-Sent Events stream for the live plan monitor. Sends a `snapshot`
+// event on connect and again whenever the plan is saved; the browser's
+// EventSource reconnects by itself if the stream drops.
+
+import { auth } from '@/auth';
+import { loadLivePlanSnapshot, loadLivePlanToken } from '@/lib/live-plan';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// How often the plan's change token is checked, and how often a comment is
+// sent so proxies do not close an idle stream
+const CHECK_INTERVAL_MS = 5_000;
+const KEEPALIVE_MS = 25_000;
+
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  const session = await auth();
+  if (!session?.user) return new Response('Unauthorized', { status: 401 });
+  if ((session.user as any).role === 'EXPORTER') return new Response('Forbidden', { status: 403 });
+
+  const { id } = await params;
+  if (!/^[a-f\d]{24}$/i.test(id)) return new Response('Invalid plan id', { status: 400 });
+
+  const role = (session.user as any).role as string;
+  const serviceFilter: string[] = ['ADMIN', 'SUPERUSER'].includes(role)
+    ? []
+    : (session.user as any).serviceFilter ?? [];
+
+  const initial = await loadLivePlanSnapshot(id, serviceFilter);
+  if (!initial) return new Response('Plan not found', { status: 404 });
+
+  const encoder = new TextEncoder();
+  let checkTimer: ReturnType<typeof setInterval> | undefined;
+  let keepaliveTimer: ReturnType<typeof setInterval> | undefined;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+      let token = initial.token;
+      let checking = false;
+
+      const send = (chunk: string) => {
+        if (!closed) controller.enqueue(encoder.encode(chunk));
+      };
+      const sendEvent = (event: string, data: unknown) =>
+        send(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(checkTimer);
+        clearInterval(keepaliveTimer);
+        try { controller.close(); } catch { /* already closed by the client */ }
+      };
+
+      sendEvent('snapshot', initial);
+
+      checkTimer = setInterval(async () => {
+        if (checking || closed) return;
+        checking = true;
+        try {
+          const latest = await loadLivePlanToken(id);
+          if (latest === null) {
+            sendEvent('removed', { planId: id });
+            close();
+          } else if (latest !== token) {
+            const snapshot = await loadLivePlanSnapshot(id, serviceFilter);
+            if (snapshot) {
+              token = snapshot.token;
+              sendEvent('snapshot', snapshot);
+            }
+          }
+        } catch (error) {
+          console.error('Error refreshing live plan stream:', error);
+        } finally {
+          checking = false;
+        }
+      }, CHECK_INTERVAL_MS);
+
+      keepaliveTimer = setInterval(() => send(': keepalive\n\n'), KEEPALIVE_MS);
+
+      req.signal.addEventListener('abort', close);
+    },
+    cancel() {
+      clearInterval(checkTimer);
+      clearInterval(keepaliveTimer);
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
@@ -0,0 +1,63 @@
+// app/api/stowage-plans/[id]/loading-sequence/route.ts
+// Loading-sequence PDF (StowagePlan.generatedDocuments.loadingSequencePDF),
+// rendered from the sequence stored on the plan. ?port=<UN/LOCODE> limits it
+// to one LOAD port.
+
+import { auth } from '@/auth';
+import connectDB from '@/lib/db/connect';
+import { StowagePlanModel } from '@/lib/db/schemas';
+import { generateLoadingSequencePdf } from '@/lib/generate-loading-sequence-pdf';
+
+export const runtime = 'nodejs';
+
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  const session = await auth();
+  if (!session?.user) return new Response('Unauthorized', { status: 401 });
+  if ((session.user as any).role === 'EXPORTER') return new Response('Forbidden', { status: 403 });
+
+  const { id } = await params;
+  if (!/^[a-f\d]{24}$/i.test(id)) return new Response('Invalid plan id', { status: 400 });
+  const portCode = new URL(req.url).searchParams.get('port');
+
+  const role = (session.user as any).role as string;
+  const serviceFilter: string[] = ['ADMIN', 'SUPERUSER'].includes(role)
+    ? []
+    : (session.user as any).serviceFilter ?? [];
+
+  try {
+    await connectDB();
+    const plan = await StowagePlanModel.findById(id)
+      .select('planNumber voyageId voyageNumber vesselName loadingSequence')
+      .populate('voyageId', 'serviceCode')
+      .lean() as any;
+    if (!plan) return new Response('Plan not found', { status: 404 });
+    const serviceCode = plan.voyageId?.serviceCode ?? '';
+    if (serviceFilter.length > 0 && serviceCode && !serviceFilter.includes(serviceCode)) {
+      return new Response('Forbidden', { status: 403 });
+    }
+    if (!plan.loadingSequence?.generatedAt) return new Response('No loading sequence generated', { status: 404 });
+
+    const ports = (plan.loadingSequence.ports ?? []).filter((p: any) => !portCode || p.portCode === portCode);
+    if (ports.length === 0) return new Response(`Port ${portCode} has no loading sequence`, { status: 404 });
+
+    const pdf = await generateLoadingSequencePdf({
+      planNumber: plan.planNumber,
+      vesselName: plan.vesselName ?? '',
+      voyageNumber: plan.voyageNumber ?? '',
+      generatedAt: plan.loadingSequence.generatedAt,
+      ports,
+    });
+
+    const filename = `${plan.planNumber}-loading-sequence${portCode ? `-${portCode}` : ''}.pdf`;
+    return new Response(new Uint8Array(pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error generating loading sequence PDF:', error);
+    return new Response('Failed to generate PDF', { status: 500 });
+  }
+}
@@ -1,13 +1,14 @@
 'use client';
 
-import { useState, useMemo, useTransition } from 'react';
+import { useState, useMemo, useEffect, useTransition } from 'react';
 import { useRouter } from 'next/navigation';
 import { useSession } from 'next-auth/react';
 import styles from './page.module.css';
-import { createBookingFromContract, approveBooking, rejectBooking, updateBookingQuantity, resolveStandby } from '@/app/actions/booking';
+import { createBookingFromContract, approveBooking, getBookingCapacity, rejectBooking, updateBookingQuantity, resolveStandby } from '@/app/actions/booking';
 import ContractSelect from '@/components/ui/ContractSelect';
 import type { ContractSelectItem } from '@/components/ui/ContractSelect';
 import type { CargoType } from '@/types/models';
+import type { BookingCapacityCheck } from '@/lib/capacity-availability';
 import { CARGO_WEIGHT_PER_UNIT } from '@/types/models';
 
 // ---------------------------------------------------------------------------
@@ -82,6 +83,7 @@ export interface DisplayBooking {
   estimateSource: string;
   serviceCode: string;
   weeklyEstimate?: number;
+  standbyOffer?: { pallets: number; freedByBookingNumber: string };
 }
 
 interface CounterpartyInfo {
@@ -194,6 +196,7 @@ export default function BookingsClient({
   const [resolveStandbyTarget, setResolveStandbyTarget] = useState<{
     booking: DisplayBooking;
     action: 'CONFIRM' | 'REJECT';
+    quantity?: number;
   } | null>(null);
 
   const filtered = useMemo(() => {
@@ -451,6 +454,18 @@ export default function BookingsClient({
                         )}
                         {(b.status === 'STANDBY' || b.status === 'PARTIAL') && (b.standbyQuantity ?? 0) > 0 && (
                           <>
+                            {b.standbyOffer && (
+                              <button
+                                className={styles.btnStandbyConfirm}
+                                onClick={() => setResolveStandbyTarget({ booking: b, action: 'CONFIRM', quantity: b.standbyOffer!.pallets })}
+                                disabled={isDemo}
+                                title={isDemo
+                                  ? 'Not available in demo mode'
+                                  : `${b.standbyOffer.pallets} pallets freed by ${b.standbyOffer.freedByBookingNumber}`}
+                              >
+                                Promote {b.standbyOffer.pallets}
+                              </button>
+                            )}
                             <button
                               className={styles.btnStandbyConfirm}
                               onClick={() => setResolveStandbyTarget({ booking: b, action: 'CONFIRM' })}
@@ -519,6 +534,7 @@ export default function BookingsClient({
         <StandbyResolveModal
           booking={resolveStandbyTarget.booking}
           action={resolveStandbyTarget.action}
+          quantity={resolveStandbyTarget.quantity}
           onClose={() => setResolveStandbyTarget(null)}
         />
       )}
@@ -987,7 +1003,8 @@ function CreateBookingModal({
 }
 
 // ---------------------------------------------------------------------------
-// Approve Modal — 3-bucket allocation
+// Approve Modal — 3-bucket allocation, prefilled with the split the capacity
+// check suggests. Confirming beyond the space left needs an override reason.
 // ---------------------------------------------------------------------------
 
 function ApproveModal({
@@ -1003,10 +1020,25 @@ function ApproveModal({
   const [confirmedQty, setConfirmedQty] = useState(requested);
   const [standbyQty,   setStandbyQty]   = useState(0);
   const [rejectedQty,  setRejectedQty]  = useState(0);
+  const [capacity, setCapacity] = useState<BookingCapacityCheck | null>(null);
+  const [overrideReason, setOverrideReason] = useState('');
   const [error, setError] = useState('');
 
+  useEffect(() => {
+    getBookingCapacity(booking._id).then(result => {
+      if (!result.success || !result.data) return;
+      const check = result.data as BookingCapacityCheck;
+      setCapacity(check);
+      setConfirmedQty(check.suggested.confirmed);
+      setStandbyQty(check.suggested.standby);
+      setRejectedQty(check.suggested.rejected);
+    });
+  }, [booking._id]);
+
   const total = confirmedQty + standbyQty + rejectedQty;
   const isBalanced = total === requested;
+  const available = capacity ? Math.max(0, capacity.available) : null;
+  const isOverCapacity = available !== null && confirmedQty > available;
 
   const resultStatus: string = (() => {
     if (!isBalanced)               return '';
@@ -1035,6 +1067,7 @@ function ApproveModal({
           confirmedQuantity: confirmedQty,
           standbyQuantity:   standbyQty,
           rejectedQuantity:  rejectedQty,
+          overrideReason:    isOverCapacity ? overrideReason.trim() : undefined,
         });
         if (!result.success) {
           setError(result.error || 'Failed to approve');
@@ -1069,8 +1102,51 @@ function ApproveModal({
             Requested: <strong>{requested}</strong> pallets — assign all {requested} across the three buckets below.
           </p>
 
+          {capacity && (
+            <div className={styles.capacityBox}>
+              <div className={styles.capacityHeader}>
+                <span>Space left · {capacity.regime.toLowerCase()}</span>
+                <strong>{available} pallets</strong>
+              </div>
+              {capacity.legs.length > 0 && (
+                <table className={styles.capacityTable}>
+                  <thead>
+                    <tr>
+                      <th>Leg</th>
+                      <th>Committed</th>
+                      <th>Reserved</th>
+                      <th>Available</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {capacity.legs.map(leg => (
+                      <tr key={`${leg.fromSeq}-${leg.toSeq}`}>
+                        <td className={styles.cellMono}>{leg.fromPortCode} → {leg.toPortCode}</td>
+                        <td>{leg.committed}</td>
+                        <td>{leg.reserved}</td>
+                        <td className={leg.available === capacity.available ? styles.capacityTight : undefined}>
+                          {leg.available}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          )}
+
           {/* Quick-fill shortcuts */}
           <div className={styles.quickFill}>
+            {capacity && capacity.suggested.confirmed < requested && (
+              <button type="button" className={styles.btnQuickFill}
+                onClick={() => {
+                  setConfirmedQty(capacity.suggested.confirmed);
+                  setStandbyQty(capacity.suggested.standby);
+                  setRejectedQty(capacity.suggested.rejected);
+                }}>
+                Suggested split
+              </button>
+            )}
             <button type="button" className={styles.btnQuickFill}
               onClick={() => { setConfirmedQty(requested); setStandbyQty(0); setRejectedQty(0); }}>
               Confirm all
@@ -1128,14 +1204,31 @@ function ApproveModal({
             {isBalanced && resultStatus && <StatusBadge status={resultStatus} />}
           </div>
 
+          {isOverCapacity && (
+            <div className={styles.formRow}>
+              <div className={styles.approveWarning}>
+                Confirming {confirmedQty} pallets exceeds the {available} available. Give a reason to override.
+              </div>
+              <label className={styles.formLabel}>Override reason</label>
+              <textarea
+                className={styles.formTextarea}
+                rows={2}
+                maxLength={500}
+                placeholder="e.g. agreed with chartering, space freed by a cancelled shipper"
+                value={overrideReason}
+                onChange={(e) => setOverrideReason(e.target.value)}
+              />
+            </div>
+          )}
+
           <div className={styles.modalActions}>
             <button className={styles.btnModalCancel} onClick={onClose}>Cancel</button>
             <button
               className={styles.btnApproveAction}
-              disabled={isPending || !isBalanced}
+              disabled={isPending || !isBalanced || (isOverCapacity && !overrideReason.trim())}
               onClick={handleApprove}
             >
-              {isPending ? 'Approving...' : 'Confirm Approval'}
+              {isPending ? 'Approving...' : isOverCapacity ? 'Override & Approve' : 'Confirm Approval'}
             </button>
           </div>
         </div>
@@ -1321,24 +1414,27 @@ function EditModal({
 function StandbyResolveModal({
   booking,
   action,
+  quantity,
   onClose,
 }: {
   booking: DisplayBooking;
   action: 'CONFIRM' | 'REJECT';
+  quantity?: number;             // part of the standby (a promotion offer); all of it when omitted
   onClose: () => void;
 }) {
   const router = useRouter();
   const [isPending, startTransition] = useTransition();
   const [error, setError] = useState('');
 
-  const standbyQty = booking.standbyQuantity ?? 0;
+  const standbyQty = quantity ?? booking.standbyQuantity ?? 0;
   const isConfirm  = action === 'CONFIRM';
+  const isPartial  = standbyQty < (booking.standbyQuantity ?? 0);
 
   function handleResolve() {
     setError('');
     startTransition(async () => {
       try {
-        const result = await resolveStandby({ bookingId: booking._id, action });
+        const result = await resolveStandby({ bookingId: booking._id, action, quantity });
         if (!result.success) {
           setError(result.error || 'Failed to resolve standby');
           return;
@@ -1370,9 +1466,12 @@ function StandbyResolveModal({
 
         <div className={styles.modalBody}>
           <p style={{ fontSize: 'var(--text-sm)', color: 'var(--color-text-secondary)', margin: 0 }}>
-            {isConfirm
-              ? `Move all ${standbyQty} standby pallets to confirmed?`
-              : `Reject all ${standbyQty} standby pallets?`}
+            {isPartial
+              ? `Move ${standbyQty} of ${booking.standbyQuantity} standby pallets to confirmed? ` +
+                `The space was freed by ${booking.standbyOffer?.freedByBookingNumber ?? 'another booking'}.`
+              : isConfirm
+                ? `Move all ${standbyQty} standby pallets to confirmed?`
+                : `Reject all ${standbyQty} standby pallets?`}
           </p>
           <div className={styles.modalActions}>
             <button className={styles.btnModalCancel} onClick={onClose} disabled={isPending}>
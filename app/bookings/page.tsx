@@ -41,6 +41,7 @@ export default async function BookingsPage({ searchParams }: { searchParams?: Pr
     confirmedQuantity: b.confirmedQuantity || 0,
     standbyQuantity: b.standbyQuantity || 0,
     rejectedQuantity: b.rejectedQuantity || 0,
+    standbyOffer: b.standbyOffer?.pallets > 0 ? b.standbyOffer : undefined,
     polCode: b.polCode || b.pol?.portCode || '—',
     podCode: b.podCode || b.pod?.portCode || '—',
     status: b.status || 'PENDING',
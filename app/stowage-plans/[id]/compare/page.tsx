@@ -0,0 +1,354 @@
+// app/stowage-plans/[id]/compare/page.tsx
+// Plan-vs-plan diff: what changed in this revision against an earlier one of
+// the same voyage (pallets per booking and section, zone temperatures,
+// conflicts, stability). ?base=<planId> picks the revision to compare with.
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import Link from 'next/link';
+import { useParams, useRouter, useSearchParams } from 'next/navigation';
+import AppShell from '@/components/layout/AppShell';
+import VesselProfile from '@/components/vessel/VesselProfile';
+import { compareStowagePlans } from '@/app/actions/stowage-plan';
+import type { PlanDiff, SectionChange, BookingChange } from '@/lib/plan-diff';
+import { buildVesselLayout, type VoyageTempAssignment } from '@/lib/vessel-profile-data';
+import { getPodColor } from '@/lib/constants/pod-colors';
+import styles from './page.module.css';
+
+interface PlanHeader {
+  _id: string;
+  planNumber: string;
+  status: string;
+  createdAt: string;
+}
+
+interface CompareData {
+  target: PlanHeader & {
+    voyageNumber: string;
+    vesselName: string;
+    cargoPositions: any[];
+    coolingSectionStatus: any[];
+  };
+  base: PlanHeader | null;
+  revisions: PlanHeader[];
+  temperatureZones: any[];
+  diff: PlanDiff | null;
+}
+
+const CHANGE_LABEL: Record<BookingChange, string> = {
+  ADDED: 'Added',
+  REMOVED: 'Removed',
+  RESIZED: 'Resized',
+  MOVED: 'Moved',
+  UNCHANGED: 'Unchanged',
+};
+
+function fmtDate(d?: string) {
+  if (!d) return '';
+  return new Date(d).toLocaleString('en-GB', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+}
+
+function fmtTemp(t?: number) {
+  return t == null ? '—' : `${t > 0 ? '+' : ''}${t}°C`;
+}
+
+function fmtNum(n: number | undefined, digits: number) {
+  return n == null ? '—' : n.toFixed(digits);
+}
+
+function signed(n: number) {
+  return n > 0 ? `+${n}` : String(n);
+}
+
+export default function ComparePlansPage() {
+  const params = useParams();
+  const planId = params.id as string;
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const basePlanId = searchParams.get('base') ?? undefined;
+
+  const [data, setData] = useState<CompareData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [showUnchanged, setShowUnchanged] = useState(false);
+
+  useEffect(() => {
+    compareStowagePlans({ targetPlanId: planId, basePlanId }).then(result => {
+      setError(result.success ? null : result.error ?? 'Failed to compare plans');
+      if (result.success) setData(result.data as CompareData);
+    });
+  }, [planId, basePlanId]);
+
+  const layout = useMemo(
+    () => (data && data.temperatureZones.length > 0 ? buildVesselLayout(data.temperatureZones) : undefined),
+    [data],
+  );
+
+  // Target revision drawn on the profile, coloured by dominant POD
+  const tempAssignments = useMemo(() => {
+    if (!data) return [];
+    const tempByZone = new Map<string, number>(
+      data.target.coolingSectionStatus.map((cs: any) => [cs.zoneId, cs.assignedTemperature]),
+    );
+    const result: VoyageTempAssignment[] = [];
+    for (const zone of data.temperatureZones) {
+      for (const section of zone.coolingSections ?? []) {
+        const positions = data.target.cargoPositions.filter((p: any) => p.compartment?.id === section.sectionId);
+        const dominant = positions.reduce<any>((a, b) => (!a || (b.quantity ?? 0) > (a.quantity ?? 0) ? b : a), null);
+        result.push({
+          compartmentId: section.sectionId,
+          zoneId: zone.zoneId,
+          zoneName: zone.zoneId,
+          zoneColor: '#1E3A5F',
+          setTemperature: tempByZone.get(zone.zoneId) ?? 0,
+          cargoType: dominant?.cargoType ?? '',
+          palletsLoaded: positions.reduce((sum: number, p: any) => sum + (p.quantity ?? 0), 0),
+          palletsCapacity: Math.floor((section.sqm ?? 0) / (section.designStowageFactor ?? 1.32)),
+          shipments: positions.map((p: any) => p.bookingNumber ?? '').filter(Boolean),
+          sqm: section.sqm,
+          designStowageFactor: section.designStowageFactor ?? 1.32,
+          podColor: dominant?.podPortCode ? getPodColor(dominant.podPortCode) : undefined,
+          cargoShortLabel: dominant?.cargoType ? dominant.cargoType.replace(/_/g, '').slice(0, 4) : undefined,
+          polPortCodes: [...new Set(positions.map((p: any) => p.polPortCode).filter(Boolean))] as string[],
+        });
+      }
+    }
+    return result;
+  }, [data]);
+
+  const changedCompartments = useMemo(() => {
+    const map: Record<string, SectionChange> = {};
+    for (const s of data?.diff?.sections ?? []) map[s.sectionId] = s.change;
+    return map;
+  }, [data]);
+
+  const diff = data?.diff;
+  const changedBookings = (diff?.bookings ?? []).filter(b => b.change !== 'UNCHANGED');
+  const visibleBookings = showUnchanged ? diff?.bookings ?? [] : changedBookings;
+  const hasChanges = !!diff && (
+    changedBookings.length > 0 || diff.zoneTemps.length > 0 ||
+    diff.conflictsAdded.length > 0 || diff.conflictsResolved.length > 0 || diff.stability.length > 0
+  );
+
+  return (
+    <AppShell
+      activeVessel={data?.target.vesselName}
+      activeVoyage={data?.target.voyageNumber}
+      planInfo={data ? `Compare · ${data.target.planNumber}` : undefined}
+    >
+      <div className={styles.page}>
+        <div className={styles.pageHeader}>
+          <div className={styles.breadcrumb}>
+            <Link href="/stowage-plans">Stowage Plans</Link>
+            <span>/</span>
+            <Link href={`/stowage-plans/${planId}`}>{data?.target.planNumber ?? 'Plan'}</Link>
+            <span>/</span>
+            Compare
+          </div>
+          <h1 className={styles.pageTitle}>What changed</h1>
+        </div>
+
+        {error && <div className={styles.error}>{error}</div>}
+
+        {data && (
+          <div className={styles.selectorRow}>
+            <label className={styles.label}>
+              Compare with
+              <select
+                className={styles.select}
+                value={data.base?._id ?? ''}
+                onChange={e => router.replace(`/stowage-plans/${planId}/compare?base=${e.target.value}`)}
+              >
+                {!data.base && <option value="">— choose a revision —</option>}
+                {data.revisions.map(r => (
+                  <option key={r._id} value={r._id}>
+                    {r.planNumber} · {r.status.replace(/_/g, ' ')} · {fmtDate(r.createdAt)}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <span className={styles.arrow}>→</span>
+            <span className={styles.targetLabel}>
+              {data.target.planNumber} · {data.target.status.replace(/_/g, ' ')} · {fmtDate(data.target.createdAt)}
+            </span>
+          </div>
+        )}
+
+        {data && !diff && (
+          <div className={styles.empty}>
+            {data.revisions.length === 0
+              ? 'This is the only plan for the voyage — nothing to compare with.'
+              : 'No earlier revision of this plan. Choose one above to compare.'}
+          </div>
+        )}
+
+        {diff && (
+          <>
+            <div className={styles.summary}>
+              <span className={styles.chip}>
+                <strong>{diff.totals.palletsBefore} → {diff.totals.palletsAfter}</strong>
+                <span className={styles.chipLabel}>PALLETS</span>
+              </span>
+              <span className={styles.chip}>
+                <strong>{changedBookings.length}</strong>
+                <span className={styles.chipLabel}>BOOKINGS CHANGED</span>
+              </span>
+              <span className={styles.chip}>
+                <strong>{diff.sections.length}</strong>
+                <span className={styles.chipLabel}>SECTIONS CHANGED</span>
+              </span>
+              <span className={styles.chip}>
+                <strong>{diff.zoneTemps.length}</strong>
+                <span className={styles.chipLabel}>ZONE TEMPS</span>
+              </span>
+              <span className={styles.chip}>
+                <strong>+{diff.conflictsAdded.length} / −{diff.conflictsResolved.length}</strong>
+                <span className={styles.chipLabel}>CONFLICTS</span>
+              </span>
+            </div>
+
+            {!hasChanges && <div className={styles.empty}>The two revisions are identical.</div>}
+
+            <div className={styles.card}>
+              <VesselProfile
+                vesselName={data!.target.vesselName}
+                voyageNumber={data!.target.voyageNumber}
+                tempAssignments={tempAssignments}
+                vesselLayout={layout}
+                changedCompartments={changedCompartments}
+              />
+              <div className={styles.legend}>
+                <span><i className={`${styles.swatch} ${styles.swatchAdded}`} /> + cargo added to an empty section</span>
+                <span><i className={`${styles.swatch} ${styles.swatchChanged}`} /> Δ cargo changed</span>
+                <span><i className={`${styles.swatch} ${styles.swatchRemoved}`} /> − section emptied</span>
+              </div>
+            </div>
+
+            <div className={styles.card}>
+              <div className={styles.cardHeader}>
+                <h2 className={styles.cardTitle}>Bookings</h2>
+                <label className={styles.toggle}>
+                  <input type="checkbox" checked={showUnchanged} onChange={e => setShowUnchanged(e.target.checked)} />
+                  Show unchanged
+                </label>
+              </div>
+              {visibleBookings.length === 0 ? (
+                <p className={styles.muted}>No booking moved.</p>
+              ) : (
+                <table className={styles.table}>
+                  <thead>
+                    <tr>
+                      <th>Booking</th>
+                      <th>Cargo</th>
+                      <th>Change</th>
+                      <th className={styles.num}>Before</th>
+                      <th className={styles.num}>After</th>
+                      <th>Sections</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {visibleBookings.map(b => (
+                      <tr key={b.bookingId}>
+                        <td className={styles.mono}>{b.bookingNumber ?? b.bookingId}</td>
+                        <td>{b.cargoType?.replace(/_/g, ' ') ?? '—'}</td>
+                        <td>
+                          <span className={`${styles.badge} ${styles[`badge${b.change}`]}`}>{CHANGE_LABEL[b.change]}</span>
+                        </td>
+                        <td className={styles.num}>{b.palletsBefore}</td>
+                        <td className={styles.num}>{b.palletsAfter}</td>
+                        <td className={styles.mono}>
+                          {b.sections.map(s => `${s.sectionId} ${s.before}→${s.after}`).join(' · ') || '—'}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+
+            <div className={styles.grid}>
+              <div className={styles.card}>
+                <h2 className={styles.cardTitle}>Zone temperatures</h2>
+                {diff.zoneTemps.length === 0 ? (
+                  <p className={styles.muted}>No set point changed.</p>
+                ) : (
+                  <table className={styles.table}>
+                    <thead>
+                      <tr><th>Zone</th><th>Sections</th><th className={styles.num}>Before</th><th className={styles.num}>After</th></tr>
+                    </thead>
+                    <tbody>
+                      {diff.zoneTemps.map(z => (
+                        <tr key={z.zoneId}>
+                          <td className={styles.mono}>{z.zoneId}</td>
+                          <td className={styles.mono}>{z.sectionIds.join(', ')}</td>
+                          <td className={styles.num}>{fmtTemp(z.before)}</td>
+                          <td className={styles.num}>{fmtTemp(z.after)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+
+              <div className={styles.card}>
+                <h2 className={styles.cardTitle}>Conflicts</h2>
+                {diff.conflictsAdded.length === 0 && diff.conflictsResolved.length === 0 ? (
+                  <p className={styles.muted}>Same conflicts in both revisions.</p>
+                ) : (
+                  <ul className={styles.conflictList}>
+                    {diff.conflictsAdded.map((c, i) => (
+                      <li key={`a${i}`} className={styles.conflictNew}>
+                        <strong>New · {c.type.replace(/_/g, ' ')}</strong> {c.message}
+                      </li>
+                    ))}
+                    {diff.conflictsResolved.map((c, i) => (
+                      <li key={`r${i}`} className={styles.conflictResolved}>
+                        <strong>Resolved · {c.type.replace(/_/g, ' ')}</strong> {c.message}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </div>
+
+            <div className={styles.card}>
+              <h2 className={styles.cardTitle}>Stability</h2>
+              {diff.stability.length === 0 ? (
+                <p className={styles.muted}>No stability change at any port.</p>
+              ) : (
+                <table className={styles.table}>
+                  <thead>
+                    <tr>
+                      <th>Port</th>
+                      <th>Status</th>
+                      <th className={styles.num}>Trim index</th>
+                      <th className={styles.num}>List index</th>
+                      <th className={styles.num}>GM (m)</th>
+                      <th className={styles.num}>Trim (m)</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {diff.stability.map(s => (
+                      <tr key={s.portSequence}>
+                        <td className={styles.mono}>{s.portCode || `P${s.portSequence}`}</td>
+                        <td>{s.statusBefore ?? '—'} → {s.statusAfter ?? '—'}</td>
+                        <td className={styles.num}>{fmtNum(s.trimIndexBefore, 3)} → {fmtNum(s.trimIndexAfter, 3)}</td>
+                        <td className={styles.num}>{fmtNum(s.listIndexBefore, 3)} → {fmtNum(s.listIndexAfter, 3)}</td>
+                        <td className={styles.num}>{fmtNum(s.gmBefore, 2)} → {fmtNum(s.gmAfter, 2)}</td>
+                        <td className={styles.num}>{fmtNum(s.trimBefore, 2)} → {fmtNum(s.trimAfter, 2)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+              {diff.totals.palletsAfter !== diff.totals.palletsBefore && (
+                <p className={styles.muted}>
+                  Net pallets {signed(diff.totals.palletsAfter - diff.totals.palletsBefore)}
+                </p>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </AppShell>
+  );
+}
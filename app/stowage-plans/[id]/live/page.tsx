@@ -0,0 +1,182 @@
+// app/stowage-plans/[id]/live/page.tsx
+// Live plan monitor for port-office wall screens during loading: read-only,
+// no app shell, everything sized from the viewport so it reads the same on
+// 1080p and 4K. Updates arrive over Server-Sent Events from
+// /api/stowage-plans/[id]/live whenever the plan is saved.
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { useParams } from 'next/navigation';
+import VesselProfile from '@/components/vessel/VesselProfile';
+import { buildVesselLayout, type VoyageTempAssignment } from '@/lib/vessel-profile-data';
+import type { LivePlanSnapshot } from '@/lib/live-plan';
+import styles from './page.module.css';
+
+type StreamState = 'connecting' | 'live' | 'reconnecting' | 'unavailable' | 'removed';
+
+const STATE_LABEL: Record<StreamState, string> = {
+  connecting: 'Connecting…',
+  live: 'Live',
+  reconnecting: 'Reconnecting…',
+  unavailable: 'Plan not available',
+  removed: 'Plan deleted',
+};
+
+function fmtTemp(t: number | null) {
+  return t == null ? '—' : `${t > 0 ? '+' : ''}${t}°C`;
+}
+
+function fmtTime(d: string | null) {
+  return d ? new Date(d).toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit' }) : '—';
+}
+
+const cargoLabel = (cargoType: string) => cargoType.replace(/_/g, ' ');
+
+export default function LivePlanPage() {
+  const params = useParams();
+  const planId = params.id as string;
+
+  const [snapshot, setSnapshot] = useState<LivePlanSnapshot | null>(null);
+  const [state, setState] = useState<StreamState>('connecting');
+
+  useEffect(() => {
+    const source = new EventSource(`/api/stowage-plans/${planId}/live`);
+    source.addEventListener('open', () => setState('live'));
+    source.addEventListener('snapshot', e => {
+      setSnapshot(JSON.parse((e as MessageEvent).data));
+      setState('live');
+    });
+    source.addEventListener('removed', () => {
+      setState('removed');
+      source.close();
+    });
+    // EventSource retries by itself unless the server refused the stream
+    source.addEventListener('error', () => {
+      setState(source.readyState === EventSource.CLOSED ? 'unavailable' : 'reconnecting');
+    });
+    return () => source.close();
+  }, [planId]);
+
+  const layout = useMemo(
+    () => (snapshot && snapshot.temperatureZones.length > 0 ? buildVesselLayout(snapshot.temperatureZones) : undefined),
+    [snapshot],
+  );
+
+  const tempAssignments = useMemo<VoyageTempAssignment[]>(() =>
+    (snapshot?.sections ?? []).map(s => ({
+      compartmentId: s.sectionId,
+      zoneId: s.zoneId,
+      zoneName: s.zoneId,
+      zoneColor: '#1E3A5F',
+      setTemperature: s.temperature ?? 0,
+      cargoType: s.cargoType,
+      palletsLoaded: s.pallets,
+      palletsCapacity: s.capacity,
+      shipments: [],
+      sqm: s.sqm,
+      designStowageFactor: s.designStowageFactor,
+      podColor: s.podPortCode ? snapshot?.pods.find(p => p.portCode === s.podPortCode)?.color : undefined,
+      cargoShortLabel: s.cargoType ? s.cargoType.replace(/_/g, '').slice(0, 4) : undefined,
+      polPortCodes: s.polPortCodes,
+    })),
+  [snapshot]);
+
+  // Section cards in profile order: hold by hold, top level first
+  const sections = useMemo(() => {
+    if (!snapshot || !layout) return [];
+    const byId = new Map(snapshot.sections.map(s => [s.sectionId, s]));
+    return layout.holds.flatMap(h => h.levels.map(l => byId.get(l.sectionId)!)).filter(Boolean);
+  }, [snapshot, layout]);
+
+  const podColor = (portCode: string) => snapshot?.pods.find(p => p.portCode === portCode)?.color ?? '#64748b';
+
+  return (
+    <div className={styles.page}>
+      <header className={styles.header}>
+        <div className={styles.title}>
+          <span className={styles.vessel}>{snapshot?.vesselName ?? 'Stowage plan'}</span>
+          {snapshot && (
+            <span className={styles.voyage}>
+              {snapshot.voyageNumber} · {snapshot.planNumber} · {snapshot.status.replace(/_/g, ' ')}
+            </span>
+          )}
+        </div>
+        {snapshot && (
+          <div className={styles.totals}>
+            <strong>{snapshot.totalPallets.toLocaleString()}</strong>
+            <span> / {snapshot.totalCapacity.toLocaleString()} pallets</span>
+          </div>
+        )}
+        <div className={styles.status}>
+          <span className={`${styles.dot} ${styles[`dot_${state}`]}`} />
+          <span>{STATE_LABEL[state]}</span>
+          {snapshot && <span className={styles.updated}>Updated {fmtTime(snapshot.updatedAt)}</span>}
+        </div>
+      </header>
+
+      {!snapshot ? (
+        <div className={styles.placeholder}>{STATE_LABEL[state]}</div>
+      ) : (
+        <>
+          <section className={styles.profile}>
+            <VesselProfile
+              vesselName={snapshot.vesselName}
+              voyageNumber={snapshot.voyageNumber}
+              tempAssignments={tempAssignments}
+              vesselLayout={layout}
+              deckStacks={snapshot.deckStacks}
+              deckContainers={snapshot.deckContainers}
+            />
+          </section>
+
+          {snapshot.pods.length > 0 && (
+            <div className={styles.legend}>
+              <span className={styles.legendTitle}>POD</span>
+              {snapshot.pods.map(p => (
+                <span key={p.portCode} className={styles.legendItem}>
+                  <span className={styles.legendSwatch} style={{ background: p.color }} />
+                  <span className={styles.legendPort}>{p.portCode}</span>
+                  <span className={styles.legendPallets}>{p.pallets} plt</span>
+                </span>
+              ))}
+            </div>
+          )}
+
+          <section className={styles.sections}>
+            {sections.map(s => (
+              <article
+                key={s.sectionId}
+                className={`${styles.card} ${s.pallets === 0 ? styles.cardEmpty : ''}`}
+                style={s.podPortCode ? { borderTopColor: podColor(s.podPortCode) } : undefined}
+              >
+                <div className={styles.cardHeader}>
+                  <span className={styles.sectionId}>{s.sectionId}</span>
+                  <span className={styles.temp}>{fmtTemp(s.temperature)}</span>
+                  <span className={styles.fill}>{s.pallets}/{s.capacity}</span>
+                </div>
+                {s.cargo.length === 0 ? (
+                  <div className={styles.noCargo}>Empty</div>
+                ) : (
+                  <ul className={styles.cargoList}>
+                    {s.cargo.map(c => (
+                      <li key={`${c.shipper}|${c.consignee}|${c.cargoType}|${c.podPortCode}`} className={styles.cargoRow}>
+                        <span className={styles.cargoSwatch} style={{ background: podColor(c.podPortCode) }} />
+                        <span className={styles.cargoParties}>
+                          <span className={styles.shipper}>{c.shipper}</span>
+                          <span className={styles.consignee}>
+                            {c.consignee} · {cargoLabel(c.cargoType)}{c.podPortCode && ` → ${c.podPortCode}`}
+                          </span>
+                        </span>
+                        <span className={styles.pallets}>{c.pallets}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </article>
+            ))}
+          </section>
+        </>
+      )}
+    </div>
+  );
+}
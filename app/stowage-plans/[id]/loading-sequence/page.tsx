@@ -0,0 +1,344 @@
+// app/stowage-plans/[id]/loading-sequence/page.tsx
+// Loading sequence per LOAD port: planners set the rate per port and generate
+// the work order, stevedores follow it as a checklist and tick off each step.
+// The same sequence downloads as a PDF for the hatch foremen.
+'use client';
+
+import { useEffect, useState, useTransition } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { useSession } from 'next-auth/react';
+import AppShell from '@/components/layout/AppShell';
+import {
+  getLoadingSequence,
+  generateLoadingSequence,
+  setLoadingStepDone,
+} from '@/app/actions/loading-sequence';
+import type { LoadingRate } from '@/lib/loading-sequence';
+import type { LoadingSequence, PortLoadingSequence } from '@/types/models';
+import styles from './page.module.css';
+
+interface LoadingSequenceData {
+  planNumber: string;
+  status: string;
+  voyageNumber: string;
+  vesselName: string;
+  sequence: LoadingSequence | null;
+  rates: Record<string, LoadingRate>;
+  stale: boolean;
+  pdfUrl: string | null;
+}
+
+// Hours as h:mm (2.5 → "2:30")
+function fmtHours(h: number) {
+  const hours = Math.floor(h);
+  const minutes = Math.round((h - hours) * 60);
+  return `${hours}:${String(minutes).padStart(2, '0')}`;
+}
+
+function fmtDate(d?: Date | string) {
+  if (!d) return '';
+  return new Date(d).toLocaleString('en-GB', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+}
+
+export default function LoadingSequencePage() {
+  const params = useParams();
+  const planId = params.id as string;
+  const { data: session } = useSession();
+  const role = session?.user?.role ?? '';
+  const canGenerate = ['ADMIN', 'SHIPPING_PLANNER'].includes(role);
+  const canTick = ['ADMIN', 'SHIPPING_PLANNER', 'STEVEDORE'].includes(role);
+
+  const [data, setData] = useState<LoadingSequenceData | null>(null);
+  const [rates, setRates] = useState<Record<string, LoadingRate>>({});
+  const [portCode, setPortCode] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [isGenerating, startGenerate] = useTransition();
+
+  useEffect(() => {
+    getLoadingSequence(planId).then(result => {
+      if (!result.success || !result.data) {
+        setError(result.error ?? 'Failed to load loading sequence');
+        return;
+      }
+      const loaded = result.data as LoadingSequenceData;
+      setData(loaded);
+      // Rates of the stored sequence win over the port defaults
+      const initial = { ...loaded.rates };
+      for (const p of loaded.sequence?.ports ?? []) initial[p.portCode] = { palletsPerHour: p.palletsPerHour, gangs: p.gangs };
+      setRates(initial);
+      setPortCode(loaded.sequence?.ports[0]?.portCode ?? null);
+    });
+  }, [planId]);
+
+  const handleGenerate = () => {
+    setError(null);
+    setMessage(null);
+    startGenerate(async () => {
+      const result = await generateLoadingSequence({
+        planId,
+        rates: Object.entries(rates).map(([code, r]) => ({ portCode: code, ...r })),
+      });
+      if (!result.success || !result.data) {
+        setError(result.error ?? 'Failed to generate loading sequence');
+        return;
+      }
+      const sequence = result.data as LoadingSequence;
+      setData(prev => prev && {
+        ...prev,
+        sequence,
+        stale: false,
+        pdfUrl: `/api/stowage-plans/${planId}/loading-sequence`,
+      });
+      if (!sequence.ports.some(p => p.portCode === portCode)) setPortCode(sequence.ports[0]?.portCode ?? null);
+      setMessage(result.message ?? 'Loading sequence generated');
+    });
+  };
+
+  // Optimistic tick; rolled back if the server refuses
+  const updateStep = (code: string, step: number, patch: { doneAt?: string | null; doneBy?: string | null }) =>
+    setData(prev => prev?.sequence ? {
+      ...prev,
+      sequence: {
+        ...prev.sequence,
+        ports: prev.sequence.ports.map(p => p.portCode !== code ? p : {
+          ...p,
+          steps: p.steps.map(s => s.step !== step ? s : {
+            ...s,
+            doneAt: (patch.doneAt ?? undefined) as any,
+            doneBy: patch.doneBy ?? undefined,
+          }),
+        }),
+      },
+    } : prev);
+
+  const handleTick = async (port: PortLoadingSequence, step: number, done: boolean) => {
+    const previous = port.steps.find(s => s.step === step);
+    updateStep(port.portCode, step, done
+      ? { doneAt: new Date().toISOString(), doneBy: session?.user?.name ?? '' }
+      : { doneAt: null, doneBy: null });
+    const result = await setLoadingStepDone({ planId, portCode: port.portCode, step, done });
+    if (result.success && result.data) {
+      updateStep(port.portCode, step, result.data);
+    } else {
+      updateStep(port.portCode, step, {
+        doneAt: previous?.doneAt ? String(previous.doneAt) : null,
+        doneBy: previous?.doneBy ?? null,
+      });
+      setError(result.error ?? 'Failed to update step');
+    }
+  };
+
+  const sequence = data?.sequence ?? null;
+  const port = sequence?.ports.find(p => p.portCode === portCode) ?? null;
+  const doneCount = port?.steps.filter(s => s.doneAt).length ?? 0;
+
+  return (
+    <AppShell
+      activeVessel={data?.vesselName}
+      activeVoyage={data?.voyageNumber}
+      planInfo={data ? `Loading sequence · ${data.planNumber}` : undefined}
+    >
+      <div className={styles.page}>
+        <div className={styles.pageHeader}>
+          <div className={styles.breadcrumb}>
+            <Link href="/stowage-plans">Stowage Plans</Link>
+            <span>/</span>
+            <Link href={`/stowage-plans/${planId}`}>{data?.planNumber ?? 'Plan'}</Link>
+            <span>/</span>
+            Loading sequence
+          </div>
+          <h1 className={styles.pageTitle}>Loading sequence</h1>
+        </div>
+
+        {error && <div className={styles.error}>{error}</div>}
+        {message && <div className={styles.success}>{message}</div>}
+
+        {data && data.stale && (
+          <div className={styles.warning}>
+            The plan was edited after this sequence was generated
+            {canGenerate ? ' — regenerate it before loading starts.' : '.'}
+          </div>
+        )}
+
+        {data && canGenerate && (
+          <div className={styles.card}>
+            <h2 className={styles.cardTitle}>Loading rates</h2>
+            {Object.keys(rates).length === 0 ? (
+              <p className={styles.muted}>The voyage has no LOAD port calls.</p>
+            ) : (
+              <table className={styles.table}>
+                <thead>
+                  <tr>
+                    <th>Port</th>
+                    <th className={styles.num}>Pallets / hour / gang</th>
+                    <th className={styles.num}>Gangs</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {Object.entries(rates).map(([code, r]) => (
+                    <tr key={code}>
+                      <td className={styles.mono}>{code}</td>
+                      <td className={styles.num}>
+                        <input
+                          className={styles.input}
+                          type="number"
+                          min={1}
+                          value={r.palletsPerHour}
+                          onChange={e => setRates(prev => ({ ...prev, [code]: { ...r, palletsPerHour: Number(e.target.value) || 0 } }))}
+                          disabled={isGenerating}
+                        />
+                      </td>
+                      <td className={styles.num}>
+                        <input
+                          className={styles.input}
+                          type="number"
+                          min={1}
+                          max={10}
+                          value={r.gangs}
+                          onChange={e => setRates(prev => ({ ...prev, [code]: { ...r, gangs: parseInt(e.target.value, 10) || 0 } }))}
+                          disabled={isGenerating}
+                        />
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+            <div className={styles.actions}>
+              <span className={styles.muted}>
+                Defaults come from the port master. Changes here apply to this sequence only.
+              </span>
+              <button
+                className={styles.btnPrimary}
+                onClick={handleGenerate}
+                disabled={isGenerating || Object.keys(rates).length === 0}
+              >
+                {isGenerating ? 'Generating…' : sequence ? 'Regenerate sequence' : 'Generate sequence'}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {data && !sequence && (
+          <div className={styles.empty}>
+            {canGenerate
+              ? 'No loading sequence yet. Check the rates above and generate one.'
+              : 'No loading sequence has been generated for this plan yet.'}
+          </div>
+        )}
+
+        {sequence && (
+          <>
+            <div className={styles.tabs}>
+              {sequence.ports.map(p => (
+                <button
+                  key={p.portCode}
+                  className={p.portCode === portCode ? styles.tabActive : styles.tab}
+                  onClick={() => setPortCode(p.portCode)}
+                >
+                  {p.portCode} · {p.portName}
+                </button>
+              ))}
+              <span className={styles.generated}>
+                Generated {fmtDate(sequence.generatedAt)} by {sequence.generatedBy}
+              </span>
+              {data?.pdfUrl && (
+                <a className={styles.btnSecondary} href={data.pdfUrl}>Download PDF (all ports)</a>
+              )}
+            </div>
+
+            {port && (
+              <>
+                <div className={styles.summary}>
+                  <span className={styles.chip}>
+                    <strong>{port.totalPallets}</strong>
+                    <span className={styles.chipLabel}>PALLETS</span>
+                  </span>
+                  <span className={styles.chip}>
+                    <strong>{port.gangs} × {port.palletsPerHour}/h</strong>
+                    <span className={styles.chipLabel}>GANGS × RATE</span>
+                  </span>
+                  <span className={styles.chip}>
+                    <strong>{fmtHours(port.totalHours)} h</strong>
+                    <span className={styles.chipLabel}>ESTIMATED</span>
+                  </span>
+                  <span className={styles.chip}>
+                    <strong>{doneCount} / {port.steps.length}</strong>
+                    <span className={styles.chipLabel}>STEPS DONE</span>
+                  </span>
+                  {data?.pdfUrl && (
+                    <a className={styles.btnSecondary} href={`${data.pdfUrl}?port=${port.portCode}`}>
+                      Download {port.portCode} PDF
+                    </a>
+                  )}
+                </div>
+
+                {port.warnings.length > 0 && (
+                  <ul className={styles.warningList}>
+                    {port.warnings.map(w => <li key={w}>{w}</li>)}
+                  </ul>
+                )}
+
+                <div className={styles.card}>
+                  <table className={styles.table}>
+                    <thead>
+                      <tr>
+                        <th />
+                        <th className={styles.num}>Step</th>
+                        <th className={styles.num}>Gang</th>
+                        <th>Section</th>
+                        <th className={styles.num}>Start</th>
+                        <th className={styles.num}>Duration</th>
+                        <th className={styles.num}>Pallets</th>
+                        <th>Bookings</th>
+                        <th>Done</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {port.steps.map(s => (
+                        <tr key={s.step} className={s.doneAt ? styles.rowDone : undefined}>
+                          <td>
+                            <input
+                              type="checkbox"
+                              className={styles.tick}
+                              checked={!!s.doneAt}
+                              onChange={e => handleTick(port, s.step, e.target.checked)}
+                              disabled={!canTick}
+                              aria-label={`Step ${s.step} done`}
+                            />
+                          </td>
+                          <td className={styles.num}><strong>{s.step}</strong></td>
+                          <td className={styles.num}>{s.gang}</td>
+                          <td className={styles.mono}><strong>{s.sectionId}</strong></td>
+                          <td className={styles.num}>+{fmtHours(s.startHours)}</td>
+                          <td className={styles.num}>{fmtHours(s.durationHours)} h</td>
+                          <td className={styles.num}>{s.pallets}</td>
+                          <td>
+                            {s.bookings.map(b => (
+                              <div key={b.bookingId} className={styles.booking}>
+                                <span className={styles.mono}>{b.bookingNumber ?? b.bookingId}</span>
+                                <span>{b.shipperName ?? '—'} → {b.consigneeName ?? '—'}</span>
+                                <span className={styles.muted}>
+                                  {b.cargoType.replace(/_/g, ' ')}{b.podPortCode && ` · ${b.podPortCode}`} · {b.pallets} plt
+                                </span>
+                              </div>
+                            ))}
+                          </td>
+                          <td className={styles.muted}>
+                            {s.doneAt ? `${fmtDate(s.doneAt)}${s.doneBy ? ` · ${s.doneBy}` : ''}` : ''}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </>
+            )}
+          </>
+        )}
+      </div>
+    </AppShell>
+  );
+}
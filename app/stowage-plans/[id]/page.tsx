@@ -1,21 +1,43 @@
 // app/stowage-plans/[id]/page.tsx
 'use client';
 
-import { useState, useMemo, useEffect, useRef, useTransition } from 'react';
+import { useState, useMemo, useEffect, useRef, useTransition, type ChangeEvent } from 'react';
 import { useRouter } from 'next/navigation';
 import { useParams } from 'next/navigation';
 import { useSession } from 'next-auth/react';
 import AppShell from '@/components/layout/AppShell';
 import VesselProfile from '@/components/vessel/VesselProfile';
-import { getStowagePlanById, deleteStowagePlan, saveCargoAssignments, updatePlanStatus, copyStowagePlan, replanAfterTemperatureOverride } from '@/app/actions/stowage-plan';
+import {
+  getStowagePlanById,
+  deleteStowagePlan,
+  saveCargoAssignments,
+  updatePlanStatus,
+  copyStowagePlan,
+  replanAfterTemperatureOverride,
+  getPlanHistory,
+  undoPlanOperation,
+  redoPlanOperation,
+  heartbeatPlanPresence,
+  leavePlanPresence,
+} from '@/app/actions/stowage-plan';
+import { exportPlanBaplie, reconcilePlanBaplie } from '@/app/actions/baplie';
+import { formatBaplieCell } from '@/lib/baplie';
 import { dismissExpiredForecasts } from '@/app/actions/space-forecast';
+import { calculateDepartureConditions, proposeBallastForTrim, updateTankPlan } from '@/app/actions/stability';
 import MarkSentModal from '@/components/stowage/MarkSentModal';
 import CompartmentContextMenu, { type ContextMenuCompartment } from '@/components/stowage/CompartmentContextMenu';
 import UnassignedCargoPanel, { type UnassignedBooking } from '@/components/stowage/UnassignedCargoPanel';
+import TransferCargoModal, { type TransferResult } from '@/components/stowage/TransferCargoModal';
+import ReduceCargoModal, { type ReduceResult } from '@/components/stowage/ReduceCargoModal';
+import PlanHistoryPanel, { type PlanHistoryResult } from '@/components/stowage/PlanHistoryPanel';
+import PlanConflictModal from '@/components/stowage/PlanConflictModal';
+import PlanPresenceBar from '@/components/stowage/PlanPresenceBar';
+import { rebasePositions, type PlanOperationSummary } from '@/lib/plan-history';
+import type { PlanEditConflict, PlanViewer } from '@/types/models';
 import { getConfirmedBookingsForVoyage } from '@/app/actions/booking';
 
 import CoolingSectionTopDown, { type SectionBookingSlot } from '@/components/stowage/CoolingSectionTopDown';
-import type { VoyageTempAssignment, VesselLayout } from '@/lib/vessel-profile-data';
+import type { VoyageTempAssignment, VesselLayout, DeckProfileStack, DeckProfileContainer } from '@/lib/vessel-profile-data';
 import { LEVEL_DISPLAY_ORDER } from '@/lib/vessel-profile-data';
 import styles from './page.module.css';
 import { getPodColor } from '@/lib/constants/pod-colors';
@@ -38,6 +60,30 @@ interface CargoInPlan {
   isConfirmed: boolean;
 }
 
+// Engine conflicts that advise rather than block the plan
+const ENGINE_WARNING_TYPES = ['STABILITY_WARNING', 'REFRIGERATION_WARNING'];
+
+// How often the page tells the server it is still open (see heartbeatPlanPresence)
+const PRESENCE_HEARTBEAT_MS = 20_000;
+
+// Hold cargoPositions in the shape saveCargoAssignments reads. Deck
+// containers are left out: the server keeps its stored slots for them.
+const toSavedAssignments = (positions: any[]) =>
+  positions
+    .filter((pos: any) => pos.compartment?.level !== 'DECK')
+    .map((pos: any) => ({
+      bookingId: pos.bookingId ?? undefined,
+      bookingNumber: pos.bookingNumber ?? undefined,
+      cargoType: pos.cargoType ?? '',
+      quantity: pos.quantity ?? 0,
+      snapshotTotalQuantity: pos.snapshotTotalQuantity ?? pos.quantity ?? 0,
+      compartmentId: pos.coolingSectionId ?? pos.compartment?.id ?? '',
+      polPortCode: pos.polPortCode ?? undefined,
+      podPortCode: pos.podPortCode ?? undefined,
+      consigneeName: pos.consigneeName ?? undefined,
+    }))
+    .filter((a: any) => a.compartmentId && a.quantity > 0);
+
 export default function StowagePlanDetailPage() {
   const params = useParams();
   const planId = params.id as string;
@@ -60,6 +106,15 @@ export default function StowagePlanDetailPage() {
   const [selectedSectionId, setSelectedSectionId] = useState<string | null>(null);
   const [engineConflicts, setEngineConflicts] = useState<any[]>([]);
   const [stabilityIndicators, setStabilityIndicators] = useState<any[]>([]);
+  const [departureConditions, setDepartureConditions] = useState<any[]>([]);
+  const [departureCalcError, setDepartureCalcError] = useState<string | null>(null);
+  const [isCalculatingDepartures, startDepartureCalcTransition] = useTransition();
+  const [ballastProposal, setBallastProposal] = useState<{ portSequence: number; portCode: string; proposal: any } | null>(null);
+  const [isProposingBallast, startBallastTransition] = useTransition();
+  const [baplieResult, setBaplieResult] = useState<any>(null);
+  const [baplieMsg, setBaplieMsg] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [isBaplieBusy, startBaplieTransition] = useTransition();
+  const baplieFileRef = useRef<HTMLInputElement>(null);
   const [generationMethod, setGenerationMethod] = useState<string>('MANUAL');
   const [highlightedSectionIds, setHighlightedSectionIds] = useState<string[]>([]);
   const [showReplanBanner, setShowReplanBanner] = useState(false);
@@ -75,6 +130,24 @@ export default function StowagePlanDetailPage() {
   const [bookingListCollapsed, setBookingListCollapsed] = useState(false);
   const [unassignedTargetCompartment, setUnassignedTargetCompartment] =
     useState<ContextMenuCompartment | null>(null);
+  const [transferSource, setTransferSource] = useState<ContextMenuCompartment | null>(null);
+  const [reduceSource, setReduceSource] = useState<ContextMenuCompartment | null>(null);
+  // Undo/redo log of manual edits (newest first)
+  const [history, setHistory] = useState<PlanOperationSummary[]>([]);
+  const [showHistory, setShowHistory] = useState(false);
+  const [isHistoryBusy, startHistoryTransition] = useTransition();
+  // Optimistic concurrency: editVersion this page last loaded or saved
+  const [planVersion, setPlanVersion] = useState(0);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [viewers, setViewers] = useState<PlanViewer[]>([]);
+  const [latestEdit, setLatestEdit] = useState<{ version: number; lastEditedBy: string | null; lastEditedAt: string | null } | null>(null);
+  // A save refused because someone else saved first
+  const [pendingConflict, setPendingConflict] = useState<{
+    conflict: PlanEditConflict;
+    change: string;
+    overlaps: string[] | null;
+    apply?: (version: number) => void;
+  } | null>(null);
 
   // Expired forecasts banner
   const [expiredForecasts, setExpiredForecasts] = useState<string[]>([]);
@@ -96,6 +169,8 @@ export default function StowagePlanDetailPage() {
   const [bookings, setBookings] = useState<CargoInPlan[]>([]);
   // Raw cargoPositions from DB — source of truth for SVG rendering, independent of booking status.
   const [planCargoPositions, setPlanCargoPositions] = useState<any[]>([]);
+  // Pallets offloaded to staging, awaiting re-placement
+  const [stagedCargo, setStagedCargo] = useState<any[]>([]);
 
   // Stowage factor data per compartment — extracted from the populated vessel
   const [sectionFactors, setSectionFactors] = useState<Record<string, {
@@ -107,6 +182,7 @@ export default function StowagePlanDetailPage() {
 
   // Vessel layout built from DB temperatureZones — drives VesselProfile SVG
   const [vesselLayout, setVesselLayout] = useState<VesselLayout | undefined>(undefined);
+  const [deckStacks, setDeckStacks] = useState<DeckProfileStack[]>([]);
 
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -123,6 +199,9 @@ export default function StowagePlanDetailPage() {
         // Persist raw cargoPositions immediately so vesselProfileData can render
         // regardless of booking status (PENDING / contract-estimate positions included).
         setPlanCargoPositions(p.cargoPositions ?? []);
+        setStagedCargo((p as any).stagedCargo ?? []);
+        setPlanVersion((p as any).editVersion ?? 0);
+        getPlanHistory(planId).then(h => { if (h.success) setHistory(h.data ?? []); });
         setPlan({
           _id: planId,
           planNumber: p.planNumber || `PLAN-${planId.slice(-6)}`,
@@ -131,6 +210,7 @@ export default function StowagePlanDetailPage() {
           captainEmail: p.vesselId?.captainEmail ?? undefined,
           status: p.status || 'DRAFT',
         });
+        setDeckStacks(p.vesselId?.deckBayPlan ?? []);
         // Extract stowage factor data from the populated vessel (vesselId is populate()'d)
         const temperatureZones: any[] = p.vesselId?.temperatureZones ?? [];
         if (temperatureZones.length > 0) {
@@ -211,6 +291,7 @@ export default function StowagePlanDetailPage() {
         // Engine output fields (conflicts, stability, generationMethod)
         setEngineConflicts((p as any).conflicts ?? []);
         setStabilityIndicators((p as any).stabilityIndicators ?? []);
+        setDepartureConditions((p as any).departureConditions ?? []);
         setGenerationMethod((p as any).generationMethod ?? 'MANUAL');
 
         // Expired forecasts banner
@@ -275,7 +356,27 @@ export default function StowagePlanDetailPage() {
         }
       }
     });
-  }, [planId]);
+  }, [planId, reloadKey]);
+
+  // Presence heartbeat — who else has the plan open, and the version they saved.
+  // Sent again at once when this page starts or stops editing.
+  const isEditing = isSaving || isHistoryBusy || isReplanning || !!transferSource || !!reduceSource || showHistory;
+  useEffect(() => {
+    const beat = () => heartbeatPlanPresence({ planId, editing: isEditing }).then(result => {
+      if (!result.success || !result.data) return;
+      setViewers(result.data.viewers);
+      setLatestEdit({
+        version: result.data.version,
+        lastEditedBy: result.data.lastEditedBy,
+        lastEditedAt: result.data.lastEditedAt,
+      });
+    });
+    beat();
+    const timer = setInterval(beat, PRESENCE_HEARTBEAT_MS);
+    return () => clearInterval(timer);
+  }, [planId, isEditing]);
+
+  useEffect(() => () => { leavePlanPresence(planId); }, [planId]);
 
 
   // Build compartment → section lookup once
@@ -344,9 +445,11 @@ export default function StowagePlanDetailPage() {
       temperatureConflicts,
       overstowViolations,
       capacityViolations,
-      weightDistributionWarnings: ['Port list of 0.8° detected - consider redistributing cargo'],
+      weightDistributionWarnings: departureConditions.flatMap((c: any) =>
+        (c.warnings ?? []).map((w: string) => `Departure ${c.portCode}: ${w}`)
+      ),
     };
-  }, [bookings, compartmentToSection]);
+  }, [bookings, compartmentToSection, departureConditions]); // eslint-disable-line react-hooks/exhaustive-deps
 
   // Auto-expand validation sections that have violations
   useEffect(() => {
@@ -399,6 +502,19 @@ export default function StowagePlanDetailPage() {
     return map;
   }, [planCargoPositions]); // eslint-disable-line react-hooks/exhaustive-deps
 
+  // Containers placed in deck bay-plan slots, colored by POD
+  const deckContainers = useMemo<DeckProfileContainer[]>(() =>
+    planCargoPositions
+      .filter((pos: any) => pos.compartment?.level === 'DECK' && pos.stackPosition?.bay != null)
+      .map((pos: any) => ({
+        bay: pos.stackPosition.bay,
+        row: pos.stackPosition.row,
+        tier: pos.stackPosition.tier,
+        podColor: pos.podPortCode ? podColorMap[pos.podPortCode] : undefined,
+        label: [pos.bookingNumber, pos.cargoType, pos.podPortCode && `→ ${pos.podPortCode}`].filter(Boolean).join(' '),
+      })),
+  [planCargoPositions, podColorMap]);
+
   // Cargo type abbreviation lookup for compartment labels
   const CARGO_ABBREV: Record<string, string> = {
     BANANAS: 'BAN', ORGANIC_BANANAS: 'OBAN', PLANTAINS: 'PLAN',
@@ -550,8 +666,9 @@ export default function StowagePlanDetailPage() {
   const assignedQty = (b: CargoInPlan) => b.assignments.reduce((sum, a) => sum + a.quantity, 0);
   const remainingQty = (b: CargoInPlan) => b.totalQuantity - assignedQty(b);
 
-  const unassignedOrPartialBookings = useMemo((): UnassignedBooking[] =>
-    bookings
+  const unassignedOrPartialBookings = useMemo((): UnassignedBooking[] => {
+    const stagedById = new Map<string, any>(stagedCargo.map((s: any) => [s.bookingId, s]));
+    const fromBookings = bookings
       .filter(b => b.assignments.reduce((s, a) => s + a.quantity, 0) < b.totalQuantity)
       .map(b => ({
         bookingId: b.bookingId,
@@ -565,8 +682,35 @@ export default function StowagePlanDetailPage() {
         shipperName: b.shipperName,
         consignee: b.consignee,
         isConfirmed: b.isConfirmed,
-      })),
-  [bookings]);
+        stagedQuantity: stagedById.get(b.bookingId)?.quantity,
+        stagedReason: stagedById.get(b.bookingId)?.reason,
+      }));
+    // Staged estimates (FORECAST-* / CONTRACT-ESTIMATE-*) are not in the booking list
+    const bookingIds = new Set(bookings.map(b => b.bookingId));
+    const fromStaging = stagedCargo
+      .filter((s: any) => !bookingIds.has(s.bookingId))
+      .map((s: any) => {
+        const placed = planCargoPositions
+          .filter((pos: any) => String(pos.bookingId ?? '') === s.bookingId)
+          .reduce((sum: number, pos: any) => sum + (pos.quantity ?? 0), 0);
+        return {
+          bookingId: s.bookingId,
+          bookingNumber: s.bookingNumber ?? s.bookingId,
+          cargoType: s.cargoType ?? '',
+          cargoShortLabel: undefined as string | undefined,
+          totalQuantity: placed + s.quantity,
+          assignedQuantity: placed,
+          pol: s.polPortCode ?? '',
+          pod: s.podPortCode ?? '',
+          shipperName: s.shipperName ?? '',
+          consignee: s.consigneeName ?? '',
+          isConfirmed: s.confidence !== 'ESTIMATED' && /^[a-f\d]{24}$/i.test(s.bookingId),
+          stagedQuantity: s.quantity,
+          stagedReason: s.reason,
+        };
+      });
+    return [...fromBookings, ...fromStaging];
+  }, [bookings, stagedCargo, planCargoPositions]);
 
   // Total pallets already assigned to a compartment across all bookings
   const usedInCompartment = useMemo(() => {
@@ -621,19 +765,22 @@ export default function StowagePlanDetailPage() {
     return map;
   };
 
-  const handleReplan = () => {
+  const handleReplan = (version = planVersion) => {
     const zoneOverrides = tempZoneConfig.map(z => ({ zoneId: z.sectionId, temperature: z.temp }));
     startReplanTransition(async () => {
-      const result = await replanAfterTemperatureOverride(planId, zoneOverrides);
+      const result = await replanAfterTemperatureOverride(planId, zoneOverrides, version);
       if (result.success && result.data) {
         const posMap = remapCargoPositions(result.data.cargoPositions ?? []);
         setBookings(prev => prev.map(b => ({ ...b, assignments: posMap.get(b.bookingId) ?? [] })));
         setEngineConflicts(result.data.conflicts ?? []);
         setStabilityIndicators(result.data.stabilityIndicators ?? []);
         setGenerationMethod(result.data.generationMethod ?? 'REVISED');
+        setPlanVersion(result.data.editVersion ?? version);
         setShowReplanBanner(false);
         setSaveMsg({ type: 'success', text: `Replanned — ${(result as any).conflictCount ?? 0} hard conflict(s)` });
         setTimeout(() => setSaveMsg(null), 4000);
+      } else if ('conflict' in result) {
+        offerRetry(result.conflict, 'Auto-Reassign bookings', handleReplan);
       } else {
         setSaveMsg({ type: 'error', text: (result as any).error ?? 'Replan failed' });
         setTimeout(() => setSaveMsg(null), 3000);
@@ -690,33 +837,68 @@ export default function StowagePlanDetailPage() {
   // Handle quantity changes from top-down paint interaction
   const handleTopDownChange = (newSlots: SectionBookingSlot[]) => {
     if (!selectedSectionId) return;
-    setBookings(prev => prev.map(b => {
-      const slot = newSlots.find(s => s.bookingId === b.bookingId);
-      if (!slot) return b;
-      if (slot.quantity === 0) {
-        return { ...b, assignments: b.assignments.filter(a => a.compartmentId !== selectedSectionId) };
-      }
-      const existing = b.assignments.find(a => a.compartmentId === selectedSectionId);
-      if (existing) {
-        return { ...b, assignments: b.assignments.map(a => a.compartmentId === selectedSectionId ? { ...a, quantity: slot.quantity } : a) };
-      }
-      return { ...b, assignments: [...b.assignments, { compartmentId: selectedSectionId, quantity: slot.quantity }] };
-    }));
+    const sectionId = selectedSectionId;
+    const oldQty = new Map(selectedSectionSlots.map(sl => [sl.bookingId, sl.quantity]));
+    const changed = newSlots.filter(sl => (oldQty.get(sl.bookingId) ?? 0) !== sl.quantity);
+    if (changed.length === 0) return;   // pallets only rearranged within the section
+
+    // One position per booking in the section, sized to its painted cells
+    const newQty = new Map(changed.map(sl => [sl.bookingId, sl.quantity]));
+    const kept = new Set<string>();
+    const positions: any[] = [];
+    for (const pos of planCargoPositions) {
+      const bid = String(pos.bookingId ?? pos.shipmentId ?? '');
+      const sid = pos.coolingSectionId ?? pos.compartment?.id ?? '';
+      if (sid !== sectionId || !newQty.has(bid)) { positions.push(pos); continue; }
+      if (kept.has(bid)) continue;
+      kept.add(bid);
+      if (newQty.get(bid)! > 0) positions.push({ ...pos, quantity: newQty.get(bid) });
+    }
+    for (const sl of changed) {
+      if (sl.quantity <= 0 || kept.has(sl.bookingId)) continue;
+      const b = bookings.find(bk => bk.bookingId === sl.bookingId);
+      positions.push({
+        bookingId: sl.bookingId,
+        bookingNumber: sl.bookingNumber,
+        cargoType: sl.cargoType,
+        quantity: sl.quantity,
+        snapshotTotalQuantity: b?.totalQuantity,
+        compartment: { id: sectionId },
+        coolingSectionId: sectionId,
+        polPortCode: b?.pol,
+        podPortCode: b?.pod,
+        consigneeName: b?.consignee,
+      });
+    }
+
+    const delta = changed.reduce((sum, sl) => sum + sl.quantity - (oldQty.get(sl.bookingId) ?? 0), 0);
+    const labels = changed.map(sl => sl.bookingNumber).join(', ');
+    persistPositions(positions, delta >= 0
+      ? { type: 'ASSIGN', summary: `Painted ${delta} plt of ${labels} in ${sectionId}` }
+      : { type: 'REMOVE', summary: `Cleared ${-delta} plt of ${labels} in ${sectionId}` });
   };
 
   const handleConfirmAssign = () => {
     if (!assigningBooking || !selectedCompartment || assignQuantity <= 0) return;
 
-    setBookings(prev => prev.map(b => {
-      if (b.bookingId !== assigningBooking.bookingId) return b;
-      const existing = b.assignments.find(a => a.compartmentId === selectedCompartment);
-      const updatedAssignments = existing
-        ? b.assignments.map(a => a.compartmentId === selectedCompartment
-            ? { ...a, quantity: a.quantity + assignQuantity }
-            : a)
-        : [...b.assignments, { compartmentId: selectedCompartment, quantity: assignQuantity }];
-      return { ...b, assignments: updatedAssignments };
-    }));
+    persistPositions([
+      ...planCargoPositions,
+      {
+        bookingId: assigningBooking.bookingId,
+        bookingNumber: assigningBooking.bookingNumber,
+        cargoType: assigningBooking.cargoType,
+        quantity: assignQuantity,
+        snapshotTotalQuantity: assigningBooking.totalQuantity,
+        compartment: { id: selectedCompartment },
+        coolingSectionId: selectedCompartment,
+        polPortCode: assigningBooking.pol,
+        podPortCode: assigningBooking.pod,
+        consigneeName: assigningBooking.consignee,
+      },
+    ], {
+      type: 'ASSIGN',
+      summary: `Assigned ${assignQuantity} plt ${assigningBooking.bookingNumber} → ${selectedCompartment}`,
+    });
     setAssigningBooking(null);
     setSelectedCompartment('');
     setAssignQuantity(0);
@@ -730,7 +912,7 @@ export default function StowagePlanDetailPage() {
     }, 180);
   };
 
-  const handleAssignFromPanel = async (booking: UnassignedBooking, quantity: number) => {
+  const handleAssignFromPanel = (booking: UnassignedBooking, quantity: number) => {
     if (!unassignedTargetCompartment) return;
     const compartmentId = unassignedTargetCompartment.sectionId;
 
@@ -748,49 +930,13 @@ export default function StowagePlanDetailPage() {
       consigneeName: booking.consignee,
     };
 
-    const updatedPositions = [...planCargoPositions, newPos];
-    setPlanCargoPositions(updatedPositions);
-
-    setBookings(prev => prev.map(b => {
-      if (b.bookingId !== booking.bookingId) return b;
-      const existing = b.assignments.find(a => a.compartmentId === compartmentId);
-      return {
-        ...b,
-        assignments: existing
-          ? b.assignments.map(a =>
-              a.compartmentId === compartmentId
-                ? { ...a, quantity: a.quantity + quantity }
-                : a)
-          : [...b.assignments, { compartmentId, quantity }],
-      };
-    }));
-
     setUnassignedPanelOpen(false);
     setUnassignedTargetCompartment(null);
 
-    const allAssignments = updatedPositions
-      .map((pos: any) => ({
-        bookingId: pos.bookingId ?? undefined,
-        bookingNumber: pos.bookingNumber ?? undefined,
-        cargoType: pos.cargoType ?? '',
-        quantity: pos.quantity ?? 0,
-        snapshotTotalQuantity: pos.snapshotTotalQuantity ?? pos.quantity ?? 0,
-        compartmentId: pos.coolingSectionId ?? pos.compartment?.id ?? '',
-        polPortCode: pos.polPortCode ?? undefined,
-        podPortCode: pos.podPortCode ?? undefined,
-        consigneeName: pos.consigneeName ?? undefined,
-      }))
-      .filter((a: any) => a.compartmentId && a.quantity > 0);
-
-    const result = await saveCargoAssignments({ planId, assignments: allAssignments });
-    if (result.success) {
-      setSaveMsg({ type: 'success', text: `${quantity} pallets assigned to ${compartmentId}` });
-    } else {
-      setSaveMsg({ type: 'error', text: result.error ?? 'Failed to save assignment' });
-      // Roll back optimistic update on failure
-      setPlanCargoPositions(planCargoPositions);
-    }
-    setTimeout(() => setSaveMsg(null), 3000);
+    persistPositions([...planCargoPositions, newPos], {
+      type: 'ASSIGN',
+      summary: `Assigned ${quantity} plt ${booking.bookingNumber} → ${compartmentId}`,
+    });
   };
 
   const handleCancelAssign = () => {
@@ -800,11 +946,16 @@ export default function StowagePlanDetailPage() {
   };
 
   const handleRemoveAssignment = (bookingId: string, compartmentId: string) => {
-    setBookings(prev => prev.map(b =>
-      b.bookingId === bookingId
-        ? { ...b, assignments: b.assignments.filter(a => a.compartmentId !== compartmentId) }
-        : b
-    ));
+    const isRemoved = (pos: any) =>
+      String(pos.bookingId ?? pos.shipmentId ?? '') === bookingId &&
+      (pos.coolingSectionId ?? pos.compartment?.id ?? '') === compartmentId;
+    const removed = planCargoPositions.filter(isRemoved);
+    if (removed.length === 0) return;
+    const pallets = removed.reduce((sum: number, pos: any) => sum + (pos.quantity ?? 0), 0);
+    persistPositions(planCargoPositions.filter(pos => !isRemoved(pos)), {
+      type: 'REMOVE',
+      summary: `Removed ${pallets} plt ${removed[0].bookingNumber ?? bookingId} from ${compartmentId}`,
+    });
   };
 
   const handleAutoStow = () => {
@@ -830,20 +981,224 @@ export default function StowagePlanDetailPage() {
     });
   };
 
+  // Transfer / Reduce Cargo modals — bookings stowed in the right-clicked section
+  // and every other hold section with its zone temperature and free pallets
+  const sectionCargoOptions = useMemo(() => {
+    const source = transferSource ?? reduceSource;
+    if (!source) return [];
+    const byBooking = new Map<string, { bookingId: string; bookingNumber?: string; cargoType?: string; podPortCode?: string; quantity: number }>();
+    for (const pos of planCargoPositions) {
+      const bid = String(pos.bookingId ?? '');
+      if (!bid || pos.compartment?.id !== source.sectionId) continue;
+      const entry = byBooking.get(bid) ?? {
+        bookingId: bid,
+        bookingNumber: pos.bookingNumber ?? undefined,
+        cargoType: pos.cargoType ?? undefined,
+        podPortCode: pos.podPortCode ?? undefined,
+        quantity: 0,
+      };
+      entry.quantity += pos.quantity ?? 0;
+      byBooking.set(bid, entry);
+    }
+    return [...byBooking.values()].filter(c => c.quantity > 0);
+  }, [transferSource, reduceSource, planCargoPositions]);
+
+  const transferTargetOptions = useMemo(() => {
+    if (!transferSource) return [];
+    const used: Record<string, number> = {};
+    for (const pos of planCargoPositions) {
+      const sid = pos.compartment?.id ?? '';
+      used[sid] = (used[sid] ?? 0) + (pos.quantity ?? 0);
+    }
+    return Object.keys(compartmentCapacities)
+      .filter(sid => sid !== transferSource.sectionId)
+      .sort()
+      .map(sid => ({
+        sectionId: sid,
+        zoneId: compartmentToSection[sid]?.sectionId,
+        temperature: compartmentToSection[sid]?.temp,
+        free: Math.max(0, compartmentCapacities[sid] - (used[sid] ?? 0)),
+      }));
+  }, [transferSource, planCargoPositions, compartmentCapacities, compartmentToSection]);
+
+  const refreshHistory = async () => {
+    const result = await getPlanHistory(planId);
+    if (result.success) setHistory(result.data ?? []);
+  };
+
+  // Positions, warnings and set points returned by a server-side edit
+  const applyEditedPlan = (result: TransferResult & { stagedCargo?: any[] }) => {
+    setPlanCargoPositions(result.cargoPositions);
+    if (result.stagedCargo) setStagedCargo(result.stagedCargo);
+    setEngineConflicts(result.conflicts);
+    setStabilityIndicators(result.stabilityIndicators);
+    const tempByZone = new Map<string, number>(
+      result.coolingSectionStatus.map((cs: any) => [cs.zoneId, cs.assignedTemperature]),
+    );
+    setTempZoneConfig(prev => prev.map(z => ({ ...z, temp: tempByZone.get(z.sectionId) ?? z.temp })));
+    // Rebuild per-booking assignments from the saved positions
+    setBookings(prev => prev.map(b => ({
+      ...b,
+      assignments: result.cargoPositions
+        .filter((pos: any) => String(pos.bookingId ?? pos.shipmentId ?? '') === b.bookingId)
+        .map((pos: any) => ({ compartmentId: pos.compartment?.id ?? '', quantity: pos.quantity ?? 0 })),
+    })));
+  };
+
+  // Saves a manual edit to the positions and logs it in the plan history;
+  // rolls back on failure
+  const persistPositions = (
+    positions: any[],
+    operation: { type: 'ASSIGN' | 'REMOVE'; summary: string },
+  ) => {
+    const previous = planCargoPositions;
+    const rebuild = (list: any[]) => setBookings(prev => prev.map(b => ({
+      ...b,
+      assignments: list
+        .filter((pos: any) => String(pos.bookingId ?? pos.shipmentId ?? '') === b.bookingId)
+        .map((pos: any) => ({ compartmentId: pos.coolingSectionId ?? pos.compartment?.id ?? '', quantity: pos.quantity ?? 0 })),
+    })));
+    setPlanCargoPositions(positions);
+    rebuild(positions);
+    startSaveTransition(async () => {
+      const result = await saveCargoAssignments({
+        planId,
+        assignments: toSavedAssignments(positions),
+        operation,
+        expectedVersion: planVersion,
+      });
+      if (result.success) {
+        setPlanVersion(result.data?.version ?? planVersion);
+        setStagedCargo(result.data?.stagedCargo ?? []);
+        await refreshHistory();
+        setSaveMsg({ type: 'success', text: operation.summary });
+      } else {
+        setPlanCargoPositions(previous);
+        rebuild(previous);
+        if ('conflict' in result) await offerRebase(result.conflict, previous, positions, operation);
+        else setSaveMsg({ type: 'error', text: result.error ?? 'Failed to save edit' });
+      }
+      setTimeout(() => setSaveMsg(null), 3000);
+    });
+  };
+
+  // Someone saved the plan after this page loaded it. The refused position
+  // edit (base → mine) is replayed onto their positions for the merge prompt.
+  const offerRebase = async (
+    conflict: PlanEditConflict,
+    base: any[],
+    mine: any[],
+    operation: { type: 'ASSIGN' | 'REMOVE'; summary: string },
+  ) => {
+    const latest = await getStowagePlanById(planId);
+    if (!latest.success || !latest.data) {
+      setSaveMsg({ type: 'error', text: latest.error ?? 'Failed to load the latest plan' });
+      return;
+    }
+    const theirs: any[] = latest.data.cargoPositions ?? [];
+    const { positions, overlaps } = rebasePositions(base, mine, theirs);
+    const labelFor = (key: string) => {
+      const [bookingId, sectionId] = key.split('|');
+      const pos = mine.find((p: any) => String(p.bookingId ?? p.shipmentId ?? '') === bookingId);
+      return `${pos?.bookingNumber ?? bookingId} in ${sectionId}`;
+    };
+    setPendingConflict({
+      conflict: { ...conflict, version: (latest.data as any).editVersion ?? conflict.version },
+      change: operation.summary,
+      overlaps: overlaps.map(labelFor),
+      apply: version => startSaveTransition(async () => {
+        const result = await saveCargoAssignments({
+          planId,
+          assignments: toSavedAssignments(positions),
+          operation,
+          expectedVersion: version,
+        });
+        if (result.success) {
+          setReloadKey(k => k + 1);
+          setSaveMsg({ type: 'success', text: `${operation.summary} — applied on the latest plan` });
+        } else if ('conflict' in result) {
+          await offerRebase(result.conflict, theirs, positions, operation);
+        } else {
+          setSaveMsg({ type: 'error', text: result.error ?? 'Failed to save edit' });
+        }
+        setTimeout(() => setSaveMsg(null), 3000);
+      }),
+    });
+  };
+
+  // Conflicts from actions the server re-runs on the latest plan (dialogs, replan)
+  const offerRetry = (conflict: PlanEditConflict, change: string, retry?: (version: number) => void) => {
+    setPendingConflict({ conflict, change, overlaps: null, apply: retry });
+  };
+
+  const handleConflictReload = () => {
+    setPendingConflict(null);
+    setTransferSource(null);
+    setReduceSource(null);
+    setShowHistory(false);
+    setReloadKey(k => k + 1);
+  };
+
+  const handleHistoryResult = (
+    result: { success: boolean; data?: PlanHistoryResult; message?: string; error?: string; conflict?: PlanEditConflict },
+  ) => {
+    if (result.success && result.data) {
+      applyEditedPlan(result.data);
+      setHistory(result.data.history);
+      setPlanVersion(result.data.version);
+      setSaveMsg({ type: 'success', text: result.message ?? 'Plan restored' });
+    } else if (result.conflict) {
+      // Undo / redo act on the newest edit, which may now be theirs — reload first
+      offerRetry(result.conflict, 'Undo / redo');
+      return;
+    } else {
+      setSaveMsg({ type: 'error', text: result.error ?? 'Failed to change plan history' });
+    }
+    setTimeout(() => setSaveMsg(null), 4000);
+  };
+
+  const handleUndo = () => {
+    startHistoryTransition(async () => handleHistoryResult(await undoPlanOperation(planId, planVersion)));
+  };
+
+  const handleRedo = () => {
+    startHistoryTransition(async () => handleHistoryResult(await redoPlanOperation(planId, planVersion)));
+  };
+
+  const handleTransferSuccess = (result: TransferResult, message: string) => {
+    setTransferSource(null);
+    applyEditedPlan(result);
+    setPlanVersion(result.version);
+    refreshHistory();
+    setSaveMsg({ type: 'success', text: message });
+    setTimeout(() => setSaveMsg(null), 4000);
+  };
+
+  const handleReduceSuccess = (result: ReduceResult, bookingId: string, message: string) => {
+    setReduceSource(null);
+    applyEditedPlan(result);
+    setPlanVersion(result.version);
+    // Cancelled pallets also lower the booking total
+    if (result.bookingQuantity !== null) {
+      const bookingQuantity = result.bookingQuantity;
+      setBookings(prev => prev.map(b => b.bookingId === bookingId ? { ...b, totalQuantity: bookingQuantity } : b));
+    }
+    refreshHistory();
+    setSaveMsg({ type: 'success', text: message });
+    setTimeout(() => setSaveMsg(null), 4000);
+  };
+
   const handleSavePlan = () => {
-    const allAssignments = planCargoPositions.map((pos: any) => ({
-      bookingId: pos.bookingId ?? undefined,
-      bookingNumber: pos.bookingNumber ?? undefined,
-      cargoType: pos.cargoType ?? '',
-      quantity: pos.quantity ?? 0,
-      snapshotTotalQuantity: pos.snapshotTotalQuantity ?? pos.quantity ?? 0,
-      compartmentId: pos.coolingSectionId ?? pos.compartment?.id ?? '',
-      polPortCode: pos.polPortCode ?? undefined,
-      podPortCode: pos.podPortCode ?? undefined,
-      consigneeName: pos.consigneeName ?? undefined,
-    })).filter((a: any) => a.compartmentId && a.quantity > 0);
     startSaveTransition(async () => {
-      const result = await saveCargoAssignments({ planId, assignments: allAssignments });
+      const result = await saveCargoAssignments({
+        planId,
+        assignments: toSavedAssignments(planCargoPositions),
+        expectedVersion: planVersion,
+      });
+      if ('conflict' in result) {
+        offerRetry(result.conflict, 'Save Draft');
+        return;
+      }
       setSaveMsg(
         result.success
           ? { type: 'success', text: 'Plan saved' }
@@ -852,28 +1207,34 @@ export default function StowagePlanDetailPage() {
       setTimeout(() => setSaveMsg(null), 3000);
       if (result.success) {
         setPlan(prev => ({ ...prev, status: 'DRAFT' }));
+        setPlanVersion(result.data?.version ?? planVersion);
+        setStagedCargo(result.data?.stagedCargo ?? []);
+        await refreshHistory();
       }
     });
   };
 
   const handleSendToCaptain = () => {
     startSaveTransition(async () => {
-      const allAssignments = planCargoPositions.map((pos: any) => ({
-        bookingId: pos.bookingId ?? undefined,
-        bookingNumber: pos.bookingNumber ?? undefined,
-        cargoType: pos.cargoType ?? '',
-        quantity: pos.quantity ?? 0,
-        snapshotTotalQuantity: pos.snapshotTotalQuantity ?? pos.quantity ?? 0,
-        compartmentId: pos.coolingSectionId ?? pos.compartment?.id ?? '',
-        polPortCode: pos.polPortCode ?? undefined,
-        podPortCode: pos.podPortCode ?? undefined,
-        consigneeName: pos.consigneeName ?? undefined,
-      })).filter((a: any) => a.compartmentId && a.quantity > 0);
-      await saveCargoAssignments({ planId, assignments: allAssignments });
+      const saved = await saveCargoAssignments({
+        planId,
+        assignments: toSavedAssignments(planCargoPositions),
+        expectedVersion: planVersion,
+      });
+      if ('conflict' in saved) {
+        offerRetry(saved.conflict, 'Send to Captain');
+        return;
+      }
+      await refreshHistory();
 
-      const result = await updatePlanStatus(planId, 'READY_FOR_CAPTAIN');
+      const result = await updatePlanStatus(planId, 'READY_FOR_CAPTAIN', saved.data?.version ?? planVersion);
+      if ('conflict' in result) {
+        offerRetry(result.conflict, 'Send to Captain');
+        return;
+      }
       if (result.success) {
         setPlan(prev => ({ ...prev, status: 'READY_FOR_CAPTAIN' }));
+        setPlanVersion(result.data?.editVersion ?? planVersion);
         setSaveMsg({ type: 'success', text: 'Plan marked as Ready for Captain' });
       } else {
         setSaveMsg({ type: 'error', text: result.error ?? 'Failed to update status' });
@@ -906,6 +1267,110 @@ export default function StowagePlanDetailPage() {
     });
   };
 
+  const handleCalculateDepartures = () => {
+    setDepartureCalcError(null);
+    startDepartureCalcTransition(async () => {
+      const result = await calculateDepartureConditions(planId);
+      if (result.success) {
+        setDepartureConditions(result.data ?? []);
+        setExpandedValidation(prev => ({ ...prev, departures: true }));
+      } else {
+        setDepartureCalcError(result.error ?? 'Failed to calculate departure conditions');
+      }
+    });
+  };
+
+  const handleProposeBallast = (portSequence: number, portCode: string) => {
+    setDepartureCalcError(null);
+    startBallastTransition(async () => {
+      const result = await proposeBallastForTrim(planId, portSequence);
+      if (result.success) {
+        setBallastProposal({ portSequence, portCode, proposal: result.data });
+      } else {
+        setDepartureCalcError(result.error ?? 'Failed to propose ballast');
+      }
+    });
+  };
+
+  const handleExportBaplie = () => {
+    setBaplieMsg(null);
+    startBaplieTransition(async () => {
+      const result = await exportPlanBaplie({ planId });
+      if (!result.success || !result.data) {
+        setBaplieMsg({ type: 'error', text: result.error ?? 'Failed to export BAPLIE' });
+        return;
+      }
+      const blob = new Blob([result.data.content], { type: 'application/edifact' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = result.data.filename;
+      link.click();
+      URL.revokeObjectURL(url);
+      setBaplieMsg({
+        type: 'success',
+        text: [`${result.data.containers} containers exported`, ...result.data.warnings].join(' · '),
+      });
+    });
+  };
+
+  const handleImportBaplie = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setBaplieMsg(null);
+    startBaplieTransition(async () => {
+      const content = await file.text();
+      const result = await reconcilePlanBaplie({ planId, content });
+      if (result.success) {
+        setBaplieResult(result.data);
+      } else {
+        setBaplieResult(null);
+        setBaplieMsg({ type: 'error', text: result.error ?? 'Failed to read BAPLIE' });
+      }
+    });
+  };
+
+  const handleApplyBallast = () => {
+    if (!ballastProposal) return;
+    startBallastTransition(async () => {
+      const saved = await updateTankPlan({
+        planId,
+        portSequence: ballastProposal.portSequence,
+        levels: ballastProposal.proposal.levels,
+        source: 'BALLAST_PROPOSAL',
+      });
+      if (!saved.success) {
+        setDepartureCalcError(saved.error ?? 'Failed to save tank plan');
+        return;
+      }
+      setBallastProposal(null);
+      const result = await calculateDepartureConditions(planId);
+      if (result.success) setDepartureConditions(result.data ?? []);
+    });
+  };
+
+  // Departures where trim is outside limits or the engine flagged RED
+  const trimProblemPorts = useMemo(() => {
+    const redPorts = new Set(
+      stabilityIndicators.filter((s: any) => s.status === 'RED').map((s: any) => s.portCode)
+    );
+    return new Set(
+      departureConditions
+        .filter((c: any) =>
+          redPorts.has(c.portCode) ||
+          (c.warnings ?? []).some((w: string) => w.startsWith('Trim'))
+        )
+        .map((c: any) => c.sequence)
+    );
+  }, [departureConditions, stabilityIndicators]);
+
+  // Lowest-GM departure — usually mid-rotation, when cargo from several POLs is aboard
+  const worstDepartureSeq = useMemo(() => {
+    if (departureConditions.length === 0) return null;
+    return departureConditions.reduce((worst: any, c: any) => (c.gm < worst.gm ? c : worst)).sequence;
+  }, [departureConditions]);
+
   const toggleValidationSection = (key: string) => {
     setExpandedValidation(prev => ({ ...prev, [key]: !prev[key] }));
   };
@@ -975,6 +1440,15 @@ export default function StowagePlanDetailPage() {
 
       <span className={styles.statSep} />
 
+      <button className={styles.headerBtn} onClick={() => router.push(`/stowage-plans/${planId}/compare`)}>
+        Compare
+      </button>
+      <button className={styles.headerBtn} onClick={() => window.open(`/stowage-plans/${planId}/live`, '_blank')}>
+        Live view
+      </button>
+      <button className={styles.headerBtn} onClick={() => router.push(`/stowage-plans/${planId}/loading-sequence`)}>
+        Loading sequence
+      </button>
       {!isLocked && canEdit && (
         <>
           {saveMsg && (
@@ -1012,20 +1486,47 @@ export default function StowagePlanDetailPage() {
       )}
     </div>
   ), [stowedPallets, totalPallets, utilizationPct, isLocked,
-      canEdit, saveMsg, plan.status]);
+      canEdit, saveMsg, plan.status, router, planId]);
 
+  const canUndo = history.some(op => !op.undone);
+  const canRedo = history.some(op => op.undone);
   const unassignedButton = (
-    <button className={styles.btnUnassigned} onClick={() => {
-      setUnassignedTargetCompartment(null);
-      setUnassignedPanelOpen(true);
-    }}>
-      ⊕ Unassigned
-      {unassignedOrPartialBookings.length > 0 && (
-        <span className={styles.unassignedBadge}>
-          {unassignedOrPartialBookings.length}
-        </span>
+    <>
+      {!isLocked && canEdit && (
+        <>
+          <button
+            className={styles.btnHistory}
+            onClick={handleUndo}
+            disabled={!canUndo || isHistoryBusy}
+            title={canUndo ? `Undo: ${history.find(op => !op.undone)?.summary}` : 'Nothing to undo'}
+          >
+            ↶ Undo
+          </button>
+          <button
+            className={styles.btnHistory}
+            onClick={handleRedo}
+            disabled={!canRedo || isHistoryBusy}
+            title={canRedo ? `Redo: ${[...history].reverse().find(op => op.undone)?.summary}` : 'Nothing to redo'}
+          >
+            ↷ Redo
+          </button>
+        </>
       )}
-    </button>
+      <button className={styles.btnHistory} onClick={() => setShowHistory(true)}>
+        History
+      </button>
+      <button className={styles.btnUnassigned} onClick={() => {
+        setUnassignedTargetCompartment(null);
+        setUnassignedPanelOpen(true);
+      }}>
+        ⊕ Unassigned
+        {unassignedOrPartialBookings.length > 0 && (
+          <span className={styles.unassignedBadge}>
+            {unassignedOrPartialBookings.length}
+          </span>
+        )}
+      </button>
+    </>
   );
 
   return (
@@ -1065,7 +1566,7 @@ export default function StowagePlanDetailPage() {
                 <div
                   key={i}
                   className={styles.stabilityPort}
-                  title={`Port ${s.portCode} (seq ${s.portSequence}) · Trim index: ${s.trimIndex.toFixed(3)} · List index: ${s.listIndex.toFixed(3)}`}
+                  title={`Port ${s.portCode} (seq ${s.portSequence}) · Trim index: ${s.trimIndex.toFixed(3)} · List index: ${s.listIndex.toFixed(3)}${s.vcg != null ? ` · Cargo VCG: ${s.vcg.toFixed(2)} m · Vertical moment: ${Math.round(s.verticalMoment ?? 0)} t·m` : ''}`}
                 >
                   <div className={`${styles.stabilityDot} ${
                     s.status === 'GREEN' ? styles.stabilityDotGreen :
@@ -1153,7 +1654,7 @@ export default function StowagePlanDetailPage() {
           </span>
           <button
             className={styles.btnReplan}
-            onClick={handleReplan}
+            onClick={() => handleReplan()}
             disabled={isReplanning}
           >
             {isReplanning ? 'Reassigning…' : '⚡ Auto-Reassign Bookings'}
@@ -1162,6 +1663,13 @@ export default function StowagePlanDetailPage() {
         </div>
       )}
 
+      {/* Presence — who else has the plan open, and saves made since load */}
+      <PlanPresenceBar
+        viewers={viewers}
+        staleEdit={latestEdit && latestEdit.version > planVersion ? latestEdit : null}
+        onReload={() => setReloadKey(k => k + 1)}
+      />
+
       {/* Expired Forecasts Banner */}
       {expiredForecasts.length > 0 && canEdit && (
         <div className={styles.expiredBanner}>
@@ -1207,6 +1715,8 @@ export default function StowagePlanDetailPage() {
           conflictCompartmentIds={conflictCompartmentIds}
           highlightedCompartmentIds={highlightedSectionIds}
           vesselLayout={vesselLayout}
+          deckStacks={deckStacks}
+          deckContainers={deckContainers}
           consigneesBySection={consigneesBySection}
           onCompartmentClick={(id) => {
             setSelectedSectionId(prev => prev === id ? null : id);
@@ -1380,9 +1890,9 @@ export default function StowagePlanDetailPage() {
               onClick={() => toggleValidationSection('engine')}
             >
               <span>Engine Analysis</span>
-              {engineConflicts.filter((c: any) => c.type !== 'STABILITY_WARNING').length > 0 ? (
+              {engineConflicts.filter((c: any) => !ENGINE_WARNING_TYPES.includes(c.type)).length > 0 ? (
                 <span className={styles.badge}>
-                  {engineConflicts.filter((c: any) => c.type !== 'STABILITY_WARNING').length}
+                  {engineConflicts.filter((c: any) => !ENGINE_WARNING_TYPES.includes(c.type)).length}
                 </span>
               ) : (
                 <span className={styles.badgeWarning}>{engineConflicts.length}</span>
@@ -1405,7 +1915,7 @@ export default function StowagePlanDetailPage() {
                 {engineConflicts.map((conflict: any, idx: number) => (
                   <div
                     key={idx}
-                    className={conflict.type === 'STABILITY_WARNING' ? styles.conflictCardWarning : styles.conflictCard}
+                    className={ENGINE_WARNING_TYPES.includes(conflict.type) ? styles.conflictCardWarning : styles.conflictCard}
                   >
                     <div className={styles.conflictHeader}>
                       <span className={styles[`engineConflict${conflict.type}`] ?? styles.engineConflictDefault}>
@@ -1579,6 +2089,248 @@ export default function StowagePlanDetailPage() {
           )}
         </div>
 
+        {/* Departure Conditions — full loading condition per LOAD/DISCHARGE port */}
+        <div className={styles.validationSection}>
+          <button
+            className={styles.validationSectionHeader}
+            onClick={() => toggleValidationSection('departures')}
+          >
+            <span>Departure Conditions</span>
+            {departureConditions.some((c: any) => !c.withinReferenceLimits) && (
+              <span className={styles.badgeWarning}>
+                {departureConditions.filter((c: any) => !c.withinReferenceLimits).length}
+              </span>
+            )}
+            <svg
+              className={`${styles.chevron} ${expandedValidation.departures ? styles.chevronOpen : ''}`}
+              width="16" height="16" viewBox="0 0 16 16" fill="none"
+            >
+              <path d="M4 6l4 4 4-4" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round"/>
+            </svg>
+          </button>
+          {expandedValidation.departures && (
+            <div className={styles.validationSectionContent}>
+              {canEdit && (
+                <div className={styles.departureActions}>
+                  <button
+                    className={styles.btnSecondary}
+                    onClick={handleCalculateDepartures}
+                    disabled={isCalculatingDepartures}
+                  >
+                    {isCalculatingDepartures ? 'Calculating…' : departureConditions.length > 0 ? 'Recalculate' : 'Calculate'}
+                  </button>
+                  {departureCalcError && (
+                    <span className={styles.departureError}>{departureCalcError}</span>
+                  )}
+                </div>
+              )}
+              {departureConditions.length === 0 ? (
+                <p className={styles.departureEmpty}>No departure conditions calculated yet</p>
+              ) : (
+                <table className={styles.departureTable}>
+                  <thead>
+                    <tr>
+                      <th>Port</th>
+                      <th>Ops</th>
+                      <th>Pallets</th>
+                      <th>Cargo (t)</th>
+                      <th>Tanks (t)</th>
+                      <th>Displ. (t)</th>
+                      <th>GM (m)</th>
+                      <th>FSC (m)</th>
+                      <th>Trim (m, S/B)</th>
+                      <th>List (°, S/P)</th>
+                      <th>Draft F / A (m)</th>
+                      <th>Status</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {departureConditions.map((c: any) => (
+                      <tr
+                        key={c.sequence}
+                        className={c.withinReferenceLimits ? undefined : styles.departureRowWarning}
+                        title={(c.warnings ?? []).join('\n')}
+                      >
+                        <td>
+                          <strong>{c.portCode}</strong>
+                          {c.sequence === worstDepartureSeq && departureConditions.length > 1 && (
+                            <span className={styles.departureWorst}>lowest GM</span>
+                          )}
+                        </td>
+                        <td>{(c.operations ?? []).map((op: string) => op.charAt(0)).join('/')}</td>
+                        <td>{c.palletsAboard}</td>
+                        <td>{c.cargoWeight.toFixed(0)}</td>
+                        <td>{(c.tankWeight ?? 0).toFixed(0)}</td>
+                        <td>{c.displacement.toFixed(0)}</td>
+                        <td>{c.gm.toFixed(2)}</td>
+                        <td>{(c.freeSurfaceCorrection ?? 0).toFixed(2)}</td>
+                        <td>{c.trim >= 0 ? 'S ' : 'B '}{Math.abs(c.trim).toFixed(2)}</td>
+                        <td>{c.list >= 0 ? 'S ' : 'P '}{Math.abs(c.list).toFixed(1)}</td>
+                        <td>{c.drafts.forward.toFixed(2)} / {c.drafts.aft.toFixed(2)}</td>
+                        <td>
+                          {c.withinReferenceLimits
+                            ? <span className={styles.departureOk}>OK</span>
+                            : <span className={styles.badgeWarning}>{c.warnings.length} warning{c.warnings.length > 1 ? 's' : ''}</span>}
+                          {canEdit && !isLocked && trimProblemPorts.has(c.sequence) && (
+                            <button
+                              className={styles.departureBallastBtn}
+                              onClick={() => handleProposeBallast(c.sequence, c.portCode)}
+                              disabled={isProposingBallast}
+                            >
+                              Ballast…
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+              {ballastProposal && (
+                <div className={styles.ballastProposal}>
+                  <div className={styles.ballastProposalHeader}>
+                    <strong>Ballast proposal · departure {ballastProposal.portCode}</strong>
+                    <span>
+                      Trim {ballastProposal.proposal.before.trim.toFixed(2)}m → {ballastProposal.proposal.after.trim.toFixed(2)}m
+                      {' · '}GM {ballastProposal.proposal.before.gm.toFixed(2)}m → {ballastProposal.proposal.after.gm.toFixed(2)}m
+                    </span>
+                    <button className={styles.modalClose} onClick={() => setBallastProposal(null)} title="Dismiss">✕</button>
+                  </div>
+                  {ballastProposal.proposal.changes.length === 0 ? (
+                    <p className={styles.departureEmpty}>No ballast change improves trim — consider restowing cargo.</p>
+                  ) : (
+                    <ul className={styles.ballastChanges}>
+                      {ballastProposal.proposal.changes.map((ch: any) => (
+                        <li key={ch.tankId}>
+                          <strong>{ch.tankId}</strong> {ch.name} · {ch.fromPercent}% → {ch.toPercent}%
+                          {' '}({ch.deltaTonnes >= 0 ? '+' : ''}{ch.deltaTonnes.toFixed(0)} t)
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  {!ballastProposal.proposal.resolved && (
+                    <p className={styles.departureError}>Trim stays outside the reference limit with available ballast.</p>
+                  )}
+                  {ballastProposal.proposal.changes.length > 0 && (
+                    <button
+                      className={styles.btnSecondary}
+                      onClick={handleApplyBallast}
+                      disabled={isProposingBallast}
+                    >
+                      {isProposingBallast ? 'Applying…' : 'Apply to tank plan'}
+                    </button>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Deck containers — BAPLIE exchange with the terminal */}
+        <div className={styles.validationSection}>
+          <button
+            className={styles.validationSectionHeader}
+            onClick={() => toggleValidationSection('baplie')}
+          >
+            <span>Deck Containers · BAPLIE</span>
+            {baplieResult && (baplieResult.reconciliation.missing.length + baplieResult.reconciliation.extra.length
+              + baplieResult.reconciliation.mismatched.length) > 0 && (
+              <span className={styles.badgeWarning}>
+                {baplieResult.reconciliation.missing.length + baplieResult.reconciliation.extra.length
+                  + baplieResult.reconciliation.mismatched.length}
+              </span>
+            )}
+            <svg
+              className={`${styles.chevron} ${expandedValidation.baplie ? styles.chevronOpen : ''}`}
+              width="16" height="16" viewBox="0 0 16 16" fill="none"
+            >
+              <path d="M4 6l4 4 4-4" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round"/>
+            </svg>
+          </button>
+          {expandedValidation.baplie && (
+            <div className={styles.validationSectionContent}>
+              <div className={styles.departureActions}>
+                <button className={styles.btnSecondary} onClick={handleExportBaplie} disabled={isBaplieBusy}>
+                  Export BAPLIE
+                </button>
+                {canEdit && (
+                  <>
+                    <button
+                      className={styles.btnSecondary}
+                      onClick={() => baplieFileRef.current?.click()}
+                      disabled={isBaplieBusy}
+                    >
+                      {isBaplieBusy ? 'Reading…' : 'Reconcile terminal BAPLIE'}
+                    </button>
+                    <input
+                      ref={baplieFileRef}
+                      type="file"
+                      accept=".edi,.txt,.baplie"
+                      style={{ display: 'none' }}
+                      onChange={handleImportBaplie}
+                    />
+                  </>
+                )}
+              </div>
+              {baplieMsg && (
+                <p className={baplieMsg.type === 'error' ? styles.departureError : styles.departureEmpty}>
+                  {baplieMsg.text}
+                </p>
+              )}
+              {!baplieResult ? (
+                <p className={styles.departureEmpty}>
+                  Export slotted deck containers for the terminal, or load the terminal&apos;s BAPLIE to compare it with the plan.
+                </p>
+              ) : (
+                <div className={styles.baplieResult}>
+                  <p className={styles.departureEmpty}>
+                    Departure {baplieResult.departurePortCode} · plan {baplieResult.planContainers}
+                    {' '}· terminal {baplieResult.terminalContainers} · {baplieResult.reconciliation.matched} matched
+                  </p>
+                  {baplieResult.warnings.map((w: string, i: number) => (
+                    <p key={`bw-${i}`} className={styles.departureError}>{w}</p>
+                  ))}
+                  {baplieResult.reconciliation.missing.length > 0 && (
+                    <>
+                      <strong>Missing at terminal</strong>
+                      <ul className={styles.ballastChanges}>
+                        {baplieResult.reconciliation.missing.map((u: any) => (
+                          <li key={`m-${u.bay}-${u.row}-${u.tier}`}>
+                            {formatBaplieCell(u)} · {u.isoSizeType} · {u.bookingNumber ?? '—'} → {u.podPortCode ?? '—'}
+                          </li>
+                        ))}
+                      </ul>
+                    </>
+                  )}
+                  {baplieResult.reconciliation.extra.length > 0 && (
+                    <>
+                      <strong>Not in plan</strong>
+                      <ul className={styles.ballastChanges}>
+                        {baplieResult.reconciliation.extra.map((u: any, i: number) => (
+                          <li key={`x-${u.bay}-${u.row}-${u.tier}-${i}`}>
+                            {formatBaplieCell(u)} · {u.containerNumber ?? 'no container no.'} · {u.isoSizeType}
+                            {' '}· {u.bookingNumber ?? '—'} → {u.podPortCode ?? '—'}
+                          </li>
+                        ))}
+                      </ul>
+                    </>
+                  )}
+                  {baplieResult.reconciliation.mismatched.length > 0 && (
+                    <>
+                      <strong>Changed</strong>
+                      <ul className={styles.ballastChanges}>
+                        {baplieResult.reconciliation.mismatched.map((m: any) => (
+                          <li key={`d-${m.cell}`}>{m.cell} · {m.differences.join(', ')}</li>
+                        ))}
+                      </ul>
+                    </>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
         {/* Weight Distribution */}
         <div className={styles.validationSection}>
           <button
@@ -1836,6 +2588,7 @@ export default function StowagePlanDetailPage() {
           planNumber={plan.planNumber}
           vesselName={plan.vesselName}
           captainEmail={plan.captainEmail}
+          expectedVersion={planVersion}
           onClose={() => setShowSentModal(false)}
           onSuccess={() => {
             setShowSentModal(false);
@@ -1926,23 +2679,72 @@ export default function StowagePlanDetailPage() {
         />
       )}
 
+      {transferSource && (
+        <TransferCargoModal
+          planId={planId}
+          source={transferSource}
+          cargo={sectionCargoOptions}
+          targets={transferTargetOptions}
+          expectedVersion={planVersion}
+          onClose={() => setTransferSource(null)}
+          onSuccess={handleTransferSuccess}
+          onConflict={(conflict, retry) => offerRetry(conflict, `Transfer cargo from ${transferSource.sectionId}`, retry)}
+        />
+      )}
+
+      {showHistory && (
+        <PlanHistoryPanel
+          planId={planId}
+          history={history}
+          isLocked={isLocked || !canEdit}
+          expectedVersion={planVersion}
+          onConflict={(conflict, retry) => offerRetry(conflict, 'Restore plan history', retry)}
+          onClose={() => setShowHistory(false)}
+          onRestored={(result, message) => {
+            setShowHistory(false);
+            handleHistoryResult({ success: true, data: result, message });
+          }}
+        />
+      )}
+
+      {reduceSource && (
+        <ReduceCargoModal
+          planId={planId}
+          source={reduceSource}
+          cargo={sectionCargoOptions}
+          expectedVersion={planVersion}
+          onClose={() => setReduceSource(null)}
+          onSuccess={handleReduceSuccess}
+          onConflict={(conflict, retry) => offerRetry(conflict, `Reduce cargo in ${reduceSource.sectionId}`, retry)}
+        />
+      )}
+
+      {pendingConflict && (
+        <PlanConflictModal
+          conflict={pendingConflict.conflict}
+          change={pendingConflict.change}
+          overlaps={pendingConflict.overlaps}
+          onReload={handleConflictReload}
+          onApply={pendingConflict.apply && (() => {
+            const { apply, conflict } = pendingConflict;
+            setPendingConflict(null);
+            apply?.(conflict.version);
+          })}
+          onClose={() => setPendingConflict(null)}
+        />
+      )}
+
       {contextMenu && (
         <CompartmentContextMenu
           compartment={contextMenu.compartment}
           position={contextMenu.position}
           onClose={() => setContextMenu(null)}
-          onTransfer={(comp) => {
-            // TODO Step 3: open transfer modal
-            console.log('Transfer:', comp.sectionId);
-          }}
+          onTransfer={(comp) => setTransferSource(comp)}
           onAddCargo={(comp) => {
             setUnassignedTargetCompartment(comp);
             setUnassignedPanelOpen(true);
           }}
-          onReduceCargo={(comp) => {
-            // TODO Step 5: open reduce modal
-            console.log('Reduce:', comp.sectionId);
-          }}
+          onReduceCargo={(comp) => setReduceSource(comp)}
           onDetails={(comp) => {
             setSelectedSectionId(comp.sectionId);
           }}
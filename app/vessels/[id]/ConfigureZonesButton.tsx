@@ -3,21 +3,32 @@
 import { useState } from 'react';
 import { useRouter } from 'next/navigation';
 import ConfigureZonesModal, { type ZoneConfig } from '@/components/vessel/ConfigureZonesModal';
+import PlanConflictModal from '@/components/stowage/PlanConflictModal';
+import type { CargoCarriageSpecs } from '@/lib/constants/cargo-carriage';
+import type { PlanEditConflict } from '@/types/models';
 import styles from './page.module.css';
 
 interface ConfigureZonesButtonProps {
   planId: string | null;
+  planVersion: number;
   hasVoyage: boolean;
   zones: ZoneConfig[];
+  carriageSpecs: CargoCarriageSpecs;
 }
 
 export default function ConfigureZonesButton({
   planId,
+  planVersion,
   hasVoyage,
   zones,
+  carriageSpecs,
 }: ConfigureZonesButtonProps) {
   const router = useRouter();
   const [isOpen, setIsOpen] = useState(false);
+  const [pendingConflict, setPendingConflict] = useState<{
+    conflict: PlanEditConflict;
+    retry: (version: number) => void;
+  } | null>(null);
 
   const disabled = !hasVoyage || !planId;
 
@@ -32,6 +43,12 @@ export default function ConfigureZonesButton({
     router.refresh();
   }
 
+  function handleConflictReload() {
+    setPendingConflict(null);
+    setIsOpen(false);
+    router.refresh();
+  }
+
   return (
     <>
       <button
@@ -46,10 +63,28 @@ export default function ConfigureZonesButton({
       {planId && (
         <ConfigureZonesModal
           planId={planId}
+          expectedVersion={planVersion}
           zones={zones}
+          carriageSpecs={carriageSpecs}
           isOpen={isOpen}
           onClose={() => setIsOpen(false)}
           onSuccess={handleSuccess}
+          onConflict={(conflict, retry) => setPendingConflict({ conflict, retry })}
+        />
+      )}
+
+      {pendingConflict && (
+        <PlanConflictModal
+          conflict={pendingConflict.conflict}
+          change="Zone temperature changes"
+          overlaps={null}
+          onReload={handleConflictReload}
+          onApply={() => {
+            const { conflict, retry } = pendingConflict;
+            setPendingConflict(null);
+            retry(conflict.version);
+          }}
+          onClose={() => setPendingConflict(null)}
         />
       )}
     </>
@@ -6,6 +6,7 @@ import ConfigureZonesButton from './ConfigureZonesButton';
 import { getVesselById } from '@/app/actions/vessel';
 import { getVoyagesByVessel } from '@/app/actions/voyage';
 import { getStowagePlansByVoyage } from '@/app/actions/stowage-plan';
+import { getCargoCarriageSpecs } from '@/app/actions/cargo-product';
 import { buildVesselLayout, type VoyageTempAssignment, type VesselLayout } from '@/lib/vessel-profile-data';
 import type { ZoneConfig } from '@/components/vessel/ConfigureZonesModal';
 import Link from 'next/link';
@@ -242,6 +243,10 @@ export default async function VesselDetailPage({
   const totalCapacity = profileAssignments.reduce((s, a) => s + a.palletsCapacity, 0);
   const zoneStats = getZoneStats(profileAssignments);
 
+  // Carriage ranges per cargo type (CargoProduct) for the Configure Zones modal
+  const carriageResult = await getCargoCarriageSpecs();
+  const carriageSpecs = carriageResult.success ? carriageResult.data : {};
+
   // Build zone configs for the Configure Zones modal
   const zoneConfigs: ZoneConfig[] = zoneStats.map((z: any) => {
     const coolSection = selectedPlan?.coolingSectionStatus?.find(
@@ -303,8 +308,10 @@ export default async function VesselDetailPage({
             )}
             <ConfigureZonesButton
               planId={selectedPlan?._id?.toString() ?? null}
+              planVersion={selectedPlan?.editVersion ?? 0}
               hasVoyage={!!effectiveVoyageId}
               zones={zoneConfigs}
+              carriageSpecs={carriageSpecs}
             />
             {selectedPlan && (
               <Link href={`/stowage-plans/${selectedPlan._id}`}>
@@ -22,6 +22,7 @@ export default async function VoyagesPage({ searchParams }: { searchParams?: Pro
   const initialStatusFilter = params?.status ?? '';
   const [session, result] = await Promise.all([auth(), getVoyages()]);
   const isDemo = (session?.user as any)?.role === 'DEMO_AGENT';
+  const canGenerateSchedule = ['ADMIN', 'SHIPPING_PLANNER'].includes((session?.user as any)?.role);
   const voyages = result.success ? result.data : [];
 
   // Collect unique (city/portName, country, etaDate) combos for forecast lookup
@@ -113,7 +114,12 @@ export default async function VoyagesPage({ searchParams }: { searchParams?: Pro
               + New Voyage
             </button>
           ) : (
-            <Link href="/voyages/new" className={styles.btnPrimary}>+ New Voyage</Link>
+            <div className={styles.headerActions}>
+              {canGenerateSchedule && (
+                <Link href="/voyages/schedule" className={styles.btnSecondary}>Season Schedule</Link>
+              )}
+              <Link href="/voyages/new" className={styles.btnPrimary}>+ New Voyage</Link>
+            </div>
           )}
         </div>
 
@@ -0,0 +1,255 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { previewSeasonSchedule, createSeasonSchedule } from '@/app/actions/voyage';
+import { getISOWeekAndYear } from '@/lib/season-schedule';
+import type { ProposedVoyage } from '@/lib/season-schedule';
+import styles from './page.module.css';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+interface ServiceData {
+  _id: string;
+  serviceCode: string;
+  serviceName: string;
+  cycleDurationWeeks?: number;
+  vesselPool?: string[];
+}
+
+interface CreateResult {
+  created: { voyageNumber: string; voyageId: string }[];
+  skipped: { voyageNumber: string; reason: string }[];
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+// Default start: the ISO week after the current one
+function nextISOWeek() {
+  return getISOWeekAndYear(new Date(Date.now() + 7 * 24 * 60 * 60 * 1000));
+}
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+export default function SeasonScheduleClient({ services }: { services: ServiceData[] }) {
+  const router = useRouter();
+  const [serviceId, setServiceId] = useState(services.length === 1 ? services[0]._id : '');
+  const [startYear, setStartYear] = useState(() => nextISOWeek().year);
+  const [startWeek, setStartWeek] = useState(() => nextISOWeek().week);
+  const [weeks, setWeeks] = useState(12);
+
+  const [proposals, setProposals] = useState<ProposedVoyage[] | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [result, setResult] = useState<CreateResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const service = services.find(s => s._id === serviceId);
+  const params = { serviceId, startYear, startWeek, weeks };
+
+  // Changing a parameter invalidates the preview
+  const resetPreview = () => { setProposals(null); setResult(null); };
+
+  const handlePreview = () => {
+    setError(null);
+    setResult(null);
+    startTransition(async () => {
+      const res = await previewSeasonSchedule(params);
+      if (!res.success) {
+        setError(res.error ?? 'Failed to preview schedule');
+        setProposals(null);
+        return;
+      }
+      setProposals(res.data);
+      setSelected(new Set(res.data.filter(p => p.conflicts.length === 0).map(p => p.voyageNumber)));
+    });
+  };
+
+  const handleCreate = () => {
+    setError(null);
+    startTransition(async () => {
+      const res = await createSeasonSchedule({ ...params, voyageNumbers: Array.from(selected) });
+      if (!res.success) {
+        setError(res.error ?? 'Failed to create voyages');
+        return;
+      }
+      setResult({ created: res.created ?? [], skipped: res.skipped ?? [] });
+      setProposals(null);
+      router.refresh();
+    });
+  };
+
+  const toggle = (voyageNumber: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(voyageNumber)) next.delete(voyageNumber);
+      else next.add(voyageNumber);
+      return next;
+    });
+  };
+
+  const conflictCount = proposals?.filter(p => p.conflicts.length > 0).length ?? 0;
+
+  return (
+    <div className={styles.container}>
+      <div className={styles.titleRow}>
+        <h1>Season Schedule</h1>
+        <Link href="/voyages" className={styles.cancelBtn}>Back to Voyages</Link>
+      </div>
+
+      <div className={styles.content}>
+        <h2>Generate Voyages</h2>
+        <p className={styles.description}>
+          One voyage per week from the service&apos;s port rotation, with vessels assigned round-robin from
+          its vessel pool. Review the proposal, untick any voyages you don&apos;t want, then create them.
+        </p>
+
+        <div className={styles.formGrid}>
+          <label className={styles.field}>
+            <span className={styles.fieldLabel}>Service</span>
+            <select
+              className={styles.input}
+              value={serviceId}
+              onChange={e => { setServiceId(e.target.value); resetPreview(); }}
+            >
+              <option value="">Select a service…</option>
+              {services.map(s => (
+                <option key={s._id} value={s._id}>{s.serviceCode} — {s.serviceName}</option>
+              ))}
+            </select>
+          </label>
+          <label className={styles.field}>
+            <span className={styles.fieldLabel}>Start Year</span>
+            <input
+              type="number"
+              className={styles.input}
+              value={startYear}
+              min={2000}
+              max={2100}
+              onChange={e => { setStartYear(Number(e.target.value)); resetPreview(); }}
+            />
+          </label>
+          <label className={styles.field}>
+            <span className={styles.fieldLabel}>Start Week</span>
+            <input
+              type="number"
+              className={styles.input}
+              value={startWeek}
+              min={1}
+              max={53}
+              onChange={e => { setStartWeek(Number(e.target.value)); resetPreview(); }}
+            />
+          </label>
+          <label className={styles.field}>
+            <span className={styles.fieldLabel}>Weeks</span>
+            <input
+              type="number"
+              className={styles.input}
+              value={weeks}
+              min={1}
+              max={52}
+              onChange={e => { setWeeks(Number(e.target.value)); resetPreview(); }}
+            />
+          </label>
+        </div>
+        {service && (
+          <p className={styles.fieldHint}>
+            {service.vesselPool?.length ?? 0} vessel(s) in pool · {service.cycleDurationWeeks ?? '—'}-week cycle
+          </p>
+        )}
+
+        {proposals && (
+          <>
+            <div className={styles.previewHeader}>
+              <span>
+                {proposals.length} proposed voyage(s) · {selected.size} selected
+                {conflictCount > 0 && <span className={styles.conflict}> · {conflictCount} with conflicts</span>}
+              </span>
+            </div>
+            <table className={styles.table}>
+              <thead>
+                <tr>
+                  <th></th>
+                  <th>Week</th>
+                  <th>Voyage</th>
+                  <th>Vessel</th>
+                  <th>Port Calls (ETA)</th>
+                  <th>Vessel Free</th>
+                  <th>Conflicts</th>
+                </tr>
+              </thead>
+              <tbody>
+                {proposals.map(p => {
+                  const hasConflict = p.conflicts.length > 0;
+                  return (
+                    <tr key={`${p.year}-${p.weekNumber}`} className={hasConflict ? styles.rowConflict : undefined}>
+                      <td>
+                        <input
+                          type="checkbox"
+                          checked={selected.has(p.voyageNumber)}
+                          disabled={hasConflict}
+                          onChange={() => toggle(p.voyageNumber)}
+                        />
+                      </td>
+                      <td>WK{String(p.weekNumber).padStart(2, '0')} {p.year}</td>
+                      <td className={styles.voyageNumber}>{p.voyageNumber}</td>
+                      <td>{p.vesselName}</td>
+                      <td className={styles.portDates}>
+                        {p.portCalls.map(pc => (
+                          <div key={pc.sequence}>{pc.portCode} · {pc.eta}</div>
+                        ))}
+                      </td>
+                      <td className={styles.portDates}>{p.releasedAt}</td>
+                      <td>
+                        {hasConflict
+                          ? p.conflicts.map((c, i) => <div key={i} className={styles.conflict}>{c.message}</div>)
+                          : <span className={styles.ok}>None</span>}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </>
+        )}
+
+        {result && (
+          <div className={styles.resultBox}>
+            {result.created.length} voyage(s) created{result.skipped.length > 0 && `, ${result.skipped.length} skipped`}.
+            {result.skipped.length > 0 && (
+              <ul>
+                {result.skipped.map(s => <li key={s.voyageNumber}>{s.voyageNumber}: {s.reason}</li>)}
+              </ul>
+            )}
+          </div>
+        )}
+
+        {error && <div className={styles.errorBox}>{error}</div>}
+
+        <div className={styles.actions}>
+          <button
+            className={styles.btnSecondary}
+            onClick={handlePreview}
+            disabled={!serviceId || isPending}
+          >
+            {isPending && !proposals ? 'Generating…' : proposals ? 'Regenerate Preview' : 'Preview Schedule'}
+          </button>
+          <button
+            className={styles.btnPrimary}
+            onClick={handleCreate}
+            disabled={!proposals || selected.size === 0 || isPending}
+          >
+            {isPending && proposals ? 'Creating…' : `Create ${selected.size} Voyage${selected.size === 1 ? '' : 's'}`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
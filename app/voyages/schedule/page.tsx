@@ -0,0 +1,25 @@
+import { auth } from '@/auth';
+import { redirect } from 'next/navigation';
+import AppShell from '@/components/layout/AppShell';
+import { getActiveServices } from '@/app/actions/service';
+import SeasonScheduleClient from './SeasonScheduleClient';
+
+export default async function SeasonSchedulePage() {
+  const session = await auth();
+  const role = (session?.user as any)?.role;
+  if (role !== 'ADMIN' && role !== 'SHIPPING_PLANNER') redirect('/voyages');
+  const serviceFilter = (session?.user as any)?.serviceFilter ?? [];
+
+  const result = await getActiveServices();
+  const allServices = result.success ? (result.data ?? []) : [];
+
+  const visibleServices = serviceFilter.length === 0
+    ? allServices
+    : allServices.filter((s: any) => serviceFilter.includes(s.serviceCode));
+
+  return (
+    <AppShell>
+      <SeasonScheduleClient services={visibleServices} />
+    </AppShell>
+  );
+}
@@ -1,10 +1,12 @@
 'use client';
 
 import { useEffect, useRef } from 'react';
+import { usePathname } from 'next/navigation';
 import { useSession, signOut } from 'next-auth/react';
 import { useInactivitySignOut } from '@/hooks/useInactivitySignOut';
 
-// Signs the user out after 15 minutes of inactivity.
+// Signs the user out after 15 minutes of inactivity — except on the live plan
+// monitor (/stowage-plans/[id]/live), which runs unattended on wall screens.
 // Also handles server-initiated session invalidation: when the Node.js jwt
 // callback in auth.ts detects a sessionVersion mismatch (concurrent login on
 // another device), it returns null, which clears the session cookie and causes
@@ -12,9 +14,10 @@ import { useInactivitySignOut } from '@/hooks/useInactivitySignOut';
 // transition and redirects to /login immediately on the same page load.
 export default function InactivityTimer() {
   const { data: session, status } = useSession();
+  const pathname = usePathname();
   const prevStatusRef = useRef<string | undefined>(undefined);
 
-  useInactivitySignOut(!!session?.user);
+  useInactivitySignOut(!!session?.user && !/^\/stowage-plans\/[^/]+\/live$/.test(pathname ?? ''));
 
   useEffect(() => {
     // Only redirect when transitioning FROM 'authenticated' TO 'unauthenticated'.
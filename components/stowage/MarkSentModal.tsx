@@ -18,6 +18,7 @@ interface MarkSentModalProps {
   planNumber: string;
   vesselName: string;
   captainEmail?: string;
+  expectedVersion: number;            // the captain gets the plan as loaded, or nothing
   onSuccess: () => void;
   onClose: () => void;
 }
@@ -64,6 +65,7 @@ export default function MarkSentModal({
   planNumber,
   vesselName,
   captainEmail,
+  expectedVersion,
   onSuccess,
   onClose,
 }: MarkSentModalProps) {
@@ -93,6 +95,7 @@ export default function MarkSentModal({
         planId,
         recipients: selected,
         note: note.trim() || undefined,
+        expectedVersion,
       });
 
       if (result.success) {
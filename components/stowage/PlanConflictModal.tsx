@@ -0,0 +1,80 @@
+'use client';
+
+import type { PlanEditConflict } from '@/types/models';
+import styles from './PlanConflictModal.module.css';
+
+interface PlanConflictModalProps {
+  conflict: PlanEditConflict;
+  change: string;                     // the edit the server refused
+  overlaps: string[] | null;          // cargo both planners changed; null when the server re-runs the edit
+  onApply?: () => void;               // replay the edit on the latest plan; omitted when it cannot be
+  onReload: () => void;               // drop the edit and load the latest plan
+  onClose: () => void;
+}
+
+// Shown in the viewer's own time zone — the other planner may be in another office
+function fmtEditedAt(d: Date | string) {
+  return new Date(d).toLocaleString('en-GB', {
+    day: '2-digit', month: 'short', hour: '2-digit', minute: '2-digit', timeZoneName: 'short',
+  });
+}
+
+export default function PlanConflictModal({
+  conflict,
+  change,
+  overlaps,
+  onApply,
+  onReload,
+  onClose,
+}: PlanConflictModalProps) {
+  return (
+    <div className={styles.overlay} onClick={onClose}>
+      <div className={styles.modal} onClick={e => e.stopPropagation()}>
+        <div className={styles.header}>
+          <h3>Plan Changed by Someone Else</h3>
+          <button className={styles.closeBtn} onClick={onClose}>✕</button>
+        </div>
+
+        <p className={styles.text}>
+          <strong>{conflict.lastEditedBy ?? 'Another user'}</strong> saved this plan
+          {conflict.lastEditedAt && <> on {fmtEditedAt(conflict.lastEditedAt)}</>}, after you opened it.
+          Your change was not saved:
+        </p>
+        <p className={styles.change}>{change}</p>
+
+        {!onApply ? (
+          <p className={styles.hint}>
+            Reload to see their changes, then make yours again if it still applies.
+          </p>
+        ) : overlaps === null ? (
+          <p className={styles.hint}>
+            Applying runs your change again on their version of the plan, with the same checks.
+          </p>
+        ) : overlaps.length > 0 ? (
+          <div className={styles.overlaps}>
+            <span>Both of you changed:</span>
+            <ul>
+              {overlaps.map(label => <li key={label}>{label}</li>)}
+            </ul>
+            <span>Applying your change keeps your pallets there and replaces theirs.</span>
+          </div>
+        ) : (
+          <p className={styles.hint}>
+            Your change does not touch the cargo they changed. Applying it keeps their edits.
+          </p>
+        )}
+
+        <div className={styles.actions}>
+          <button className={styles.btnCancel} onClick={onReload}>
+            Discard mine &amp; reload
+          </button>
+          {onApply && (
+            <button className={styles.btnConfirm} onClick={onApply}>
+              Apply my change on top
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
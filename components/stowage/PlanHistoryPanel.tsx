@@ -0,0 +1,124 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { restorePlanToOperation } from '@/app/actions/stowage-plan';
+import type { PlanOperationSummary } from '@/lib/plan-history';
+import type { PlanEditConflict, PlanOperationType } from '@/types/models';
+import styles from './PlanHistoryPanel.module.css';
+
+export interface PlanHistoryResult {
+  cargoPositions: any[];
+  stagedCargo: any[];
+  coolingSectionStatus: any[];
+  conflicts: any[];
+  stabilityIndicators: any[];
+  history: PlanOperationSummary[];
+  version: number;
+}
+
+interface PlanHistoryPanelProps {
+  planId: string;
+  history: PlanOperationSummary[];     // newest first
+  isLocked: boolean;
+  expectedVersion: number;
+  onRestored: (result: PlanHistoryResult, message: string) => void;
+  onConflict: (conflict: PlanEditConflict, retry: (version: number) => void) => void;
+  onClose: () => void;
+}
+
+const TYPE_LABELS: Record<PlanOperationType, string> = {
+  ASSIGN: 'Assign',
+  REMOVE: 'Remove',
+  TRANSFER: 'Transfer',
+  REDUCE: 'Reduce',
+  SET_TEMPERATURE: 'Temperature',
+};
+
+function fmtWhen(d: Date | string) {
+  return new Date(d).toLocaleString('en-GB', {
+    day: '2-digit', month: 'short', hour: '2-digit', minute: '2-digit',
+  });
+}
+
+export default function PlanHistoryPanel({
+  planId,
+  history,
+  isLocked,
+  expectedVersion,
+  onRestored,
+  onConflict,
+  onClose,
+}: PlanHistoryPanelProps) {
+  const [error, setError] = useState<string | null>(null);
+  const [restoringSeq, setRestoringSeq] = useState<number | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  // The plan currently reflects every operation that is not undone
+  const currentSeq = history.find(op => !op.undone)?.seq ?? 0;
+
+  const handleRestore = (seq: number, version = expectedVersion) => {
+    setError(null);
+    setRestoringSeq(seq);
+    startTransition(async () => {
+      const result = await restorePlanToOperation({ planId, seq, expectedVersion: version });
+      if (result.success) onRestored(result.data as PlanHistoryResult, result.message ?? 'Plan restored');
+      else if ('conflict' in result) onConflict(result.conflict, latest => handleRestore(seq, latest));
+      else setError(result.error ?? 'Failed to restore plan');
+      setRestoringSeq(null);
+    });
+  };
+
+  const restoreButton = (seq: number) => !isLocked && seq !== currentSeq && (
+    <button className={styles.btnRestore} onClick={() => handleRestore(seq)} disabled={isPending}>
+      {isPending && restoringSeq === seq ? 'Restoring…' : 'Restore'}
+    </button>
+  );
+
+  return (
+    <div className={styles.overlay} onClick={onClose}>
+      <div className={styles.modal} onClick={e => e.stopPropagation()}>
+        <div className={styles.header}>
+          <h3>Edit History</h3>
+          <button className={styles.closeBtn} onClick={onClose}>✕</button>
+        </div>
+        <p className={styles.hint}>
+          Restore puts the plan back to how it was right after that edit. Later edits stay
+          available to redo until a new edit is made.
+        </p>
+
+        {history.length === 0 ? (
+          <p className={styles.empty}>No manual edits recorded for this plan.</p>
+        ) : (
+          <ol className={styles.timeline}>
+            {history.map(op => (
+              <li
+                key={op.seq}
+                className={`${styles.entry} ${op.undone ? styles.entryUndone : ''} ${op.seq === currentSeq ? styles.entryCurrent : ''}`}
+              >
+                <span className={`${styles.typeBadge} ${styles[`type${op.type}`]}`}>{TYPE_LABELS[op.type]}</span>
+                <div className={styles.entryBody}>
+                  <span className={styles.summary}>{op.summary}</span>
+                  <span className={styles.meta}>
+                    {op.performedBy} · {fmtWhen(op.performedAt)}
+                    {op.undone && ' · undone'}
+                    {op.seq === currentSeq && ' · current'}
+                  </span>
+                </div>
+                {restoreButton(op.seq)}
+              </li>
+            ))}
+            <li className={`${styles.entry} ${currentSeq === 0 ? styles.entryCurrent : ''}`}>
+              <span className={styles.typeBadge}>Start</span>
+              <div className={styles.entryBody}>
+                <span className={styles.summary}>Before the first recorded edit</span>
+              </div>
+              {restoreButton(0)}
+            </li>
+          </ol>
+        )}
+
+        {error && <p className={styles.error}>{error}</p>}
+      </div>
+    </div>
+  );
+}
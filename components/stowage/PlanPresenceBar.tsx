@@ -0,0 +1,56 @@
+'use client';
+
+import type { PlanViewer } from '@/types/models';
+import styles from './PlanPresenceBar.module.css';
+
+interface PlanPresenceBarProps {
+  viewers: PlanViewer[];              // other users with the plan open
+  // Latest save by someone else since this page loaded the plan
+  staleEdit: { lastEditedBy: string | null; lastEditedAt: Date | string | null } | null;
+  onReload: () => void;
+}
+
+function fmtTime(d: Date | string) {
+  return new Date(d).toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit', timeZoneName: 'short' });
+}
+
+export default function PlanPresenceBar({ viewers, staleEdit, onReload }: PlanPresenceBarProps) {
+  if (viewers.length === 0 && !staleEdit) return null;
+  const editing = viewers.filter(v => v.editing);
+
+  return (
+    <div className={`${styles.bar} ${staleEdit ? styles.barStale : ''}`}>
+      {viewers.length > 0 && (
+        <div className={styles.viewers}>
+          <span className={styles.label}>Also open by</span>
+          {viewers.map(v => (
+            <span
+              key={v.userId}
+              className={`${styles.viewer} ${v.editing ? styles.viewerEditing : ''}`}
+              title={`Last seen ${fmtTime(v.lastSeenAt)}`}
+            >
+              <span className={styles.dot} />
+              {v.userName}
+              {v.officeCode && <span className={styles.office}>{v.officeCode}</span>}
+              {v.editing && <span className={styles.editingTag}>editing</span>}
+            </span>
+          ))}
+          {editing.length > 0 && !staleEdit && (
+            <span className={styles.hint}>
+              Edits made at the same time are checked on save — you will be asked before anything is overwritten.
+            </span>
+          )}
+        </div>
+      )}
+      {staleEdit && (
+        <div className={styles.stale}>
+          <span>
+            Saved by <strong>{staleEdit.lastEditedBy ?? 'another user'}</strong>
+            {staleEdit.lastEditedAt && <> at {fmtTime(staleEdit.lastEditedAt)}</>} since you opened this plan.
+          </span>
+          <button className={styles.btnReload} onClick={onReload}>Reload</button>
+        </div>
+      )}
+    </div>
+  );
+}
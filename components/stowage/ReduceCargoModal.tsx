@@ -0,0 +1,184 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { reduceCargo } from '@/app/actions/stowage-plan';
+import type { PlanEditConflict } from '@/types/models';
+import type { ContextMenuCompartment } from './CompartmentContextMenu';
+import type { TransferCargoOption } from './TransferCargoModal';
+import styles from './ReduceCargoModal.module.css';
+
+export type ReduceMode = 'STAGE' | 'CANCEL';
+
+export interface ReduceResult {
+  cargoPositions: any[];
+  stagedCargo: any[];
+  coolingSectionStatus: any[];
+  conflicts: any[];
+  stabilityIndicators: any[];
+  bookingQuantity: number | null;   // booking total after a CANCEL
+  version: number;
+}
+
+interface ReduceCargoModalProps {
+  planId: string;
+  source: ContextMenuCompartment;
+  cargo: TransferCargoOption[];       // bookings stowed in the source section
+  expectedVersion: number;
+  onSuccess: (result: ReduceResult, bookingId: string, message: string) => void;
+  onConflict: (conflict: PlanEditConflict, retry: (version: number) => void) => void;
+  onClose: () => void;
+}
+
+// Estimate positions (FORECAST-* / CONTRACT-ESTIMATE-*) have no booking to reduce
+const isRealBooking = (bookingId: string) => /^[a-f\d]{24}$/i.test(bookingId);
+
+export default function ReduceCargoModal({
+  planId,
+  source,
+  cargo,
+  expectedVersion,
+  onSuccess,
+  onConflict,
+  onClose,
+}: ReduceCargoModalProps) {
+  const [bookingId, setBookingId] = useState(cargo[0]?.bookingId ?? '');
+  const [pallets, setPallets] = useState(cargo[0]?.quantity ?? 0);
+  const [mode, setMode] = useState<ReduceMode>('STAGE');
+  const [reason, setReason] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const selected = cargo.find(c => c.bookingId === bookingId);
+  const canCancel = isRealBooking(bookingId);
+  const isValid = !!selected && pallets >= 1 && pallets <= selected.quantity && !!reason.trim();
+
+  const handleSubmit = (version = expectedVersion) => {
+    setError(null);
+    startTransition(async () => {
+      const result = await reduceCargo({
+        planId,
+        bookingId,
+        sectionId: source.sectionId,
+        pallets,
+        reason: reason.trim(),
+        mode,
+        expectedVersion: version,
+      });
+      if (result.success) onSuccess(result.data as ReduceResult, bookingId, result.message ?? 'Cargo reduced');
+      else if ('conflict' in result) onConflict(result.conflict, handleSubmit);
+      else setError(result.error ?? 'Failed to reduce cargo');
+    });
+  };
+
+  return (
+    <div className={styles.overlay} onClick={onClose}>
+      <div className={styles.modal} onClick={e => e.stopPropagation()}>
+        <div className={styles.header}>
+          <h3>Reduce / Cancel Cargo — Hold {source.holdNumber}-{source.level}</h3>
+          <button className={styles.closeBtn} onClick={onClose}>✕</button>
+        </div>
+
+        <div className={styles.formGrid}>
+          <div className={styles.field}>
+            <label className={styles.label}>Booking</label>
+            <select
+              className={styles.input}
+              value={bookingId}
+              onChange={e => {
+                const next = cargo.find(c => c.bookingId === e.target.value);
+                setBookingId(e.target.value);
+                setPallets(next?.quantity ?? 0);
+                if (!isRealBooking(e.target.value)) setMode('STAGE');
+                setError(null);
+              }}
+              disabled={isPending}
+            >
+              {cargo.map(c => (
+                <option key={c.bookingId} value={c.bookingId}>
+                  {c.bookingNumber ?? c.bookingId} · {c.cargoType?.replace(/_/g, ' ')} · {c.quantity} plt
+                  {c.podPortCode ? ` → ${c.podPortCode}` : ''}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className={styles.field}>
+            <label className={styles.label}>Pallets</label>
+            <input
+              className={styles.input}
+              type="number"
+              min={1}
+              max={selected?.quantity ?? 1}
+              value={pallets}
+              onChange={e => setPallets(parseInt(e.target.value, 10) || 0)}
+              disabled={isPending}
+            />
+          </div>
+        </div>
+
+        <div className={styles.modes}>
+          <label className={styles.mode}>
+            <input
+              type="radio"
+              name="reduce-mode"
+              checked={mode === 'STAGE'}
+              onChange={() => setMode('STAGE')}
+              disabled={isPending}
+            />
+            <span>
+              <strong>Move to staging</strong>
+              <span className={styles.modeHint}>Pallets stay on the plan as staged cargo and can be re-placed later</span>
+            </span>
+          </label>
+          <label className={`${styles.mode} ${!canCancel ? styles.modeDisabled : ''}`}>
+            <input
+              type="radio"
+              name="reduce-mode"
+              checked={mode === 'CANCEL'}
+              onChange={() => setMode('CANCEL')}
+              disabled={isPending || !canCancel}
+            />
+            <span>
+              <strong>Cancel pallets and reduce booking</strong>
+              <span className={styles.modeHint}>
+                {canCancel
+                  ? 'Pallets leave the plan and the booking quantity is lowered by the same amount'
+                  : 'Estimated cargo has no booking to reduce'}
+              </span>
+            </span>
+          </label>
+        </div>
+
+        <div className={styles.field}>
+          <label className={styles.label}>Reason</label>
+          <input
+            className={styles.input}
+            type="text"
+            value={reason}
+            onChange={e => setReason(e.target.value)}
+            placeholder="e.g. Shipper short-shipped 4 pallets"
+            maxLength={500}
+            disabled={isPending}
+          />
+        </div>
+
+        {error && <p className={styles.error}>{error}</p>}
+
+        <div className={styles.actions}>
+          <button className={styles.btnCancel} onClick={onClose} disabled={isPending}>
+            Close
+          </button>
+          <button
+            className={mode === 'CANCEL' ? styles.btnDanger : styles.btnConfirm}
+            onClick={() => handleSubmit()}
+            disabled={!isValid || isPending}
+          >
+            {isPending
+              ? 'Saving…'
+              : mode === 'STAGE' ? `Stage ${pallets} pallet(s)` : `Cancel ${pallets} pallet(s)`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,301 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { previewCargoTransfer, transferCargo } from '@/app/actions/stowage-plan';
+import type { PlanEditConflict } from '@/types/models';
+import type { ContextMenuCompartment } from './CompartmentContextMenu';
+import styles from './TransferCargoModal.module.css';
+
+export interface TransferCargoOption {
+  bookingId: string;
+  bookingNumber?: string;
+  cargoType?: string;
+  podPortCode?: string;
+  quantity: number;
+}
+
+export interface TransferTargetOption {
+  sectionId: string;
+  zoneId?: string;
+  temperature?: number;
+  free: number;
+}
+
+export interface TransferResult {
+  cargoPositions: any[];
+  coolingSectionStatus: any[];
+  conflicts: any[];
+  stabilityIndicators: any[];
+  version: number;                    // plan editVersion after the save
+}
+
+interface SectionPreview {
+  sectionId: string;
+  zoneId: string;
+  capacity: number;
+  temperatureBefore: number | null;
+  temperatureAfter: number | null;
+  palletsBefore: number;
+  palletsAfter: number;
+  bookings: { bookingId: string; bookingNumber?: string; cargoType?: string; podPortCode?: string; before: number; after: number }[];
+}
+
+interface StabilityPoint {
+  trimIndex: number;
+  listIndex: number;
+  status: 'GREEN' | 'YELLOW' | 'RED';
+}
+
+interface Preview {
+  violations: { type: string; message: string }[];
+  from: SectionPreview;
+  to: SectionPreview;
+  stability: { portSequence: number; portCode: string; before: StabilityPoint; after: StabilityPoint | null }[];
+  newWarnings: string[];
+}
+
+interface TransferCargoModalProps {
+  planId: string;
+  source: ContextMenuCompartment;
+  cargo: TransferCargoOption[];       // bookings stowed in the source section
+  targets: TransferTargetOption[];    // other hold sections of the vessel
+  expectedVersion: number;
+  onSuccess: (result: TransferResult, message: string) => void;
+  // Plan was saved by someone else; `retry` re-submits against `conflict.version`
+  onConflict: (conflict: PlanEditConflict, retry: (version: number) => void) => void;
+  onClose: () => void;
+}
+
+function fmtTemp(t: number | null | undefined) {
+  return t == null ? '—' : `${t > 0 ? '+' : ''}${t}°C`;
+}
+
+function SectionCard({ title, section }: { title: string; section: SectionPreview }) {
+  return (
+    <div className={styles.sectionCard}>
+      <div className={styles.sectionHead}>
+        <span className={styles.sectionTitle}>{title} · {section.sectionId}</span>
+        <span className={styles.sectionMeta}>
+          {section.zoneId} · {fmtTemp(section.temperatureBefore)}
+          {section.temperatureAfter !== section.temperatureBefore && <> → {fmtTemp(section.temperatureAfter)}</>}
+        </span>
+      </div>
+      <div className={styles.fill}>
+        {section.palletsBefore} → <strong>{section.palletsAfter}</strong> / {section.capacity} plt
+      </div>
+      <ul className={styles.bookingRows}>
+        {section.bookings.map(b => (
+          <li key={b.bookingId} className={b.before !== b.after ? styles.bookingChanged : undefined}>
+            <span className={styles.mono}>{b.bookingNumber ?? b.bookingId}</span>
+            <span>{b.cargoType?.replace(/_/g, ' ')}{b.podPortCode ? ` → ${b.podPortCode}` : ''}</span>
+            <span className={styles.mono}>{b.before} → {b.after}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+export default function TransferCargoModal({
+  planId,
+  source,
+  cargo,
+  targets,
+  expectedVersion,
+  onSuccess,
+  onConflict,
+  onClose,
+}: TransferCargoModalProps) {
+  const [bookingId, setBookingId] = useState(cargo[0]?.bookingId ?? '');
+  const [pallets, setPallets] = useState(cargo[0]?.quantity ?? 0);
+  const [toSectionId, setToSectionId] = useState('');
+  const [reason, setReason] = useState('');
+  const [preview, setPreview] = useState<Preview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isPreviewing, startPreview] = useTransition();
+  const [isTransferring, startTransfer] = useTransition();
+
+  const selected = cargo.find(c => c.bookingId === bookingId);
+  const move = { planId, bookingId, fromSectionId: source.sectionId, toSectionId, pallets };
+  const isValidMove = !!selected && !!toSectionId && pallets >= 1 && pallets <= selected.quantity;
+  const canTransfer = !!preview && preview.violations.length === 0 && !isTransferring;
+
+  // Any change to the move invalidates the preview
+  const edit = <T,>(setter: (v: T) => void) => (value: T) => {
+    setter(value);
+    setPreview(null);
+    setError(null);
+  };
+
+  const handlePreview = () => {
+    setError(null);
+    startPreview(async () => {
+      const result = await previewCargoTransfer(move);
+      if (result.success) setPreview(result.data as Preview);
+      else setError(result.error ?? 'Failed to preview transfer');
+    });
+  };
+
+  const handleTransfer = (version = expectedVersion) => {
+    setError(null);
+    startTransfer(async () => {
+      const result = await transferCargo({ ...move, reason: reason.trim() || undefined, expectedVersion: version });
+      if (result.success) onSuccess(result.data as TransferResult, result.message ?? 'Cargo transferred');
+      else if ('conflict' in result) onConflict(result.conflict, handleTransfer);
+      else setError(result.error ?? 'Failed to transfer cargo');
+    });
+  };
+
+  return (
+    <div className={styles.overlay} onClick={onClose}>
+      <div className={styles.modal} onClick={e => e.stopPropagation()}>
+        <div className={styles.header}>
+          <h3>Transfer Cargo — Hold {source.holdNumber}-{source.level}</h3>
+          <button className={styles.closeBtn} onClick={onClose}>✕</button>
+        </div>
+
+        <div className={styles.formGrid}>
+          <div className={styles.field}>
+            <label className={styles.label}>Booking</label>
+            <select
+              className={styles.input}
+              value={bookingId}
+              onChange={e => {
+                const next = cargo.find(c => c.bookingId === e.target.value);
+                edit(setBookingId)(e.target.value);
+                setPallets(next?.quantity ?? 0);
+              }}
+              disabled={isTransferring}
+            >
+              {cargo.map(c => (
+                <option key={c.bookingId} value={c.bookingId}>
+                  {c.bookingNumber ?? c.bookingId} · {c.cargoType?.replace(/_/g, ' ')} · {c.quantity} plt
+                  {c.podPortCode ? ` → ${c.podPortCode}` : ''}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className={styles.field}>
+            <label className={styles.label}>Pallets</label>
+            <input
+              className={styles.input}
+              type="number"
+              min={1}
+              max={selected?.quantity ?? 1}
+              value={pallets}
+              onChange={e => edit(setPallets)(parseInt(e.target.value, 10) || 0)}
+              disabled={isTransferring}
+            />
+          </div>
+
+          <div className={styles.field}>
+            <label className={styles.label}>To section</label>
+            <select
+              className={styles.input}
+              value={toSectionId}
+              onChange={e => edit(setToSectionId)(e.target.value)}
+              disabled={isTransferring}
+            >
+              <option value="">— choose —</option>
+              {targets.map(t => (
+                <option key={t.sectionId} value={t.sectionId}>
+                  {t.sectionId} · {t.zoneId ?? '—'} · {fmtTemp(t.temperature)} · {t.free} free
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className={styles.field}>
+            <label className={styles.label}>
+              Reason <span className={styles.optional}>(optional)</span>
+            </label>
+            <input
+              className={styles.input}
+              type="text"
+              value={reason}
+              onChange={e => setReason(e.target.value)}
+              placeholder="e.g. Rebalance trim before RTM"
+              maxLength={500}
+              disabled={isTransferring}
+            />
+          </div>
+        </div>
+
+        {preview && (
+          <>
+            {preview.violations.length > 0 && (
+              <ul className={styles.violations}>
+                {preview.violations.map((v, i) => (
+                  <li key={i}><strong>{v.type.replace(/_/g, ' ')}</strong> {v.message}</li>
+                ))}
+              </ul>
+            )}
+
+            <div className={styles.sections}>
+              <SectionCard title="From" section={preview.from} />
+              <SectionCard title="To" section={preview.to} />
+            </div>
+
+            {preview.stability.length > 0 && (
+              <table className={styles.stabilityTable}>
+                <thead>
+                  <tr>
+                    <th>Port</th>
+                    <th>Trim index</th>
+                    <th>List index</th>
+                    <th>Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {preview.stability.map(s => (
+                    <tr key={s.portSequence}>
+                      <td className={styles.mono}>{s.portCode || `P${s.portSequence}`}</td>
+                      <td className={styles.mono}>
+                        {s.before.trimIndex.toFixed(3)} → {s.after?.trimIndex.toFixed(3) ?? '—'}
+                      </td>
+                      <td className={styles.mono}>
+                        {s.before.listIndex.toFixed(3)} → {s.after?.listIndex.toFixed(3) ?? '—'}
+                      </td>
+                      <td>
+                        <span className={styles[`status${s.before.status}`]}>{s.before.status}</span>
+                        {' → '}
+                        <span className={styles[`status${s.after?.status ?? s.before.status}`]}>
+                          {s.after?.status ?? '—'}
+                        </span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+
+            {preview.newWarnings.length > 0 && (
+              <ul className={styles.warnings}>
+                {preview.newWarnings.map((w, i) => <li key={i}>{w}</li>)}
+              </ul>
+            )}
+          </>
+        )}
+
+        {error && <p className={styles.error}>{error}</p>}
+
+        <div className={styles.actions}>
+          <button className={styles.btnCancel} onClick={onClose} disabled={isTransferring}>
+            Cancel
+          </button>
+          <button
+            className={styles.btnCancel}
+            onClick={handlePreview}
+            disabled={!isValidMove || isPreviewing || isTransferring}
+          >
+            {isPreviewing ? 'Checking…' : 'Preview'}
+          </button>
+          <button className={styles.btnConfirm} onClick={() => handleTransfer()} disabled={!canTransfer}>
+            {isTransferring ? 'Moving…' : `⇄ Move ${pallets} pallet(s)`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
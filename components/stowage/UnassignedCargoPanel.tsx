@@ -17,6 +17,8 @@ export interface UnassignedBooking {
   consignee: string;
   isConfirmed: boolean;
   temperature?: number;
+  stagedQuantity?: number;       // pallets offloaded to staging, part of the remaining
+  stagedReason?: string;
 }
 
 interface Props {
@@ -39,7 +41,7 @@ interface Props {
 export default function UnassignedCargoPanel({
   bookings, targetCompartment, onAssign, onClose, isNarrow, compartmentPanelOpen,
 }: Props) {
-  const [filter, setFilter] = useState<'ALL' | 'UNASSIGNED' | 'PARTIAL'>('ALL');
+  const [filter, setFilter] = useState<'ALL' | 'UNASSIGNED' | 'PARTIAL' | 'STAGED'>('ALL');
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedBookingId, setSelectedBookingId] = useState<string | null>(null);
   const [assignQty, setAssignQty] = useState(0);
@@ -58,6 +60,7 @@ export default function UnassignedCargoPanel({
     const remaining = b.totalQuantity - b.assignedQuantity;
     if (filter === 'UNASSIGNED' && b.assignedQuantity > 0) return false;
     if (filter === 'PARTIAL' && (b.assignedQuantity === 0 || remaining <= 0)) return false;
+    if (filter === 'STAGED' && !b.stagedQuantity) return false;
     if (searchTerm) {
       const q = searchTerm.toLowerCase();
       if (
@@ -109,13 +112,13 @@ export default function UnassignedCargoPanel({
             onChange={e => setSearchTerm(e.target.value)}
           />
           <div className={styles.filterTabs}>
-            {(['ALL', 'UNASSIGNED', 'PARTIAL'] as const).map(f => (
+            {(['ALL', 'UNASSIGNED', 'PARTIAL', 'STAGED'] as const).map(f => (
               <button
                 key={f}
                 className={`${styles.filterTab} ${filter === f ? styles.filterTabActive : ''}`}
                 onClick={() => setFilter(f)}
               >
-                {f === 'ALL' ? 'All' : f === 'UNASSIGNED' ? 'Not placed' : 'Partial'}
+                {f === 'ALL' ? 'All' : f === 'UNASSIGNED' ? 'Not placed' : f === 'PARTIAL' ? 'Partial' : 'Staged'}
               </button>
             ))}
           </div>
@@ -151,6 +154,11 @@ export default function UnassignedCargoPanel({
                   {!b.isConfirmed && (
                     <span className={styles.estimateBadge}>Est</span>
                   )}
+                  {!!b.stagedQuantity && (
+                    <span className={styles.stagedBadge} title={b.stagedReason}>
+                      Staged {b.stagedQuantity}
+                    </span>
+                  )}
                   <span className={styles.remainingBadge}>{remaining} plt left</span>
                 </div>
                 <div className={styles.cardMeta}>
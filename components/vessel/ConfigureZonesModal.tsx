@@ -2,32 +2,10 @@
 
 import { useState, useEffect } from 'react';
 import { updateZoneTemperatures } from '@/app/actions/stowage-plan';
+import type { CargoCarriageSpec, CargoCarriageSpecs } from '@/lib/constants/cargo-carriage';
+import type { PlanEditConflict } from '@/types/models';
 import styles from './ConfigureZonesModal.module.css';
 
-// Acceptable temperature ranges per cargo type (industry operational standards)
-const CARGO_TEMP_RANGES: Record<string, { min: number; max: number; label: string }> = {
-  BANANAS:           { min: 12,   max: 14,   label: 'Banana' },
-  ORGANIC_BANANAS:   { min: 12,   max: 14,   label: 'Organic banana' },
-  PLANTAINS:         { min: 12,   max: 14,   label: 'Plantain' },
-  PINEAPPLES:        { min: 7,    max: 10,   label: 'Pineapple' },
-  AVOCADOS:          { min: 5,    max: 8,    label: 'Avocado' },
-  MANGOES:           { min: 10,   max: 13,   label: 'Mango' },
-  PAPAYA:            { min: 10,   max: 13,   label: 'Papaya' },
-  CITRUS:            { min: 4,    max: 10,   label: 'Citrus' },
-  TABLE_GRAPES:      { min: -0.5, max: 0.5,  label: 'Table grapes' },
-  CHERRIES:          { min: -1,   max: 1,    label: 'Cherries' },
-  BLUEBERRIES:       { min: 0,    max: 2,    label: 'Blueberries' },
-  BERRIES:           { min: 0,    max: 2,    label: 'Berries' },
-  KIWIS:             { min: 0,    max: 2,    label: 'Kiwis' },
-  PLUMS:             { min: -0.5, max: 2,    label: 'Plums' },
-  PEACHES:           { min: -0.5, max: 2,    label: 'Peaches' },
-  APPLES:            { min: -1,   max: 4,    label: 'Apples' },
-  PEARS:             { min: -1,   max: 4,    label: 'Pears' },
-  FROZEN_FISH:       { min: -25,  max: -18,  label: 'Frozen fish' },
-  OTHER_FROZEN:      { min: -25,  max: -18,  label: 'Frozen cargo' },
-  OTHER_CHILLED:     { min: -1,   max: 15,   label: 'Chilled cargo' },
-};
-
 export interface ZoneConfig {
   zoneId: string;             // '1AB'
   zoneName: string;           // 'Hold 1 A|B'
@@ -39,20 +17,21 @@ export interface ZoneConfig {
 
 interface ConfigureZonesModalProps {
   planId: string;
+  expectedVersion: number;             // plan editVersion the zones were read at
   zones: ZoneConfig[];
+  carriageSpecs: CargoCarriageSpecs;   // from CargoProduct — acceptable range per cargo type
   isOpen: boolean;
   onClose: () => void;
   onSuccess: (updatedCoolingSectionStatus: any[]) => void;
+  onConflict: (conflict: PlanEditConflict, retry: (version: number) => void) => void;
 }
 
 function getTempStatus(
   newTemp: number,
-  cargoType: string | undefined,
+  range: CargoCarriageSpec | undefined,
   palletsLoaded: number
 ): 'ok' | 'warn' | 'conflict' | 'empty' {
-  if (!cargoType || palletsLoaded === 0) return 'empty';
-  const range = CARGO_TEMP_RANGES[cargoType];
-  if (!range) return 'empty';
+  if (!range || palletsLoaded === 0) return 'empty';
   if (newTemp >= range.min && newTemp <= range.max) return 'ok';
   // Within 2°C of range = warn; further = conflict
   if (newTemp >= range.min - 2 && newTemp <= range.max + 2) return 'warn';
@@ -65,15 +44,12 @@ function formatTemp(t: number) {
 
 function TempStatusBadge({
   status,
-  cargoType,
-  newTemp,
+  range,
 }: {
   status: 'ok' | 'warn' | 'conflict' | 'empty';
-  cargoType?: string;
-  newTemp: number;
+  range?: CargoCarriageSpec;
 }) {
-  if (status === 'empty') return null;
-  const range = CARGO_TEMP_RANGES[cargoType!];
+  if (status === 'empty' || !range) return null;
   if (status === 'ok') {
     return <span className={`${styles.statusBadge} ${styles.statusOk}`}>✓ in range</span>;
   }
@@ -93,10 +69,13 @@ function TempStatusBadge({
 
 export default function ConfigureZonesModal({
   planId,
+  expectedVersion,
   zones,
+  carriageSpecs,
   isOpen,
   onClose,
   onSuccess,
+  onConflict,
 }: ConfigureZonesModalProps) {
   const [draftTemps, setDraftTemps] = useState<Record<string, number>>({});
   const [reason, setReason] = useState('');
@@ -120,11 +99,13 @@ export default function ConfigureZonesModal({
 
   if (!isOpen) return null;
 
+  const rangeFor = (cargoType?: string) => (cargoType ? carriageSpecs[cargoType] : undefined);
+
   // Zones where the new temp conflicts with assigned cargo
   const conflictingZones = zones.filter((z) => {
     const status = getTempStatus(
       draftTemps[z.zoneId] ?? z.currentTemp,
-      z.assignedCargoType,
+      rangeFor(z.assignedCargoType),
       z.palletsLoaded
     );
     return status === 'conflict';
@@ -157,7 +138,7 @@ export default function ConfigureZonesModal({
     }
   }
 
-  async function doSave() {
+  async function doSave(version = expectedVersion) {
     setIsSaving(true);
     setSaveError(null);
     try {
@@ -170,8 +151,14 @@ export default function ConfigureZonesModal({
         planId,
         updates,
         reason: reason.trim() || undefined,
+        expectedVersion: version,
       });
 
+      if ('conflict' in result && result.conflict) {
+        setShowConfirm(false);
+        onConflict(result.conflict, (latest) => void doSave(latest));
+        return;
+      }
       if (!result.success) {
         setSaveError(result.error ?? 'Unknown error');
         setShowConfirm(false);
@@ -216,7 +203,7 @@ export default function ConfigureZonesModal({
                 <tbody>
                   {zones.map((z) => {
                     const newTemp = draftTemps[z.zoneId] ?? z.currentTemp;
-                    const status = getTempStatus(newTemp, z.assignedCargoType, z.palletsLoaded);
+                    const status = getTempStatus(newTemp, rangeFor(z.assignedCargoType), z.palletsLoaded);
                     const changed = newTemp !== z.currentTemp;
                     return (
                       <tr key={z.zoneId} className={changed ? styles.rowChanged : undefined}>
@@ -248,8 +235,7 @@ export default function ConfigureZonesModal({
                               </span>
                               <TempStatusBadge
                                 status={status}
-                                cargoType={z.assignedCargoType}
-                                newTemp={newTemp}
+                                range={rangeFor(z.assignedCargoType)}
                               />
                             </div>
                           ) : (
@@ -298,7 +284,7 @@ export default function ConfigureZonesModal({
             <div className={styles.conflictList}>
               {conflictingZones.map((z) => {
                 const newTemp = draftTemps[z.zoneId] ?? z.currentTemp;
-                const range = z.assignedCargoType ? CARGO_TEMP_RANGES[z.assignedCargoType] : null;
+                const range = rangeFor(z.assignedCargoType);
                 return (
                   <div key={z.zoneId} className={styles.conflictRow}>
                     <span className={styles.conflictZone}>{z.zoneName}</span>
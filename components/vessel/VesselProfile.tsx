@@ -8,7 +8,10 @@ import {
   LEVEL_DISPLAY_ORDER,
   type VoyageTempAssignment,
   type VesselLayout,
+  type DeckProfileStack,
+  type DeckProfileContainer,
 } from '@/lib/vessel-profile-data';
+import type { SectionChange } from '@/lib/plan-diff';
 
 // ============================================================================
 // LAYOUT CONSTANTS
@@ -47,6 +50,11 @@ const CELL_COMPACT_THRESHOLD = 34; // show header only when cell h >= this
 // Temperature zone double-line indicators
 const ZONE_LINE_THICKNESS = 3;
 
+// Deck container tiers drawn above the deck line (negative y)
+const DECK_TIER_H = 14;
+const DECK_AREA_PAD = 6;
+const DECK_BAY_GAP = 4;
+
 // ============================================================================
 // FALLBACK: build default VesselLayout from hardcoded ACONCAGUA BAY data
 // ============================================================================
@@ -170,6 +178,60 @@ function buildCompartmentRects(
   return rects;
 }
 
+// ============================================================================
+// DECK CONTAINER CELLS
+// One cell per bay × tier above the hatch cover of its hold; rows collapse
+// into an occupied/total count.
+// ============================================================================
+
+interface DeckCell {
+  key: string;
+  bay: number;
+  tier: number;
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+  rows: number;
+  unplugged: number;
+  containers: DeckProfileContainer[];
+}
+
+function buildDeckCells(
+  holdPositions: { x: number; w: number; holdNumber: number }[],
+  stacks: DeckProfileStack[],
+  containers: DeckProfileContainer[],
+): DeckCell[] {
+  const cells: DeckCell[] = [];
+  for (const hold of holdPositions) {
+    const holdStacks = stacks.filter(s => s.holdNumber === hold.holdNumber);
+    const bays = [...new Set(holdStacks.map(s => s.bay))].sort((a, b) => a - b);
+    if (bays.length === 0) continue;
+    const bayW = (hold.w - DECK_BAY_GAP * (bays.length + 1)) / bays.length;
+
+    bays.forEach((bay, bayIdx) => {
+      const bayStacks = holdStacks.filter(s => s.bay === bay);
+      const tiers = [...new Set(bayStacks.flatMap(s => s.tiers.map(t => t.tier)))].sort((a, b) => a - b);
+      tiers.forEach((tier, tierIdx) => {
+        const withTier = bayStacks.filter(s => s.tiers.some(t => t.tier === tier));
+        cells.push({
+          key: `deck-${bay}-${tier}`,
+          bay,
+          tier,
+          x: hold.x + DECK_BAY_GAP + bayIdx * (bayW + DECK_BAY_GAP),
+          y: HULL_Y_TOP - (tierIdx + 1) * DECK_TIER_H,
+          w: bayW,
+          h: DECK_TIER_H - 1,
+          rows: withTier.length,
+          unplugged: withTier.filter(s => !s.tiers.find(t => t.tier === tier)?.reeferPlug).length,
+          containers: containers.filter(c => c.bay === bay && c.tier === tier),
+        });
+      });
+    });
+  }
+  return cells;
+}
+
 // ============================================================================
 // COMPONENT
 // ============================================================================
@@ -191,8 +253,22 @@ interface VesselProfileProps {
   editableZoneTemps?: Record<string, number>;
   /** Called when user changes a zone temperature; all cells in the same zone sync automatically */
   onZoneTempChange?: (zoneId: string, temp: number) => void;
+  /** Deck bay plan (Vessel.deckBayPlan) — stacks are drawn above their hatch covers */
+  deckStacks?: DeckProfileStack[];
+  /** Containers placed in deck slots (CargoPosition.stackPosition) */
+  deckContainers?: DeckProfileContainer[];
+  /** Plan diff: compartments whose cargo changed against another revision */
+  changedCompartments?: Record<string, SectionChange>;
 }
 
+// Plan diff outline colours: cargo added / removed / changed in a compartment
+const CHANGE_STROKE: Record<SectionChange, string> = {
+  ADDED: '#22c55e',
+  REMOVED: '#f97316',
+  CHANGED: '#eab308',
+};
+const CHANGE_MARK: Record<SectionChange, string> = { ADDED: '+', REMOVED: '−', CHANGED: 'Δ' };
+
 export default function VesselProfile({
   vesselName = 'ACONCAGUA BAY',
   voyageNumber = 'ACON-062026',
@@ -204,6 +280,9 @@ export default function VesselProfile({
   highlightedCompartmentIds,
   editableZoneTemps,
   onZoneTempChange,
+  deckStacks = [],
+  deckContainers = [],
+  changedCompartments,
 }: VesselProfileProps) {
   const [factorMode, setFactorMode] = useState<'design' | 'historical'>('design');
   // Editable-temp mode: local in-progress strings, focused zone, flash set
@@ -225,6 +304,10 @@ export default function VesselProfile({
   const layout = vesselLayout ?? buildDefaultLayout();
   const holdPositions = computeHoldPositions(layout);
   const compartments = buildCompartmentRects(layout, holdPositions, tempAssignments);
+  const deckCells = buildDeckCells(holdPositions, deckStacks, deckContainers);
+  const deckAreaH = deckCells.length > 0
+    ? HULL_Y_TOP - Math.min(...deckCells.map(c => c.y)) + DECK_AREA_PAD
+    : 0;
 
   const holdTotals = new Map<number, { loaded: number; capacity: number }>();
   for (const comp of compartments) {
@@ -243,7 +326,7 @@ export default function VesselProfile({
     <div className={styles.container}>
       <div className={styles.svgWrap}>
         <svg
-          viewBox={`0 0 ${SVG_W} ${SVG_H}`}
+          viewBox={`0 ${-deckAreaH} ${SVG_W} ${SVG_H + deckAreaH}`}
           className={styles.svg}
           xmlns="http://www.w3.org/2000/svg"
         >
@@ -295,6 +378,48 @@ export default function VesselProfile({
             strokeWidth="2"
           />
 
+          {/* Deck containers — bay × tier cells above the hatch covers */}
+          {deckCells.map((cell) => {
+            const loaded = cell.containers.length;
+            const color = cell.containers[0]?.podColor ?? '#38bdf8';
+            const slotLabel = `Bay ${String(cell.bay).padStart(2, '0')} tier ${cell.tier}`;
+            const details = cell.containers
+              .map(c => `\n  row ${String(c.row).padStart(2, '0')}${c.label ? ` — ${c.label}` : ''}`)
+              .join('');
+            return (
+              <g key={cell.key}>
+                <title>
+                  {`${slotLabel}: ${loaded}/${cell.rows} slots` +
+                    (cell.unplugged > 0 ? ` (${cell.unplugged} without reefer plug)` : '') +
+                    details}
+                </title>
+                <rect
+                  x={cell.x}
+                  y={cell.y}
+                  width={cell.w}
+                  height={cell.h}
+                  rx={1}
+                  fill={loaded > 0 ? color : '#111E33'}
+                  opacity={loaded > 0 ? 0.75 : 0.5}
+                  stroke="#3B5070"
+                  strokeWidth={0.8}
+                  strokeDasharray={cell.unplugged > 0 ? '3,2' : undefined}
+                />
+                {cell.w >= 24 && (
+                  <text
+                    x={cell.x + cell.w / 2}
+                    y={cell.y + cell.h / 2}
+                    textAnchor="middle"
+                    dominantBaseline="middle"
+                    style={{ fontSize: '8px', fill: 'rgba(255,255,255,0.85)', fontFamily: 'monospace', pointerEvents: 'none' }}
+                  >
+                    {loaded}/{cell.rows}
+                  </text>
+                )}
+              </g>
+            );
+          })}
+
           {/* Hold labels — in the label area above the first level row */}
           {holdPositions.map((h) => (
             <text
@@ -402,6 +527,7 @@ export default function VesselProfile({
           {compartments.map((comp) => {
             const isConflict = !!conflictCompartmentIds?.includes(comp.id);
             const isHighlighted = !isConflict && !!highlightedCompartmentIds?.includes(comp.id);
+            const change = changedCompartments?.[comp.id];
             const isEstimated = comp.assignment?.confidence === 'ESTIMATED';
             // POD color takes precedence over temperature-based zone color
             const effectiveColor = comp.assignment?.podColor || comp.assignment?.zoneColor || '#1E3A5F';
@@ -497,15 +623,17 @@ export default function VesselProfile({
                   fill={comp.assignment?.cargoType ? effectiveColor : '#111E33'}
                   opacity={
                     isConflict ? 0.35 :
-                    isHighlighted ? 0.4 :
+                    isHighlighted || change ? 0.4 :
                     0.15
                   }
                   stroke={
                     isHighlighted ? '#22c55e' :
+                    change ? CHANGE_STROKE[change] :
                     isConflict ? '#ef4444' :
                     '#1E3A5F'
                   }
-                  strokeWidth={isHighlighted ? 2 : isConflict ? 1.5 : 0.8}
+                  strokeWidth={isHighlighted || change ? 2 : isConflict ? 1.5 : 0.8}
+                  strokeDasharray={change === 'REMOVED' ? '4 2' : undefined}
                 />
 
                 {/* Conflict indicator — small red dot top-right */}
@@ -785,6 +913,19 @@ export default function VesselProfile({
                     }
                   />
                 )}
+
+                {/* Plan diff marker — top-left, above the header strip */}
+                {change && (
+                  <text
+                    x={comp.x + 4}
+                    y={comp.y + 4}
+                    textAnchor="start"
+                    dominantBaseline="hanging"
+                    style={{ fontSize: '9px', fontWeight: 'bold', fill: CHANGE_STROKE[change] }}
+                  >
+                    {CHANGE_MARK[change]}
+                  </text>
+                )}
               </g>
             );
           })}
@@ -1,3 +1,8 @@
 // instrumentation.ts — Next.js instrumentation hook (runs once on server startup).
-// Currently unused — reserved for future server-side startup tasks.
-export async function register() {}
+// Starts the scheduled job registry (lib/jobs) on the Node.js runtime.
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { startScheduler } = await import('./lib/jobs/scheduler');
+    startScheduler();
+  }
+}
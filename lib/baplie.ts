@@ -0,0 +1,384 @@
+// ============================================================================
+// BAPLIE (UN/EDIFACT D.95B, SMDG 2.2) — writer, parser and reconciliation
+// Bayplan/stowage messages exchanged with terminals and stevedores.
+// One LOC+147 group per container: cell (BBBRRTT), gross weight, reefer set
+// point, POL/POD UN/LOCODEs, booking reference and ISO size-type.
+// Pure module — callers map plan positions to BaplieUnit and back.
+// ============================================================================
+
+import type { ContainerType } from '@/types/models';
+
+export interface BaplieUnit {
+  bay: number;
+  row: number;
+  tier: number;
+  isoSizeType: string;           // "22R1", "42R1", "45R1"
+  grossWeightKg: number;
+  setTemperature?: number;       // °C
+  polPortCode?: string;          // UN/LOCODE
+  podPortCode?: string;          // UN/LOCODE
+  bookingNumber?: string;
+  containerNumber?: string;      // blank for pre-stow plans
+}
+
+export interface BaplieHeader {
+  messageRef: string;            // interchange / message reference (≤ 14 chars)
+  sender: string;
+  recipient: string;
+  vesselName: string;
+  imoNumber?: string;
+  callSign?: string;
+  voyageNumber: string;
+  departurePortCode: string;     // LOC+5 — port the plan departs from
+  nextPortCode?: string;         // LOC+61 — next port of call
+  etd?: Date;
+  preparedAt: Date;
+}
+
+export interface BaplieMessage {
+  header: Partial<BaplieHeader>;
+  units: BaplieUnit[];
+  warnings: string[];
+}
+
+export interface BaplieMismatch {
+  cell: string;
+  plan: BaplieUnit;
+  terminal: BaplieUnit;
+  differences: string[];
+}
+
+export interface BaplieReconciliation {
+  matched: number;
+  missing: BaplieUnit[];         // in the plan, not in the terminal's message
+  extra: BaplieUnit[];           // in the terminal's message, not in the plan
+  mismatched: BaplieMismatch[];
+}
+
+// ISO 6346 size-type codes for integral reefers
+export const REEFER_ISO_SIZE_TYPE: Record<ContainerType, string> = {
+  '20FT': '22R1',
+  '40FT': '42R1',
+  '40HC': '45R1',
+};
+
+// Typical integral-reefer tare — BAPLIE weights are gross (cargo + tare)
+export const REEFER_TARE_KG: Record<ContainerType, number> = {
+  '20FT': 3000,
+  '40FT': 4500,
+  '40HC': 4800,
+};
+
+// Weight difference reported as a mismatch (VGM declarations vary a little)
+const WEIGHT_TOLERANCE_KG = 500;
+const TEMPERATURE_TOLERANCE_C = 0.5;
+
+// ----------------------------------------------------------------------------
+// Helpers
+// ----------------------------------------------------------------------------
+
+// Bay 6, row 1, tier 82 → "0060182" (ISO 9711 BBBRRTT)
+export function formatBaplieCell(unit: Pick<BaplieUnit, 'bay' | 'row' | 'tier'>): string {
+  return String(unit.bay).padStart(3, '0') + String(unit.row).padStart(2, '0') + String(unit.tier).padStart(2, '0');
+}
+
+export function parseBaplieCell(cell: string): { bay: number; row: number; tier: number } | null {
+  const digits = cell.replace(/\D/g, '');
+  // 6-digit cells (BBRRTT) are still sent by some terminal systems
+  const padded = digits.length === 6 ? `0${digits}` : digits;
+  if (padded.length !== 7) return null;
+  return {
+    bay: parseInt(padded.slice(0, 3), 10),
+    row: parseInt(padded.slice(3, 5), 10),
+    tier: parseInt(padded.slice(5, 7), 10),
+  };
+}
+
+export function containerTypeFromIso(isoSizeType: string): ContainerType | undefined {
+  const code = isoSizeType.toUpperCase();
+  if (code.startsWith('2')) return '20FT';
+  if (code.startsWith('45') || code.startsWith('L5')) return '40HC';
+  if (code.startsWith('4')) return '40FT';
+  return undefined;
+}
+
+// EDIFACT release character: ? escapes + : ' and itself
+function escape(value: string): string {
+  return value.replace(/[?+:']/g, c => `?${c}`);
+}
+
+function edifactDate(d: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getUTCFullYear()}${pad(d.getUTCMonth() + 1)}${pad(d.getUTCDate())}${pad(d.getUTCHours())}${pad(d.getUTCMinutes())}`;
+}
+
+function parseEdifactDate(value: string, format: string): Date | undefined {
+  const m = format === '101'
+    ? value.match(/^(\d{2})(\d{2})(\d{2})$/)
+    : value.match(/^(\d{4})(\d{2})(\d{2})(\d{2})?(\d{2})?$/);
+  if (!m) return undefined;
+  const year = format === '101' ? 2000 + Number(m[1]) : Number(m[1]);
+  const d = new Date(Date.UTC(year, Number(m[2]) - 1, Number(m[3]), Number(m[4] ?? 0), Number(m[5] ?? 0)));
+  return isNaN(d.getTime()) ? undefined : d;
+}
+
+// Splits on an unescaped separator and strips release characters
+function splitEdifact(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (c === '?' && i + 1 < text.length) {
+      current += text[++i];
+    } else if (c === separator) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += c;
+    }
+  }
+  parts.push(current);
+  return parts;
+}
+
+// Segments keep their release characters so elements can still be split safely
+function splitSegments(text: string): string[] {
+  const segments: string[] = [];
+  let current = '';
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (c === '?' && i + 1 < text.length) {
+      current += c + text[++i];
+    } else if (c === "'") {
+      segments.push(current.trim());
+      current = '';
+    } else {
+      current += c;
+    }
+  }
+  if (current.trim()) segments.push(current.trim());
+  return segments.filter(Boolean);
+}
+
+function splitElements(segment: string): string[][] {
+  const elements: string[] = [];
+  let current = '';
+  for (let i = 0; i < segment.length; i++) {
+    const c = segment[i];
+    if (c === '?' && i + 1 < segment.length) {
+      current += c + segment[++i];
+    } else if (c === '+') {
+      elements.push(current);
+      current = '';
+    } else {
+      current += c;
+    }
+  }
+  elements.push(current);
+  return elements.map(e => splitEdifact(e, ':'));
+}
+
+// ----------------------------------------------------------------------------
+// Writer
+// ----------------------------------------------------------------------------
+
+export function buildBaplie(header: BaplieHeader, units: BaplieUnit[]): string {
+  const prepared = edifactDate(header.preparedAt);
+  const ref = escape(header.messageRef.slice(0, 14));
+  const body: string[] = [
+    `UNH+${ref}+BAPLIE:D:95B:UN:SMDG22`,
+    `BGM++${ref}+9`,
+    `DTM+137:${prepared}:203`,
+    `TDT+20+${escape(header.voyageNumber)}+++:172:20+++` +
+      `${escape(header.callSign ?? header.imoNumber ?? '')}:146:11:${escape(header.vesselName)}`,
+    `LOC+5+${escape(header.departurePortCode)}:139:6`,
+  ];
+  if (header.nextPortCode) body.push(`LOC+61+${escape(header.nextPortCode)}:139:6`);
+  if (header.etd) body.push(`DTM+136:${edifactDate(header.etd)}:203`);
+  body.push(`RFF+VON:${escape(header.voyageNumber)}`);
+
+  const sorted = [...units].sort((a, b) => a.bay - b.bay || a.row - b.row || a.tier - b.tier);
+  for (const u of sorted) {
+    body.push(`LOC+147+${formatBaplieCell(u)}::5`);
+    body.push(`MEA+WT++KGM:${Math.round(u.grossWeightKg)}`);
+    if (u.setTemperature != null) body.push(`TMP+2+${u.setTemperature.toFixed(1)}:CEL`);
+    if (u.polPortCode) body.push(`LOC+9+${escape(u.polPortCode)}`);
+    if (u.podPortCode) body.push(`LOC+11+${escape(u.podPortCode)}`);
+    if (u.bookingNumber) body.push(`RFF+BM:${escape(u.bookingNumber)}`);
+    body.push(`EQD+CN+${escape(u.containerNumber ?? '')}+${u.isoSizeType}+++5`);
+  }
+  body.push(`UNT+${body.length + 1}+${ref}`);
+
+  const yymmdd = prepared.slice(2, 8);
+  const hhmm = prepared.slice(8, 12);
+  const segments = [
+    `UNB+UNOA:2+${escape(header.sender)}+${escape(header.recipient)}+${yymmdd}:${hhmm}+${ref}`,
+    ...body,
+    `UNZ+1+${ref}`,
+  ];
+  // UNA carries its own terminator (the last service character)
+  return "UNA:+.? '\n" + segments.map(seg => `${seg}'`).join('\n') + '\n';
+}
+
+// ----------------------------------------------------------------------------
+// Parser
+// ----------------------------------------------------------------------------
+
+/**
+ * Reads a BAPLIE message into units. Tolerant of line breaks, a missing UNA
+ * and segments it does not know; malformed container groups become warnings.
+ */
+export function parseBaplie(text: string): BaplieMessage {
+  const header: Partial<BaplieHeader> = {};
+  const units: BaplieUnit[] = [];
+  const warnings: string[] = [];
+  let current: BaplieUnit | null = null;
+  let inEquipment = false;
+
+  const finish = () => {
+    if (current) units.push(current);
+    current = null;
+    inEquipment = false;
+  };
+
+  const body = text.replace(/^\uFEFF/, '').replace(/^UNA.{6}/, '');
+  for (const segment of splitSegments(body)) {
+    const [tagEl, ...el] = splitElements(segment);
+    const tag = tagEl[0]?.replace(/[\r\n]/g, '').trim();
+    switch (tag) {
+      case 'UNB':
+        header.sender = el[1]?.[0];
+        header.recipient = el[2]?.[0];
+        header.messageRef = el[4]?.[0];
+        break;
+      case 'TDT':
+        header.voyageNumber = el[1]?.[0];
+        header.callSign = el[7]?.[0] || undefined;
+        header.vesselName = el[7]?.[3];
+        break;
+      case 'DTM': {
+        const [qualifier, value, format] = el[0] ?? [];
+        if (current) break;
+        if (qualifier === '137' && value) header.preparedAt = parseEdifactDate(value, format);
+        if (qualifier === '136' && value) header.etd = parseEdifactDate(value, format);
+        break;
+      }
+      case 'LOC': {
+        const qualifier = el[0]?.[0];
+        const value = el[1]?.[0] ?? '';
+        if (qualifier === '147') {
+          finish();
+          const cell = parseBaplieCell(value);
+          if (!cell) {
+            warnings.push(`Unreadable stowage cell "${value}" — container skipped`);
+            break;
+          }
+          current = { ...cell, isoSizeType: '', grossWeightKg: 0 };
+        } else if (current && !inEquipment) {
+          if (qualifier === '9') current.polPortCode = value.toUpperCase();
+          if (qualifier === '11') current.podPortCode = value.toUpperCase();
+        } else if (!current) {
+          if (qualifier === '5') header.departurePortCode = value;
+          if (qualifier === '61') header.nextPortCode = value;
+        }
+        break;
+      }
+      case 'MEA':
+        if (current && !inEquipment && el[0]?.[0] === 'WT') {
+          const [unit, value] = el[2] ?? [];
+          const n = Number(value);
+          if (Number.isFinite(n)) current.grossWeightKg = unit === 'TNE' ? n * 1000 : n;
+        }
+        break;
+      case 'TMP':
+        if (current && !inEquipment) {
+          const [value, unit] = el[1] ?? [];
+          const n = Number(value);
+          if (Number.isFinite(n)) current.setTemperature = unit === 'FAH' ? (n - 32) * 5 / 9 : n;
+        }
+        break;
+      case 'RFF':
+        if (current && !inEquipment && el[0]?.[0] === 'BM') current.bookingNumber = el[0]?.[1];
+        break;
+      case 'EQD':
+        if (current && !inEquipment) {
+          current.containerNumber = el[1]?.[0] || undefined;
+          current.isoSizeType = (el[2]?.[0] ?? '').toUpperCase();
+          inEquipment = true;
+        } else if (current) {
+          warnings.push(`Cell ${formatBaplieCell(current)} lists more than one container — only the first is read`);
+        }
+        break;
+      case 'UNT':
+      case 'UNZ':
+        finish();
+        break;
+    }
+  }
+  finish();
+
+  for (const u of units) {
+    if (!u.isoSizeType) warnings.push(`Cell ${formatBaplieCell(u)} has no EQD size-type`);
+  }
+  return { header, units, warnings };
+}
+
+// ----------------------------------------------------------------------------
+// Reconciliation
+// ----------------------------------------------------------------------------
+
+/**
+ * Compares the plan's units with a terminal's BAPLIE cell by cell. Units in
+ * the same cell are compared on size-type, POD, booking, weight and set point.
+ */
+export function reconcileBaplie(planUnits: BaplieUnit[], terminalUnits: BaplieUnit[]): BaplieReconciliation {
+  const terminalByCell = new Map<string, BaplieUnit>();
+  const extra: BaplieUnit[] = [];
+  for (const u of terminalUnits) {
+    const cell = formatBaplieCell(u);
+    if (terminalByCell.has(cell)) extra.push(u);
+    else terminalByCell.set(cell, u);
+  }
+
+  const missing: BaplieUnit[] = [];
+  const mismatched: BaplieMismatch[] = [];
+  let matched = 0;
+
+  for (const plan of planUnits) {
+    const cell = formatBaplieCell(plan);
+    const terminal = terminalByCell.get(cell);
+    if (!terminal) {
+      missing.push(plan);
+      continue;
+    }
+    terminalByCell.delete(cell);
+
+    const differences: string[] = [];
+    const planType = containerTypeFromIso(plan.isoSizeType);
+    const terminalType = containerTypeFromIso(terminal.isoSizeType);
+    if (planType && terminalType && planType !== terminalType) {
+      differences.push(`size-type ${plan.isoSizeType} → ${terminal.isoSizeType}`);
+    }
+    if (plan.podPortCode && terminal.podPortCode && plan.podPortCode !== terminal.podPortCode) {
+      differences.push(`POD ${plan.podPortCode} → ${terminal.podPortCode}`);
+    }
+    if (plan.bookingNumber && terminal.bookingNumber && plan.bookingNumber !== terminal.bookingNumber) {
+      differences.push(`booking ${plan.bookingNumber} → ${terminal.bookingNumber}`);
+    }
+    if (terminal.grossWeightKg > 0 && Math.abs(plan.grossWeightKg - terminal.grossWeightKg) > WEIGHT_TOLERANCE_KG) {
+      differences.push(`weight ${Math.round(plan.grossWeightKg)} → ${Math.round(terminal.grossWeightKg)} kg`);
+    }
+    if (
+      plan.setTemperature != null && terminal.setTemperature != null &&
+      Math.abs(plan.setTemperature - terminal.setTemperature) > TEMPERATURE_TOLERANCE_C
+    ) {
+      differences.push(`set point ${plan.setTemperature.toFixed(1)} → ${terminal.setTemperature.toFixed(1)} °C`);
+    }
+
+    if (differences.length > 0) mismatched.push({ cell, plan, terminal, differences });
+    else matched++;
+  }
+
+  extra.push(...terminalByCell.values());
+  return { matched, missing, extra, mismatched };
+}
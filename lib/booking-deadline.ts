@@ -0,0 +1,114 @@
+// lib/booking-deadline.ts
+// Booking-deadline reminders: shippers with active forecasts but no booking
+// on a voyage are emailed at each of the service's bookingDeadlineReminderHours
+// (default 72h and 24h before Voyage.bookingDeadline). Offsets already sent
+// are recorded on the forecast, so a reminder goes out once per offset.
+// Expiry at the deadline itself lives in lib/forecast-housekeeping.ts.
+
+import connectDB from '@/lib/db/connect';
+import { ServiceModel, SpaceForecastModel, VoyageModel } from '@/lib/db/schemas';
+import { sendBookingDeadlineReminder } from '@/lib/email';
+import { lookupShipperRecipients } from '@/lib/notification-recipients';
+import { findUnbookedForecasts } from '@/lib/forecast-housekeeping';
+
+export const DEFAULT_REMINDER_HOURS = [72, 24];
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Offsets (hours before the deadline) whose reminder time has been reached.
+ * When the job was down past several offsets only the nearest one is worth
+ * sending, but all of them are returned so they are marked as sent.
+ */
+export function dueReminderOffsets(deadline: Date, offsets: number[], now: Date): number[] {
+  const msLeft = deadline.getTime() - now.getTime();
+  if (msLeft <= 0) return [];
+  return offsets.filter(h => h > 0 && msLeft <= h * HOUR_MS).sort((a, b) => a - b);
+}
+
+export async function sendDeadlineReminders(
+  now: Date = new Date()
+): Promise<{ voyages: number; shippers: number; emails: number }> {
+  await connectDB();
+
+  const voyageIds: any[] = await SpaceForecastModel.distinct('voyageId', {
+    planImpact: { $in: ['PENDING_REVIEW', 'INCORPORATED'] },
+  });
+  const voyages = await VoyageModel.find({
+    _id: { $in: voyageIds },
+    bookingDeadline: { $gt: now },
+    status: { $nin: ['COMPLETED', 'CLOSED', 'CANCELLED'] },
+  }).select('_id voyageNumber vesselName serviceId serviceCode bookingDeadline').lean();
+
+  const offsetsByService = new Map<string, number[]>();
+  const services = await ServiceModel.find({
+    _id: { $in: (voyages as any[]).map(v => v.serviceId).filter(Boolean) },
+  }).select('_id bookingDeadlineReminderHours').lean();
+  for (const svc of services as any[]) {
+    offsetsByService.set(svc._id.toString(), svc.bookingDeadlineReminderHours ?? DEFAULT_REMINDER_HOURS);
+  }
+
+  let touchedVoyages = 0;
+  let shippers = 0;
+  let emails = 0;
+  for (const voyage of voyages as any[]) {
+    const deadline = new Date(voyage.bookingDeadline);
+    const offsets = offsetsByService.get(voyage.serviceId?.toString() ?? '') ?? DEFAULT_REMINDER_HOURS;
+    const due = dueReminderOffsets(deadline, offsets, now);
+    if (due.length === 0) continue;
+    const nearest = due[0];
+
+    const pending = (await findUnbookedForecasts(voyage._id.toString()))
+      .filter(fc => !(fc.deadlineRemindersSent ?? []).includes(nearest));
+    if (pending.length === 0) continue;
+    touchedVoyages++;
+
+    // One email per shipper, listing all of its unbooked forecasts
+    const byShipper = new Map<string, any[]>();
+    for (const fc of pending) {
+      const key = fc.shipperId.toString();
+      byShipper.set(key, [...(byShipper.get(key) ?? []), fc]);
+    }
+
+    for (const [shipperId, forecasts] of byShipper) {
+      const recipients = await lookupShipperRecipients(shipperId);
+      if (recipients.length === 0) {
+        console.warn('[booking-deadline] no recipients for shipper', forecasts[0].shipperName, 'on', voyage.voyageNumber);
+      }
+      let sent = 0;
+      for (const to of recipients) {
+        try {
+          await sendBookingDeadlineReminder(to, {
+            voyageId: voyage._id.toString(),
+            voyageNumber: voyage.voyageNumber,
+            vesselName: voyage.vesselName,
+            serviceCode: voyage.serviceCode ?? forecasts[0].serviceCode,
+            bookingDeadline: deadline,
+            hoursBefore: nearest,
+            forecasts: forecasts.map(fc => ({
+              contractNumber: fc.contractNumber,
+              consigneeName: fc.consigneeName,
+              polPortCode: fc.polPortCode,
+              podPortCode: fc.podPortCode,
+              estimatedPallets: fc.estimatedPallets,
+            })),
+          });
+          sent++;
+        } catch (err: any) {
+          console.error('[email] booking deadline reminder failed:', err.message);
+        }
+      }
+      // Nothing delivered: leave the offsets unmarked so the next run retries
+      if (sent === 0) continue;
+      emails += sent;
+      shippers++;
+
+      await SpaceForecastModel.updateMany(
+        { _id: { $in: forecasts.map(fc => fc._id) } },
+        { $addToSet: { deadlineRemindersSent: { $each: due } } }
+      );
+    }
+  }
+
+  return { voyages: touchedVoyages, shippers, emails };
+}
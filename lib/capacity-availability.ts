@@ -0,0 +1,278 @@
+// lib/capacity-availability.ts
+// Hold space per voyage leg (consecutive active port calls) and temperature
+// regime: pallets committed by confirmed bookings, pallets reserved by space
+// forecasts and contract defaults, and what is left in the vessel's cooling
+// sections. Booking approval uses it to suggest the confirm/standby split and
+// to block over-confirmation without a planner override.
+//
+// A zone runs at one temperature, so space is counted per zone: the zones the
+// other regimes need on a leg (best fit) are not available to this one.
+
+import connectDB from '@/lib/db/connect';
+import {
+  BookingModel,
+  ContractModel,
+  SpaceForecastModel,
+  VesselModel,
+  VoyageModel,
+} from '@/lib/db/schemas';
+import { loadCargoCarriageSpecs } from '@/lib/cargo-carriage';
+import {
+  DEFAULT_DESIGN_STOWAGE_FACTOR,
+  buildForecastAndContractCargo,
+  buildPortCallMap,
+} from '@/lib/stowage-engine/input';
+import { getTempRange, type CargoTempRanges } from '@/lib/stowage-engine/temperature';
+import { FROZEN_MAX_TEMP_C } from '@/lib/stowage-engine/refrigeration';
+
+export type TemperatureRegime = 'FROZEN' | 'CHILLED' | 'TROPICAL';
+
+export const TEMPERATURE_REGIMES: TemperatureRegime[] = ['FROZEN', 'CHILLED', 'TROPICAL'];
+
+// Carriage ranges starting at or above this (°C) are tropical (bananas, mangoes…)
+export const TROPICAL_MIN_TEMP_C = 7;
+
+export interface RegimeCapacity {
+  regime: TemperatureRegime;
+  committed: number;            // confirmed pallets aboard on this leg
+  reserved: number;             // forecasts + contract defaults aboard on this leg
+  available: number;            // left for this regime; negative = overbooked
+}
+
+export interface CapacityLeg {
+  fromPortCode: string;
+  fromPortName: string;
+  toPortCode: string;
+  toPortName: string;
+  fromSeq: number;
+  toSeq: number;
+  regimes: RegimeCapacity[];
+}
+
+export interface VoyageCapacity {
+  totalCapacity: number;        // pallets across all cooling sections
+  legs: CapacityLeg[];
+}
+
+export interface CapacityCargo {
+  pallets: number;
+  polSeq: number;
+  podSeq: number;
+  regime: TemperatureRegime;
+  committed: boolean;           // false = forecast / contract reservation
+}
+
+export interface BookingCapacityCheck {
+  regime: TemperatureRegime;
+  requested: number;
+  available: number;            // tightest leg between POL and POD
+  legs: (Omit<CapacityLeg, 'regimes'> & RegimeCapacity)[];
+  suggested: { confirmed: number; standby: number; rejected: number };
+}
+
+// ----------------------------------------------------------------------------
+// Pure computation
+// ----------------------------------------------------------------------------
+
+export function regimeOf(range: { min: number; max: number }): TemperatureRegime {
+  if (range.max <= FROZEN_MAX_TEMP_C) return 'FROZEN';
+  if (range.min >= TROPICAL_MIN_TEMP_C) return 'TROPICAL';
+  return 'CHILLED';
+}
+
+// Capacity of the zones that cover `pallets`: the smallest zone that fits the
+// rest, or the largest one when none does. Taken zones leave `pool`.
+function takeZones(pool: number[], pallets: number): number {
+  let need = pallets;
+  let taken = 0;
+  while (need > 0 && pool.length > 0) {
+    const fits = pool.filter(c => c >= need);
+    const capacity = fits.length > 0 ? Math.min(...fits) : Math.max(...pool);
+    pool.splice(pool.indexOf(capacity), 1);
+    taken += capacity;
+    need -= capacity;
+  }
+  // Whatever did not fit still takes space from everyone else
+  return taken + Math.max(0, need);
+}
+
+export function computeVoyageCapacity({
+  portCalls,
+  zoneCapacities,
+  cargo,
+}: {
+  portCalls: any[];
+  zoneCapacities: number[];     // pallets per temperature zone
+  cargo: CapacityCargo[];
+}): VoyageCapacity {
+  const totalCapacity = zoneCapacities.reduce((sum, c) => sum + c, 0);
+  const calls = portCalls
+    .filter(pc => pc.status !== 'CANCELLED' && pc.status !== 'SKIPPED')
+    .sort((a, b) => a.sequence - b.sequence);
+
+  const legs: CapacityLeg[] = [];
+  for (let i = 0; i < calls.length - 1; i++) {
+    const from = calls[i];
+    const to = calls[i + 1];
+    const aboard = cargo.filter(c => c.polSeq <= from.sequence && c.podSeq >= to.sequence);
+
+    const load = new Map<TemperatureRegime, { committed: number; reserved: number }>(
+      TEMPERATURE_REGIMES.map(r => [r, { committed: 0, reserved: 0 }]),
+    );
+    for (const c of aboard) {
+      const entry = load.get(c.regime)!;
+      if (c.committed) entry.committed += c.pallets;
+      else entry.reserved += c.pallets;
+    }
+    const pallets = (r: TemperatureRegime) => load.get(r)!.committed + load.get(r)!.reserved;
+
+    legs.push({
+      fromPortCode: from.portCode,
+      fromPortName: from.portName ?? from.portCode,
+      toPortCode:   to.portCode,
+      toPortName:   to.portName ?? to.portCode,
+      fromSeq:      from.sequence,
+      toSeq:        to.sequence,
+      regimes: TEMPERATURE_REGIMES.map(regime => {
+        const pool = [...zoneCapacities];
+        const others = TEMPERATURE_REGIMES
+          .filter(r => r !== regime && pallets(r) > 0)
+          .sort((a, b) => pallets(b) - pallets(a));
+        const takenByOthers = others.reduce((sum, r) => sum + takeZones(pool, pallets(r)), 0);
+        return {
+          regime,
+          ...load.get(regime)!,
+          available: totalCapacity - takenByOthers - pallets(regime),
+        };
+      }),
+    });
+  }
+  return { totalCapacity, legs };
+}
+
+// Availability for one booking: the tightest leg between its POL and POD.
+// The suggested split confirms what fits and puts the rest on standby.
+export function checkBookingCapacity(
+  capacity: VoyageCapacity,
+  booking: { polSeq: number; podSeq: number; regime: TemperatureRegime; requested: number },
+): BookingCapacityCheck {
+  const legs = capacity.legs
+    .filter(l => l.fromSeq >= booking.polSeq && l.toSeq <= booking.podSeq)
+    .map(({ regimes, ...leg }) => ({ ...leg, ...regimes.find(r => r.regime === booking.regime)! }));
+  const available = legs.length > 0 ? Math.min(...legs.map(l => l.available)) : capacity.totalCapacity;
+  const confirmed = Math.min(booking.requested, Math.max(0, available));
+  return {
+    regime: booking.regime,
+    requested: booking.requested,
+    available,
+    legs,
+    suggested: { confirmed, standby: booking.requested - confirmed, rejected: 0 },
+  };
+}
+
+// ----------------------------------------------------------------------------
+// Loaders
+// ----------------------------------------------------------------------------
+
+// Confirmed hold bookings count as committed; forecasts and contract defaults
+// for shippers without a confirmed booking count as reserved. `excludeBookingId`
+// leaves a booking out of the committed cargo (the one being approved) while
+// still letting it stand in for its shipper's forecast.
+export async function loadVoyageCapacity(
+  voyageId: string,
+  excludeBookingId?: string,
+): Promise<{ voyage: any; capacity: VoyageCapacity; carriage: CargoTempRanges } | null> {
+  await connectDB();
+
+  const voyage = await VoyageModel.findById(voyageId).select('vesselId serviceId portCalls').lean() as any;
+  if (!voyage) return null;
+  const vessel = await VesselModel.findById(voyage.vesselId).select('temperatureZones').lean() as any;
+  if (!vessel) return null;
+
+  const [bookings, forecasts, contracts, carriage] = await Promise.all([
+    BookingModel.find({
+      voyageId: voyage._id,
+      status: { $in: ['CONFIRMED', 'PARTIAL', 'PENDING'] },
+      cargoMode: { $ne: 'CONTAINER' },
+    }).lean(),
+    SpaceForecastModel.find({
+      voyageId: voyage._id,
+      planImpact: { $in: ['PENDING_REVIEW', 'INCORPORATED'] },
+    }).lean(),
+    voyage.serviceId
+      ? ContractModel.find({ serviceId: voyage.serviceId, active: true }).lean()
+      : Promise.resolve([]),
+    loadCargoCarriageSpecs(),
+  ]) as [any[], any[], any[], CargoTempRanges];
+
+  const committed = bookings.filter(b =>
+    b._id.toString() !== excludeBookingId &&
+    ['CONFIRMED', 'PARTIAL'].includes(b.status) &&
+    (b.confirmedQuantity ?? 0) > 0,
+  );
+  const covering = [...committed, ...bookings.filter(b => b._id.toString() === excludeBookingId)];
+  const { forecastBookings, contractEstimates } = buildForecastAndContractCargo(
+    voyage, covering, forecasts, contracts, carriage,
+  );
+
+  const portSeq = buildPortCallMap(voyage);
+  const cargo: CapacityCargo[] = [];
+  for (const b of committed) {
+    const polSeq = portSeq.get(b.pol?.portCode);
+    const podSeq = portSeq.get(b.pod?.portCode);
+    if (polSeq === undefined || podSeq === undefined) continue;
+    cargo.push({
+      pallets: b.confirmedQuantity,
+      polSeq,
+      podSeq,
+      regime: regimeOf(getTempRange(b.cargoType ?? '', carriage)),
+      committed: true,
+    });
+  }
+  for (const e of [...forecastBookings, ...contractEstimates]) {
+    cargo.push({
+      pallets: e.pallets,
+      polSeq: e.polSeq,
+      podSeq: e.podSeq,
+      regime: regimeOf({ min: e.tempMin, max: e.tempMax }),
+      committed: false,
+    });
+  }
+
+  // Same section capacity as the engine (floor(sqm / design stowage factor))
+  const zoneCapacities: number[] = (vessel.temperatureZones ?? []).map((zone: any) =>
+    (zone.coolingSections ?? []).reduce((sum: number, cs: any) =>
+      sum + Math.floor(cs.sqm / (cs.designStowageFactor ?? DEFAULT_DESIGN_STOWAGE_FACTOR)), 0),
+  );
+
+  return {
+    voyage,
+    carriage,
+    capacity: computeVoyageCapacity({
+      portCalls: voyage.portCalls ?? [],
+      zoneCapacities,
+      cargo,
+    }),
+  };
+}
+
+// Null when the booking has no voyage, is container cargo (not stowed in the
+// cooling sections) or its POL / POD are not called by the voyage.
+export async function loadBookingCapacity(booking: any): Promise<BookingCapacityCheck | null> {
+  if (!booking.voyageId || booking.cargoMode === 'CONTAINER') return null;
+
+  const loaded = await loadVoyageCapacity(booking.voyageId.toString(), booking._id.toString());
+  if (!loaded) return null;
+
+  const portSeq = buildPortCallMap(loaded.voyage);
+  const polSeq = portSeq.get(booking.pol?.portCode);
+  const podSeq = portSeq.get(booking.pod?.portCode);
+  if (polSeq === undefined || podSeq === undefined) return null;
+
+  return checkBookingCapacity(loaded.capacity, {
+    polSeq,
+    podSeq,
+    regime: regimeOf(getTempRange(booking.cargoType ?? '', loaded.carriage)),
+    requested: booking.requestedQuantity ?? 0,
+  });
+}
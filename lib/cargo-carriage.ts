@@ -0,0 +1,31 @@
+// lib/cargo-carriage.ts
+// Server-side loaders for cargo carriage requirements (temperature range,
+// humidity, ventilation, atmosphere, ethylene) and compatibility groups. Read active
+// CargoProduct / CompatibilityGroup documents; carriage falls back to
+// DEFAULT_CARGO_CARRIAGE for codes without a product.
+
+import connectDB from '@/lib/db/connect';
+import { CargoProductModel, CompatibilityGroupModel } from '@/lib/db/schemas';
+import {
+  buildCargoCarriageSpecs,
+  buildCargoCompatibility,
+  type CargoCarriageSpecs,
+} from '@/lib/constants/cargo-carriage';
+import type { CargoCompatibility } from '@/lib/stowage-engine/types';
+
+export async function loadCargoCarriageSpecs(): Promise<CargoCarriageSpecs> {
+  await connectDB();
+  const products = await CargoProductModel.find({ active: true })
+    .select('code name temperature minCarriageTemp maxCarriageTemp humidity ventilation atmosphere ethyleneSensitive ethyleneProducer')
+    .lean() as any[];
+  return buildCargoCarriageSpecs(products);
+}
+
+export async function loadCargoCompatibility(): Promise<CargoCompatibility> {
+  await connectDB();
+  const [products, groups] = await Promise.all([
+    CargoProductModel.find({ active: true }).select('code compatibilityGroupCode').lean(),
+    CompatibilityGroupModel.find({ active: true }).select('groupCode canCoexistWith').lean(),
+  ]);
+  return buildCargoCompatibility(products as any[], groups as any[]);
+}
@@ -0,0 +1,41 @@
+// lib/cargo-leg.ts
+// Port-call sequences a stored cargo position loads and discharges at.
+// Positions carry polSeq / podSeq, but plans generated before the engine
+// wrote real sequences stored 0 for every booking, so a non-positive
+// sequence counts as unknown and is resolved from the port codes instead.
+// Pure module — callers pass the voyage's port calls.
+
+export interface CargoLegPosition {
+  polSeq?: number | null;
+  podSeq?: number | null;
+  polPortCode?: string | null;
+  podPortCode?: string | null;
+}
+
+export interface CargoLegPortCall {
+  portCode: string;
+  sequence: number;
+}
+
+// A stored sequence, or undefined when it is missing or the 0 placeholder
+export function knownSequence(seq: number | null | undefined): number | undefined {
+  return typeof seq === 'number' && Number.isFinite(seq) && seq > 0 ? seq : undefined;
+}
+
+/**
+ * POL / POD sequences of a position. A missing sequence falls back to the
+ * first call at the port (for the POD, the first one after the POL); either
+ * side stays undefined when that does not resolve.
+ */
+export function resolveCargoLeg(
+  pos: CargoLegPosition,
+  portCalls: CargoLegPortCall[],
+): { polSeq?: number; podSeq?: number } {
+  const calls = [...portCalls].sort((a, b) => a.sequence - b.sequence);
+  const seqOf = (code: string | null | undefined, after = -Infinity) =>
+    code ? calls.find(pc => pc.portCode === code && pc.sequence > after)?.sequence : undefined;
+
+  const polSeq = knownSequence(pos.polSeq) ?? seqOf(pos.polPortCode);
+  const podSeq = knownSequence(pos.podSeq) ?? seqOf(pos.podPortCode, polSeq);
+  return { polSeq, podSeq };
+}
@@ -0,0 +1,163 @@
+// lib/constants/cargo-carriage.ts
+// Carriage requirements per cargo code: temperature range, humidity,
+// ventilation, controlled atmosphere and ethylene behaviour.
+// CargoProduct documents are the source of truth (see lib/cargo-carriage.ts).
+// The defaults below seed new databases (scripts/seed-cargo-products.ts) and
+// cover codes that have no CargoProduct yet (legacy bookings, offline scripts).
+// Pure module: safe to import from the engine and from client components.
+
+import type { CargoAtmosphere, CargoCompatibility } from '@/lib/stowage-engine/types';
+
+export interface CargoCarriageSpec {
+  min: number;                               // °C minimum carriage temperature
+  max: number;                               // °C maximum carriage temperature
+  label: string;
+  humidity?: { min: number; max: number };   // % relative humidity
+  ventilation?: number;                      // fresh-air exchange, air changes/hour (0 = closed)
+  controlledAtmosphere?: {                   // present = carried under CA (sealed zone)
+    o2: { min: number; max: number };        // %
+    co2: { min: number; max: number };      // %
+  };
+  ethyleneSensitive?: boolean;
+  ethyleneProducer?: boolean;
+}
+
+export type CargoCarriageSpecs = Record<string, CargoCarriageSpec>;
+
+// Used when a cargo code has neither a CargoProduct nor a default
+export const FALLBACK_TEMP_RANGE = { min: 0, max: 4 } as const;
+
+const BANANA: Omit<CargoCarriageSpec, 'label'> = {
+  min: 12, max: 14, humidity: { min: 90, max: 95 }, ventilation: 2, ethyleneSensitive: true,
+};
+const TROPICAL: Omit<CargoCarriageSpec, 'label'> = {
+  min: 7, max: 10, humidity: { min: 85, max: 90 }, ventilation: 2, ethyleneSensitive: true, ethyleneProducer: true,
+};
+const FROZEN: Omit<CargoCarriageSpec, 'label'> = { min: -25, max: -18, ventilation: 0 };
+
+export const DEFAULT_CARGO_CARRIAGE: CargoCarriageSpecs = {
+  BANANAS:          { ...BANANA, label: 'Banana' },
+  ORGANIC_BANANAS:  { ...BANANA, label: 'Organic banana' },
+  PLANTAINS:        { ...BANANA, label: 'Plantain' },
+  FROZEN_FISH:      { ...FROZEN, label: 'Frozen fish' },
+  OTHER_FROZEN:     { ...FROZEN, label: 'Frozen cargo' },
+  TABLE_GRAPES:     { min: -0.5, max: 0.5, label: 'Table grapes', humidity: { min: 90, max: 95 }, ventilation: 0, ethyleneSensitive: true },
+  BERRIES:          { min: -0.5, max: 1.0, label: 'Berries',      humidity: { min: 90, max: 95 }, ventilation: 1, ethyleneSensitive: true },
+  CHERRIES:         { min: -0.5, max: 0.5, label: 'Cherries',     humidity: { min: 90, max: 95 }, ventilation: 1 },
+  BLUEBERRIES:      { min: -0.5, max: 1.0, label: 'Blueberries',  humidity: { min: 90, max: 95 }, ventilation: 1, ethyleneSensitive: true },
+  CITRUS:           { min: 4,    max: 10,  label: 'Citrus',       humidity: { min: 85, max: 90 }, ventilation: 1 },
+  AVOCADOS:         { min: 5,    max: 8,   label: 'Avocado',      humidity: { min: 85, max: 90 }, ventilation: 2, ethyleneSensitive: true, ethyleneProducer: true },
+  PINEAPPLES:       { min: 7,    max: 10,  label: 'Pineapple',    humidity: { min: 85, max: 90 }, ventilation: 1 },
+  PAPAYA:           { ...TROPICAL, label: 'Papaya' },
+  MANGOES:          { ...TROPICAL, label: 'Mango' },
+  KIWIS:            { min: -0.5, max: 1,   label: 'Kiwis',        humidity: { min: 90, max: 95 }, ventilation: 1, ethyleneSensitive: true },
+  APPLES:           { min: -0.5, max: 4,   label: 'Apples',       humidity: { min: 90, max: 95 }, ventilation: 1, ethyleneProducer: true },
+  PEARS:            { min: -0.5, max: 4,   label: 'Pears',        humidity: { min: 90, max: 95 }, ventilation: 1, ethyleneSensitive: true, ethyleneProducer: true },
+  PLUMS:            { min: 0.0,  max: 2.0, label: 'Plums',        humidity: { min: 90, max: 95 }, ventilation: 1, ethyleneProducer: true },
+  PEACHES:          { min: -0.5, max: 2,   label: 'Peaches',      humidity: { min: 90, max: 95 }, ventilation: 1, ethyleneProducer: true },
+  OTHER_CHILLED:    { min: 2,    max: 6,   label: 'Chilled cargo' },
+
+  // Short codes used by the seeded CargoProduct catalogue
+  BAN:              { ...BANANA, label: 'Bananas' },
+  OBAN:             { ...BANANA, label: 'Organic Bananas' },
+  PLAN:             { ...BANANA, label: 'Plantains' },
+  PINE:             { min: 7,    max: 10,  label: 'Pineapples',   humidity: { min: 85, max: 90 }, ventilation: 1 },
+  PAPA:             { ...TROPICAL, label: 'Papaya' },
+  MANGO:            { ...TROPICAL, label: 'Mangoes' },
+  AVOC:             { min: 5,    max: 8,   label: 'Avocados',     humidity: { min: 85, max: 90 }, ventilation: 2, ethyleneSensitive: true, ethyleneProducer: true },
+  GRAPE:            { min: -1,   max: 0.5, label: 'Table Grapes', humidity: { min: 90, max: 95 }, ventilation: 0, ethyleneSensitive: true },
+};
+
+function isBand(b: { min?: number | null; max?: number | null } | null | undefined): b is { min: number; max: number } {
+  return !!b && typeof b.min === 'number' && typeof b.max === 'number';
+}
+
+/**
+ * Carriage spec for one CargoProduct document. Products created before the
+ * carriage fields existed only have a set point; their range is ±1 °C around it
+ * (same rule the CP-SAT solver applies).
+ */
+export function productCarriageSpec(product: {
+  code: string;
+  name?: string;
+  temperature?: number | null;
+  minCarriageTemp?: number | null;
+  maxCarriageTemp?: number | null;
+  humidity?: { min?: number | null; max?: number | null } | null;
+  ventilation?: number | null;
+  atmosphere?: {
+    mode?: 'REGULAR' | 'CA' | null;
+    o2?: { min?: number | null; max?: number | null } | null;
+    co2?: { min?: number | null; max?: number | null } | null;
+  } | null;
+  ethyleneSensitive?: boolean;
+  ethyleneProducer?: boolean;
+}): CargoCarriageSpec | null {
+  let min = product.minCarriageTemp ?? null;
+  let max = product.maxCarriageTemp ?? null;
+  if (min === null || max === null) {
+    if (product.temperature === undefined || product.temperature === null) return null;
+    min = product.temperature - 1;
+    max = product.temperature + 1;
+  }
+
+  const spec: CargoCarriageSpec = { min, max, label: product.name ?? product.code };
+  const h = product.humidity;
+  if (h && typeof h.min === 'number' && typeof h.max === 'number') spec.humidity = { min: h.min, max: h.max };
+  if (typeof product.ventilation === 'number') spec.ventilation = product.ventilation;
+  const atm = product.atmosphere;
+  if (atm?.mode === 'CA' && isBand(atm.o2) && isBand(atm.co2)) {
+    spec.controlledAtmosphere = {
+      o2: { min: atm.o2.min, max: atm.o2.max },
+      co2: { min: atm.co2.min, max: atm.co2.max },
+    };
+  }
+  if (product.ethyleneSensitive) spec.ethyleneSensitive = true;
+  if (product.ethyleneProducer) spec.ethyleneProducer = true;
+  return spec;
+}
+
+/**
+ * Merges active CargoProduct documents over the defaults — a product always
+ * wins over the default with the same code.
+ */
+export function buildCargoCarriageSpecs(products: Parameters<typeof productCarriageSpec>[0][]): CargoCarriageSpecs {
+  const specs: CargoCarriageSpecs = { ...DEFAULT_CARGO_CARRIAGE };
+  for (const p of products) {
+    const spec = productCarriageSpec(p);
+    if (spec) specs[p.code] = spec;
+  }
+  return specs;
+}
+
+/**
+ * Compatibility-group lookup for the engine from active CargoProduct and
+ * CompatibilityGroup documents. Codes without a product stay unrestricted.
+ */
+export function buildCargoCompatibility(
+  products: { code: string; compatibilityGroupCode?: string | null }[],
+  groups: { groupCode: string; canCoexistWith?: string[] | null }[],
+): CargoCompatibility {
+  const compatibility: CargoCompatibility = { groupByCargoType: {}, canCoexistWith: {} };
+  for (const p of products) {
+    if (p.compatibilityGroupCode) compatibility.groupByCargoType[p.code] = p.compatibilityGroupCode;
+  }
+  for (const g of groups) {
+    compatibility.canCoexistWith[g.groupCode] = g.canCoexistWith ?? [];
+  }
+  return compatibility;
+}
+
+/**
+ * Atmosphere needs per cargo code for the engine: CA products with their O2/CO2
+ * bands, everything else regular atmosphere at its ventilation rate.
+ */
+export function buildCargoAtmospheres(specs: CargoCarriageSpecs): Record<string, CargoAtmosphere> {
+  const atmospheres: Record<string, CargoAtmosphere> = {};
+  for (const [code, spec] of Object.entries(specs)) {
+    atmospheres[code] = spec.controlledAtmosphere
+      ? { mode: 'CA', ...spec.controlledAtmosphere }
+      : { mode: 'REGULAR', ventilation: spec.ventilation };
+  }
+  return atmospheres;
+}
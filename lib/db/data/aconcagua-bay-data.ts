@@ -418,6 +418,45 @@ export const COOLING_SECTIONS: CoolingSectionData[] = COMPARTMENTS.map((comp) =>
   locked: false,
 }));
 
+// ----------------------------------------------------------------------------
+// DECK BAY PLAN (hatch-cover container stacks)
+// 20 slots / 19 reefer plugs — slot 020182 on hatch 1 has no plug.
+// Rows: 01/03 starboard, 02/04 port. Tiers: 82 (on hatch cover), 84.
+// ----------------------------------------------------------------------------
+
+const DECK_BASE_VCG = 14.3; // hatch cover top above keel (m)
+
+function deckStack(
+  bay: number, row: number, holdNumber: number, slotLength: '20FT' | '40FT',
+  lcg: number, tcg: number, tiers: number[], unpluggedTiers: number[] = [],
+) {
+  return {
+    bay, row, holdNumber, slotLength, lcg, tcg,
+    maxStackWeight: slotLength === '40FT' ? 60000 : 30000,
+    baseVcg: DECK_BASE_VCG,
+    tiers: tiers.map((tier) => ({ tier, reeferPlug: !unpluggedTiers.includes(tier), allowsHighCube: true })),
+  };
+}
+
+export const DECK_BAY_PLAN = [
+  // Hatch 1 — single tier (forward visibility)
+  deckStack(2, 1, 1, '40FT', 55.0, 2.5, [82]),
+  deckStack(2, 2, 1, '40FT', 55.0, -2.5, [82], [82]),
+  // Hatch 2
+  deckStack(6, 1, 2, '40FT', 35.0, 2.5, [82, 84]),
+  deckStack(6, 2, 2, '40FT', 35.0, -2.5, [82, 84]),
+  deckStack(6, 3, 2, '40FT', 35.0, 7.5, [82, 84]),
+  deckStack(6, 4, 2, '40FT', 35.0, -7.5, [82, 84]),
+  // Hatch 3
+  deckStack(10, 1, 3, '40FT', 10.0, 2.5, [82, 84]),
+  deckStack(10, 2, 3, '40FT', 10.0, -2.5, [82, 84]),
+  deckStack(10, 3, 3, '40FT', 10.0, 7.5, [82, 84]),
+  deckStack(10, 4, 3, '40FT', 10.0, -7.5, [82, 84]),
+  // Hatch 4 — 20' bay forward of the superstructure
+  deckStack(13, 1, 4, '20FT', -15.0, 2.5, [82]),
+  deckStack(13, 2, 4, '20FT', -15.0, -2.5, [82]),
+];
+
 // ----------------------------------------------------------------------------
 // VESSEL DATA (General specifications)
 // Source: PDF pages 1-5
@@ -459,10 +498,24 @@ export const VESSEL_DATA = {
     maxTEU: 20,
     maxFEU: 19,
   },
+  deckBayPlan: DECK_BAY_PLAN,
 
   // Reference stability data (for preliminary calculations only)
   // Captain must verify with onboard systems
   stability: {
+    lpp: 140.0, // Length between perpendiculars (m)
+    // Hydrostatic tables (even keel, SW 1.025) — draft at LCF,
+    // LCB/LCF from midship (+ = forward), MCT1cm in t·m, TPC in t/cm
+    hydrostatics: [
+      { draft: 3.0,  displacement: 4300,  km: 11.20, lcb:  1.20, lcf: -0.50, mct1cm: 150, tpc: 19.0 },
+      { draft: 4.0,  displacement: 6215,  km:  9.90, lcb:  1.00, lcf: -0.90, mct1cm: 160, tpc: 19.3 },
+      { draft: 5.0,  displacement: 8160,  km:  9.20, lcb:  0.80, lcf: -1.30, mct1cm: 170, tpc: 19.6 },
+      { draft: 6.0,  displacement: 10135, km:  8.90, lcb:  0.50, lcf: -1.80, mct1cm: 180, tpc: 19.9 },
+      { draft: 7.0,  displacement: 12140, km:  8.80, lcb:  0.20, lcf: -2.30, mct1cm: 192, tpc: 20.2 },
+      { draft: 8.0,  displacement: 14175, km:  8.85, lcb: -0.10, lcf: -2.80, mct1cm: 204, tpc: 20.5 },
+      { draft: 9.0,  displacement: 16240, km:  8.95, lcb: -0.40, lcf: -3.30, mct1cm: 216, tpc: 20.8 },
+      { draft: 10.0, displacement: 18335, km:  9.10, lcb: -0.70, lcf: -3.80, mct1cm: 228, tpc: 21.1 },
+    ],
     lightship: {
       weight: 5500, // Estimated lightship weight (tonnes)
       lcg: 0, // LCG from midship (m)
@@ -479,6 +532,23 @@ export const VESSEL_DATA = {
     approvalRequired: true,
   },
 
+  // Tanks (reference) — centroids from midship/keel/centreline, FSM = max slack moment
+  // Fuel tanks sized to bunkerCapacity below (IFO 845 m³ at max fill, MGO 120 m³)
+  tanks: [
+    { tankId: 'FPT',   name: 'Fore Peak Tank',          type: 'BALLAST',     capacity: 310, density: 1.025, lcg:  68.0, vcg: 6.2, tcg:  0.0, freeSurfaceMoment: 420 },
+    { tankId: 'DB1P',  name: 'Double Bottom 1 Port',     type: 'BALLAST',     capacity: 185, density: 1.025, lcg:  48.0, vcg: 0.7, tcg: -4.8, freeSurfaceMoment: 310 },
+    { tankId: 'DB1S',  name: 'Double Bottom 1 Stbd',     type: 'BALLAST',     capacity: 185, density: 1.025, lcg:  48.0, vcg: 0.7, tcg:  4.8, freeSurfaceMoment: 310 },
+    { tankId: 'DB2P',  name: 'Double Bottom 2 Port',     type: 'BALLAST',     capacity: 240, density: 1.025, lcg:  18.0, vcg: 0.7, tcg: -5.2, freeSurfaceMoment: 480 },
+    { tankId: 'DB2S',  name: 'Double Bottom 2 Stbd',     type: 'BALLAST',     capacity: 240, density: 1.025, lcg:  18.0, vcg: 0.7, tcg:  5.2, freeSurfaceMoment: 480 },
+    { tankId: 'DB3P',  name: 'Double Bottom 3 Port',     type: 'BALLAST',     capacity: 240, density: 1.025, lcg: -18.0, vcg: 0.7, tcg: -5.2, freeSurfaceMoment: 480 },
+    { tankId: 'DB3S',  name: 'Double Bottom 3 Stbd',     type: 'BALLAST',     capacity: 240, density: 1.025, lcg: -18.0, vcg: 0.7, tcg:  5.2, freeSurfaceMoment: 480 },
+    { tankId: 'APT',   name: 'Aft Peak Tank',            type: 'BALLAST',     capacity: 260, density: 1.025, lcg: -66.0, vcg: 7.0, tcg:  0.0, freeSurfaceMoment: 350 },
+    { tankId: 'FOT-P', name: 'Fuel Oil Tank Port',       type: 'FUEL',        capacity: 515, density: 0.99,  lcg: -36.0, vcg: 4.5, tcg: -6.0, freeSurfaceMoment: 260 },
+    { tankId: 'FOT-S', name: 'Fuel Oil Tank Stbd',       type: 'FUEL',        capacity: 512, density: 0.99,  lcg: -36.0, vcg: 4.5, tcg:  6.0, freeSurfaceMoment: 260 },
+    { tankId: 'MGO',   name: 'Marine Gas Oil Tank',      type: 'FUEL',        capacity: 142, density: 0.85,  lcg: -52.0, vcg: 5.0, tcg:  0.0, freeSurfaceMoment: 60 },
+    { tankId: 'FWT',   name: 'Fresh Water Tank',         type: 'FRESH_WATER', capacity: 180, density: 1.0,   lcg: -62.0, vcg: 9.0, tcg:  0.0, freeSurfaceMoment: 120 },
+  ],
+
   // Reefer specifications
   reefer: {
     holds: 4,
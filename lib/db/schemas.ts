@@ -32,6 +32,8 @@ const PortSchema = new Schema({
   weatherCity: { type: String, required: true },               // city name for weather API e.g. "Valparaíso"
   latitude:    { type: Number },                               // latitude
   longitude:   { type: Number },                               // longitude
+  palletsPerHour: { type: Number },                            // loading rate per gang — loading sequence durations
+  loadingGangs:   { type: Number },                            // gangs / cranes working reefer holds at once
   active:      { type: Boolean, default: true },
 }, { timestamps: true });
 
@@ -61,6 +63,14 @@ const ServiceSchema = new Schema({
   cycleDurationWeeks: { type: Number, required: true },
   vesselPool: [{ type: Schema.Types.ObjectId, ref: 'Vessel' }],
   cargoTypes: [{ type: String }],
+  // How freed space is offered to STANDBY bookings (lib/standby-promotion.ts)
+  standbyPolicy: {
+    order: { type: String, enum: ['FIFO', 'CONTRACT_PRIORITY', 'CARGO_FIT'], default: 'FIFO' },
+    autoConfirmMaxPallets: { type: Number, min: 0, default: 0 },
+  },
+  // Hours before a voyage's bookingDeadline at which shippers with unbooked
+  // forecasts are reminded (lib/booking-deadline.ts)
+  bookingDeadlineReminderHours: { type: [Number], default: [72, 24] },
 }, {
   timestamps: true,
 });
@@ -284,6 +294,20 @@ const BookingSchema = new Schema({
   requestedDate: { type: Date },
   confirmedDate: { type: Date },
   approvedBy: { type: String },
+  // Set when a planner confirmed more than the capacity check allowed
+  capacityOverride: {
+    reason:             { type: String },
+    availablePallets:   { type: Number },
+    confirmedQuantity:  { type: Number },
+    overriddenBy:       { type: String },
+    overriddenAt:       { type: Date },
+  },
+  // Freed space offered from the standby queue, awaiting planner approval
+  standbyOffer: {
+    pallets:              { type: Number, min: 0 },
+    offeredAt:            { type: Date },
+    freedByBookingNumber: { type: String },
+  },
   rejectionReason: { type: String },
   notes: { type: String },
   changelog: [{
@@ -405,7 +429,7 @@ const CoolingSectionDetailSchema = new Schema({
   historicalStowageFactor: { type: Number, min: 0.5, max: 3.0 }, // rolling average across completed voyages
   historicalVoyageCount: { type: Number, default: 0 }, // # voyages in historical average
   isFull: { type: Boolean, default: false },           // true when section is fully loaded in current stowage plan
-  // maxPallets is CALCULATED (not stored): Math.floor(sqm * chosenFactor)
+  // maxPallets is CALCULATED (not stored): Math.floor(sqm / chosenFactor)
 }, { _id: false });
 
 // Temperature zone = group of cooling sections on the same refrigeration circuit
@@ -419,6 +443,8 @@ const CoolingSectionSchema = new Schema({
   assignedTemperatureZone: { type: String },
   currentTemperature: { type: Number },
   locked: { type: Boolean, default: false },
+  refrigerationCapacityKw: { type: Number },        // circuit capacity — absent: not checked
+  maxAdjacentDelta: { type: Number },               // °C allowed against neighbouring zones
 }, { _id: false });
 
 const CompartmentSchema = new Schema({
@@ -453,6 +479,50 @@ const HoldSchema = new Schema({
   totalCapacitySqm: { type: Number },
 }, { _id: false });
 
+// Hydrostatic table row — displacement vs draft with KM/LCB/LCF/MCT1cm/TPC.
+// Longitudinal values in metres from midship (+ = forward).
+const HydrostaticRowSchema = new Schema({
+  draft: { type: Number, required: true },
+  displacement: { type: Number, required: true },
+  km: { type: Number, required: true },
+  lcb: { type: Number, required: true },
+  lcf: { type: Number, required: true },
+  mct1cm: { type: Number, required: true },
+  tpc: { type: Number, required: true },
+}, { _id: false });
+
+// Ballast / fuel / fresh-water tank — feeds deadweight and free-surface correction
+const VesselTankSchema = new Schema({
+  tankId: { type: String, required: true },
+  name: { type: String },
+  type: { type: String, enum: ['BALLAST', 'FUEL', 'FRESH_WATER'], required: true },
+  capacity: { type: Number, required: true },          // m³
+  density: { type: Number, required: true },           // t/m³
+  lcg: { type: Number, required: true },
+  vcg: { type: Number, required: true },
+  tcg: { type: Number, default: 0 },
+  freeSurfaceMoment: { type: Number, default: 0 },     // t·m, max (slack)
+}, { _id: false });
+
+// Deck bay plan stack (bay × row) — ISO bay/row/tier numbering, tiers bottom → top
+const DeckTierSchema = new Schema({
+  tier: { type: Number, required: true },
+  reeferPlug: { type: Boolean, default: false },
+  allowsHighCube: { type: Boolean, default: true },
+}, { _id: false });
+
+const DeckStackSchema = new Schema({
+  bay: { type: Number, required: true },
+  row: { type: Number, required: true },
+  holdNumber: { type: Number, required: true },
+  slotLength: { type: String, enum: ['20FT', '40FT'], required: true },
+  maxStackWeight: { type: Number, required: true },    // kg
+  lcg: { type: Number, required: true },
+  tcg: { type: Number, default: 0 },
+  baseVcg: { type: Number, required: true },
+  tiers: [DeckTierSchema],
+}, { _id: false });
+
 const VesselSchema = new Schema({
   name: { type: String, required: true, unique: true },
   imoNumber: { type: String, required: true, unique: true },
@@ -488,7 +558,10 @@ const VesselSchema = new Schema({
     maxTEU: { type: Number },
     maxFEU: { type: Number },
   },
+  deckBayPlan: [DeckStackSchema],
   stability: {
+    lpp: { type: Number },
+    hydrostatics: [HydrostaticRowSchema],
     lightship: {
       weight: { type: Number },
       lcg: { type: Number },
@@ -504,6 +577,7 @@ const VesselSchema = new Schema({
     },
     approvalRequired: { type: Boolean, default: true },
   },
+  tanks: [VesselTankSchema],
   classification: {
     society: { type: String },
     mainClass: { type: String },
@@ -521,6 +595,43 @@ const VesselSchema = new Schema({
 // STOWAGE PLAN SCHEMA
 // ============================================================================
 
+// Loading sequence per LOAD port call (lib/loading-sequence.ts); doneAt/doneBy
+// are ticked off from the stevedore checklist
+const LoadingStepSchema = new Schema({
+  step: { type: Number, required: true },
+  gang: { type: Number, required: true },
+  holdNumber: { type: Number, required: true },
+  sectionId: { type: String, required: true },
+  level: { type: String, required: true },
+  pallets: { type: Number, required: true },
+  startHours: { type: Number, required: true },
+  durationHours: { type: Number, required: true },
+  bookings: [{
+    bookingId: { type: String, required: true },
+    bookingNumber: { type: String },
+    shipperName: { type: String },
+    consigneeName: { type: String },
+    cargoType: { type: String },
+    podPortCode: { type: String },
+    pallets: { type: Number, required: true },
+    _id: false,
+  }],
+  doneAt: { type: Date },
+  doneBy: { type: String },
+}, { _id: false });
+
+const PortLoadingSequenceSchema = new Schema({
+  portCode: { type: String, required: true },
+  portName: { type: String },
+  sequence: { type: Number, required: true },
+  palletsPerHour: { type: Number, required: true },
+  gangs: { type: Number, required: true },
+  totalPallets: { type: Number, required: true },
+  totalHours: { type: Number, required: true },
+  warnings: [{ type: String }],
+  steps: [LoadingStepSchema],
+}, { _id: false });
+
 const CargoPositionSchema = new Schema({
   shipmentId: { type: Schema.Types.ObjectId, ref: 'Shipment' }, // optional — not all positions come from formal shipments
   bookingId: { type: String },          // booking reference (string for flexibility)
@@ -549,6 +660,7 @@ const CargoPositionSchema = new Schema({
   },
   weight: { type: Number, default: 0 },
   position: PositionSchema,
+  setTemperature: { type: Number },        // °C reefer set point — deck containers
 }, { _id: false });
 
 const PreliminaryStabilitySchema = new Schema({
@@ -570,12 +682,102 @@ const PreliminaryStabilitySchema = new Schema({
     warnings: [{ type: String }],
     notes: [{ type: String }],
   },
+  source: { type: String, enum: ['TS_ESTIMATE', 'STABILITY_SERVICE'], default: 'TS_ESTIMATE' },
+  serviceVersion: { type: String },
   disclaimer: { 
     type: String, 
     default: 'Estos cálculos son estimaciones para planificación. El capitán debe aprobar y verificar con sistemas oficiales a bordo.'
   },
 }, { _id: false });
 
+// Full loading condition at departure from one LOAD/DISCHARGE port call
+const DepartureConditionSchema = new Schema({
+  portCode: { type: String, required: true },
+  portName: { type: String },
+  sequence: { type: Number, required: true },
+  operations: [{ type: String }],           // 'LOAD' | 'DISCHARGE'
+  palletsAboard: { type: Number, default: 0 },
+  cargoWeight: { type: Number, default: 0 }, // tonnes
+  tankWeight: { type: Number, default: 0 },  // tonnes
+  displacement: { type: Number, required: true },
+  kg: { type: Number, required: true },
+  lcg: { type: Number, required: true },
+  tcg: { type: Number, required: true },
+  gm: { type: Number, required: true },      // fluid GM
+  freeSurfaceCorrection: { type: Number, default: 0 },
+  trim: { type: Number, required: true },
+  list: { type: Number, required: true },
+  drafts: {
+    forward: { type: Number, required: true },
+    aft: { type: Number, required: true },
+    mean: { type: Number, required: true },
+  },
+  withinReferenceLimits: { type: Boolean, required: true },
+  warnings: [{ type: String }],
+}, { _id: false });
+
+// Planned tank fill levels at departure from a port call
+const TankPlanEntrySchema = new Schema({
+  portSequence: { type: Number, required: true },
+  portCode: { type: String, required: true },
+  levels: [{
+    tankId: { type: String, required: true },
+    fillPercent: { type: Number, required: true, min: 0, max: 100 },
+    _id: false,
+  }],
+  source: { type: String, enum: ['PLANNER', 'BALLAST_PROPOSAL'], default: 'PLANNER' },
+  updatedAt: { type: Date, default: Date.now },
+}, { _id: false });
+
+// Pallets taken off the plan but kept for re-placement (one entry per booking)
+const StagedCargoSchema = new Schema({
+  bookingId: { type: String, required: true },
+  bookingNumber: { type: String },
+  cargoType: { type: String },
+  shipperName: { type: String },
+  consigneeName: { type: String },
+  polPortCode: { type: String },
+  podPortCode: { type: String },
+  polSeq: { type: Number },
+  podSeq: { type: Number },
+  confidence: { type: String, enum: ['CONFIRMED', 'ESTIMATED'] },
+  quantity: { type: Number, required: true, min: 1 },
+  weight: { type: Number },
+  fromSectionId: { type: String },
+  reason: { type: String, required: true },
+  stagedAt: { type: Date, required: true },
+  stagedBy: { type: String, required: true },
+});
+
+// The part of a plan one manual edit touched, before or after the edit
+const PlanEditSliceSchema = new Schema({
+  positions: [CargoPositionSchema],
+  staged: [StagedCargoSchema],
+  temperatures: [{
+    zoneId: { type: String, required: true },
+    temperature: { type: Number },       // null = zone had no set point
+    _id: false,
+  }],
+}, { _id: false });
+
+const PlanOperationSchema = new Schema({
+  seq: { type: Number, required: true },
+  type: {
+    type: String,
+    enum: ['ASSIGN', 'REMOVE', 'TRANSFER', 'REDUCE', 'SET_TEMPERATURE'],
+    required: true,
+  },
+  summary: { type: String, required: true },
+  performedAt: { type: Date, required: true },
+  performedBy: { type: String, required: true },
+  undone: { type: Boolean, default: false },
+  reduceMode: { type: String, enum: ['STAGE', 'CANCEL'] },   // REDUCE only; CANCEL also lowered the booking
+  positionKeys: [{ type: String }],      // `${bookingId}|${sectionId}` touched
+  stagedBookingIds: [{ type: String }],
+  before: { type: PlanEditSliceSchema, required: true },
+  after: { type: PlanEditSliceSchema, required: true },
+});
+
 const StowagePlanSchema = new Schema({
   planNumber: { type: String, required: true, unique: true },
   voyageId: { type: Schema.Types.ObjectId, ref: 'Voyage', required: true },
@@ -584,6 +786,9 @@ const StowagePlanSchema = new Schema({
   vesselName: { type: String, required: true },
   cargoPositions: [CargoPositionSchema],
   preliminaryStability: { type: PreliminaryStabilitySchema, default: undefined },
+  departureConditions: [DepartureConditionSchema],
+  departureConditionsCalculatedAt: { type: Date },
+  tankPlan: [TankPlanEntrySchema],
   status: {
     type: String,
     required: true,
@@ -620,6 +825,13 @@ const StowagePlanSchema = new Schema({
     assignedTemperature: { type: Number },
     locked: { type: Boolean, default: false },
     temperatureSource: { type: String }, // 'INHERITED' | 'MAJORITY_RULE' | 'PLANNER_OVERRIDE'
+    atmosphere: {                        // set points resolved from the zone's cargo
+      mode: { type: String, enum: ['REGULAR', 'CA'] },
+      o2: { type: Number },              // % (CA)
+      co2: { type: Number },             // % (CA)
+      ventilation: { type: Number },     // air changes/hour (0 = closed)
+    },
+    heatLoadKw: { type: Number },        // peak estimated heat load (respiration + pull-down)
   }],
   temperatureChangelog: [{
     changedAt: { type: Date, required: true },
@@ -634,6 +846,28 @@ const StowagePlanSchema = new Schema({
     }],
     affectedBookings: [{ type: String }],
   }],
+  cargoChangelog: [{                     // planner edits to stowed hold cargo
+    changedAt: { type: Date, required: true },
+    changedBy: { type: String, required: true },
+    action: { type: String, enum: ['TRANSFER', 'OFFLOAD', 'CANCEL', 'PLACE'], required: true },
+    bookingId: { type: String, required: true },
+    bookingNumber: { type: String },
+    cargoType: { type: String },
+    fromSectionId: { type: String },
+    toSectionId: { type: String },
+    pallets: { type: Number, required: true },
+    reason: { type: String },
+  }],
+  stagedCargo: [StagedCargoSchema],      // pallets offloaded from the holds, awaiting re-placement
+  editHistory: [PlanOperationSchema],    // undo/redo log of manual edits (lib/plan-history.ts)
+  editVersion: { type: Number, default: 0 }, // bumped on every save; saves check the version they read
+  lastEditedBy: { type: String },
+  lastEditedAt: { type: Date },
+  loadingSequence: {
+    generatedAt: { type: Date },
+    generatedBy: { type: String },
+    ports: [PortLoadingSequenceSchema],
+  },
   captainCommunication: {
     emailSentAt: { type: Date },
     captainName: { type: String },
@@ -668,7 +902,7 @@ const StowagePlanSchema = new Schema({
     default: 'MANUAL',
   },
   conflicts: [{
-    type:             { type: String, required: true }, // TEMPERATURE_CONFLICT | CAPACITY_CONFLICT | OVERSTOW_CONFLICT | STABILITY_WARNING
+    type:             { type: String, required: true }, // TEMPERATURE_CONFLICT | CAPACITY_CONFLICT | OVERSTOW_CONFLICT | COMPATIBILITY_CONFLICT | ATMOSPHERE_CONFLICT | STABILITY_WARNING | REFRIGERATION_WARNING
     bookingIds:       [{ type: String }],
     sectionsInvolved: [{ type: String }],
     palletsAffected:  { type: Number, default: 0 },
@@ -678,6 +912,8 @@ const StowagePlanSchema = new Schema({
   stabilityIndicators: [{
     trimIndex:     { type: Number, required: true },
     listIndex:     { type: Number, required: true },
+    vcg:           { type: Number },                 // cargo VCG above keel (m)
+    verticalMoment: { type: Number },                // cargo weight × VCG (t·m)
     status:        { type: String, required: true }, // GREEN | YELLOW | RED
     portSequence:  { type: Number, required: true },
     portCode:      { type: String, required: true },
@@ -712,6 +948,23 @@ StowagePlanSchema.index({ voyageId: 1 });
 StowagePlanSchema.index({ vesselId: 1 });
 StowagePlanSchema.index({ status: 1 });
 
+// ============================================================================
+// PLAN PRESENCE SCHEMA — who has a stowage plan page open
+// Upserted by the page heartbeat; entries expire once the heartbeat stops.
+// ============================================================================
+
+const PlanPresenceSchema = new Schema({
+  planId:     { type: Schema.Types.ObjectId, ref: 'StowagePlan', required: true },
+  userId:     { type: String, required: true },
+  userName:   { type: String, required: true },
+  officeCode: { type: String },
+  editing:    { type: Boolean, default: false },
+  lastSeenAt: { type: Date, required: true },
+});
+
+PlanPresenceSchema.index({ planId: 1, userId: 1 }, { unique: true });
+PlanPresenceSchema.index({ lastSeenAt: 1 }, { expireAfterSeconds: 300 });
+
 // ============================================================================
 // COMPATIBILITY GROUP SCHEMA
 // ============================================================================
@@ -740,7 +993,22 @@ const CargoProductSchema = new Schema({
   compatibilityGroupCode: { type: String, required: true },                               // denormalized for fast access
   notes:                  { type: String },
   active:                 { type: Boolean, default: true },
-  temperature:            { type: Number, required: true },  // °C transport temperature
+  temperature:            { type: Number, required: true },  // °C transport temperature (set point)
+  // Carriage requirements — read by the engine, zone modal, solver and booking validation
+  minCarriageTemp:        { type: Number },                  // °C — absent on legacy docs: temperature ± 1
+  maxCarriageTemp:        { type: Number },
+  humidity: {
+    min: { type: Number },                                   // % RH
+    max: { type: Number },
+  },
+  ventilation:            { type: Number },                  // fresh-air exchange, air changes/hour (0 = closed)
+  atmosphere: {
+    mode: { type: String, enum: ['REGULAR', 'CA'], default: 'REGULAR' }, // CA = controlled atmosphere
+    o2:  { min: { type: Number }, max: { type: Number } },   // % — CA only
+    co2: { min: { type: Number }, max: { type: Number } },   // % — CA only
+  },
+  ethyleneSensitive:      { type: Boolean, default: false },
+  ethyleneProducer:       { type: Boolean, default: false },
   createdBy:              { type: String, required: true },
 }, { timestamps: true });
 
@@ -846,12 +1114,40 @@ const SpaceForecastSchema = new Schema({
   reviewedAt:           { type: Date },
   previousForecastId:   { type: Schema.Types.ObjectId, ref: 'SpaceForecast' },
   notes:                { type: String, trim: true },
+  deadlineRemindersSent: [{ type: Number }], // reminder offsets (hours) already emailed
 }, { timestamps: true });
 
 SpaceForecastSchema.index({ voyageId: 1, shipperId: 1, contractId: 1 });
 SpaceForecastSchema.index({ voyageId: 1, planImpact: 1 });
 SpaceForecastSchema.index({ contractId: 1, submittedAt: -1 });
 
+// ============================================================================
+// SCHEDULED JOB SCHEMAS — run history and cross-instance locks (lib/jobs)
+// ============================================================================
+
+const JobRunSchema = new Schema({
+  jobName:     { type: String, required: true },
+  trigger:     { type: String, required: true, enum: ['SCHEDULE', 'MANUAL'] },
+  triggeredBy: { type: String },
+  status:      { type: String, required: true, enum: ['RUNNING', 'SUCCESS', 'FAILED'], default: 'RUNNING' },
+  startedAt:   { type: Date, required: true },
+  finishedAt:  { type: Date },
+  durationMs:  { type: Number },
+  summary:     { type: String },
+  error:       { type: String },
+  instanceId:  { type: String },
+});
+
+JobRunSchema.index({ jobName: 1, startedAt: -1 });
+JobRunSchema.index({ startedAt: 1 }, { expireAfterSeconds: 90 * 24 * 60 * 60 });
+
+// One document per job; _id is the job name
+const JobLockSchema = new Schema({
+  _id:         { type: String },
+  lockedBy:    { type: String },
+  lockedUntil: { type: Date },
+});
+
 // ============================================================================
 // MODELS EXPORT
 // ============================================================================
@@ -905,8 +1201,17 @@ export const VesselModel: AnyModel =
 delete mongoose.models.StowagePlan;
 export const StowagePlanModel: AnyModel = mongoose.model('StowagePlan', StowagePlanSchema);
 
+export const PlanPresenceModel: AnyModel =
+  mongoose.models.PlanPresence || mongoose.model('PlanPresence', PlanPresenceSchema);
+
 export const UserModel: AnyModel =
   mongoose.models.User || mongoose.model('User', UserSchema);
 
 export const SpaceForecastModel: AnyModel =
   mongoose.models.SpaceForecast || mongoose.model('SpaceForecast', SpaceForecastSchema);
+
+export const JobRunModel: AnyModel =
+  mongoose.models.JobRun || mongoose.model('JobRun', JobRunSchema);
+
+export const JobLockModel: AnyModel =
+  mongoose.models.JobLock || mongoose.model('JobLock', JobLockSchema);
@@ -897,3 +897,167 @@ export async function sendStandbyResolved(
       : `${data.resolvedQuantity} standby pallets for booking ${data.bookingNumber} could not be accommodated and have been rejected.${data.confirmedQuantity > 0 ? ` Your confirmed quantity remains ${data.confirmedQuantity} pallets.` : ''}`,
   });
 }
+
+// ============================================================================
+// STANDBY PROMOTION EMAIL
+// Space freed on a voyage was offered to standby bookings above the service's
+// auto-confirm threshold — planners approve the promotion in /bookings.
+// ============================================================================
+
+export interface StandbyOffersPlannerData {
+  voyageNumber: string;
+  vesselName?: string;
+  freedByBookingNumber: string;
+  freedPallets: number;
+  offers: { bookingNumber: string; shipperName: string; pallets: number }[];
+}
+
+export async function sendStandbyOffersToPlanners(
+  planners: EmailRecipient[],
+  data: StandbyOffersPlannerData
+): Promise<void> {
+  if (planners.length === 0 || data.offers.length === 0) return;
+  const from = `"Reefer Stowage Planner" <${process.env.EMAIL_USER?.replace(/'/g, '')}>`;
+  const baseUrl = process.env.AUTH_URL ?? process.env.NEXTAUTH_URL ?? 'http://localhost:3001';
+  const subject = `Standby Promotion Awaiting Approval — ${data.voyageNumber}`;
+
+  const html = buildEmailHtml({
+    title: subject,
+    heading: 'Freed space was offered to the standby queue',
+    body: `
+      <p><strong style="color: #f1f5f9;">${data.freedPallets} pallets</strong> were freed by booking <span style="font-family: monospace;">${data.freedByBookingNumber}</span>. The following standby promotions are waiting for your approval:</p>
+      ${bookingDetailTable(data.offers.map(o => [o.bookingNumber, `${o.shipperName} — ${o.pallets} pallets`]))}
+      ${bookingDetailTable([
+        ['Vessel / Voyage', `${data.vesselName ? `${data.vesselName} / ` : ''}${data.voyageNumber}`],
+      ])}
+    `,
+    ctaText: 'Review Standby Queue',
+    ctaUrl: `${baseUrl}/bookings`,
+  });
+
+  await Promise.all(planners.map(planner => {
+    const toAddress = planner.name ? `"${planner.name}" <${planner.email}>` : planner.email;
+    return transporter.sendMail({
+      from,
+      to: toAddress,
+      subject,
+      html,
+      text: `${data.freedPallets} pallets freed by booking ${data.freedByBookingNumber} on ${data.voyageNumber}. Standby promotions awaiting approval: ${data.offers.map(o => `${o.bookingNumber} (${o.pallets})`).join(', ')}.`,
+    });
+  }));
+}
+
+// ============================================================================
+// BOOKING DEADLINE EMAILS
+// Sent by the booking-deadline-reminders and expire-forecasts jobs
+// (lib/booking-deadline.ts, lib/forecast-housekeeping.ts).
+// ============================================================================
+
+export interface DeadlineForecastLine {
+  contractNumber: string;
+  consigneeName: string;
+  polPortCode: string;
+  podPortCode: string;
+  estimatedPallets: number;
+}
+
+export interface BookingDeadlineReminderData {
+  voyageId: string;
+  voyageNumber: string;
+  vesselName?: string;
+  serviceCode: string;
+  bookingDeadline: Date;
+  hoursBefore: number;
+  forecasts: DeadlineForecastLine[];
+}
+
+function formatDeadline(d: Date): string {
+  const { date, time } = formatUtcDateTime(new Date(d));
+  return `${date} ${time} UTC`;
+}
+
+// Shipper has forecast space on the voyage but has not booked it yet
+export async function sendBookingDeadlineReminder(
+  to: EmailRecipient,
+  data: BookingDeadlineReminderData
+): Promise<void> {
+  const from = `"Reefer Stowage Planner" <${process.env.EMAIL_USER?.replace(/'/g, '')}>`;
+  const baseUrl = process.env.AUTH_URL ?? process.env.NEXTAUTH_URL ?? 'http://localhost:3001';
+  const deadline = formatDeadline(data.bookingDeadline);
+  const subject = `Booking Deadline in ${data.hoursBefore}h — ${data.voyageNumber}`;
+
+  const html = buildEmailHtml({
+    title: subject,
+    heading: 'Your forecast space has not been booked yet',
+    body: `
+      <p>${to.name ? `${to.name}, y` : 'Y'}ou forecast cargo on this voyage but no booking has been received. Bookings close at <strong style="color: #f1f5f9;">${deadline}</strong>; unbooked forecasts expire then and the space is released.</p>
+      ${bookingDetailTable(data.forecasts.map(f => [
+        f.contractNumber,
+        `${f.consigneeName} · ${f.polPortCode} → ${f.podPortCode} · ${f.estimatedPallets} pallets`,
+      ]))}
+      ${bookingDetailTable([
+        ['Vessel / Voyage', `${data.vesselName ? `${data.vesselName} / ` : ''}${data.voyageNumber}`],
+        ['Service', data.serviceCode],
+        ['Booking Deadline', deadline],
+      ])}
+    `,
+    ctaText: 'Request Booking',
+    ctaUrl: `${baseUrl}/shipper/request?voyageId=${data.voyageId}`,
+  });
+
+  const toAddress = to.name ? `"${to.name}" <${to.email}>` : to.email;
+  await transporter.sendMail({
+    from,
+    to: toAddress,
+    subject,
+    html,
+    text: `Bookings for ${data.voyageNumber} close at ${deadline}. Forecasts without a booking: ${data.forecasts.map(f => `${f.contractNumber} (${f.estimatedPallets})`).join(', ')}.`,
+  });
+}
+
+export interface ForecastExpiryDigestData {
+  voyageNumber: string;
+  vesselName?: string;
+  bookingDeadline?: Date;
+  expired: (DeadlineForecastLine & { shipperName: string })[];
+}
+
+// Counterparties whose forecasts expired at the deadline without converting
+export async function sendForecastExpiryDigestToPlanners(
+  planners: EmailRecipient[],
+  data: ForecastExpiryDigestData
+): Promise<void> {
+  if (planners.length === 0 || data.expired.length === 0) return;
+  const from = `"Reefer Stowage Planner" <${process.env.EMAIL_USER?.replace(/'/g, '')}>`;
+  const baseUrl = process.env.AUTH_URL ?? process.env.NEXTAUTH_URL ?? 'http://localhost:3001';
+  const subject = `Forecasts Expired at Booking Deadline — ${data.voyageNumber}`;
+  const totalPallets = data.expired.reduce((sum, f) => sum + f.estimatedPallets, 0);
+
+  const html = buildEmailHtml({
+    title: subject,
+    heading: 'These counterparties never converted their forecast',
+    body: `
+      <p>The booking deadline${data.bookingDeadline ? ` (${formatDeadline(data.bookingDeadline)})` : ''} has passed. <strong style="color: #f1f5f9;">${data.expired.length} forecast(s), ${totalPallets} pallets</strong> had no booking and were expired automatically:</p>
+      ${bookingDetailTable(data.expired.map(f => [
+        f.shipperName,
+        `${f.contractNumber} · ${f.consigneeName} · ${f.polPortCode} → ${f.podPortCode} · ${f.estimatedPallets} pallets`,
+      ]))}
+      ${bookingDetailTable([
+        ['Vessel / Voyage', `${data.vesselName ? `${data.vesselName} / ` : ''}${data.voyageNumber}`],
+      ])}
+    `,
+    ctaText: 'Review Stowage Plans',
+    ctaUrl: `${baseUrl}/stowage-plans`,
+  });
+
+  await Promise.all(planners.map(planner => {
+    const toAddress = planner.name ? `"${planner.name}" <${planner.email}>` : planner.email;
+    return transporter.sendMail({
+      from,
+      to: toAddress,
+      subject,
+      html,
+      text: `Forecasts expired at the booking deadline for ${data.voyageNumber}: ${data.expired.map(f => `${f.shipperName} ${f.contractNumber} (${f.estimatedPallets})`).join(', ')}.`,
+    });
+  }));
+}
@@ -0,0 +1,117 @@
+// lib/forecast-housekeeping.ts
+// Forecast expiry and clean-up shared by the expireForecasts action, the
+// scheduled jobs (lib/jobs), lib/booking-deadline.ts and
+// scripts/cleanup-expired-forecasts.ts.
+
+import connectDB from '@/lib/db/connect';
+import { BookingModel, SpaceForecastModel, StowagePlanModel, VoyageModel } from '@/lib/db/schemas';
+import { sendForecastExpiryDigestToPlanners } from '@/lib/email';
+import { lookupPlannerRecipients } from '@/lib/notification-recipients';
+
+// REPLACED_BY_BOOKING / EXPIRED forecasts older than this are deleted
+export const STALE_FORECAST_DAYS = 30;
+
+// Forecasts that still hold space on a voyage
+const ACTIVE_FORECAST_IMPACTS = ['PENDING_REVIEW', 'INCORPORATED'];
+
+/**
+ * Active forecasts on the voyage whose shipper has no PENDING / CONFIRMED /
+ * PARTIAL booking under the same contract — the ones the booking deadline
+ * reminders chase and that expire at the deadline.
+ */
+export async function findUnbookedForecasts(voyageId: string): Promise<any[]> {
+  const activeForecasts = await SpaceForecastModel.find({
+    voyageId,
+    planImpact: { $in: ACTIVE_FORECAST_IMPACTS },
+  }).lean();
+
+  const unbooked: any[] = [];
+  for (const fc of activeForecasts as any[]) {
+    const booking = await BookingModel.findOne({
+      contractId: fc.contractId,
+      voyageId,
+      shipperId: fc.shipperId,
+      status: { $in: ['CONFIRMED', 'PARTIAL', 'PENDING'] },
+    }).select('_id').lean();
+    if (!booking) unbooked.push(fc);
+  }
+  return unbooked;
+}
+
+/**
+ * Marks the voyage's unbooked forecasts EXPIRED and flags them on the
+ * voyage's open plans. Callers check that the booking deadline has passed.
+ * Returns the forecasts that were expired.
+ */
+export async function expireVoyageForecasts(voyageId: string): Promise<any[]> {
+  const toExpire = await findUnbookedForecasts(voyageId);
+  if (toExpire.length === 0) return [];
+
+  const toExpireIds = toExpire.map(fc => fc._id.toString());
+  await SpaceForecastModel.updateMany(
+    { _id: { $in: toExpireIds } },
+    { $set: { planImpact: 'EXPIRED' } }
+  );
+
+  await StowagePlanModel.updateMany(
+    { voyageId, status: { $nin: ['COMPLETED', 'CANCELLED'] } },
+    { $addToSet: { expiredForecasts: { $each: toExpireIds } } }
+  );
+
+  return toExpire;
+}
+
+/**
+ * Expires forecasts on every open voyage whose booking deadline has passed
+ * and sends the voyage's planners a digest of the counterparties that never
+ * converted. A failed digest email does not fail the run.
+ */
+export async function expireOverdueForecasts(now: Date = new Date()): Promise<{ voyages: number; expired: number }> {
+  await connectDB();
+
+  const voyageIds: any[] = await SpaceForecastModel.distinct('voyageId', {
+    planImpact: { $in: ACTIVE_FORECAST_IMPACTS },
+  });
+  const voyages = await VoyageModel.find({
+    _id: { $in: voyageIds },
+    bookingDeadline: { $lte: now },
+    status: { $nin: ['CLOSED', 'CANCELLED'] },
+  }).select('_id voyageNumber vesselName serviceCode bookingDeadline').lean();
+
+  let expired = 0;
+  let touched = 0;
+  for (const voyage of voyages as any[]) {
+    const expiredForecasts = await expireVoyageForecasts(voyage._id.toString());
+    if (expiredForecasts.length === 0) continue;
+    touched++;
+    expired += expiredForecasts.length;
+
+    const planners = await lookupPlannerRecipients(voyage.serviceCode ?? expiredForecasts[0].serviceCode);
+    await sendForecastExpiryDigestToPlanners(planners, {
+      voyageNumber: voyage.voyageNumber,
+      vesselName: voyage.vesselName ?? expiredForecasts[0].vesselName,
+      bookingDeadline: voyage.bookingDeadline,
+      expired: expiredForecasts.map(fc => ({
+        shipperName: fc.shipperName,
+        contractNumber: fc.contractNumber,
+        consigneeName: fc.consigneeName,
+        polPortCode: fc.polPortCode,
+        podPortCode: fc.podPortCode,
+        estimatedPallets: fc.estimatedPallets,
+      })),
+    }).catch(err => console.error('[email] forecast expiry digest failed:', err.message));
+  }
+  return { voyages: touched, expired };
+}
+
+// Deletes REPLACED_BY_BOOKING / EXPIRED forecasts untouched for `days`
+export async function deleteStaleForecasts(days: number = STALE_FORECAST_DAYS): Promise<number> {
+  await connectDB();
+
+  const cutoff = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+  const result = await SpaceForecastModel.deleteMany({
+    planImpact: { $in: ['REPLACED_BY_BOOKING', 'EXPIRED'] },
+    updatedAt: { $lt: cutoff },
+  });
+  return result.deletedCount ?? 0;
+}
@@ -0,0 +1,210 @@
+// lib/generate-loading-sequence-pdf.ts
+// Generates the loading-sequence PDF (one chapter per LOAD port) using pdf-lib.
+// Each step is a checklist row stevedores can tick off on paper.
+
+import { PDFDocument, StandardFonts, rgb, PDFPage, PDFFont } from 'pdf-lib';
+import type { PortLoadingSequence } from '@/types/models';
+
+export interface LoadingSequencePdfData {
+  planNumber: string;
+  vesselName: string;
+  voyageNumber: string;
+  generatedAt: Date;
+  ports: PortLoadingSequence[];
+}
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+function fmtDate(d: Date): string {
+  return new Date(d).toLocaleString('en-US', {
+    year: 'numeric', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit',
+  });
+}
+
+// Hours as h:mm (2.5 → "2:30")
+function fmtHours(h: number): string {
+  const hours = Math.floor(h);
+  const minutes = Math.round((h - hours) * 60);
+  return `${hours}:${String(minutes).padStart(2, '0')}`;
+}
+
+// Standard fonts only encode WinAnsi — replace anything outside it
+function safe(s: string): string {
+  return s.replace(/[^\x20-\x7E\xA0-\xFF]/g, '?');
+}
+
+function trunc(s: string, maxPx: number, charPx = 5.2): string {
+  const max = Math.floor(maxPx / charPx);
+  return s.length <= max ? s : s.slice(0, max - 2) + '..';
+}
+
+// ── PDF generation ───────────────────────────────────────────────────────────
+
+export async function generateLoadingSequencePdf(data: LoadingSequencePdfData): Promise<Buffer> {
+  const A4_W = 595.28;
+  const A4_H = 841.89;
+  const MARGIN = 40;
+  const CW = A4_W - MARGIN * 2;
+
+  const ROW_H  = 15;
+  const HEAD_H = 17;
+  const SEC_H  = 17;
+
+  const C_DARK  = rgb(0.07, 0.08, 0.15);
+  const C_ACNT  = rgb(0.055, 0.647, 0.914);
+  const C_MUTED = rgb(0.39,  0.455, 0.545);
+  const C_LIGHT = rgb(0.945, 0.961, 0.976);
+  const C_MID   = rgb(0.882, 0.910, 0.937);
+  const C_TEXT  = rgb(0.118, 0.180, 0.314);
+  const C_WARN  = rgb(0.706, 0.325, 0.035);
+  const C_WHITE = rgb(1,     1,     1    );
+
+  const doc = await PDFDocument.create();
+  const regular = await doc.embedFont(StandardFonts.Helvetica);
+  const bold    = await doc.embedFont(StandardFonts.HelveticaBold);
+
+  let page: PDFPage = doc.addPage([A4_W, A4_H]);
+  let y = A4_H - MARGIN;
+
+  const newPage = () => {
+    page = doc.addPage([A4_W, A4_H]);
+    y = A4_H - MARGIN;
+  };
+
+  const ensure = (need: number) => {
+    if (y - need < 55) newPage();
+  };
+
+  const rect = (x: number, topY: number, w: number, h: number, color: ReturnType<typeof rgb>) => {
+    page.drawRectangle({ x, y: topY - h, width: w, height: h, color });
+  };
+
+  const txt = (
+    str: string,
+    x: number,
+    topY: number,
+    rowH: number,
+    size: number,
+    font: PDFFont = regular,
+    color: ReturnType<typeof rgb> = C_TEXT,
+  ) => {
+    const baseline = topY - rowH * 0.72 + size * 0.1;
+    page.drawText(safe(str), { x, y: baseline, size, font, color });
+  };
+
+  const hline = (lineY: number) => {
+    page.drawLine({
+      start: { x: MARGIN, y: lineY },
+      end:   { x: MARGIN + CW, y: lineY },
+      thickness: 0.4,
+      color: C_MID,
+    });
+  };
+
+  // ── Header block ──────────────────────────────────────────────────────────
+  const HDR = 68;
+  rect(MARGIN, y, CW, HDR, C_DARK);
+  txt(data.planNumber,                               MARGIN + 14, y,        HDR * 0.45, 18, bold,    C_WHITE);
+  txt(`${data.vesselName}  -  ${data.voyageNumber}`, MARGIN + 14, y - 26,   18,         10, regular, C_ACNT);
+  txt(`Generated ${fmtDate(data.generatedAt)}`,      MARGIN + 14, y - 46,   14,          8, regular, C_MUTED);
+  txt('LOADING SEQUENCE',                            MARGIN + CW - 105, y,  HDR * 0.45,  8, bold,    C_MUTED);
+  y -= HDR + 10;
+
+  // Checklist columns: box, step, gang, section, start, duration, pallets, bookings
+  const cols = [
+    { label: '',         w: 20 },
+    { label: 'Step',     w: 32 },
+    { label: 'Gang',     w: 34 },
+    { label: 'Section',  w: 48 },
+    { label: 'Start',    w: 40 },
+    { label: 'Duration', w: 48 },
+    { label: 'Pallets',  w: 44 },
+    { label: 'Bookings (shipper / consignee / POD)', w: CW - 266 },
+  ];
+  const colX = cols.map((_, i) => MARGIN + cols.slice(0, i).reduce((sum, c) => sum + c.w, 0));
+
+  const tableHeader = () => {
+    rect(MARGIN, y, CW, HEAD_H, C_MID);
+    cols.forEach((c, i) => txt(c.label, colX[i] + 4, y, HEAD_H, 7.5, bold, C_MUTED));
+    y -= HEAD_H;
+  };
+
+  for (const port of data.ports) {
+    // ── Port title ──────────────────────────────────────────────────────────
+    ensure(SEC_H + HEAD_H + ROW_H * 2 + 10);
+    y -= 8;
+    rect(MARGIN, y, CW, SEC_H, C_LIGHT);
+    txt(`${port.portCode}  ${port.portName}`.toUpperCase(), MARGIN + 6, y, SEC_H, 7.5, bold, C_MUTED);
+    txt(
+      `${port.totalPallets} pallets  -  ${port.gangs} gang(s) at ${port.palletsPerHour} plt/h  -  approx. ${fmtHours(port.totalHours)} h`,
+      MARGIN + CW - 250, y, SEC_H, 7.5, regular, C_MUTED,
+    );
+    y -= SEC_H + 4;
+
+    for (const warning of port.warnings) {
+      ensure(ROW_H);
+      txt(`! ${trunc(warning, CW - 12)}`, MARGIN + 6, y, ROW_H, 7.5, bold, C_WARN);
+      y -= ROW_H;
+    }
+
+    tableHeader();
+    for (const step of port.steps) {
+      const lines = Math.max(1, step.bookings.length);
+      if (y - ROW_H * lines < 55) {
+        newPage();
+        tableHeader();
+      }
+      // Tick box
+      page.drawRectangle({
+        x: colX[0] + 5, y: y - ROW_H + 3.5, width: 8, height: 8,
+        borderColor: C_TEXT, borderWidth: 0.7,
+      });
+      txt(String(step.step),                colX[1] + 4, y, ROW_H, 8, bold);
+      txt(String(step.gang),                colX[2] + 4, y, ROW_H, 8);
+      txt(step.sectionId,                   colX[3] + 4, y, ROW_H, 8, bold);
+      txt(`+${fmtHours(step.startHours)}`,  colX[4] + 4, y, ROW_H, 8);
+      txt(`${fmtHours(step.durationHours)} h`, colX[5] + 4, y, ROW_H, 8);
+      txt(String(step.pallets),             colX[6] + 4, y, ROW_H, 8);
+      step.bookings.forEach((b, i) => {
+        const line = [
+          `${b.pallets} x ${b.bookingNumber ?? b.bookingId}`,
+          b.shipperName,
+          b.consigneeName,
+          b.podPortCode,
+        ].filter(Boolean).join(' / ');
+        txt(trunc(line, cols[7].w - 8), colX[7] + 4, y - ROW_H * i, ROW_H, 8);
+      });
+      hline(y - ROW_H * lines);
+      y -= ROW_H * lines;
+    }
+    y -= 8;
+  }
+
+  if (data.ports.length === 0) {
+    ensure(20);
+    txt('No cargo to load at any LOAD port.', MARGIN + 6, y, 14, 8.5, regular, C_MUTED);
+    y -= 18;
+  }
+
+  // ── Footer on every page ──────────────────────────────────────────────────
+  const pages = doc.getPages();
+  const pageCount = pages.length;
+  for (let i = 0; i < pageCount; i++) {
+    const p = pages[i];
+    p.drawLine({
+      start: { x: MARGIN,      y: 34 },
+      end:   { x: A4_W - MARGIN, y: 34 },
+      thickness: 0.4,
+      color: C_MID,
+    });
+    p.drawText('Reefer Stowage Planner - Confidential', {
+      x: MARGIN, y: 20, size: 7, font: regular, color: C_MUTED,
+    });
+    p.drawText(`${data.planNumber}  -  Page ${i + 1} of ${pageCount}`, {
+      x: A4_W - MARGIN - 130, y: 20, size: 7, font: regular, color: C_MUTED,
+    });
+  }
+
+  const pdfBytes = await doc.save();
+  return Buffer.from(pdfBytes);
+}
@@ -6,10 +6,18 @@ import { PDFDocument, StandardFonts, rgb, PDFPage, PDFFont } from 'pdf-lib';
 
 // ── Public interfaces ────────────────────────────────────────────────────────
 
+export interface PlanPdfZoneAtmosphere {
+  mode: 'REGULAR' | 'CA';
+  o2?: number;          // % set point (CA)
+  co2?: number;         // % set point (CA)
+  ventilation?: number; // air changes/hour (0 = closed)
+}
+
 export interface PlanPdfZone {
   zoneId: string;
   coolingSectionIds: string[];
   assignedTemperature: number;
+  atmosphere?: PlanPdfZoneAtmosphere;
 }
 
 export interface PlanPdfCargoRow {
@@ -56,6 +64,17 @@ function fmtTemp(t: number): string {
   return `${t > 0 ? '+' : ''}${t} C`;
 }
 
+// "CA  O2 3%  CO2 5%  vent closed" / "Regular  vent 2/h"
+function fmtAtmosphere(a?: PlanPdfZoneAtmosphere): string {
+  if (!a) return '-';
+  const vent = a.ventilation === undefined ? '' : a.ventilation === 0 ? 'vent closed' : `vent ${a.ventilation}/h`;
+  if (a.mode === 'CA') {
+    return ['CA', a.o2 !== undefined ? `O2 ${a.o2}%` : '', a.co2 !== undefined ? `CO2 ${a.co2}%` : '', vent]
+      .filter(Boolean).join('  ');
+  }
+  return ['Regular', vent].filter(Boolean).join('  ');
+}
+
 // Truncate string so it fits within `maxPx` pixels at an average of `charPx` per char.
 function trunc(s: string, maxPx: number, charPx = 5.2): string {
   const max = Math.floor(maxPx / charPx);
@@ -206,14 +225,16 @@ export async function generatePlanPdf(data: PlanPdfData): Promise<Buffer> {
     section('Temperature Zone Configuration');
     table(
       [
-        { label: 'Zone',             w: 90  },
-        { label: 'Cooling Sections', w: 245 },
-        { label: 'Set Temperature',  w: CW - 335 },
+        { label: 'Zone',             w: 80  },
+        { label: 'Cooling Sections', w: 150 },
+        { label: 'Set Temperature',  w: 85  },
+        { label: 'Atmosphere',       w: CW - 315 },
       ],
       data.temperatureZones.map(z => [
         z.zoneId,
         z.coolingSectionIds.join(', '),
         fmtTemp(z.assignedTemperature),
+        fmtAtmosphere(z.atmosphere),
       ])
     );
   }
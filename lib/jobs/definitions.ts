@@ -0,0 +1,78 @@
+// lib/jobs/definitions.ts
+// Recurring housekeeping jobs. Each job returns a one-line summary for the
+// run history; throwing marks the run FAILED. Schedules are cron expressions
+// evaluated in JOB_TIMEZONE.
+//
+// scripts/cleanup-transactional.ts is deliberately not a job: it wipes all
+// transactional data and stays a manual, dev-only script.
+
+import { syncVoyageStatuses } from '@/lib/voyage-status';
+import { sendDeadlineReminders } from '@/lib/booking-deadline';
+import { deleteStaleForecasts, expireOverdueForecasts, STALE_FORECAST_DAYS } from '@/lib/forecast-housekeeping';
+
+export const JOB_TIMEZONE = 'UTC';
+
+export interface JobDefinition {
+  name: string;
+  label: string;
+  description: string;
+  schedule: string;             // cron expression
+  scheduleLabel: string;
+  lockMinutes: number;          // how long a run may hold the lock before others may take it
+  run: () => Promise<string>;
+}
+
+export const JOBS: JobDefinition[] = [
+  {
+    name: 'sync-voyage-statuses',
+    label: 'Sync voyage statuses',
+    description: 'Moves voyages to IN_PROGRESS / COMPLETED from their port call ETAs.',
+    schedule: '*/15 * * * *',
+    scheduleLabel: 'Every 15 minutes',
+    lockMinutes: 10,
+    run: async () => {
+      const updated = await syncVoyageStatuses();
+      return `${updated} voyage(s) updated`;
+    },
+  },
+  {
+    name: 'expire-forecasts',
+    label: 'Expire forecasts',
+    description: 'Expires space forecasts without a booking once the voyage booking deadline has passed and emails planners a digest.',
+    schedule: '*/15 * * * *',
+    scheduleLabel: 'Every 15 minutes',
+    lockMinutes: 30,
+    run: async () => {
+      const { voyages, expired } = await expireOverdueForecasts();
+      return `${expired} forecast(s) expired on ${voyages} voyage(s)`;
+    },
+  },
+  {
+    name: 'booking-deadline-reminders',
+    label: 'Booking deadline reminders',
+    description: 'Emails shippers whose forecasts are not yet booked at the service reminder offsets before the booking deadline.',
+    schedule: '0 * * * *',
+    scheduleLabel: 'Hourly',
+    lockMinutes: 30,
+    run: async () => {
+      const { voyages, shippers, emails } = await sendDeadlineReminders();
+      return `${emails} reminder(s) to ${shippers} shipper(s) on ${voyages} voyage(s)`;
+    },
+  },
+  {
+    name: 'cleanup-stale-forecasts',
+    label: 'Clean up stale forecasts',
+    description: `Deletes replaced and expired forecasts older than ${STALE_FORECAST_DAYS} days.`,
+    schedule: '30 3 * * *',
+    scheduleLabel: 'Daily at 03:30 UTC',
+    lockMinutes: 30,
+    run: async () => {
+      const deleted = await deleteStaleForecasts();
+      return `${deleted} forecast(s) deleted`;
+    },
+  },
+];
+
+export function getJob(name: string): JobDefinition | undefined {
+  return JOBS.find(j => j.name === name);
+}
@@ -0,0 +1,86 @@
+// lib/jobs/runner.ts
+// Runs one job under a Mongo lock so only one server instance executes it at a
+// time, and records the run in JobRun. A scheduled run that finds the lock
+// held is skipped silently (another instance has it); a manual one reports it.
+
+import { hostname } from 'os';
+import connectDB from '@/lib/db/connect';
+import { JobLockModel, JobRunModel } from '@/lib/db/schemas';
+import { getJob } from './definitions';
+
+export type JobTrigger = 'SCHEDULE' | 'MANUAL';
+
+export const JOB_INSTANCE_ID = `${hostname()}:${process.pid}`;
+
+export type JobRunResult =
+  | { ran: true; runId: string; status: 'SUCCESS' | 'FAILED'; summary?: string; error?: string }
+  | { ran: false; reason: 'LOCKED' | 'UNKNOWN_JOB' };
+
+// Takes the lock if it is free or expired. The upsert collides on _id when
+// another instance holds it, which is how "held" is detected.
+async function acquireLock(jobName: string, lockMinutes: number): Promise<boolean> {
+  const now = new Date();
+  try {
+    await JobLockModel.findOneAndUpdate(
+      { _id: jobName, $or: [{ lockedUntil: { $lte: now } }, { lockedUntil: null }] },
+      { $set: { lockedBy: JOB_INSTANCE_ID, lockedUntil: new Date(now.getTime() + lockMinutes * 60_000) } },
+      { upsert: true },
+    );
+    return true;
+  } catch (err: any) {
+    if (err?.code === 11000) return false;
+    throw err;
+  }
+}
+
+async function releaseLock(jobName: string) {
+  await JobLockModel.updateOne(
+    { _id: jobName, lockedBy: JOB_INSTANCE_ID },
+    { $set: { lockedUntil: new Date(0) } },
+  );
+}
+
+export async function runJob(name: string, trigger: JobTrigger, triggeredBy = 'scheduler'): Promise<JobRunResult> {
+  const job = getJob(name);
+  if (!job) return { ran: false, reason: 'UNKNOWN_JOB' };
+
+  await connectDB();
+  if (!(await acquireLock(job.name, job.lockMinutes))) return { ran: false, reason: 'LOCKED' };
+
+  const startedAt = new Date();
+  const run = await JobRunModel.create({
+    jobName: job.name,
+    trigger,
+    triggeredBy,
+    status: 'RUNNING',
+    startedAt,
+    instanceId: JOB_INSTANCE_ID,
+  }).catch(async err => {
+    // No run to record — free the lock so the next tick can try again
+    await releaseLock(job.name).catch(e => console.error(`[jobs] ${job.name} lock release failed:`, e));
+    throw err;
+  });
+
+  let result: JobRunResult;
+  try {
+    const summary = await job.run();
+    result = { ran: true, runId: run._id.toString(), status: 'SUCCESS', summary };
+  } catch (err: any) {
+    console.error(`[jobs] ${job.name} failed:`, err);
+    result = { ran: true, runId: run._id.toString(), status: 'FAILED', error: err?.message ?? String(err) };
+  } finally {
+    await releaseLock(job.name).catch(err => console.error(`[jobs] ${job.name} lock release failed:`, err));
+  }
+
+  const finishedAt = new Date();
+  await JobRunModel.updateOne({ _id: run._id }, {
+    $set: {
+      status: result.status,
+      finishedAt,
+      durationMs: finishedAt.getTime() - startedAt.getTime(),
+      summary: result.summary,
+      error: result.error,
+    },
+  });
+  return result;
+}
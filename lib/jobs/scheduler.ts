@@ -0,0 +1,40 @@
+// lib/jobs/scheduler.ts
+// Registers every job in JOBS with node-cron. Called once from
+// instrumentation.ts on the Node.js runtime. Every instance schedules every
+// job; the lock in runJob() decides which instance actually runs it.
+// Set JOBS_DISABLED=true to keep an instance out of the rotation.
+
+import cron from 'node-cron';
+import { JOBS, JOB_TIMEZONE } from './definitions';
+import { runJob } from './runner';
+
+const globalForJobs = globalThis as unknown as { jobSchedulerStarted?: boolean };
+
+export function startScheduler() {
+  if (process.env.JOBS_DISABLED === 'true') {
+    console.log('[jobs] Scheduler disabled (JOBS_DISABLED=true)');
+    return;
+  }
+  // Dev hot reload re-runs register(); only schedule once per process
+  if (globalForJobs.jobSchedulerStarted) return;
+  globalForJobs.jobSchedulerStarted = true;
+
+  for (const job of JOBS) {
+    if (!cron.validate(job.schedule)) {
+      console.error(`[jobs] Invalid schedule for ${job.name}: ${job.schedule}`);
+      continue;
+    }
+    cron.schedule(
+      job.schedule,
+      async () => {
+        try {
+          await runJob(job.name, 'SCHEDULE');
+        } catch (err) {
+          console.error(`[jobs] ${job.name} could not run:`, err);
+        }
+      },
+      { name: job.name, timezone: JOB_TIMEZONE, noOverlap: true },
+    );
+  }
+  console.log(`[jobs] Scheduled ${JOBS.length} job(s)`);
+}
@@ -0,0 +1,190 @@
+// lib/live-plan.ts
+// Server-side loader for the live plan monitor (/stowage-plans/[id]/live):
+// one read-only snapshot of a plan with cargo per cooling section broken down
+// by shipper → consignee, and the POD legend. The SSE route re-sends the
+// snapshot whenever the plan's change token moves.
+
+import connectDB from '@/lib/db/connect';
+import { BookingModel, StowagePlanModel } from '@/lib/db/schemas';
+import { getPodColor } from '@/lib/constants/pod-colors';
+import { resolveCargoLeg } from '@/lib/cargo-leg';
+import { DEFAULT_DESIGN_STOWAGE_FACTOR } from '@/lib/stowage-engine/input';
+import type { DeckProfileContainer, DeckProfileStack } from '@/lib/vessel-profile-data';
+
+export interface LiveSectionCargo {
+  shipper: string;
+  consignee: string;
+  pallets: number;
+  cargoType: string;
+  podPortCode: string;
+}
+
+export interface LiveSection {
+  sectionId: string;
+  zoneId: string;
+  temperature: number | null;
+  sqm: number;
+  designStowageFactor: number;
+  capacity: number;
+  pallets: number;
+  cargoType: string;            // cargo of the largest position
+  podPortCode: string;          // POD of the largest position
+  polPortCodes: string[];
+  cargo: LiveSectionCargo[];    // largest first
+}
+
+export interface LivePodEntry {
+  portCode: string;
+  color: string;
+  pallets: number;
+}
+
+export interface LivePlanSnapshot {
+  planId: string;
+  planNumber: string;
+  status: string;
+  voyageNumber: string;
+  vesselName: string;
+  token: string;
+  updatedAt: string | null;
+  temperatureZones: any[];
+  deckStacks: DeckProfileStack[];
+  deckContainers: DeckProfileContainer[];
+  sections: LiveSection[];
+  pods: LivePodEntry[];         // in discharge order
+  totalPallets: number;
+  totalCapacity: number;
+}
+
+// Changes whenever the plan document is saved
+const changeToken = (plan: any) =>
+  `${plan.updatedAt ? new Date(plan.updatedAt).getTime() : 0}:${plan.editVersion ?? 0}`;
+
+/**
+ * Current change token of a plan, or null when it no longer exists. Cheap —
+ * the SSE route calls it on every tick and only loads the full snapshot when
+ * the token moves.
+ */
+export async function loadLivePlanToken(planId: string): Promise<string | null> {
+  await connectDB();
+  const plan = await StowagePlanModel.findById(planId).select('updatedAt editVersion').lean() as any;
+  return plan ? changeToken(plan) : null;
+}
+
+/**
+ * Snapshot of a plan for the monitor, or null when the plan does not exist or
+ * the voyage's service is outside `serviceFilter` (empty = all services).
+ */
+export async function loadLivePlanSnapshot(
+  planId: string,
+  serviceFilter: string[] = [],
+): Promise<LivePlanSnapshot | null> {
+  await connectDB();
+
+  const plan = await StowagePlanModel.findById(planId)
+    .populate('vesselId', 'name temperatureZones deckBayPlan')
+    .populate('voyageId', 'serviceCode portCalls')
+    .lean() as any;
+  if (!plan) return null;
+
+  const serviceCode = plan.voyageId?.serviceCode ?? '';
+  if (serviceFilter.length > 0 && serviceCode && !serviceFilter.includes(serviceCode)) return null;
+
+  const positions: any[] = plan.cargoPositions ?? [];
+
+  // Older positions may lack the shipper / consignee snapshot
+  const missing = [...new Set(
+    positions
+      .filter(p => (!p.shipperName || !p.consigneeName) && /^[a-f\d]{24}$/i.test(String(p.bookingId ?? '')))
+      .map(p => String(p.bookingId)),
+  )];
+  const bookings = missing.length > 0
+    ? await BookingModel.find({ _id: { $in: missing } }).select('shipper.name consignee.name').lean() as any[]
+    : [];
+  const bookingById = new Map(bookings.map(b => [b._id.toString(), b]));
+
+  const tempByZone = new Map<string, number | null>(
+    (plan.coolingSectionStatus ?? []).map((cs: any) => [cs.zoneId, cs.assignedTemperature ?? null]),
+  );
+
+  const sections: LiveSection[] = [];
+  for (const zone of plan.vesselId?.temperatureZones ?? []) {
+    for (const section of zone.coolingSections ?? []) {
+      const inSection = positions.filter(p => p.compartment?.id === section.sectionId && (p.quantity ?? 0) > 0);
+
+      const cargoByKey = new Map<string, LiveSectionCargo>();
+      for (const p of inSection) {
+        const booking = bookingById.get(String(p.bookingId));
+        const shipper = p.shipperName ?? booking?.shipper?.name ?? '—';
+        const consignee = p.consigneeName ?? booking?.consignee?.name ?? '—';
+        const key = `${shipper}|${consignee}|${p.cargoType ?? ''}|${p.podPortCode ?? ''}`;
+        const entry = cargoByKey.get(key) ?? {
+          shipper,
+          consignee,
+          pallets: 0,
+          cargoType: p.cargoType ?? '',
+          podPortCode: p.podPortCode ?? '',
+        };
+        entry.pallets += p.quantity ?? 0;
+        cargoByKey.set(key, entry);
+      }
+      const cargo = [...cargoByKey.values()].sort((a, b) => b.pallets - a.pallets);
+
+      const factor = section.designStowageFactor ?? DEFAULT_DESIGN_STOWAGE_FACTOR;
+      sections.push({
+        sectionId: section.sectionId,
+        zoneId: zone.zoneId,
+        temperature: tempByZone.get(zone.zoneId) ?? null,
+        sqm: section.sqm ?? 0,
+        designStowageFactor: factor,
+        capacity: Math.floor((section.sqm ?? 0) / factor),
+        pallets: cargo.reduce((sum, c) => sum + c.pallets, 0),
+        cargoType: cargo[0]?.cargoType ?? '',
+        podPortCode: cargo[0]?.podPortCode ?? '',
+        polPortCodes: [...new Set(inSection.map(p => p.polPortCode).filter(Boolean))] as string[],
+        cargo,
+      });
+    }
+  }
+
+  // Legend in discharge order: first voyage port call each POD resolves to
+  const portCalls: any[] = plan.voyageId?.portCalls ?? [];
+  const podSeq = new Map<string, number>();
+  const podPallets = new Map<string, number>();
+  for (const p of positions) {
+    if (!p.podPortCode || !(p.quantity > 0)) continue;
+    podPallets.set(p.podPortCode, (podPallets.get(p.podPortCode) ?? 0) + p.quantity);
+    const seq = resolveCargoLeg(p, portCalls).podSeq ?? Infinity;
+    podSeq.set(p.podPortCode, Math.min(podSeq.get(p.podPortCode) ?? Infinity, seq));
+  }
+  const pods = [...podPallets.entries()]
+    .sort(([a], [b]) => (podSeq.get(a)! - podSeq.get(b)!) || a.localeCompare(b))
+    .map(([portCode, pallets]) => ({ portCode, color: getPodColor(portCode), pallets }));
+
+  const deckContainers: DeckProfileContainer[] = positions
+    .filter(p => p.compartment?.level === 'DECK' && p.stackPosition?.bay != null)
+    .map(p => ({
+      bay: p.stackPosition.bay,
+      row: p.stackPosition.row,
+      tier: p.stackPosition.tier,
+      podColor: p.podPortCode ? getPodColor(p.podPortCode) : undefined,
+      label: [p.bookingNumber, p.cargoType, p.podPortCode && `→ ${p.podPortCode}`].filter(Boolean).join(' '),
+    }));
+
+  return JSON.parse(JSON.stringify({
+    planId: plan._id.toString(),
+    planNumber: plan.planNumber,
+    status: plan.status,
+    voyageNumber: plan.voyageNumber ?? '',
+    vesselName: plan.vesselName ?? plan.vesselId?.name ?? '',
+    token: changeToken(plan),
+    updatedAt: plan.updatedAt ?? null,
+    temperatureZones: plan.vesselId?.temperatureZones ?? [],
+    deckStacks: plan.vesselId?.deckBayPlan ?? [],
+    deckContainers,
+    sections,
+    pods,
+    totalPallets: sections.reduce((sum, s) => sum + s.pallets, 0),
+    totalCapacity: sections.reduce((sum, s) => sum + s.capacity, 0),
+  }));
+}
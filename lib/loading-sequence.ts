@@ -0,0 +1,155 @@
+// lib/loading-sequence.ts
+// Work order for loading a plan's cargo at each LOAD port call. Holds are
+// shared out between the port's gangs (largest first, to the least busy gang);
+// each gang works its holds one after another, deepest level first, so every
+// level is stowed before the hatch above it closes. Durations come from the
+// port's pallets-per-hour rate per gang.
+// Pure module — callers load the plan, voyage and port rates.
+
+import { resolveCargoLeg } from '@/lib/cargo-leg';
+import { LEVEL_DISPLAY_ORDER } from '@/lib/vessel-profile-data';
+import type { LoadingStep, LoadingStepBooking, PortLoadingSequence } from '@/types/models';
+
+export const DEFAULT_PALLETS_PER_HOUR = 40;
+export const DEFAULT_LOADING_GANGS = 2;
+
+export interface LoadingRate {
+  palletsPerHour: number;
+  gangs: number;
+}
+
+export interface LoadingSequenceInput {
+  cargoPositions: any[];
+  portCalls: any[];                          // voyage port calls, any order
+  rates: Record<string, LoadingRate>;        // portCode → rate; defaults when missing
+}
+
+// Higher = deeper in the hold. Deck stacks sit on the hatch cover, above UPD.
+function levelDepth(level: string): number {
+  if (level === 'DECK') return -1;
+  const i = LEVEL_DISPLAY_ORDER.indexOf(level);
+  return i === -1 ? LEVEL_DISPLAY_ORDER.length : i;
+}
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+function stepBookings(positions: any[]): LoadingStepBooking[] {
+  const byBooking = new Map<string, LoadingStepBooking>();
+  for (const p of positions) {
+    const bookingId = String(p.bookingId ?? p.shipmentId ?? '');
+    const entry = byBooking.get(bookingId) ?? {
+      bookingId,
+      bookingNumber: p.bookingNumber,
+      shipperName: p.shipperName,
+      consigneeName: p.consigneeName,
+      cargoType: p.cargoType ?? '',
+      podPortCode: p.podPortCode,
+      pallets: 0,
+    };
+    entry.pallets += p.quantity ?? 0;
+    byBooking.set(bookingId, entry);
+  }
+  return [...byBooking.values()].sort((a, b) => b.pallets - a.pallets);
+}
+
+/**
+ * One sequence per LOAD port call, in rotation order. Port calls that are
+ * cancelled or skipped, and LOAD calls with nothing to load, are left out.
+ */
+export function buildLoadingSequences({ cargoPositions, portCalls, rates }: LoadingSequenceInput): PortLoadingSequence[] {
+  const calls = portCalls
+    .filter(pc => pc.status !== 'CANCELLED' && pc.status !== 'SKIPPED')
+    .sort((a, b) => a.sequence - b.sequence);
+
+  // Positions without port-call sequences fall back to the first call at their port
+  const positions = cargoPositions
+    .filter(p => (p.quantity ?? 0) > 0 && p.compartment?.id)
+    .map(p => ({ ...p, ...resolveCargoLeg(p, calls) }));
+
+  const sequences: PortLoadingSequence[] = [];
+  for (const call of calls) {
+    if (!call.operations?.includes('LOAD')) continue;
+    const loading = positions.filter(p => p.polSeq === call.sequence);
+    if (loading.length === 0) continue;
+
+    const rate = rates[call.portCode] ?? { palletsPerHour: DEFAULT_PALLETS_PER_HOUR, gangs: DEFAULT_LOADING_GANGS };
+
+    // Sections to work, grouped by hold
+    const sectionsByHold = new Map<number, Map<string, any[]>>();
+    for (const p of loading) {
+      const hold = p.compartment.holdNumber;
+      if (!sectionsByHold.has(hold)) sectionsByHold.set(hold, new Map());
+      const sections = sectionsByHold.get(hold)!;
+      if (!sections.has(p.compartment.id)) sections.set(p.compartment.id, []);
+      sections.get(p.compartment.id)!.push(p);
+    }
+    const holdPallets = (hold: number) =>
+      [...sectionsByHold.get(hold)!.values()].flat().reduce((sum, p) => sum + (p.quantity ?? 0), 0);
+
+    // Largest hold to the least busy gang; each hold stays with one gang
+    const gangCount = Math.max(1, Math.min(rate.gangs, sectionsByHold.size));
+    const gangLoad = Array.from({ length: gangCount }, () => 0);
+    const gangHolds: number[][] = Array.from({ length: gangCount }, () => []);
+    for (const hold of [...sectionsByHold.keys()].sort((a, b) => holdPallets(b) - holdPallets(a) || a - b)) {
+      const gang = gangLoad.indexOf(Math.min(...gangLoad));
+      gangHolds[gang].push(hold);
+      gangLoad[gang] += holdPallets(hold);
+    }
+
+    const unordered: Omit<LoadingStep, 'step'>[] = [];
+    gangHolds.forEach((holds, gang) => {
+      let clock = 0;
+      for (const hold of holds.sort((a, b) => a - b)) {
+        const sections = [...sectionsByHold.get(hold)!.entries()]
+          .sort(([, a], [, b]) => levelDepth(b[0].compartment.level) - levelDepth(a[0].compartment.level));
+        for (const [sectionId, sectionPositions] of sections) {
+          const pallets = sectionPositions.reduce((sum, p) => sum + (p.quantity ?? 0), 0);
+          const durationHours = pallets / rate.palletsPerHour;
+          unordered.push({
+            gang: gang + 1,
+            holdNumber: hold,
+            sectionId,
+            level: sectionPositions[0].compartment.level,
+            pallets,
+            startHours: round1(clock),
+            durationHours: round1(durationHours),
+            bookings: stepBookings(sectionPositions),
+          });
+          clock += durationHours;
+        }
+      }
+    });
+    const steps = unordered
+      .sort((a, b) => a.startHours - b.startHours || a.gang - b.gang)
+      .map((s, i) => ({ ...s, step: i + 1 }));
+
+    // Hatch access: cargo still aboard from an earlier port above a level loaded here
+    const warnings: string[] = [];
+    const aboard = positions.filter(p =>
+      p.polSeq != null && p.polSeq < call.sequence && (p.podSeq == null || p.podSeq > call.sequence));
+    for (const [hold, sections] of sectionsByHold) {
+      const deepestHere = Math.max(...[...sections.values()].map(ps => levelDepth(ps[0].compartment.level)));
+      const blocking = aboard.filter(p => p.compartment.holdNumber === hold && levelDepth(p.compartment.level) < deepestHere);
+      for (const sectionId of [...new Set(blocking.map(p => p.compartment.id as string))].sort()) {
+        const from = [...new Set(blocking.filter(p => p.compartment.id === sectionId).map(p => p.polPortCode ?? '?'))];
+        warnings.push(
+          `Hold ${hold}: ${sectionId} already holds cargo loaded at ${from.join(', ')} above levels worked here — check hatch access`,
+        );
+      }
+    }
+
+    const totalPallets = loading.reduce((sum, p) => sum + (p.quantity ?? 0), 0);
+    sequences.push({
+      portCode: call.portCode,
+      portName: call.portName ?? call.portCode,
+      sequence: call.sequence,
+      palletsPerHour: rate.palletsPerHour,
+      gangs: gangCount,
+      totalPallets,
+      totalHours: round1(Math.max(...gangLoad) / rate.palletsPerHour),
+      warnings,
+      steps,
+    });
+  }
+  return sequences;
+}
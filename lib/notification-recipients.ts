@@ -0,0 +1,47 @@
+// lib/notification-recipients.ts
+// Who receives workflow emails: the planners serving a service and the users
+// of a shipper. Shared by the booking actions and the scheduled jobs.
+
+import { OfficeModel, ShipperModel, UserModel } from '@/lib/db/schemas';
+import type { EmailRecipient } from '@/lib/email';
+
+/**
+ * Returns all SHIPPING_PLANNER users assigned to offices that serve the given
+ * serviceCode. Falls back to every confirmed SHIPPING_PLANNER if none found.
+ */
+export async function lookupPlannerRecipients(
+  serviceCode: string
+): Promise<{ name: string; email: string }[]> {
+  const offices = await OfficeModel.find({ services: serviceCode, active: true })
+    .select('_id').lean();
+  const officeIds = (offices as any[]).map((o: any) => o._id);
+  let planners: any[] = [];
+  if (officeIds.length > 0) {
+    planners = await UserModel.find({
+      role: 'SHIPPING_PLANNER',
+      offices: { $in: officeIds },
+      emailConfirmed: true,
+    }).select('name email').lean();
+  }
+  if (planners.length === 0) {
+    planners = await UserModel.find({
+      role: 'SHIPPING_PLANNER',
+      emailConfirmed: true,
+    }).select('name email').lean();
+  }
+  return (planners as any[]).map((p: any) => ({ name: p.name, email: p.email }));
+}
+
+/**
+ * Returns the confirmed portal users linked to a shipper. Falls back to the
+ * shipper's own contact email when no user has been created yet.
+ */
+export async function lookupShipperRecipients(shipperId: string): Promise<EmailRecipient[]> {
+  const users = await UserModel.find({ shipperId, emailConfirmed: true })
+    .select('name email').lean();
+  if (users.length > 0) {
+    return (users as any[]).map((u: any) => ({ name: u.name, email: u.email }));
+  }
+  const shipper = await ShipperModel.findById(shipperId).select('contact email').lean() as any;
+  return shipper?.email ? [{ name: shipper.contact, email: shipper.email }] : [];
+}
@@ -0,0 +1,279 @@
+// lib/plan-diff.ts
+// Plan-vs-plan comparison for two revisions of the same voyage: pallets per
+// booking and section, zone temperatures, engine conflicts and stability.
+// Pure module — takes lean StowagePlan documents, safe for client components.
+
+export type SectionChange = 'ADDED' | 'REMOVED' | 'CHANGED';
+export type BookingChange = 'ADDED' | 'REMOVED' | 'MOVED' | 'RESIZED' | 'UNCHANGED';
+
+export interface PlanDiffSource {
+  cargoPositions?: any[];
+  coolingSectionStatus?: any[];
+  conflicts?: any[];
+  stabilityIndicators?: any[];
+  departureConditions?: any[];
+}
+
+export interface BookingSectionDelta {
+  sectionId: string;
+  before: number;
+  after: number;
+}
+
+export interface BookingDiff {
+  bookingId: string;
+  bookingNumber?: string;
+  cargoType?: string;
+  shipperName?: string;
+  change: BookingChange;
+  palletsBefore: number;
+  palletsAfter: number;
+  sections: BookingSectionDelta[];   // only sections whose pallets differ
+}
+
+export interface SectionDiff {
+  sectionId: string;
+  change: SectionChange;
+  palletsBefore: number;
+  palletsAfter: number;
+  bookingsIn: string[];              // bookings gained or grown in this section
+  bookingsOut: string[];             // bookings lost or shrunk in this section
+}
+
+export interface ZoneTempDiff {
+  zoneId: string;
+  sectionIds: string[];
+  before?: number;
+  after?: number;
+}
+
+export interface ConflictRef {
+  type: string;
+  message: string;
+  sectionsInvolved: string[];
+  bookingIds: string[];
+}
+
+export interface StabilityDiff {
+  portSequence: number;
+  portCode: string;
+  statusBefore?: string;
+  statusAfter?: string;
+  trimIndexBefore?: number;
+  trimIndexAfter?: number;
+  listIndexBefore?: number;
+  listIndexAfter?: number;
+  gmBefore?: number;                 // fluid GM (m) from departure conditions
+  gmAfter?: number;
+  trimBefore?: number;               // trim (m, +by stern) from departure conditions
+  trimAfter?: number;
+}
+
+export interface PlanDiff {
+  sections: SectionDiff[];
+  bookings: BookingDiff[];
+  zoneTemps: ZoneTempDiff[];
+  conflictsAdded: ConflictRef[];
+  conflictsResolved: ConflictRef[];
+  stability: StabilityDiff[];
+  totals: { palletsBefore: number; palletsAfter: number };
+}
+
+// Section id of a cargo position: hold compartment or DECK
+function positionSectionId(pos: any): string {
+  return String(pos.coolingSectionId ?? pos.compartment?.id ?? '');
+}
+
+// bookingId → sectionId → pallets
+function palletsByBooking(positions: any[]): Map<string, Map<string, number>> {
+  const map = new Map<string, Map<string, number>>();
+  for (const pos of positions) {
+    const bookingId = String(pos.bookingId ?? '');
+    const sectionId = positionSectionId(pos);
+    if (!bookingId || !sectionId) continue;
+    if (!map.has(bookingId)) map.set(bookingId, new Map());
+    const sections = map.get(bookingId)!;
+    sections.set(sectionId, (sections.get(sectionId) ?? 0) + (pos.quantity ?? 0));
+  }
+  return map;
+}
+
+function sum(values: Iterable<number>): number {
+  let total = 0;
+  for (const v of values) total += v;
+  return total;
+}
+
+// Conflicts match on type and what they involve — messages carry numbers that shift between runs
+function conflictKey(c: any): string {
+  const ids = (xs?: string[]) => [...(xs ?? [])].map(String).sort().join(',');
+  return `${c.type}|${ids(c.sectionsInvolved)}|${ids(c.bookingIds)}`;
+}
+
+function toConflictRef(c: any): ConflictRef {
+  return {
+    type: c.type,
+    message: c.message ?? '',
+    sectionsInvolved: (c.sectionsInvolved ?? []).map(String),
+    bookingIds: (c.bookingIds ?? []).map(String),
+  };
+}
+
+/**
+ * What changed from `base` (the older revision) to `target`. Unchanged
+ * bookings are kept so the caller can list them; sections, zones and
+ * stability entries are only returned when something differs.
+ */
+export function diffStowagePlans(base: PlanDiffSource, target: PlanDiffSource): PlanDiff {
+  const basePositions = base.cargoPositions ?? [];
+  const targetPositions = target.cargoPositions ?? [];
+  const before = palletsByBooking(basePositions);
+  const after = palletsByBooking(targetPositions);
+
+  // Labels: newest position snapshot wins
+  const labels = new Map<string, any>();
+  for (const pos of [...basePositions, ...targetPositions]) {
+    const bookingId = String(pos.bookingId ?? '');
+    if (bookingId) labels.set(bookingId, { ...labels.get(bookingId), ...pos });
+  }
+
+  // ── Bookings ──────────────────────────────────────────────────────────────
+  const bookings: BookingDiff[] = [];
+  for (const bookingId of new Set([...before.keys(), ...after.keys()])) {
+    const b = before.get(bookingId) ?? new Map<string, number>();
+    const a = after.get(bookingId) ?? new Map<string, number>();
+    const sections: BookingSectionDelta[] = [];
+    for (const sectionId of new Set([...b.keys(), ...a.keys()])) {
+      const qb = b.get(sectionId) ?? 0;
+      const qa = a.get(sectionId) ?? 0;
+      if (qb !== qa) sections.push({ sectionId, before: qb, after: qa });
+    }
+    sections.sort((x, y) => x.sectionId.localeCompare(y.sectionId));
+
+    const palletsBefore = sum(b.values());
+    const palletsAfter = sum(a.values());
+    const change: BookingChange =
+      palletsBefore === 0 && palletsAfter > 0 ? 'ADDED' :
+      palletsAfter === 0 && palletsBefore > 0 ? 'REMOVED' :
+      palletsBefore !== palletsAfter ? 'RESIZED' :
+      sections.length > 0 ? 'MOVED' :
+      'UNCHANGED';
+
+    const label = labels.get(bookingId) ?? {};
+    bookings.push({
+      bookingId,
+      bookingNumber: label.bookingNumber ?? undefined,
+      cargoType: label.cargoType ?? undefined,
+      shipperName: label.shipperName ?? undefined,
+      change,
+      palletsBefore,
+      palletsAfter,
+      sections,
+    });
+  }
+  const changeOrder: BookingChange[] = ['ADDED', 'REMOVED', 'RESIZED', 'MOVED', 'UNCHANGED'];
+  bookings.sort((x, y) =>
+    changeOrder.indexOf(x.change) - changeOrder.indexOf(y.change) ||
+    (x.bookingNumber ?? x.bookingId).localeCompare(y.bookingNumber ?? y.bookingId));
+
+  // ── Sections ──────────────────────────────────────────────────────────────
+  const sectionMap = new Map<string, SectionDiff>();
+  const sectionEntry = (sectionId: string) => {
+    if (!sectionMap.has(sectionId)) {
+      sectionMap.set(sectionId, {
+        sectionId, change: 'CHANGED', palletsBefore: 0, palletsAfter: 0, bookingsIn: [], bookingsOut: [],
+      });
+    }
+    return sectionMap.get(sectionId)!;
+  };
+  for (const pos of basePositions) {
+    const sectionId = positionSectionId(pos);
+    if (sectionId) sectionEntry(sectionId).palletsBefore += pos.quantity ?? 0;
+  }
+  for (const pos of targetPositions) {
+    const sectionId = positionSectionId(pos);
+    if (sectionId) sectionEntry(sectionId).palletsAfter += pos.quantity ?? 0;
+  }
+  for (const booking of bookings) {
+    for (const delta of booking.sections) {
+      const entry = sectionEntry(delta.sectionId);
+      (delta.after > delta.before ? entry.bookingsIn : entry.bookingsOut).push(booking.bookingId);
+    }
+  }
+  const sections = [...sectionMap.values()]
+    .filter(s => s.bookingsIn.length > 0 || s.bookingsOut.length > 0)
+    .map(s => ({
+      ...s,
+      change: (s.palletsBefore === 0 ? 'ADDED' : s.palletsAfter === 0 ? 'REMOVED' : 'CHANGED') as SectionChange,
+    }))
+    .sort((x, y) => x.sectionId.localeCompare(y.sectionId));
+
+  // ── Zone temperatures ─────────────────────────────────────────────────────
+  const zoneMap = new Map<string, ZoneTempDiff>();
+  for (const css of base.coolingSectionStatus ?? []) {
+    zoneMap.set(css.zoneId, { zoneId: css.zoneId, sectionIds: css.coolingSectionIds ?? [], before: css.assignedTemperature ?? undefined });
+  }
+  for (const css of target.coolingSectionStatus ?? []) {
+    const entry: ZoneTempDiff = zoneMap.get(css.zoneId) ?? { zoneId: css.zoneId, sectionIds: css.coolingSectionIds ?? [] };
+    entry.after = css.assignedTemperature ?? undefined;
+    if ((css.coolingSectionIds ?? []).length > 0) entry.sectionIds = css.coolingSectionIds;
+    zoneMap.set(css.zoneId, entry);
+  }
+  const zoneTemps = [...zoneMap.values()]
+    .filter(z => z.before !== z.after)
+    .sort((x, y) => x.zoneId.localeCompare(y.zoneId));
+
+  // ── Conflicts ─────────────────────────────────────────────────────────────
+  const baseConflicts = new Map((base.conflicts ?? []).map(c => [conflictKey(c), c]));
+  const targetConflicts = new Map((target.conflicts ?? []).map(c => [conflictKey(c), c]));
+  const conflictsAdded = [...targetConflicts.entries()]
+    .filter(([key]) => !baseConflicts.has(key))
+    .map(([, c]) => toConflictRef(c));
+  const conflictsResolved = [...baseConflicts.entries()]
+    .filter(([key]) => !targetConflicts.has(key))
+    .map(([, c]) => toConflictRef(c));
+
+  // ── Stability ─────────────────────────────────────────────────────────────
+  const stabilityMap = new Map<number, StabilityDiff>();
+  const stabilityEntry = (portSequence: number, portCode: string) => {
+    if (!stabilityMap.has(portSequence)) stabilityMap.set(portSequence, { portSequence, portCode });
+    return stabilityMap.get(portSequence)!;
+  };
+  for (const s of base.stabilityIndicators ?? []) {
+    Object.assign(stabilityEntry(s.portSequence, s.portCode), {
+      statusBefore: s.status, trimIndexBefore: s.trimIndex, listIndexBefore: s.listIndex,
+    });
+  }
+  for (const s of target.stabilityIndicators ?? []) {
+    Object.assign(stabilityEntry(s.portSequence, s.portCode), {
+      statusAfter: s.status, trimIndexAfter: s.trimIndex, listIndexAfter: s.listIndex,
+    });
+  }
+  for (const d of base.departureConditions ?? []) {
+    Object.assign(stabilityEntry(d.sequence, d.portCode), { gmBefore: d.gm, trimBefore: d.trim });
+  }
+  for (const d of target.departureConditions ?? []) {
+    Object.assign(stabilityEntry(d.sequence, d.portCode), { gmAfter: d.gm, trimAfter: d.trim });
+  }
+  const stability = [...stabilityMap.values()]
+    .filter(s =>
+      s.statusBefore !== s.statusAfter ||
+      s.trimIndexBefore !== s.trimIndexAfter ||
+      s.listIndexBefore !== s.listIndexAfter ||
+      s.gmBefore !== s.gmAfter ||
+      s.trimBefore !== s.trimAfter)
+    .sort((x, y) => x.portSequence - y.portSequence);
+
+  return {
+    sections,
+    bookings,
+    zoneTemps,
+    conflictsAdded,
+    conflictsResolved,
+    stability,
+    totals: {
+      palletsBefore: sum(basePositions.map(p => p.quantity ?? 0)),
+      palletsAfter: sum(targetPositions.map(p => p.quantity ?? 0)),
+    },
+  };
+}
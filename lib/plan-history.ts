@@ -0,0 +1,164 @@
+// lib/plan-history.ts
+// Undo/redo log for manual edits to a stowage plan. Each operation keeps the
+// part of the plan it touched — positions per booking × section, staged cargo
+// per booking, set point per zone — as it was before and after the edit.
+// Undo writes the `before` slice back, redo the `after` slice. History is
+// linear: a new edit drops every undone operation.
+// Pure module — callers load and save the plan document.
+
+import type { PlanEditSlice, PlanOperation, PlanOperationType } from '@/types/models';
+
+// Operations kept per plan; the oldest are dropped beyond this
+export const MAX_PLAN_OPERATIONS = 100;
+
+export interface PlanEditSource {
+  cargoPositions?: any[];
+  stagedCargo?: any[];
+  coolingSectionStatus?: any[];
+}
+
+// What the history timeline shows — operations without their slices
+export interface PlanOperationSummary {
+  seq: number;
+  type: PlanOperationType;
+  summary: string;
+  performedAt: Date;
+  performedBy: string;
+  undone: boolean;
+}
+
+export interface PlanEditResult {
+  cargoPositions: any[];
+  stagedCargo: any[];
+  temperatures: Map<string, number | null>;   // zoneId → set point to write
+}
+
+const positionKey = (pos: any) => `${pos.bookingId ?? pos.shipmentId ?? ''}|${pos.compartment?.id ?? ''}`;
+
+function quantitiesBy<T>(items: T[], key: (item: T) => string): Map<string, number> {
+  const map = new Map<string, number>();
+  for (const item of items) {
+    const k = key(item);
+    map.set(k, (map.get(k) ?? 0) + ((item as any).quantity ?? 0));
+  }
+  return map;
+}
+
+function changedKeys(before: Map<string, number>, after: Map<string, number>): string[] {
+  return [...new Set([...before.keys(), ...after.keys()])]
+    .filter(k => (before.get(k) ?? 0) !== (after.get(k) ?? 0))
+    .sort();
+}
+
+const zoneTemperatures = (plan: PlanEditSource) => new Map<string, number | null>(
+  (plan.coolingSectionStatus ?? []).map((cs: any) => [cs.zoneId as string, cs.assignedTemperature ?? null]),
+);
+
+// Drops Mongo ids so a restored slice is stored as new subdocuments
+const stripId = (doc: any) => {
+  const copy = { ...doc };
+  delete copy._id;
+  return copy;
+};
+
+/**
+ * The touched part of a plan before and after an edit, or null when the edit
+ * changed no pallets and no set points.
+ */
+export function captureEdit(
+  before: PlanEditSource,
+  after: PlanEditSource,
+): Pick<PlanOperation, 'positionKeys' | 'stagedBookingIds' | 'before' | 'after'> | null {
+  const positionKeys = changedKeys(
+    quantitiesBy(before.cargoPositions ?? [], positionKey),
+    quantitiesBy(after.cargoPositions ?? [], positionKey),
+  );
+  const stagedBookingIds = changedKeys(
+    quantitiesBy(before.stagedCargo ?? [], (s: any) => String(s.bookingId)),
+    quantitiesBy(after.stagedCargo ?? [], (s: any) => String(s.bookingId)),
+  );
+  const tempsBefore = zoneTemperatures(before);
+  const tempsAfter = zoneTemperatures(after);
+  const zoneIds = [...tempsAfter.keys()].filter(z => (tempsBefore.get(z) ?? null) !== tempsAfter.get(z));
+
+  if (positionKeys.length === 0 && stagedBookingIds.length === 0 && zoneIds.length === 0) return null;
+
+  const slice = (plan: PlanEditSource, temps: Map<string, number | null>): PlanEditSlice => ({
+    positions: (plan.cargoPositions ?? []).filter(p => positionKeys.includes(positionKey(p))).map(stripId),
+    staged: (plan.stagedCargo ?? []).filter(s => stagedBookingIds.includes(String(s.bookingId))).map(stripId),
+    temperatures: zoneIds.map(zoneId => ({ zoneId, temperature: temps.get(zoneId) ?? null })),
+  });
+
+  return { positionKeys, stagedBookingIds, before: slice(before, tempsBefore), after: slice(after, tempsAfter) };
+}
+
+// Current plan with one side of an operation written back over the keys it touched
+export function applyEditSlice(
+  plan: PlanEditSource,
+  op: Pick<PlanOperation, 'positionKeys' | 'stagedBookingIds'>,
+  slice: PlanEditSlice,
+): PlanEditResult {
+  return {
+    cargoPositions: [
+      ...(plan.cargoPositions ?? []).filter(p => !op.positionKeys.includes(positionKey(p))),
+      ...slice.positions.map(stripId),
+    ],
+    stagedCargo: [
+      ...(plan.stagedCargo ?? []).filter(s => !op.stagedBookingIds.includes(String(s.bookingId))),
+      ...slice.staged.map(stripId),
+    ],
+    temperatures: new Map(slice.temperatures.map(t => [t.zoneId, t.temperature])),
+  };
+}
+
+/**
+ * An edit of `base` replayed onto `theirs`, the plan as someone else saved it
+ * meanwhile: positions of every booking × section the edit changed come from
+ * `mine`, all others from `theirs`. `overlaps` lists the keys both sides
+ * changed — there the edit's pallets replace theirs.
+ */
+export function rebasePositions(base: any[], mine: any[], theirs: any[]) {
+  const baseQuantities = quantitiesBy(base, positionKey);
+  const myKeys = changedKeys(baseQuantities, quantitiesBy(mine, positionKey));
+  const theirKeys = new Set(changedKeys(baseQuantities, quantitiesBy(theirs, positionKey)));
+  return {
+    positions: [
+      ...theirs.filter(p => !myKeys.includes(positionKey(p))),
+      ...mine.filter(p => myKeys.includes(positionKey(p))),
+    ],
+    overlaps: myKeys.filter(k => theirKeys.has(k)),
+  };
+}
+
+/**
+ * History with `entry` appended as the next operation. Undone operations are
+ * dropped (they can no longer be redone) and the log is capped.
+ */
+export function appendOperation(
+  history: PlanOperation[],
+  entry: Omit<PlanOperation, 'seq' | 'undone'>,
+): PlanOperation[] {
+  const active = history.filter(op => !op.undone);
+  const seq = (history.reduce((max, op) => Math.max(max, op.seq), 0)) + 1;
+  return [...active, { ...entry, seq, undone: false }].slice(-MAX_PLAN_OPERATIONS);
+}
+
+/**
+ * Operations to undo (newest first) and redo (oldest first) so the plan ends
+ * up as it was right after operation `seq` — 0 restores the state before the
+ * first logged operation.
+ */
+export function planRestoreSteps(history: PlanOperation[], seq: number) {
+  const sorted = [...history].sort((a, b) => a.seq - b.seq);
+  return {
+    undo: sorted.filter(op => !op.undone && op.seq > seq).reverse(),
+    redo: sorted.filter(op => op.undone && op.seq <= seq),
+  };
+}
+
+export function summarizeOperations(history: PlanOperation[]): PlanOperationSummary[] {
+  return [...history]
+    .sort((a, b) => b.seq - a.seq)
+    .map(({ seq, type, summary, performedAt, performedBy, undone }) =>
+      ({ seq, type, summary, performedAt, performedBy, undone }));
+}
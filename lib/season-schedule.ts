@@ -0,0 +1,183 @@
+// lib/season-schedule.ts
+// Season schedule generator: proposes one voyage per week for a service,
+// assigning vessels round-robin from Service.vesselPool.
+//
+//   Voyage number:  {first 4 letters of vessel name}-{ISO week:2}{ISO year}  e.g. ACON-062026
+//   Port ETA/ETD:   Monday of the departure week + weeksFromStart weeks (as in NewVoyageWizard)
+//   Vessel window:  a proposed voyage holds its vessel for cycleDurationWeeks
+//                   (or until its last call, if later); existing voyages hold
+//                   theirs from first to last call
+//
+// Pure — the caller loads the service, vessels and existing voyages
+// (previewSeasonSchedule / createSeasonSchedule in app/actions/voyage.ts).
+
+import type { PortRotation } from '@/types/models';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+
+export interface SeasonServiceInput {
+  cycleDurationWeeks: number;
+  portRotation: PortRotation[];
+  vesselPool: string[];
+}
+
+export interface SeasonVesselInput {
+  _id: string;
+  name: string;
+}
+
+export interface ExistingVoyageWindow {
+  voyageNumber: string;
+  vesselId?: string;
+  start: Date;
+  end: Date;
+}
+
+export type ScheduleConflictType = 'VESSEL_DOUBLE_BOOKED' | 'VOYAGE_NUMBER_TAKEN';
+
+export interface ScheduleConflict {
+  type: ScheduleConflictType;
+  message: string;
+}
+
+export interface ProposedPortCall {
+  portCode: string;
+  portName: string;
+  country: string;
+  sequence: number;
+  eta: string; // YYYY-MM-DD
+  etd: string;
+  operations: ('LOAD' | 'DISCHARGE')[];
+}
+
+export interface ProposedVoyage {
+  voyageNumber: string;
+  weekNumber: number;
+  year: number;
+  vesselId: string;
+  vesselName: string;
+  departureDate: string; // first port ETA
+  releasedAt: string;    // end of the vessel window
+  portCalls: ProposedPortCall[];
+  conflicts: ScheduleConflict[];
+}
+
+// ISO week and week-numbering year of a date (UTC)
+export function getISOWeekAndYear(date: Date): { week: number; year: number } {
+  const d = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  const day = d.getUTCDay() || 7;
+  d.setUTCDate(d.getUTCDate() + 4 - day);
+  const yearStart = new Date(Date.UTC(d.getUTCFullYear(), 0, 1));
+  const week = Math.ceil((((d.getTime() - yearStart.getTime()) / DAY_MS) + 1) / 7);
+  return { week, year: d.getUTCFullYear() };
+}
+
+// Monday (UTC) of ISO week `week` in `year`; null if the year has no such week
+export function isoWeekStart(year: number, week: number): Date | null {
+  const jan4 = new Date(Date.UTC(year, 0, 4));
+  const week1Monday = new Date(jan4.getTime() - ((jan4.getUTCDay() || 7) - 1) * DAY_MS);
+  const monday = new Date(week1Monday.getTime() + (week - 1) * WEEK_MS);
+  const check = getISOWeekAndYear(monday);
+  return check.week === week && check.year === year ? monday : null;
+}
+
+export function seasonVoyageNumber(vesselName: string, week: number, year: number): string {
+  const prefix = vesselName.toUpperCase().replace(/[^A-Z0-9]/g, '').slice(0, 4);
+  return `${prefix}-${String(week).padStart(2, '0')}${year}`;
+}
+
+function toDateString(d: Date): string {
+  return d.toISOString().split('T')[0];
+}
+
+export function proposeSeasonSchedule(params: {
+  service: SeasonServiceInput;
+  vessels: SeasonVesselInput[];
+  existingVoyages: ExistingVoyageWindow[];
+  takenVoyageNumbers: Set<string>;
+  startYear: number;
+  startWeek: number;
+  weeks: number;
+}): ProposedVoyage[] {
+  const { service, vessels, existingVoyages, takenVoyageNumbers, startYear, startWeek, weeks } = params;
+
+  const firstMonday = isoWeekStart(startYear, startWeek);
+  if (!firstMonday) throw new Error(`${startYear} has no ISO week ${startWeek}`);
+
+  // Round-robin follows the pool order; pool entries without a vessel are skipped
+  const vesselById = new Map(vessels.map(v => [v._id, v]));
+  const pool = service.vesselPool.map(id => vesselById.get(id)).filter((v): v is SeasonVesselInput => !!v);
+  if (pool.length === 0) throw new Error('Service has no vessels in its pool');
+
+  const rotation = service.portRotation.slice().sort((a, b) => a.sequence - b.sequence);
+  if (rotation.length < 2) throw new Error('Service port rotation must have at least 2 ports');
+  const lastWeekOffset = Math.max(...rotation.map(p => p.weeksFromStart ?? 0));
+  const holdWeeks = Math.max(service.cycleDurationWeeks || 1, lastWeekOffset + 1);
+
+  const proposals: ProposedVoyage[] = [];
+  const heldByVessel = new Map<string, { voyageNumber: string; start: Date; end: Date }[]>();
+  const proposedNumbers = new Set<string>();
+
+  for (let i = 0; i < weeks; i++) {
+    const monday = new Date(firstMonday.getTime() + i * WEEK_MS);
+    const { week, year } = getISOWeekAndYear(monday);
+    const vessel = pool[i % pool.length];
+    const voyageNumber = seasonVoyageNumber(vessel.name, week, year);
+
+    const portCalls: ProposedPortCall[] = rotation.map((p, idx) => {
+      const date = toDateString(new Date(monday.getTime() + (p.weeksFromStart ?? 0) * WEEK_MS));
+      return {
+        portCode: p.portCode,
+        portName: p.portName,
+        country: p.country,
+        sequence: idx + 1,
+        eta: date,
+        etd: date,
+        operations: p.operations?.length ? p.operations : ['LOAD'],
+      };
+    });
+
+    const start = monday;
+    const end = new Date(monday.getTime() + holdWeeks * WEEK_MS);
+    const conflicts: ScheduleConflict[] = [];
+
+    if (takenVoyageNumbers.has(voyageNumber) || proposedNumbers.has(voyageNumber)) {
+      conflicts.push({ type: 'VOYAGE_NUMBER_TAKEN', message: `Voyage number ${voyageNumber} already exists` });
+    }
+
+    for (const other of existingVoyages) {
+      if (other.vesselId !== vessel._id) continue;
+      if (other.start < end && start < other.end) {
+        conflicts.push({
+          type: 'VESSEL_DOUBLE_BOOKED',
+          message: `${vessel.name} is on ${other.voyageNumber} until ${toDateString(other.end)}`,
+        });
+      }
+    }
+    for (const other of heldByVessel.get(vessel._id) ?? []) {
+      if (other.start < end && start < other.end) {
+        conflicts.push({
+          type: 'VESSEL_DOUBLE_BOOKED',
+          message: `${vessel.name} is still on proposed ${other.voyageNumber} until ${toDateString(other.end)}`,
+        });
+      }
+    }
+
+    proposedNumbers.add(voyageNumber);
+    heldByVessel.set(vessel._id, [...(heldByVessel.get(vessel._id) ?? []), { voyageNumber, start, end }]);
+    proposals.push({
+      voyageNumber,
+      weekNumber: week,
+      year,
+      vesselId: vessel._id,
+      vesselName: vessel.name,
+      departureDate: portCalls[0].eta,
+      releasedAt: toDateString(end),
+      portCalls,
+      conflicts,
+    });
+  }
+
+  return proposals;
+}
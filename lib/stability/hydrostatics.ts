@@ -0,0 +1,207 @@
+// ============================================================================
+// HYDROSTATICS — TABLE INTERPOLATION & FLOATING CONDITION
+// Pure functions (no DB) used by the stability server actions.
+//
+// Sign conventions (same as Compartment.position and lightship):
+//   LCG / LCB / LCF — metres from midship, + = forward
+//   TCG             — metres from centreline, + = starboard
+//   VCG / KG / KM   — metres above keel
+//   Trim            — metres, + = by the stern
+// ============================================================================
+
+import type { HydrostaticRow } from '@/types/models';
+
+export interface HydrostaticPoint extends HydrostaticRow {
+  // true when the displacement fell outside the table and was clamped
+  outOfRange: boolean;
+}
+
+export interface FloatingConditionInput {
+  displacement: number;   // tonnes
+  kg: number;             // m
+  lcg: number;            // m
+  tcg: number;            // m
+  lpp: number;            // m
+  hydrostatics: HydrostaticRow[];
+  freeSurfaceMoment?: number; // t·m, sum over slack tanks
+}
+
+export interface FloatingCondition {
+  hydrostatics: HydrostaticPoint;
+  gm: number;             // m, fluid GM (free-surface corrected)
+  freeSurfaceCorrection: number; // m
+  trim: number;           // m, + = by the stern
+  list: number;           // degrees, + = starboard
+  drafts: {
+    forward: number;
+    aft: number;
+    mean: number;
+  };
+}
+
+const HYDROSTATIC_FIELDS = ['draft', 'displacement', 'km', 'lcb', 'lcf', 'mct1cm', 'tpc'] as const;
+
+// ----------------------------------------------------------------------------
+// TABLE HELPERS
+// ----------------------------------------------------------------------------
+
+/**
+ * Sorts rows by displacement and rejects tables that cannot be interpolated
+ * (fewer than two rows, or displacement/draft not strictly increasing).
+ * Returns an error message, or null when the table is usable.
+ */
+export function validateHydrostaticTable(rows: HydrostaticRow[]): string | null {
+  if (rows.length < 2) return 'Hydrostatic table needs at least two rows';
+  const sorted = [...rows].sort((a, b) => a.displacement - b.displacement);
+  for (let i = 1; i < sorted.length; i++) {
+    if (sorted[i].displacement === sorted[i - 1].displacement) {
+      return `Duplicate displacement ${sorted[i].displacement} t in hydrostatic table`;
+    }
+    if (sorted[i].draft <= sorted[i - 1].draft) {
+      return `Draft must increase with displacement (row at ${sorted[i].displacement} t)`;
+    }
+  }
+  for (const row of sorted) {
+    if (row.mct1cm <= 0 || row.tpc <= 0) {
+      return `MCT1cm and TPC must be positive (row at draft ${row.draft} m)`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Parses a hydrostatic table exported as CSV.
+ * Expects a header row naming the columns (any order, case-insensitive):
+ *   draft, displacement, km, lcb, lcf, mct1cm, tpc
+ * Separators may be comma, semicolon or tab.
+ */
+export function parseHydrostaticCsv(text: string): HydrostaticRow[] {
+  const lines = text.split(/\r?\n/).map(l => l.trim()).filter(l => l.length > 0 && !l.startsWith('#'));
+  if (lines.length === 0) throw new Error('Hydrostatic CSV is empty');
+
+  const split = (line: string) => line.split(/[,;\t]/).map(c => c.trim());
+  const header = split(lines[0]).map(h => h.toLowerCase().replace(/[^a-z0-9]/g, ''));
+
+  const columnIndex: Record<string, number> = {};
+  for (const field of HYDROSTATIC_FIELDS) {
+    const idx = header.indexOf(field);
+    if (idx === -1) throw new Error(`Hydrostatic CSV is missing column "${field}"`);
+    columnIndex[field] = idx;
+  }
+
+  return lines.slice(1).map((line, i) => {
+    const cells = split(line);
+    const row = {} as HydrostaticRow;
+    for (const field of HYDROSTATIC_FIELDS) {
+      const value = Number(cells[columnIndex[field]]);
+      if (!Number.isFinite(value)) {
+        throw new Error(`Invalid ${field} on CSV line ${i + 2}`);
+      }
+      row[field] = value;
+    }
+    return row;
+  });
+}
+
+// Copies only the hydrostatic fields (rows may be Mongoose subdocuments).
+function pickRow(row: HydrostaticRow): HydrostaticRow {
+  return {
+    draft: row.draft,
+    displacement: row.displacement,
+    km: row.km,
+    lcb: row.lcb,
+    lcf: row.lcf,
+    mct1cm: row.mct1cm,
+    tpc: row.tpc,
+  };
+}
+
+// ----------------------------------------------------------------------------
+// INTERPOLATION
+// ----------------------------------------------------------------------------
+
+/**
+ * Linearly interpolates every hydrostatic value for the given displacement.
+ * Displacements outside the table are clamped to the first/last row and
+ * flagged with outOfRange so the caller can warn the planner.
+ */
+export function interpolateHydrostatics(
+  rows: HydrostaticRow[],
+  displacement: number,
+): HydrostaticPoint {
+  const sorted = [...rows].sort((a, b) => a.displacement - b.displacement);
+  const first = sorted[0];
+  const last = sorted[sorted.length - 1];
+
+  if (displacement <= first.displacement) {
+    return { ...pickRow(first), displacement, outOfRange: displacement < first.displacement };
+  }
+  if (displacement >= last.displacement) {
+    return { ...pickRow(last), displacement, outOfRange: displacement > last.displacement };
+  }
+
+  let upperIdx = 1;
+  while (sorted[upperIdx].displacement < displacement) upperIdx++;
+  const lo = sorted[upperIdx - 1];
+  const hi = sorted[upperIdx];
+  const f = (displacement - lo.displacement) / (hi.displacement - lo.displacement);
+  const lerp = (a: number, b: number) => a + (b - a) * f;
+
+  return {
+    draft: lerp(lo.draft, hi.draft),
+    displacement,
+    km: lerp(lo.km, hi.km),
+    lcb: lerp(lo.lcb, hi.lcb),
+    lcf: lerp(lo.lcf, hi.lcf),
+    mct1cm: lerp(lo.mct1cm, hi.mct1cm),
+    tpc: lerp(lo.tpc, hi.tpc),
+    outOfRange: false,
+  };
+}
+
+// ----------------------------------------------------------------------------
+// FLOATING CONDITION
+// ----------------------------------------------------------------------------
+
+/**
+ * Computes GM, trim, list and fore/aft drafts from the vessel's centre of
+ * gravity and its hydrostatic tables.
+ *
+ *   GM    = KM − KG − FSM / Δ
+ *   Trim  = Δ · (LCB − LCG) / (100 · MCT1cm)
+ *   Aft   = T + Trim · (LPP/2 + LCF) / LPP
+ *   Fwd   = Aft − Trim
+ *   List  = atan(TCG / GM)
+ */
+export function calculateFloatingCondition(input: FloatingConditionInput): FloatingCondition {
+  const { displacement, kg, lcg, tcg, lpp } = input;
+  const hydro = interpolateHydrostatics(input.hydrostatics, displacement);
+
+  const freeSurfaceCorrection = displacement > 0 ? (input.freeSurfaceMoment ?? 0) / displacement : 0;
+  const gm = hydro.km - kg - freeSurfaceCorrection;
+  const trim = (displacement * (hydro.lcb - lcg)) / (100 * hydro.mct1cm);
+
+  // Hydrostatic draft is taken at LCF; distribute the trim about it.
+  const lcfFromAft = lpp / 2 + hydro.lcf;
+  const aft = hydro.draft + trim * (lcfFromAft / lpp);
+  const forward = aft - trim;
+
+  // A non-positive GM has no equilibrium heel angle — report 90° so the
+  // list check fails loudly instead of returning NaN.
+  const list = gm > 0
+    ? Math.atan(tcg / gm) * (180 / Math.PI)
+    : (tcg === 0 ? 0 : Math.sign(tcg) * 90);
+
+  return {
+    hydrostatics: hydro,
+    gm,
+    freeSurfaceCorrection,
+    trim,
+    list,
+    drafts: {
+      forward,
+      aft,
+      mean: (forward + aft) / 2,
+    },
+  };
+}
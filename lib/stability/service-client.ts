@@ -0,0 +1,248 @@
+// ============================================================================
+// STABILITY SERVICE — CONTRACT & CLIENT
+// Typed client for the Python stability-service (stability-service/main.py).
+// Server-only: called from app/actions/stability.ts.
+//
+// Units and sign conventions are the same as hydrostatics.ts:
+//   weights in tonnes, LCG/LCB/LCF + forward of midship, TCG + starboard,
+//   VCG/KG/KM above keel, trim + by the stern, list in degrees + starboard.
+// ============================================================================
+
+import { z } from 'zod';
+import type { HydrostaticRow, TankLevel, VesselTank } from '@/types/models';
+
+// Bump together with CONTRACT_VERSION in stability-service/main.py
+export const STABILITY_SERVICE_CONTRACT_VERSION = 1;
+
+const DEFAULT_SERVICE_URL = 'http://localhost:8000';
+const DEFAULT_TIMEOUT_MS = 10_000;
+const HEALTH_TIMEOUT_MS = 2_000;
+
+// ----------------------------------------------------------------------------
+// REQUEST
+// ----------------------------------------------------------------------------
+
+export interface StabilityServiceCargoItem {
+  sectionId: string;
+  bookingId?: string;
+  quantity: number;
+  weight: number;          // tonnes
+  lcg: number;
+  vcg: number;
+  tcg: number;
+  polSeq: number | null;   // null = aboard from the first call
+  podSeq: number | null;   // null = aboard to the last call
+}
+
+export interface StabilityServiceConditionInput {
+  id: string;                   // 'PRELIMINARY' or 'DEP-<sequence>'
+  portSequence: number | null;  // null = all cargo in the plan aboard
+  portCode?: string;
+  tankLevels: TankLevel[];
+}
+
+export interface StabilityServiceRequest {
+  contractVersion: number;
+  plan: {
+    planId: string;
+    planNumber?: string;
+    voyageNumber?: string;
+  };
+  vessel: {
+    name: string;
+    imoNumber?: string;
+    lpp: number;
+    beam: number;
+    depth: number;
+    lightship: { weight: number; lcg: number; vcg: number; tcg: number };
+    hydrostatics: HydrostaticRow[];
+    referenceLimits: {
+      minGM: number;
+      maxGM: number;
+      maxTrim: number;
+      maxList: number;
+      maxDraft: number;
+    };
+  };
+  tanks: VesselTank[];
+  cargo: StabilityServiceCargoItem[];
+  conditions: StabilityServiceConditionInput[];
+}
+
+// ----------------------------------------------------------------------------
+// RESPONSE
+// ----------------------------------------------------------------------------
+
+const ConditionResultSchema = z.object({
+  id: z.string(),
+  portSequence: z.number().nullable(),
+  cargoWeight: z.number(),
+  tankWeight: z.number(),
+  displacement: z.number(),
+  kg: z.number(),
+  lcg: z.number(),
+  tcg: z.number(),
+  gm: z.number(),
+  freeSurfaceCorrection: z.number(),
+  trim: z.number(),
+  list: z.number(),
+  drafts: z.object({
+    forward: z.number(),
+    aft: z.number(),
+    mean: z.number(),
+  }),
+  hydrostatics: z.object({
+    draft: z.number(),
+    km: z.number(),
+    lcb: z.number(),
+    lcf: z.number(),
+    mct1cm: z.number(),
+    tpc: z.number(),
+    outOfRange: z.boolean(),
+  }),
+  warnings: z.array(z.string()),
+});
+
+const StabilityServiceResponseSchema = z.object({
+  contractVersion: z.number(),
+  service: z.object({
+    name: z.string(),
+    version: z.string(),
+  }),
+  results: z.array(ConditionResultSchema),
+});
+
+export type StabilityServiceConditionResult = z.infer<typeof ConditionResultSchema>;
+export type StabilityServiceResponse = z.infer<typeof StabilityServiceResponseSchema>;
+
+export interface StabilityServiceHealth {
+  ok: boolean;
+  version?: string;
+  contractVersion?: number;
+  error?: string;
+}
+
+export class StabilityServiceError extends Error {
+  constructor(message: string, public readonly status?: number) {
+    super(message);
+    this.name = 'StabilityServiceError';
+  }
+}
+
+// ----------------------------------------------------------------------------
+// CLIENT
+// ----------------------------------------------------------------------------
+
+export function getStabilityServiceUrl(): string {
+  return (process.env.STABILITY_SERVICE_URL ?? DEFAULT_SERVICE_URL).replace(/\/+$/, '');
+}
+
+interface ServiceResponse {
+  ok: boolean;
+  status: number;
+  body: unknown;            // undefined when the body is not JSON
+}
+
+// The timeout covers reading the body too, so a service that stalls after
+// sending headers is treated like one that never answered.
+async function fetchJsonWithTimeout(url: string, init: RequestInit, timeoutMs: number): Promise<ServiceResponse> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    const res = await fetch(url, { ...init, signal: controller.signal, cache: 'no-store' });
+    const text = await res.text();
+    let body: unknown;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      body = undefined;
+    }
+    return { ok: res.ok, status: res.status, body };
+  } catch (err) {
+    if ((err as Error).name === 'AbortError') {
+      throw new StabilityServiceError(`Stability service did not respond within ${timeoutMs} ms`);
+    }
+    throw new StabilityServiceError(`Stability service unreachable: ${(err as Error).message}`);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * GET /health. Never throws — an unreachable or incompatible service is
+ * reported as { ok: false, error }.
+ */
+export async function checkStabilityServiceHealth(
+  timeoutMs: number = HEALTH_TIMEOUT_MS,
+): Promise<StabilityServiceHealth> {
+  try {
+    const res = await fetchJsonWithTimeout(`${getStabilityServiceUrl()}/health`, { method: 'GET' }, timeoutMs);
+    if (!res.ok) return { ok: false, error: `Health check returned HTTP ${res.status}` };
+    if (res.body === undefined) return { ok: false, error: 'Health check returned a non-JSON body' };
+
+    const body = res.body as { status?: string; version?: string; contractVersion?: number };
+    if (body.status !== 'ok') {
+      return { ok: false, version: body.version, error: `Service status "${body.status ?? 'unknown'}"` };
+    }
+    if (body.contractVersion !== undefined && body.contractVersion !== STABILITY_SERVICE_CONTRACT_VERSION) {
+      return {
+        ok: false,
+        version: body.version,
+        contractVersion: body.contractVersion,
+        error: `Contract version ${body.contractVersion} does not match client version ${STABILITY_SERVICE_CONTRACT_VERSION}`,
+      };
+    }
+    return { ok: true, version: body.version, contractVersion: body.contractVersion };
+  } catch (err) {
+    return { ok: false, error: (err as Error).message };
+  }
+}
+
+/**
+ * POST /calculate-stability. Throws StabilityServiceError on timeout,
+ * non-2xx responses, or a body that is not JSON or does not match the contract.
+ */
+export async function requestStabilityCalculation(
+  request: StabilityServiceRequest,
+  timeoutMs: number = DEFAULT_TIMEOUT_MS,
+): Promise<StabilityServiceResponse> {
+  const res = await fetchJsonWithTimeout(
+    `${getStabilityServiceUrl()}/calculate-stability`,
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request),
+    },
+    timeoutMs,
+  );
+
+  if (!res.ok) {
+    // A non-JSON error body has no detail — the status code is enough
+    const body = res.body as { detail?: unknown } | undefined;
+    const detail = typeof body?.detail === 'string' ? `: ${body.detail}` : '';
+    throw new StabilityServiceError(`Stability service returned HTTP ${res.status}${detail}`, res.status);
+  }
+  if (res.body === undefined) {
+    throw new StabilityServiceError('Stability service returned a non-JSON response');
+  }
+
+  const parsed = StabilityServiceResponseSchema.safeParse(res.body);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new StabilityServiceError(
+      `Invalid stability service response at ${issue.path.join('.') || '(root)'}: ${issue.message}`,
+    );
+  }
+  if (parsed.data.contractVersion !== STABILITY_SERVICE_CONTRACT_VERSION) {
+    throw new StabilityServiceError(
+      `Stability service contract version ${parsed.data.contractVersion} does not match client version ${STABILITY_SERVICE_CONTRACT_VERSION}`,
+    );
+  }
+
+  const missing = request.conditions.find(c => !parsed.data.results.some(r => r.id === c.id));
+  if (missing) {
+    throw new StabilityServiceError(`Stability service returned no result for condition ${missing.id}`);
+  }
+
+  return parsed.data;
+}
@@ -0,0 +1,157 @@
+// ============================================================================
+// TANKS — DEADWEIGHT, FREE SURFACE & BALLAST PROPOSALS
+// Pure functions (no DB) used by the stability server actions.
+// Same sign conventions as hydrostatics.ts.
+// ============================================================================
+
+import type { TankLevel, VesselTank } from '@/types/models';
+import type { FloatingCondition } from './hydrostatics';
+
+export interface TankLoadSummary {
+  weight: number;              // tonnes
+  lcgMoment: number;           // t·m
+  vcgMoment: number;           // t·m
+  tcgMoment: number;           // t·m
+  freeSurfaceMoment: number;   // t·m
+}
+
+export interface BallastChange {
+  tankId: string;
+  name: string;
+  fromPercent: number;
+  toPercent: number;
+  deltaTonnes: number;
+}
+
+export interface BallastProposal {
+  changes: BallastChange[];
+  levels: TankLevel[];         // full tank level list after the proposal
+  before: { trim: number; gm: number };
+  after: { trim: number; gm: number; drafts: FloatingCondition['drafts'] };
+  resolved: boolean;           // |trim| within the reference limit afterwards
+}
+
+// Tanks above this fill are treated as pressed up (no free surface)
+const PRESSED_UP_PERCENT = 98;
+// Ballast proposal step and iteration cap
+const BALLAST_STEP_PERCENT = 10;
+const MAX_BALLAST_ITERATIONS = 200;
+
+// ----------------------------------------------------------------------------
+// TANK LOADS
+// ----------------------------------------------------------------------------
+
+/**
+ * Sums weight, moments and free-surface moment for the given fill levels.
+ * Tanks without a level entry are treated as empty.
+ */
+export function calculateTankLoads(tanks: VesselTank[], levels: TankLevel[]): TankLoadSummary {
+  const levelMap = new Map(levels.map(l => [l.tankId, l.fillPercent]));
+  const summary: TankLoadSummary = {
+    weight: 0,
+    lcgMoment: 0,
+    vcgMoment: 0,
+    tcgMoment: 0,
+    freeSurfaceMoment: 0,
+  };
+
+  for (const tank of tanks) {
+    const fill = Math.min(100, Math.max(0, levelMap.get(tank.tankId) ?? 0));
+    if (fill <= 0) continue;
+
+    const weight = tank.capacity * (fill / 100) * tank.density;
+    summary.weight += weight;
+    summary.lcgMoment += weight * tank.lcg;
+    summary.vcgMoment += weight * tank.vcg;
+    summary.tcgMoment += weight * (tank.tcg ?? 0);
+    if (fill < PRESSED_UP_PERCENT) {
+      summary.freeSurfaceMoment += tank.freeSurfaceMoment ?? 0;
+    }
+  }
+
+  return summary;
+}
+
+// ----------------------------------------------------------------------------
+// BALLAST PROPOSAL
+// ----------------------------------------------------------------------------
+
+/**
+ * Greedy ballast search to bring trim back within the reference limit.
+ * Each step moves one ballast tank by BALLAST_STEP_PERCENT, picking the move
+ * that reduces |trim| the most without breaking min GM or max draft.
+ * Stops at half the trim limit, when no move helps, or after the cap.
+ *
+ * `evaluate` recomputes the full floating condition for a set of levels, so
+ * displacement, LCB/MCT1cm and free-surface changes are all accounted for.
+ */
+export function proposeTrimBallast(args: {
+  tanks: VesselTank[];
+  levels: TankLevel[];
+  evaluate: (levels: TankLevel[]) => FloatingCondition;
+  limits: { maxTrim: number; minGM: number; maxDraft: number };
+}): BallastProposal {
+  const { tanks, evaluate, limits } = args;
+  const ballastTanks = tanks.filter(t => t.type === 'BALLAST');
+
+  const current = new Map(tanks.map(t => [t.tankId, 0]));
+  for (const l of args.levels) current.set(l.tankId, l.fillPercent);
+  const toLevels = (m: Map<string, number>): TankLevel[] =>
+    [...m.entries()].map(([tankId, fillPercent]) => ({ tankId, fillPercent }));
+
+  const initial = evaluate(toLevels(current));
+  let best = initial;
+  const targetTrim = limits.maxTrim / 2;
+
+  const acceptable = (c: FloatingCondition) =>
+    (c.gm >= limits.minGM || c.gm >= best.gm) &&
+    (Math.max(c.drafts.forward, c.drafts.aft) <= limits.maxDraft ||
+      Math.max(c.drafts.forward, c.drafts.aft) <= Math.max(best.drafts.forward, best.drafts.aft));
+
+  for (let i = 0; i < MAX_BALLAST_ITERATIONS && Math.abs(best.trim) > targetTrim; i++) {
+    let move: { tankId: string; fill: number; condition: FloatingCondition } | null = null;
+
+    for (const tank of ballastTanks) {
+      const fill = current.get(tank.tankId) ?? 0;
+      for (const next of [fill + BALLAST_STEP_PERCENT, fill - BALLAST_STEP_PERCENT]) {
+        const clamped = Math.min(100, Math.max(0, next));
+        if (clamped === fill) continue;
+        const trial = new Map(current);
+        trial.set(tank.tankId, clamped);
+        const condition = evaluate(toLevels(trial));
+        if (!acceptable(condition)) continue;
+        const bestTrim = move ? Math.abs(move.condition.trim) : Math.abs(best.trim);
+        if (Math.abs(condition.trim) < bestTrim) {
+          move = { tankId: tank.tankId, fill: clamped, condition };
+        }
+      }
+    }
+
+    if (!move) break;
+    current.set(move.tankId, move.fill);
+    best = move.condition;
+  }
+
+  const originalMap = new Map(args.levels.map(l => [l.tankId, l.fillPercent]));
+  const changes: BallastChange[] = ballastTanks
+    .filter(t => (originalMap.get(t.tankId) ?? 0) !== (current.get(t.tankId) ?? 0))
+    .map(t => {
+      const fromPercent = originalMap.get(t.tankId) ?? 0;
+      const toPercent = current.get(t.tankId) ?? 0;
+      return {
+        tankId: t.tankId,
+        name: t.name,
+        fromPercent,
+        toPercent,
+        deltaTonnes: t.capacity * ((toPercent - fromPercent) / 100) * t.density,
+      };
+    });
+
+  return {
+    changes,
+    levels: toLevels(current),
+    before: { trim: initial.trim, gm: initial.gm },
+    after: { trim: best.trim, gm: best.gm, drafts: best.drafts },
+    resolved: Math.abs(best.trim) <= limits.maxTrim,
+  };
+}
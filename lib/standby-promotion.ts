@@ -0,0 +1,170 @@
+// lib/standby-promotion.ts
+// Offers pallets freed on a voyage (cancelled, rejected or reduced booking) to
+// the voyage's STANDBY queue. The queue order comes from the service's
+// standbyPolicy; each candidate gets at most what the capacity check leaves on
+// its own legs. Promotions up to autoConfirmMaxPallets are confirmed straight
+// away, larger ones are stored as a standbyOffer for a planner to approve.
+
+import {
+  BookingModel,
+  ContractModel,
+  ServiceModel,
+  VoyageModel,
+} from '@/lib/db/schemas';
+import { loadCargoCarriageSpecs } from '@/lib/cargo-carriage';
+import { loadBookingCapacity, regimeOf, type TemperatureRegime } from '@/lib/capacity-availability';
+import { getTempRange } from '@/lib/stowage-engine/temperature';
+import type { StandbyOrder, StandbyPolicy } from '@/types/models';
+
+export const DEFAULT_STANDBY_POLICY: StandbyPolicy = { order: 'FIFO', autoConfirmMaxPallets: 0 };
+
+export interface StandbyCandidate {
+  bookingId: string;
+  requestedAt: number;          // ms — FIFO key
+  standby: number;              // pallets still on standby, less any open offer
+  regime: TemperatureRegime;
+  contractShortfall: number;    // weekly contract estimate not yet confirmed
+}
+
+export interface StandbyPromotion {
+  bookingId: string;
+  bookingNumber: string;
+  shipperName: string;
+  pallets: number;
+  autoConfirmed: boolean;
+}
+
+// Pallets a booking holds on the vessel, as counted by the capacity check
+export function committedPallets(booking: any): number {
+  return ['CONFIRMED', 'PARTIAL'].includes(booking?.status) ? (booking.confirmedQuantity ?? 0) : 0;
+}
+
+// FIFO: oldest request first.
+// CONTRACT_PRIORITY: furthest below its contracted weekly estimate first.
+// CARGO_FIT: same temperature regime as the freed cargo first, then standby
+// that fits in the freed pallets (largest first), then the rest.
+export function orderStandbyQueue(
+  candidates: StandbyCandidate[],
+  order: StandbyOrder,
+  freed: { pallets: number; regime: TemperatureRegime | null },
+): StandbyCandidate[] {
+  const fifo = (a: StandbyCandidate, b: StandbyCandidate) => a.requestedAt - b.requestedAt;
+  const sorted = [...candidates];
+  if (order === 'CONTRACT_PRIORITY') {
+    sorted.sort((a, b) => b.contractShortfall - a.contractShortfall || fifo(a, b));
+  } else if (order === 'CARGO_FIT') {
+    const rank = (c: StandbyCandidate) =>
+      (c.regime === freed.regime ? 0 : 2) + (c.standby <= freed.pallets ? 0 : 1);
+    sorted.sort((a, b) => rank(a) - rank(b) || b.standby - a.standby || fifo(a, b));
+  } else {
+    sorted.sort(fifo);
+  }
+  return sorted;
+}
+
+/**
+ * Runs the standby queue of `freedBy`'s voyage for `freedPallets`. Bookings
+ * are updated in place; the caller sends the notifications.
+ */
+export async function promoteStandbyQueue({
+  freedBy,
+  freedPallets,
+  changedBy,
+}: {
+  freedBy: any;
+  freedPallets: number;
+  changedBy: string;
+}): Promise<StandbyPromotion[]> {
+  if (freedPallets <= 0 || !freedBy.voyageId) return [];
+
+  const voyage = await VoyageModel.findById(freedBy.voyageId).select('serviceId').lean() as any;
+  const service = voyage?.serviceId
+    ? await ServiceModel.findById(voyage.serviceId).select('standbyPolicy').lean() as any
+    : null;
+  const policy: StandbyPolicy = { ...DEFAULT_STANDBY_POLICY, ...service?.standbyPolicy };
+
+  const queue = await BookingModel.find({
+    voyageId: freedBy.voyageId,
+    _id: { $ne: freedBy._id },
+    status: { $in: ['STANDBY', 'PARTIAL'] },
+    standbyQuantity: { $gt: 0 },
+  });
+  if (queue.length === 0) return [];
+
+  const [carriage, contracts] = await Promise.all([
+    loadCargoCarriageSpecs(),
+    ContractModel.find({ _id: { $in: queue.map(b => b.contractId) } })
+      .select('weeklyPallets counterparties')
+      .lean() as Promise<any[]>,
+  ]);
+  const contractById = new Map(contracts.map(c => [c._id.toString(), c]));
+  const weeklyEstimate = (b: any): number => {
+    const contract = contractById.get(b.contractId?.toString());
+    const cp = (contract?.counterparties ?? []).find((c: any) =>
+      c.active !== false && b.shipperId && c.shipperId?.toString() === b.shipperId.toString());
+    return cp?.weeklyEstimate ?? contract?.weeklyPallets ?? 0;
+  };
+
+  const byId = new Map(queue.map(b => [b._id.toString(), b]));
+  const candidates: StandbyCandidate[] = queue.map(b => ({
+    bookingId:   b._id.toString(),
+    requestedAt: new Date(b.requestedDate ?? b.createdAt ?? 0).getTime(),
+    standby:     (b.standbyQuantity ?? 0) - (b.standbyOffer?.pallets ?? 0),
+    regime:      regimeOf(getTempRange(b.cargoType ?? '', carriage)),
+    contractShortfall: Math.max(0, weeklyEstimate(b) - (b.confirmedQuantity ?? 0)),
+  }));
+  const freedRegime = freedBy.cargoType ? regimeOf(getTempRange(freedBy.cargoType, carriage)) : null;
+
+  const promotions: StandbyPromotion[] = [];
+  let remaining = freedPallets;
+  for (const candidate of orderStandbyQueue(candidates, policy.order, { pallets: freedPallets, regime: freedRegime })) {
+    if (remaining <= 0) break;
+    if (candidate.standby <= 0) continue;
+    const booking = byId.get(candidate.bookingId)!;
+    const offered = booking.standbyOffer?.pallets ?? 0;
+
+    // Space on the booking's legs beyond what it already holds (and was offered)
+    const capacity = await loadBookingCapacity(booking);
+    const room = capacity
+      ? Math.max(0, capacity.available - (booking.confirmedQuantity ?? 0) - offered)
+      : remaining;
+    const grant = Math.min(candidate.standby, room, remaining);
+    if (grant <= 0) continue;
+    remaining -= grant;
+
+    const pallets = offered + grant;
+    const autoConfirmed = pallets <= policy.autoConfirmMaxPallets;
+    if (autoConfirmed) {
+      booking.confirmedQuantity = (booking.confirmedQuantity ?? 0) + pallets;
+      booking.standbyQuantity = (booking.standbyQuantity ?? 0) - pallets;
+      booking.status = booking.standbyQuantity === 0 && (booking.rejectedQuantity ?? 0) === 0
+        ? 'CONFIRMED'
+        : 'PARTIAL';
+      booking.standbyOffer = undefined;
+      if (!(booking as any).changelog) (booking as any).changelog = [];
+      (booking as any).changelog.push({
+        changedAt: new Date(),
+        changedBy,
+        field: 'standbyQuantity',
+        fromValue: String(pallets),
+        toValue: `CONFIRMED (auto, freed by ${freedBy.bookingNumber})`,
+      });
+    } else {
+      booking.standbyOffer = {
+        pallets,
+        offeredAt: new Date(),
+        freedByBookingNumber: freedBy.bookingNumber,
+      };
+    }
+    await booking.save();
+
+    promotions.push({
+      bookingId: candidate.bookingId,
+      bookingNumber: booking.bookingNumber,
+      shipperName: booking.shipper?.name ?? '',
+      pallets,
+      autoConfirmed,
+    });
+  }
+  return promotions;
+}
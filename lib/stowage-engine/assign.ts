@@ -15,7 +15,11 @@ import type {
   SectionEntry,
   HoldState,
 } from './types';
-import { isTemperatureCompatible } from './constraints';
+import {
+  isTemperatureCompatible,
+  getIncompatibleZoneGroups,
+  getIncompatibleZoneAtmospheres,
+} from './constraints';
 
 // ── Level ordering ────────────────────────────────────────────────────────────
 // Top (most accessible for discharge) → bottom (least accessible).
@@ -182,6 +186,28 @@ export function assignCargo(
   // Zone lookup for temperature checks.
   const zoneMap = new Map(zones.map(z => [z.zoneId, z]));
 
+  // Compatibility groups stowed per zone — grows as entries are placed.
+  const { compatibility } = input;
+  const zoneGroups = new Map<string, Set<string>>();
+  const zoneBySection = new Map(sections.map(s => [s.sectionId, s.zoneId]));
+  // Cargo types stowed per zone, for the atmosphere check.
+  const { atmosphere } = input;
+  const zoneCargoTypes = new Map<string, Set<string>>();
+  const recordZoneCargo = (booking: EngineBooking, sectionId: string) => {
+    const zoneId = zoneBySection.get(sectionId);
+    if (!zoneId) return;
+    if (!zoneCargoTypes.has(zoneId)) zoneCargoTypes.set(zoneId, new Set());
+    zoneCargoTypes.get(zoneId)!.add(booking.cargoType);
+    const group = compatibility?.groupByCargoType[booking.cargoType];
+    if (!group) return;
+    if (!zoneGroups.has(zoneId)) zoneGroups.set(zoneId, new Set());
+    zoneGroups.get(zoneId)!.add(group);
+  };
+  const isZoneCompatible = (booking: EngineBooking, zoneId: string) =>
+    getIncompatibleZoneGroups(booking, zoneGroups.get(zoneId), compatibility).length === 0;
+  const isAtmosphereCompatible = (booking: EngineBooking, zoneId: string) =>
+    getIncompatibleZoneAtmospheres(booking, zoneCargoTypes.get(zoneId), atmosphere).length === 0;
+
   // 1. Build sorted work queue from bookings + contractEstimates.
   //    Index.ts has already enriched polSeq/podSeq on all bookings.
   //    PRIMARY:   polSeq ASC  (load from first port first)
@@ -244,6 +270,8 @@ export function assignCargo(
         if (!state || state.capacity - state.palletsUsed <= 0) return false;
         const zone = zoneMap.get(sec.zoneId);
         if (!zone || !isTemperatureCompatible(booking, zone)) return false;
+        if (!isZoneCompatible(booking, sec.zoneId)) return false;
+        if (!isAtmosphereCompatible(booking, sec.zoneId)) return false;
         if (!canPlace(booking, sec.sectionId, holdState)) return false;
         return true;
       });
@@ -285,6 +313,7 @@ export function assignCargo(
       bestState.maxPolSeq    = Math.max(bestState.maxPolSeq, booking.polSeq);
       bestState.minPodSeq    = Math.min(bestState.minPodSeq, booking.podSeq);
       bestState.maxPodSeq    = Math.max(bestState.maxPodSeq, booking.podSeq);
+      recordZoneCargo(booking, best.sectionId);
 
       palletsRemaining -= assignable;
       remainingByPolSeq.set(
@@ -316,6 +345,8 @@ export function assignCargo(
         if (!state || state.capacity - state.palletsUsed <= 0) return false;
         const zone = zoneMap.get(sec.zoneId);
         if (!zone || !isTemperatureCompatible(booking, zone)) return false;
+        if (!isZoneCompatible(booking, sec.zoneId)) return false;
+        if (!isAtmosphereCompatible(booking, sec.zoneId)) return false;
         if (!canPlace(booking, sec.sectionId, holdState)) return false;
         return true;
       });
@@ -329,10 +360,15 @@ export function assignCargo(
               return z && isTemperatureCompatible(booking, z);
             })
           : [];
-        const hasCapacity = compatibleTempSections.some(s => {
+        const openTempSections = compatibleTempSections.filter(s => {
           const st = holdState[s.sectionId];
           return st && st.capacity - st.palletsUsed > 0;
         });
+        const hasCapacity = openTempSections.length > 0;
+        const hasCompatibleGroup = openTempSections.some(s => isZoneCompatible(booking, s.zoneId));
+        const hasCompatibleAtmosphere = openTempSections.some(s =>
+          isZoneCompatible(booking, s.zoneId) && isAtmosphereCompatible(booking, s.zoneId),
+        );
 
         let type: EngineConflict['type'];
         let message: string;
@@ -348,6 +384,33 @@ export function assignCargo(
           type = 'CAPACITY_CONFLICT';
           message = `Compatible zones exist but all sections are full for ${palletsRemaining} pallets of ${booking.cargoType}.`;
           suggestedActions.push('Split to another voyage or reduce booking quantity.');
+        } else if (!hasCompatibleGroup) {
+          const group = compatibility?.groupByCargoType[booking.cargoType];
+          const blocking = [...new Set(openTempSections.flatMap(s =>
+            getIncompatibleZoneGroups(booking, zoneGroups.get(s.zoneId), compatibility),
+          ))];
+          type = 'COMPATIBILITY_CONFLICT';
+          message =
+            `${booking.cargoType} (group ${group}) cannot share a zone with ${blocking.join(', ')}` +
+            ` in any temperature-compatible zone with free space. ${palletsRemaining} pallets unplaced.`;
+          suggestedActions.push(
+            `Set another zone to [${booking.tempMin}, ${booking.tempMax}]°C for ${booking.cargoType} only.`,
+            `Review canCoexistWith for compatibility group ${group} if these cargoes may travel together.`,
+          );
+        } else if (!hasCompatibleAtmosphere) {
+          const needs = atmosphere?.[booking.cargoType];
+          const blocking = [...new Set(openTempSections.flatMap(s =>
+            getIncompatibleZoneAtmospheres(booking, zoneCargoTypes.get(s.zoneId), atmosphere),
+          ))];
+          type = 'ATMOSPHERE_CONFLICT';
+          message =
+            `${booking.cargoType} (${needs?.mode === 'CA' ? 'controlled atmosphere' : 'regular atmosphere'})` +
+            ` cannot share a zone with ${blocking.join(', ')} in any temperature-compatible zone with free space.` +
+            ` ${palletsRemaining} pallets unplaced.`;
+          suggestedActions.push(
+            `Set another zone to [${booking.tempMin}, ${booking.tempMax}]°C for ${booking.cargoType} only.`,
+            'Review the O2/CO2 bands of these cargo products if they may share a CA zone.',
+          );
         } else {
           type = 'OVERSTOW_CONFLICT';
           message =
@@ -407,6 +470,7 @@ export function assignCargo(
       bestState.maxPolSeq    = Math.max(bestState.maxPolSeq, booking.polSeq);
       bestState.minPodSeq    = Math.min(bestState.minPodSeq, booking.podSeq);
       bestState.maxPodSeq    = Math.max(bestState.maxPodSeq, booking.podSeq);
+      recordZoneCargo(booking, best.sectionId);
 
       palletsRemaining -= assignable;
       remainingByPolSeq.set(
@@ -425,10 +489,13 @@ export function assignCargo(
       const booking = workQueue.find(b => b.bookingId === entry.bookingId);
       if (!booking) continue;
 
+      const weightKg = entry.quantity * booking.weightPerUnitKg;
+
       assignments.push({
         bookingId:       entry.bookingId,
         sectionId,
         palletsAssigned: entry.quantity,
+        weightKg,
         confidence:      booking.confidence,
         frozen:          booking.frozen,
       });
@@ -441,6 +508,7 @@ export function assignCargo(
         shipperName:     booking.shipperName,
         consigneeName:   booking.consigneeName,
         snapshotQuantity: entry.quantity,
+        weightKg,
         confidence:      booking.confidence,
         polPortCode:     booking.polPortCode,
         podPortCode:     booking.podPortCode,
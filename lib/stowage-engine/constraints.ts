@@ -8,6 +8,9 @@ import type {
   EngineSection,
   EngineZone,
   CargoAssignment,
+  CargoCompatibility,
+  CargoAtmosphere,
+  ZoneAtmosphere,
 } from './types';
 
 // Level accessibility order: index 0 = most accessible (easiest to discharge).
@@ -110,7 +113,146 @@ export function isOverstowViolation(
 }
 
 // ----------------------------------------------------------------------------
-// 4. Get all sections that pass every hard constraint for this booking.
+// 4. Compatibility groups
+// Two groups may share a refrigeration zone when they are the same group or
+// when either lists the other in canCoexistWith (admins usually fill in one
+// side only). Cargo without a group never blocks and is never blocked.
+// ----------------------------------------------------------------------------
+
+export function canGroupsCoexist(
+  groupA: string | undefined,
+  groupB: string | undefined,
+  compatibility: CargoCompatibility,
+): boolean {
+  if (!groupA || !groupB || groupA === groupB) return true;
+  return (
+    (compatibility.canCoexistWith[groupA] ?? []).includes(groupB) ||
+    (compatibility.canCoexistWith[groupB] ?? []).includes(groupA)
+  );
+}
+
+// Groups already stowed in the zone that this booking's group cannot live with.
+export function getIncompatibleZoneGroups(
+  booking: Pick<EngineBooking, 'cargoType'>,
+  zoneGroups: Iterable<string> | undefined,
+  compatibility: CargoCompatibility | undefined,
+): string[] {
+  if (!compatibility || !zoneGroups) return [];
+  const group = compatibility.groupByCargoType[booking.cargoType];
+  if (!group) return [];
+  return [...zoneGroups].filter(other => !canGroupsCoexist(group, other, compatibility));
+}
+
+// zoneId → groupCodes of the cargo already assigned to its sections.
+export function getZoneGroups(
+  sections: EngineSection[],
+  assignments: CargoAssignment[],
+  allBookings: EngineBooking[],
+  compatibility: CargoCompatibility,
+): Map<string, Set<string>> {
+  const zoneBySection = new Map(sections.map(s => [s.sectionId, s.zoneId]));
+  const bookingMap = new Map(allBookings.map(b => [b.bookingId, b]));
+  const zoneGroups = new Map<string, Set<string>>();
+  for (const a of assignments) {
+    const zoneId = zoneBySection.get(a.sectionId);
+    const group = compatibility.groupByCargoType[bookingMap.get(a.bookingId)?.cargoType ?? ''];
+    if (!zoneId || !group) continue;
+    if (!zoneGroups.has(zoneId)) zoneGroups.set(zoneId, new Set());
+    zoneGroups.get(zoneId)!.add(group);
+  }
+  return zoneGroups;
+}
+
+// ----------------------------------------------------------------------------
+// 5. Controlled atmosphere
+// A CA zone is sealed, so CA and regular-atmosphere cargo never share a zone,
+// and CA cargoes only share when their O2 and CO2 bands overlap. Ventilation is
+// not a constraint for regular cargo — the zone runs at the highest rate asked
+// for. Cargo types without an entry are unrestricted.
+// ----------------------------------------------------------------------------
+
+type Band = { min: number; max: number };
+
+function bandsOverlap(a: Band | undefined, b: Band | undefined): boolean {
+  if (!a || !b) return true;
+  return Math.max(a.min, b.min) <= Math.min(a.max, b.max);
+}
+
+export function canAtmospheresCoexist(
+  a: CargoAtmosphere | undefined,
+  b: CargoAtmosphere | undefined,
+): boolean {
+  if (!a || !b) return true;
+  if (a.mode !== b.mode) return false;
+  if (a.mode === 'REGULAR') return true;
+  return bandsOverlap(a.o2, b.o2) && bandsOverlap(a.co2, b.co2);
+}
+
+// Cargo types already stowed in the zone whose atmosphere this booking cannot share.
+export function getIncompatibleZoneAtmospheres(
+  booking: Pick<EngineBooking, 'cargoType'>,
+  zoneCargoTypes: Iterable<string> | undefined,
+  atmosphere: Record<string, CargoAtmosphere> | undefined,
+): string[] {
+  if (!atmosphere || !zoneCargoTypes) return [];
+  const own = atmosphere[booking.cargoType];
+  if (!own) return [];
+  return [...zoneCargoTypes].filter(t => !canAtmospheresCoexist(own, atmosphere[t]));
+}
+
+// zoneId → cargo types already assigned to its sections.
+export function getZoneCargoTypes(
+  sections: EngineSection[],
+  assignments: CargoAssignment[],
+  allBookings: EngineBooking[],
+): Map<string, Set<string>> {
+  const zoneBySection = new Map(sections.map(s => [s.sectionId, s.zoneId]));
+  const bookingMap = new Map(allBookings.map(b => [b.bookingId, b]));
+  const zoneTypes = new Map<string, Set<string>>();
+  for (const a of assignments) {
+    const zoneId = zoneBySection.get(a.sectionId);
+    const cargoType = bookingMap.get(a.bookingId)?.cargoType;
+    if (!zoneId || !cargoType) continue;
+    if (!zoneTypes.has(zoneId)) zoneTypes.set(zoneId, new Set());
+    zoneTypes.get(zoneId)!.add(cargoType);
+  }
+  return zoneTypes;
+}
+
+/**
+ * Set points for a zone holding the given cargo types: CA takes the midpoint of
+ * the overlapping O2/CO2 bands with ventilation closed; regular atmosphere runs
+ * the highest ventilation rate any cargo needs. Undefined for an empty zone.
+ */
+export function resolveZoneAtmosphere(
+  cargoTypes: Iterable<string>,
+  atmosphere: Record<string, CargoAtmosphere> | undefined,
+): ZoneAtmosphere | undefined {
+  const needs = [...cargoTypes].map(t => atmosphere?.[t]).filter((n): n is CargoAtmosphere => !!n);
+  if (needs.length === 0) return undefined;
+
+  const ca = needs.filter(n => n.mode === 'CA');
+  if (ca.length === 0) {
+    return { mode: 'REGULAR', ventilation: Math.max(0, ...needs.map(n => n.ventilation ?? 0)) };
+  }
+
+  const setPoint = (bands: (Band | undefined)[]) => {
+    const defined = bands.filter((b): b is Band => !!b);
+    if (defined.length === 0) return undefined;
+    const min = Math.max(...defined.map(b => b.min));
+    const max = Math.min(...defined.map(b => b.max));
+    return Math.round(((min + max) / 2) * 10) / 10;
+  };
+  return {
+    mode: 'CA',
+    o2: setPoint(ca.map(n => n.o2)),
+    co2: setPoint(ca.map(n => n.co2)),
+    ventilation: 0,
+  };
+}
+
+// ----------------------------------------------------------------------------
+// 6. Get all sections that pass every hard constraint for this booking.
 // ----------------------------------------------------------------------------
 
 export function getCompatibleSections(
@@ -119,9 +261,17 @@ export function getCompatibleSections(
   zones: EngineZone[],
   assignments: CargoAssignment[],
   allBookings: EngineBooking[],
+  compatibility?: CargoCompatibility,
+  atmosphere?: Record<string, CargoAtmosphere>,
 ): EngineSection[] {
   // Build zoneId → zone lookup.
   const zoneMap = new Map(zones.map(z => [z.zoneId, z]));
+  const zoneGroups = compatibility
+    ? getZoneGroups(sections, assignments, allBookings, compatibility)
+    : undefined;
+  const zoneCargoTypes = atmosphere
+    ? getZoneCargoTypes(sections, assignments, allBookings)
+    : undefined;
 
   return sections.filter(section => {
     const zone = zoneMap.get(section.zoneId);
@@ -136,6 +286,12 @@ export function getCompatibleSections(
     // Hard constraint 3: no overstow violation.
     if (isOverstowViolation(booking, section, assignments, allBookings)) return false;
 
+    // Hard constraint 4: compatibility groups sharing the zone.
+    if (getIncompatibleZoneGroups(booking, zoneGroups?.get(section.zoneId), compatibility).length > 0) return false;
+
+    // Hard constraint 5: atmosphere needs of the cargo sharing the zone.
+    if (getIncompatibleZoneAtmospheres(booking, zoneCargoTypes?.get(section.zoneId), atmosphere).length > 0) return false;
+
     return true;
   });
 }
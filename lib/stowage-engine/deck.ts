@@ -0,0 +1,162 @@
+// ============================================================================
+// STOWAGE ENGINE — DECK CONTAINER SLOTS
+// Slot-level placement of reefer containers on the hatch covers using the
+// vessel's deck bay plan (Vessel.deckBayPlan). Stacks are bay × row, tiers are
+// filled bottom-up, every reefer needs a plugged slot.
+// Pure functions — callers pass the bay plan and the occupied slots.
+// ============================================================================
+
+import type { ContainerType, DeckStack, DeckTier } from '@/types/models';
+
+export interface DeckSlotRef {
+  bay: number;
+  row: number;
+  tier: number;
+}
+
+export interface DeckSlotOccupant extends DeckSlotRef {
+  weight: number;  // kg
+}
+
+export interface DeckSlotRequest {
+  containerType: ContainerType;
+  weightPerContainer: number;  // kg
+  quantity: number;
+  slots?: DeckSlotRef[];       // explicit slots; auto-picked when omitted
+}
+
+export interface DeckSlotArms {
+  lcg: number;
+  tcg: number;
+  vcg: number;
+}
+
+// Container heights (m): 8'6" standard, 9'6" high cube
+const STANDARD_HEIGHT_M = 2.59;
+const HIGH_CUBE_HEIGHT_M = 2.9;
+
+// Unknown container type on a booking → the most common reefer box
+export const DEFAULT_DECK_CONTAINER_TYPE: ContainerType = '40HC';
+
+export function deckSlotKey(slot: DeckSlotRef): string {
+  return `${slot.bay}-${slot.row}-${slot.tier}`;
+}
+
+// "BBRRTT" as printed on bay plans: 10-02-84 → "100284"
+export function formatDeckSlot(slot: DeckSlotRef): string {
+  return [slot.bay, slot.row, slot.tier].map(n => String(n).padStart(2, '0')).join('');
+}
+
+export function findDeckStack(bayPlan: DeckStack[], bay: number, row: number): DeckStack | undefined {
+  return bayPlan.find(s => s.bay === bay && s.row === row);
+}
+
+export function countReeferPlugs(bayPlan: DeckStack[]): number {
+  return bayPlan.reduce((sum, s) => sum + s.tiers.filter(t => t.reeferPlug).length, 0);
+}
+
+/**
+ * Why a container cannot go into a tier, or null when it fits.
+ * 20' boxes need a 20FT slot, 40'/40HC need a 40FT slot; high cubes need a
+ * tier that allows them; every reefer needs a plug.
+ */
+export function deckSlotMismatch(stack: DeckStack, tier: DeckTier, containerType: ContainerType): string | null {
+  const needs = containerType === '20FT' ? '20FT' : '40FT';
+  if (stack.slotLength !== needs) return `${stack.slotLength} slot cannot take a ${containerType} container`;
+  if (containerType === '40HC' && !tier.allowsHighCube) return 'slot does not allow high cube';
+  if (!tier.reeferPlug) return 'slot has no reefer plug';
+  return null;
+}
+
+/**
+ * Centroid of a container in a deck slot. Containers below it in the stack are
+ * assumed high cube unless the tier is flagged standard-only, which keeps the
+ * VCG on the conservative (higher) side.
+ */
+export function getDeckSlotArms(stack: DeckStack, tierNumber: number, containerType: ContainerType = DEFAULT_DECK_CONTAINER_TYPE): DeckSlotArms {
+  let vcg = stack.baseVcg;
+  for (const t of stack.tiers) {
+    if (t.tier === tierNumber) break;
+    vcg += t.allowsHighCube ? HIGH_CUBE_HEIGHT_M : STANDARD_HEIGHT_M;
+  }
+  const height = containerType === '40HC' ? HIGH_CUBE_HEIGHT_M : STANDARD_HEIGHT_M;
+  return { lcg: stack.lcg, tcg: stack.tcg, vcg: vcg + height / 2 };
+}
+
+/**
+ * Picks (or validates) deck slots for a batch of identical containers.
+ * Slots are filled bottom-up — a tier is only usable once every tier below it
+ * is occupied — and each stack's total weight stays within maxStackWeight.
+ * Auto-pick prefers the lowest free tier, then stacks in bay/row order.
+ */
+export function allocateDeckSlots(
+  bayPlan: DeckStack[],
+  occupied: DeckSlotOccupant[],
+  request: DeckSlotRequest,
+): { slots: DeckSlotRef[] } | { error: string } {
+  const taken = new Set(occupied.map(deckSlotKey));
+  const stackWeight = new Map<string, number>();
+  for (const o of occupied) {
+    const key = `${o.bay}-${o.row}`;
+    stackWeight.set(key, (stackWeight.get(key) ?? 0) + o.weight);
+  }
+
+  const check = (slot: DeckSlotRef): string | null => {
+    const label = formatDeckSlot(slot);
+    const stack = findDeckStack(bayPlan, slot.bay, slot.row);
+    const tierIdx = stack?.tiers.findIndex(t => t.tier === slot.tier) ?? -1;
+    if (!stack || tierIdx === -1) return `Slot ${label} is not in the deck bay plan`;
+    if (taken.has(deckSlotKey(slot))) return `Slot ${label} is already occupied`;
+    const mismatch = deckSlotMismatch(stack, stack.tiers[tierIdx], request.containerType);
+    if (mismatch) return `Slot ${label}: ${mismatch}`;
+    const below = stack.tiers.slice(0, tierIdx).find(t => !taken.has(deckSlotKey({ ...slot, tier: t.tier })));
+    if (below) return `Slot ${label}: tier ${below.tier} below it is empty`;
+    const weight = (stackWeight.get(`${slot.bay}-${slot.row}`) ?? 0) + request.weightPerContainer;
+    if (weight > stack.maxStackWeight) {
+      return `Slot ${label}: stack weight ${Math.round(weight)} kg exceeds ${stack.maxStackWeight} kg`;
+    }
+    return null;
+  };
+
+  const place = (slot: DeckSlotRef) => {
+    taken.add(deckSlotKey(slot));
+    const key = `${slot.bay}-${slot.row}`;
+    stackWeight.set(key, (stackWeight.get(key) ?? 0) + request.weightPerContainer);
+  };
+
+  if (request.slots?.length) {
+    if (request.slots.length !== request.quantity) {
+      return { error: `${request.slots.length} slots given for ${request.quantity} containers` };
+    }
+    // Validate in bottom-up order so a batch can fill tier 82 and 84 of one stack
+    const ordered = [...request.slots].sort((a, b) => a.tier - b.tier);
+    for (const slot of ordered) {
+      const error = check(slot);
+      if (error) return { error };
+      place(slot);
+    }
+    return { slots: request.slots };
+  }
+
+  const stacks = [...bayPlan].sort((a, b) => a.bay - b.bay || a.row - b.row);
+  const slots: DeckSlotRef[] = [];
+  while (slots.length < request.quantity) {
+    let best: DeckSlotRef | null = null;
+    for (const stack of stacks) {
+      const free = stack.tiers.find(t => !taken.has(deckSlotKey({ bay: stack.bay, row: stack.row, tier: t.tier })));
+      if (!free) continue;
+      const slot = { bay: stack.bay, row: stack.row, tier: free.tier };
+      if (check(slot)) continue;
+      if (!best || slot.tier < best.tier) best = slot;
+    }
+    if (!best) {
+      return {
+        error: `Only ${slots.length} of ${request.quantity} ${request.containerType} containers fit on deck ` +
+          '(plugged slots, stack weights and high-cube limits)',
+      };
+    }
+    place(best);
+    slots.push(best);
+  }
+  return { slots };
+}
@@ -5,12 +5,22 @@
 //
 // Vessel: ACONCAGUA BAY (T1 type, 4 holds, 8 zones, 19 sections)
 // Data source: docs/PROJECT_CONTEXT.md
-// Formula: maxPallets = Math.floor(sqm * designStowageFactor)
+// Formula: maxPallets = Math.floor(sqm / designStowageFactor)
 // ============================================================================
 
 import assert from 'node:assert/strict';
-import { generateStowagePlan } from './index';
+import {
+  generateStowagePlan,
+  allocateDeckSlots,
+  getDeckSlotArms,
+  buildEngineInput,
+  buildPlanState,
+  removePallets,
+  previewTransfer,
+} from './index';
+import { DEFAULT_CARGO_CARRIAGE } from '@/lib/constants/cargo-carriage';
 import type { EngineInput, EngineSection, EngineZone } from './types';
+import type { DeckStack } from '@/types/models';
 
 // ----------------------------------------------------------------------------
 // ACONCAGUA BAY section data (sqm from PROJECT_CONTEXT.md, dsf = 1.32)
@@ -31,41 +41,42 @@ function makeSection(
     zoneId,
     sqm,
     designStowageFactor: DSF,
-    maxPallets: Math.floor(sqm * DSF),
+    maxPallets: Math.floor(sqm / DSF),
     holdNumber,
     longitudinalArm: ARM[holdNumber] ?? 0,
     transverseArm: 0,
+    verticalArm: 6,
     assignedTemperature: null,
   };
 }
 
 const sections: EngineSection[] = [
   // Hold 1 — zones 1AB and 1CD
-  makeSection('1A', '1AB', 363.8, 1),   // 480 plt
-  makeSection('1B', '1AB', 210.8, 1),   // 278 plt
-  makeSection('1C', '1CD', 145.4, 1),   // 191 plt
-  makeSection('1D', '1CD', 141.5, 1),   // 186 plt
+  makeSection('1A', '1AB', 363.8, 1),   // 275 plt
+  makeSection('1B', '1AB', 210.8, 1),   // 159 plt
+  makeSection('1C', '1CD', 145.4, 1),   // 110 plt
+  makeSection('1D', '1CD', 141.5, 1),   // 107 plt
 
   // Hold 2 — zones 2UPDAB and 2CD
-  makeSection('2UPD', '2UPDAB', 108.7, 2),  // 143 plt
-  makeSection('2A',   '2UPDAB', 428.6, 2),  // 565 plt
-  makeSection('2B',   '2UPDAB', 378.2, 2),  // 499 plt
-  makeSection('2C',   '2CD',    367.6, 2),  // 485 plt
-  makeSection('2D',   '2CD',    284.6, 2),  // 375 plt
+  makeSection('2UPD', '2UPDAB', 108.7, 2),  // 82 plt
+  makeSection('2A',   '2UPDAB', 428.6, 2),  // 324 plt
+  makeSection('2B',   '2UPDAB', 378.2, 2),  // 286 plt
+  makeSection('2C',   '2CD',    367.6, 2),  // 278 plt
+  makeSection('2D',   '2CD',    284.6, 2),  // 215 plt
 
   // Hold 3 — zones 3UPDAB and 3CD
-  makeSection('3UPD', '3UPDAB', 103.4, 3),  // 136 plt
-  makeSection('3A',   '3UPDAB', 458.3, 3),  // 604 plt
-  makeSection('3B',   '3UPDAB', 437.2, 3),  // 577 plt
-  makeSection('3C',   '3CD',    461.2, 3),  // 608 plt
-  makeSection('3D',   '3CD',    411.9, 3),  // 543 plt
+  makeSection('3UPD', '3UPDAB', 103.4, 3),  // 78 plt
+  makeSection('3A',   '3UPDAB', 458.3, 3),  // 347 plt
+  makeSection('3B',   '3UPDAB', 437.2, 3),  // 331 plt
+  makeSection('3C',   '3CD',    461.2, 3),  // 349 plt
+  makeSection('3D',   '3CD',    411.9, 3),  // 312 plt
 
   // Hold 4 — zones 4UPDAB and 4CD
-  makeSection('4UPD', '4UPDAB', 103.3, 4),  // 136 plt
-  makeSection('4A',   '4UPDAB', 442.0, 4),  // 583 plt
-  makeSection('4B',   '4UPDAB', 412.2, 4),  // 544 plt
-  makeSection('4C',   '4CD',    381.0, 4),  // 502 plt
-  makeSection('4D',   '4CD',    254.8, 4),  // 336 plt
+  makeSection('4UPD', '4UPDAB', 103.3, 4),  // 78 plt
+  makeSection('4A',   '4UPDAB', 442.0, 4),  // 334 plt
+  makeSection('4B',   '4UPDAB', 412.2, 4),  // 312 plt
+  makeSection('4C',   '4CD',    381.0, 4),  // 288 plt
+  makeSection('4D',   '4CD',    254.8, 4),  // 193 plt
 ];
 
 const zones: EngineZone[] = [
@@ -93,6 +104,7 @@ const input: EngineInput = {
       tempMin: 12,
       tempMax: 14,
       pallets: 480,
+      weightPerUnitKg: 1100,
       polSequence: 1,
       podSequence: 3,
       shipperId: 'S001',
@@ -106,6 +118,7 @@ const input: EngineInput = {
       tempMin: -25,
       tempMax: -18,
       pallets: 275,
+      weightPerUnitKg: 1200,
       polSequence: 1,
       podSequence: 4,
       shipperId: 'S002',
@@ -119,6 +132,7 @@ const input: EngineInput = {
       tempMin: -0.5,
       tempMax: 0.5,
       pallets: 191,
+      weightPerUnitKg: 950,
       polSequence: 1,
       podSequence: 3,
       shipperId: 'S003',
@@ -168,6 +182,16 @@ for (const b of input.bookings) {
   );
 }
 
+// 3b. Assignment weight = pallets × the booking's resolved per-unit weight.
+for (const a of output.assignments) {
+  const booking = input.bookings.find(b => b.bookingId === a.bookingId)!;
+  assert.equal(
+    a.weightKg,
+    a.palletsAssigned * booking.weightPerUnitKg,
+    `Assignment ${a.bookingId}→${a.sectionId}: expected ${a.palletsAssigned * booking.weightPerUnitKg} kg, got ${a.weightKg}`,
+  );
+}
+
 // 4. Zone temperature assignments: hold 2+4 should get BANANAS temp (+13°C),
 //    hold 3 should get FROZEN_FISH temp (-21.5°C),
 //    hold 1 should get TABLE_GRAPES temp (0°C).
@@ -255,6 +279,329 @@ for (const s of output.stabilityByPort) {
   );
 }
 
+// 9. Compatibility groups: ethylene producers and ethylene-sensitive cargo
+//    never share a refrigeration zone, even when their temperatures overlap.
+const compatibility = {
+  groupByCargoType: { AVOCADOS: 'ETHYLENE_PRODUCERS', KIWIS: 'ETHYLENE_SENSITIVE' },
+  canCoexistWith: { ETHYLENE_PRODUCERS: [], ETHYLENE_SENSITIVE: [] },
+};
+const ethyleneBooking = (bookingId: string, cargoType: string) => ({
+  ...input.bookings[0],
+  bookingId,
+  cargoType,
+  tempMin: 5,
+  tempMax: 8,
+  pallets: 120,
+});
+const allZonesAt = (temp: number | ((zoneId: string) => number)) =>
+  Object.fromEntries(zones.map(z => [z.zoneId, typeof temp === 'number' ? temp : temp(z.zoneId)]));
+
+const mixedOutput = generateStowagePlan({
+  ...input,
+  bookings: [ethyleneBooking('B101', 'AVOCADOS'), ethyleneBooking('B102', 'KIWIS')],
+  plannerOverrides: allZonesAt(6),
+  compatibility,
+});
+const zoneOfSection = new Map(sections.map(s => [s.sectionId, s.zoneId]));
+const zonesFor = (out: typeof mixedOutput, bookingId: string) =>
+  new Set(out.assignments.filter(a => a.bookingId === bookingId).map(a => zoneOfSection.get(a.sectionId)));
+const avocadoZones = zonesFor(mixedOutput, 'B101');
+const kiwiZones = zonesFor(mixedOutput, 'B102');
+assert.ok(avocadoZones.size > 0 && kiwiZones.size > 0, 'Expected both ethylene bookings to be placed');
+assert.ok(
+  [...avocadoZones].every(z => !kiwiZones.has(z)),
+  `AVOCADOS and KIWIS share zone(s): ${[...avocadoZones].filter(z => kiwiZones.has(z)).join(', ')}`,
+);
+
+// 9b. With a single compatible zone the second group is reported, not mixed in.
+const singleZoneOutput = generateStowagePlan({
+  ...input,
+  bookings: [ethyleneBooking('B101', 'AVOCADOS'), ethyleneBooking('B102', 'KIWIS')],
+  plannerOverrides: allZonesAt(zoneId => (zoneId === '2UPDAB' ? 6 : -20)),
+  compatibility,
+});
+const compatConflicts = singleZoneOutput.conflicts.filter(c => c.type === 'COMPATIBILITY_CONFLICT');
+assert.equal(compatConflicts.length, 1, `Expected one COMPATIBILITY_CONFLICT, got ${compatConflicts.length}`);
+assert.equal(
+  new Set([...zonesFor(singleZoneOutput, 'B101'), ...zonesFor(singleZoneOutput, 'B102')]).size,
+  1,
+  'Expected only one group to be stowed in the single 6°C zone',
+);
+
+// 10. Controlled atmosphere: CA cargo with disjoint O2 bands and regular cargo
+//     each get their own zone; the CA zone carries the band midpoints as set points.
+const atmosphere = {
+  AVOCADOS: { mode: 'CA' as const, o2: { min: 2, max: 5 }, co2: { min: 3, max: 10 } },
+  MANGOES:  { mode: 'CA' as const, o2: { min: 6, max: 8 }, co2: { min: 5, max: 8 } },
+  KIWIS:    { mode: 'REGULAR' as const, ventilation: 1 },
+};
+const caOutput = generateStowagePlan({
+  ...input,
+  bookings: [
+    ethyleneBooking('B201', 'AVOCADOS'),
+    ethyleneBooking('B202', 'MANGOES'),
+    ethyleneBooking('B203', 'KIWIS'),
+  ],
+  plannerOverrides: allZonesAt(6),
+  atmosphere,
+});
+const caZoneSets = ['B201', 'B202', 'B203'].map(id => zonesFor(caOutput, id));
+for (let i = 0; i < caZoneSets.length; i++) {
+  for (let j = i + 1; j < caZoneSets.length; j++) {
+    assert.ok(
+      [...caZoneSets[i]].every(z => !caZoneSets[j].has(z)),
+      'Expected cargo with incompatible atmosphere needs in separate zones',
+    );
+  }
+}
+const avocadoZone = caOutput.zoneTemps.find(z => caZoneSets[0].has(z.zoneId));
+assert.deepEqual(avocadoZone?.atmosphere, { mode: 'CA', o2: 3.5, co2: 6.5, ventilation: 0 });
+const kiwiZone = caOutput.zoneTemps.find(z => caZoneSets[2].has(z.zoneId));
+assert.deepEqual(kiwiZone?.atmosphere, { mode: 'REGULAR', ventilation: 1 });
+
+// 10b. With a single compatible zone the second atmosphere is reported, not mixed in.
+const singleCaOutput = generateStowagePlan({
+  ...input,
+  bookings: [ethyleneBooking('B201', 'AVOCADOS'), ethyleneBooking('B203', 'KIWIS')],
+  plannerOverrides: allZonesAt(zoneId => (zoneId === '2UPDAB' ? 6 : -20)),
+  atmosphere,
+});
+const atmosphereConflicts = singleCaOutput.conflicts.filter(c => c.type === 'ATMOSPHERE_CONFLICT');
+assert.equal(atmosphereConflicts.length, 1, `Expected one ATMOSPHERE_CONFLICT, got ${atmosphereConflicts.length}`);
+
+// 11. Refrigeration: every loaded zone gets a heat-load estimate; a small
+//     circuit capacity and a tight adjacent-zone delta raise warnings only.
+const limitedOutput = generateStowagePlan({
+  ...input,
+  vessel: {
+    ...input.vessel,
+    zones: zones.map(z => ({ ...z, refrigerationCapacityKw: 5, maxAdjacentDelta: 30 })),
+  },
+});
+const loadedZones = limitedOutput.zoneTemps.filter(z =>
+  limitedOutput.assignments.some(a => zoneOfSection.get(a.sectionId) === z.zoneId),
+);
+assert.ok(loadedZones.every(z => (z.heatLoadKw ?? 0) > 0), 'Expected a heat load on every loaded zone');
+const refrigerationWarnings = limitedOutput.conflicts.filter(c => c.type === 'REFRIGERATION_WARNING');
+assert.ok(
+  refrigerationWarnings.some(c => c.message.includes('refrigeration capacity')),
+  'Expected a capacity warning for a 5 kW circuit',
+);
+assert.equal(
+  limitedOutput.assignments.length,
+  output.assignments.length,
+  'Refrigeration warnings must not change the assignments',
+);
+
+// 12. Deck slots: bottom-up filling, plugged 40' slots only, stack weight limit.
+const deckPlan: DeckStack[] = [
+  { bay: 6, row: 1, holdNumber: 2, slotLength: '40FT', maxStackWeight: 60000, lcg: 35, tcg: 2.5, baseVcg: 14.3,
+    tiers: [{ tier: 82, reeferPlug: true, allowsHighCube: true }, { tier: 84, reeferPlug: true, allowsHighCube: true }] },
+  { bay: 6, row: 2, holdNumber: 2, slotLength: '40FT', maxStackWeight: 60000, lcg: 35, tcg: -2.5, baseVcg: 14.3,
+    tiers: [{ tier: 82, reeferPlug: false, allowsHighCube: true }] },
+  { bay: 13, row: 1, holdNumber: 4, slotLength: '20FT', maxStackWeight: 30000, lcg: -15, tcg: 2.5, baseVcg: 14.3,
+    tiers: [{ tier: 82, reeferPlug: true, allowsHighCube: true }] },
+];
+const deckAlloc = allocateDeckSlots(deckPlan, [], { containerType: '40HC', weightPerContainer: 28000, quantity: 2 });
+assert.ok('slots' in deckAlloc, 'Expected two 40HC containers to fit');
+assert.deepEqual(deckAlloc.slots.map(s => s.tier), [82, 84], 'Expected bay 06 row 01 filled bottom-up');
+assert.ok(
+  'error' in allocateDeckSlots(deckPlan, [], { containerType: '40HC', weightPerContainer: 28000, quantity: 3 }),
+  'Unplugged slot and 20\' slot must not take a third 40HC',
+);
+assert.ok(
+  'error' in allocateDeckSlots(deckPlan, [], { containerType: '40FT', weightPerContainer: 31000, quantity: 2 }),
+  'Two 31 t boxes must exceed the 60 t stack limit',
+);
+assert.ok(
+  'error' in allocateDeckSlots(deckPlan, [], {
+    containerType: '40FT', weightPerContainer: 20000, quantity: 1, slots: [{ bay: 6, row: 1, tier: 84 }],
+  }),
+  'Tier 84 must not be usable while tier 82 is empty',
+);
+const arms84 = getDeckSlotArms(deckPlan[0], 84, '40HC');
+assert.ok(arms84.vcg > getDeckSlotArms(deckPlan[0], 82, '40HC').vcg, 'Expected tier 84 above tier 82');
+
+// 13. Input builder: Mongo-shaped documents → EngineInput, with the cargo
+//     source priority booking → forecast → NO_CARGO → contract default.
+const builderVoyage = {
+  serviceId: 'SVC1',
+  portCalls: [
+    { portCode: 'CLVAP', sequence: 1, eta: '2026-03-01T00:00:00Z' },
+    { portCode: 'NLRTM', sequence: 2, eta: '2026-03-20T00:00:00Z' },
+  ],
+};
+const builderVessel = {
+  temperatureZones: [{
+    zoneId: '1AB',
+    refrigerationCapacityKw: 120,
+    coolingSections: [
+      { sectionId: '1A', sqm: 132, designStowageFactor: 1.32 },
+      { sectionId: '1B', sqm: 100 },
+    ],
+  }],
+};
+const route = { originPort: { portCode: 'CLVAP' }, destinationPort: { portCode: 'NLRTM' } };
+const built = buildEngineInput({
+  voyage: builderVoyage,
+  vessel: builderVessel,
+  bookings: [
+    { _id: 'BK1', cargoType: 'TABLE_GRAPES', confirmedQuantity: 40, requestedQuantity: 50,
+      contractId: 'C1', shipperId: 'SH1', pol: { portCode: 'CLVAP' }, pod: { portCode: 'NLRTM' } },
+    { _id: 'BK2', cargoType: 'CHERRIES', requestedQuantity: 30,
+      pol: { portCode: 'CLVAP' }, pod: { portCode: 'ITGOA' } },   // POD not on this voyage
+  ],
+  forecasts: [
+    { _id: 'FC1', shipperId: 'SH2', contractId: 'C1', source: 'PLANNER_ENTRY', estimatedPallets: 25, cargoType: 'BERRIES' },
+    { _id: 'FC2', shipperId: 'SH3', contractId: 'C1', source: 'NO_CARGO', estimatedPallets: 0 },
+  ],
+  contracts: [
+    { _id: 'C1', ...route, cargoType: 'TABLE_GRAPES', counterparties: [
+      { shipperId: 'SH1', active: true, weeklyEstimate: 60 },        // covered by BK1
+      { shipperId: 'SH2', active: true, weeklyEstimate: 60 },        // forecast wins
+      { shipperId: 'SH3', active: true, weeklyEstimate: 60 },        // NO_CARGO
+      { shipperId: 'SH4', active: true, weeklyEstimate: 15, cargoTypes: ['KIWIS'] },
+      { shipperId: 'SH5', active: false, weeklyEstimate: 15 },
+    ] },
+    { _id: 'C2', ...route, cargoType: 'APPLES', weeklyPallets: 20 },
+    { _id: 'C3', originPort: { portCode: 'CLVAP' }, destinationPort: { portCode: 'USPHL' }, weeklyPallets: 20 },
+  ],
+  carriage: DEFAULT_CARGO_CARRIAGE,
+  previousZoneTemps: {},
+  plannerOverrides: { '1AB': 0 },
+});
+assert.deepEqual(
+  built.input.vessel.sections.map(s => s.maxPallets),
+  [100, Math.floor(100 / 1.32)],
+  'Expected maxPallets = floor(sqm / designStowageFactor), default factor 1.32',
+);
+assert.equal(built.input.vessel.zones[0].refrigerationCapacityKw, 120);
+assert.deepEqual(built.realBookings.map(b => [b.bookingId, b.pallets, b.confidence, b.frozen]), [['BK1', 40, 'CONFIRMED', true]]);
+assert.deepEqual(built.forecastBookings.map(b => [b.bookingId, b.cargoType, b.pallets, b.confidence]), [
+  ['FORECAST-FC1', 'BERRIES', 25, 'ESTIMATED'],
+]);
+assert.deepEqual(built.contractEstimates.map(b => [b.bookingId, b.cargoType, b.pallets]), [
+  ['CONTRACT-ESTIMATE-C1-3', 'KIWIS', 15],
+  ['CONTRACT-ESTIMATE-C2', 'APPLES', 20],
+]);
+assert.deepEqual(
+  built.cargoSnapshot.map(e => `${e.source}:${e.sourceId}`),
+  ['PLANNER_ENTRY:FC1', 'NO_CARGO:FC2', 'CONTRACT_DEFAULT:C1-3', 'CONTRACT_DEFAULT:C2', 'BOOKING:BK1', 'BOOKING:BK2'],
+);
+assert.equal(built.input.phase, 'CONFIRMED');
+assert.equal(built.input.previousZoneTemps, undefined, 'Empty inherited temps must not count as inherited');
+assert.deepEqual(built.input.portSequence.podPorts.map(p => [p.portCode, p.seq]), [['NLRTM', 2]]);
+assert.deepEqual(built.input.atmosphere?.KIWIS, { mode: 'REGULAR', ventilation: 1 });
+assert.equal(built.bookingMeta.length, 2 + 1 + 2, 'Expected booking documents plus one meta entry per estimate');
+const builtOutput = generateStowagePlan(built.input);
+assert.equal(
+  builtOutput.assignments.reduce((sum, a) => sum + a.palletsAssigned, 0),
+  40 + 25 + 15 + 20,
+  'Expected every built booking and estimate to be assigned',
+);
+
+// 14. Plan edits: a saved plan's hold positions → engine state, and a transfer
+//     checked against temperature, capacity and overstow before it is applied.
+const editVessel = {
+  temperatureZones: [
+    { zoneId: '1AB', coolingSections: [{ sectionId: '1A', sqm: 132 }, { sectionId: '1B', sqm: 132 }] },
+    { zoneId: '1CD', coolingSections: [{ sectionId: '1C', sqm: 132 }, { sectionId: '1D', sqm: 13.2 }] },
+    { zoneId: '2AB', coolingSections: [{ sectionId: '2A', sqm: 132 }, { sectionId: '2B', sqm: 132 }] },
+    { zoneId: '3AB', coolingSections: [{ sectionId: '3A', sqm: 132 }, { sectionId: '3B', sqm: 132 }] },
+  ],
+};
+const editVoyage = {
+  portCalls: [
+    { portCode: 'CLVAP', sequence: 1 },
+    { portCode: 'BEANR', sequence: 2 },
+    { portCode: 'NLRTM', sequence: 3 },
+  ],
+};
+const editPos = (bookingId: string, cargoType: string, sectionId: string, quantity: number, podPortCode: string) => ({
+  bookingId, cargoType, quantity, weight: quantity * 1000, polPortCode: 'CLVAP', podPortCode,
+  compartment: { id: sectionId, holdNumber: Number(sectionId[0]), level: sectionId.slice(1) },
+});
+const editState = buildPlanState(editVessel, editVoyage, {
+  coolingSectionStatus: [
+    { zoneId: '1AB', assignedTemperature: 0 },
+    { zoneId: '1CD', assignedTemperature: 0 },
+    { zoneId: '2AB', assignedTemperature: -20 },
+  ],
+  cargoPositions: [
+    editPos('BK1', 'TABLE_GRAPES', '1B', 60, 'NLRTM'),
+    editPos('BK2', 'TABLE_GRAPES', '1A', 40, 'BEANR'),
+    editPos('BK3', 'FROZEN_FISH', '2A', 20, 'NLRTM'),
+    { ...editPos('BK4', 'TABLE_GRAPES', 'DECK', 2, 'NLRTM'), compartment: { id: 'DECK', holdNumber: 1, level: 'DECK' } },
+  ],
+}, DEFAULT_CARGO_CARRIAGE);
+assert.deepEqual(
+  editState.bookings.map(b => [b.bookingId, b.pallets, b.podSeq, b.weightPerUnitKg]),
+  [['BK1', 60, 3, 1000], ['BK2', 40, 2, 1000], ['BK3', 20, 3, 1000]],
+  'Expected one engine booking per hold booking; deck cargo left out',
+);
+
+const okMove = previewTransfer(editState, { bookingId: 'BK1', fromSectionId: '1B', toSectionId: '3A', pallets: 20 });
+assert.deepEqual(okMove.violations, []);
+assert.equal(okMove.targetTemperature, 0, 'Expected an unset target zone to adopt the source temperature');
+assert.deepEqual(
+  okMove.assignmentsAfter.filter(a => a.bookingId === 'BK1').map(a => [a.sectionId, a.palletsAssigned, a.weightKg]),
+  [['1B', 40, 40000], ['3A', 20, 20000]],
+);
+assert.ok(
+  okMove.after.stabilityByPort[0].trimIndex < okMove.before.stabilityByPort[0].trimIndex,
+  'Expected moving cargo aft to move the trim index aft',
+);
+
+const violationTypes = (move: Parameters<typeof previewTransfer>[1]) =>
+  previewTransfer(editState, move).violations.map(v => v.type);
+assert.deepEqual(violationTypes({ bookingId: 'BK1', fromSectionId: '1B', toSectionId: '2B', pallets: 10 }), ['TEMPERATURE_CONFLICT']);
+assert.deepEqual(violationTypes({ bookingId: 'BK1', fromSectionId: '1B', toSectionId: '1D', pallets: 20 }), ['CAPACITY_CONFLICT']);
+assert.deepEqual(violationTypes({ bookingId: 'BK2', fromSectionId: '1A', toSectionId: '1C', pallets: 10 }), ['OVERSTOW_CONFLICT']);
+assert.deepEqual(violationTypes({ bookingId: 'BK1', fromSectionId: '1B', toSectionId: '3A', pallets: 61 }), ['CAPACITY_CONFLICT']);
+
+// Engine-generated plans stored polSeq / podSeq 0 for every booking; those
+// resolve from the port codes, so overstow is still caught
+const storedZeroState = buildPlanState(editVessel, editVoyage, {
+  coolingSectionStatus: [
+    { zoneId: '1AB', assignedTemperature: 0 },
+    { zoneId: '1CD', assignedTemperature: 0 },
+  ],
+  cargoPositions: [
+    { ...editPos('BK1', 'TABLE_GRAPES', '1B', 60, 'NLRTM'), polSeq: 0, podSeq: 0 },
+    { ...editPos('BK2', 'TABLE_GRAPES', '1A', 40, 'BEANR'), polSeq: 0, podSeq: 0 },
+  ],
+}, DEFAULT_CARGO_CARRIAGE);
+assert.deepEqual(
+  storedZeroState.bookings.map(b => [b.bookingId, b.polSeq, b.podSeq]),
+  [['BK1', 1, 3], ['BK2', 1, 2]],
+  'Expected stored 0 sequences to resolve from the port codes',
+);
+assert.deepEqual(
+  previewTransfer(storedZeroState, { bookingId: 'BK2', fromSectionId: '1A', toSectionId: '1C', pallets: 10 })
+    .violations.map(v => v.type),
+  ['OVERSTOW_CONFLICT'],
+);
+
+// Offloading to staging: pallets leave the section but stay on the booking
+assert.deepEqual(
+  removePallets(editState.assignments, 'BK2', '1A', 15).filter(a => a.bookingId === 'BK2').map(a => [a.palletsAssigned, a.weightKg]),
+  [[25, 25000]],
+);
+assert.deepEqual(removePallets(editState.assignments, 'BK3', '2A', 20).filter(a => a.bookingId === 'BK3'), []);
+const stagedState = buildPlanState(editVessel, editVoyage, {
+  cargoPositions: [editPos('BK1', 'TABLE_GRAPES', '1B', 50, 'NLRTM')],
+  stagedCargo: [
+    { bookingId: 'BK1', cargoType: 'TABLE_GRAPES', quantity: 10, weight: 10000, podPortCode: 'NLRTM' },
+    { bookingId: 'BK5', cargoType: 'BANANAS', quantity: 8, weight: 8000, podPortCode: 'BEANR' },
+  ],
+}, DEFAULT_CARGO_CARRIAGE);
+assert.deepEqual(
+  stagedState.bookings.map(b => [b.bookingId, b.pallets, b.podSeq]),
+  [['BK1', 60, 3], ['BK5', 8, 2]],
+  'Expected staged pallets to count toward their booking without an assignment',
+);
+assert.deepEqual(stagedState.assignments.map(a => [a.bookingId, a.palletsAssigned]), [['BK1', 50]]);
+
 // ----------------------------------------------------------------------------
 // Results summary
 // ----------------------------------------------------------------------------
@@ -0,0 +1,103 @@
+// ============================================================================
+// STOWAGE ENGINE — SECTION GEOMETRY
+// Resolves cooling-section centroids and hull dimensions from a vessel
+// document (Vessel.holds[].compartments[].position, dimensions, stability).
+// Pure functions — callers pass the lean vessel object.
+// ============================================================================
+
+import type { EngineVesselDimensions } from './types';
+
+export interface SectionArms {
+  longitudinalArm: number;  // metres from midship (+fwd / -aft)
+  transverseArm: number;    // metres from centreline (+stbd / -port)
+  verticalArm: number;      // metres above keel
+  source: 'VESSEL' | 'ESTIMATED';
+}
+
+// Fallbacks for vessels without compartment centroids or hydrostatic data.
+// Proportions taken from the ACONCAGUA BAY spec sheet (4 holds, depth 12.8 m)
+// and scaled to the vessel's own length and depth.
+const DEFAULT_LPP = 140;
+const DEFAULT_BEAM = 20.6;
+const DEFAULT_DEPTH = 12.8;
+
+// Hold LCG as a fraction of LPP from midship (+ = forward)
+const HOLD_LCG_FRACTION: Record<number, number> = {
+  1: 0.39,
+  2: 0.25,
+  3: 0.07,
+  4: -0.11,
+};
+
+// Level VCG as a fraction of moulded depth
+const LEVEL_VCG_FRACTION: Record<string, number> = {
+  FC:  1.05,
+  UPD: 0.94,
+  A:   0.74,
+  B:   0.53,
+  C:   0.33,
+  D:   0.125,
+};
+
+// "H1-A", "h2-upd", "1A" → "1A", "2UPD", "1A"
+export function normalizeCompartmentId(id: string): string {
+  return String(id ?? '').toUpperCase().replace(/^H(?=\d)/, '').replace(/[^A-Z0-9]/g, '');
+}
+
+/**
+ * Finds the compartment in vessel.holds that backs a cooling section.
+ * Matches on coolingSectionId first, then on the compartment id, both
+ * normalised so "H1-A" and "1A" refer to the same space.
+ */
+export function findSectionCompartment(vessel: any, sectionId: string): any | null {
+  const target = normalizeCompartmentId(sectionId);
+  let byId: any = null;
+  for (const hold of vessel?.holds ?? []) {
+    for (const comp of hold.compartments ?? []) {
+      if (comp.coolingSectionId && normalizeCompartmentId(comp.coolingSectionId) === target) {
+        return comp;
+      }
+      if (!byId && normalizeCompartmentId(comp.id) === target) byId = comp;
+    }
+  }
+  return byId;
+}
+
+export function getVesselDimensions(vessel: any): EngineVesselDimensions {
+  const loa = vessel?.dimensions?.loa;
+  return {
+    lpp:   vessel?.stability?.lpp ?? (loa ? loa * 0.95 : DEFAULT_LPP),
+    beam:  vessel?.dimensions?.beam ?? DEFAULT_BEAM,
+    depth: vessel?.dimensions?.depth ?? DEFAULT_DEPTH,
+  };
+}
+
+/**
+ * Centroid of a cooling section. Uses the compartment position from
+ * vessel.holds when present; otherwise estimates it from hold number and
+ * deck level scaled to the vessel's LPP and depth.
+ */
+export function getSectionArms(vessel: any, sectionId: string): SectionArms {
+  const comp = findSectionCompartment(vessel, sectionId);
+  const pos = comp?.position;
+  if (pos && typeof pos.lcg === 'number' && typeof pos.vcg === 'number') {
+    return {
+      longitudinalArm: pos.lcg,
+      transverseArm:   pos.tcg ?? 0,
+      verticalArm:     pos.vcg,
+      source:          'VESSEL',
+    };
+  }
+
+  const { lpp, depth } = getVesselDimensions(vessel);
+  const normalized = normalizeCompartmentId(sectionId);
+  const holdNumber = parseInt(normalized.charAt(0), 10) || 1;
+  const level = normalized.slice(1);
+
+  return {
+    longitudinalArm: (HOLD_LCG_FRACTION[holdNumber] ?? 0) * lpp,
+    transverseArm:   0,
+    verticalArm:     (LEVEL_VCG_FRACTION[level] ?? 0.5) * depth,
+    source:          'ESTIMATED',
+  };
+}
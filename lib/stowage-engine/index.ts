@@ -5,16 +5,22 @@
 import type {
   EngineInput,
   EngineOutput,
-  EngineConflict,
   EngineBooking,
 } from './types';
 import { initializeZoneTemperatures } from './temperature';
 import { assignCargo } from './assign';
-import { calculateStability } from './stability';
+import { getZoneCargoTypes, resolveZoneAtmosphere } from './constraints';
+import { evaluateStowage } from './plan-edit';
 
 export { initializeZoneTemperatures } from './temperature';
 export { assignCargo } from './assign';
 export { calculateStability } from './stability';
+export { getSectionArms, getVesselDimensions, findSectionCompartment } from './geometry';
+export { resolveWeightPerUnit, summarizeShipmentWeights, DEFAULT_WEIGHT_PER_UNIT_KG } from './weights';
+export { estimateZoneHeatLoads, getAdjacentZonePairs } from './refrigeration';
+export { allocateDeckSlots, getDeckSlotArms, countReeferPlugs, formatDeckSlot } from './deck';
+export { buildEngineInput, buildEngineSections, buildEngineZones, buildEngineBookings } from './input';
+export { buildPlanState, evaluateStowage, removePallets, applyTransfer, previewTransfer } from './plan-edit';
 export * from './types';
 
 export function generateStowagePlan(input: EngineInput): EngineOutput {
@@ -40,10 +46,16 @@ export function generateStowagePlan(input: EngineInput): EngineOutput {
   //    input.bookings + input.contractEstimates (already enriched above).
   const { assignments, cargoPositions, conflicts, unassigned } = assignCargo(input, zoneTemps);
 
-  // 4. Build portSequences for stability from unique podSeq values.
-  const portSequences = [...new Set(allBookings.map(b => b.podSeq))].sort((a, b) => a - b);
+  //    Resolve atmosphere set points from the cargo each zone ended up with.
+  if (input.atmosphere) {
+    const zoneCargoTypes = getZoneCargoTypes(input.vessel.sections, assignments, allBookings);
+    for (const zone of zoneTemps) {
+      const atmosphere = resolveZoneAtmosphere(zoneCargoTypes.get(zone.zoneId) ?? [], input.atmosphere);
+      if (atmosphere) zone.atmosphere = atmosphere;
+    }
+  }
 
-  // 5. Build portSequenceToCode map.
+  // 4. Build portSequenceToCode map.
   //    Primary source: podPorts from portSequence (seq → portCode).
   //    Fallback: legacy portCalls for backward compatibility.
   const portSequenceToCode = new Map<number, string>(
@@ -55,34 +67,19 @@ export function generateStowagePlan(input: EngineInput): EngineOutput {
     }
   }
 
-  // 6. Calculate stability snapshot at each discharge port.
-  //    stability.ts filters by b.podSequence, so map podSeq → podSequence
-  //    on a shallow copy to avoid mutating the originals.
-  const stabilityBookings = allBookings.map(b => ({ ...b, podSequence: b.podSeq }));
-
-  const stabilityByPort = calculateStability(
+  // 5. Stability snapshot at each discharge port (STABILITY_WARNING for RED)
+  //    and refrigeration: circuit capacity and adjacent-zone temperature
+  //    deltas. Also stamps each loaded zone's peak heat load on zoneTemps.
+  const { stabilityByPort, conflicts: evaluationConflicts } = evaluateStowage(
     input.vessel.sections,
+    zoneTemps,
     assignments,
-    stabilityBookings,
-    portSequences,
+    allBookings,
     portSequenceToCode,
+    input.vessel.dimensions,
   );
 
-  // 7. Append STABILITY_WARNING conflicts for any RED indicators.
-  const stabilityConflicts: EngineConflict[] = stabilityByPort
-    .filter(s => s.status === 'RED')
-    .map(s => ({
-      type: 'STABILITY_WARNING' as const,
-      bookingIds: [],
-      sectionsInvolved: [],
-      palletsAffected: 0,
-      message: `Stability RED at port sequence ${s.portSequence}: trimIndex=${s.trimIndex}, listIndex=${s.listIndex}.`,
-      suggestedActions: [
-        'Redistribute cargo between fore and aft holds to improve trim balance.',
-      ],
-    }));
-
-  // 8. Compute estimateStats from cargoPositions.
+  // 6. Compute estimateStats from cargoPositions.
   const estimateStats = {
     totalContractEstimates: cargoPositions.filter(p => p.confidence === 'CONTRACT_ESTIMATE').length,
     totalBookingEstimates:  cargoPositions.filter(p => p.confidence === 'ESTIMATED').length,
@@ -92,7 +89,7 @@ export function generateStowagePlan(input: EngineInput): EngineOutput {
   return {
     assignments,
     zoneTemps,
-    conflicts: [...conflicts, ...stabilityConflicts],
+    conflicts: [...conflicts, ...evaluationConflicts],
     stabilityByPort,
     unassignedBookings: unassigned,
     estimateStats,
@@ -0,0 +1,416 @@
+// ============================================================================
+// STOWAGE ENGINE — INPUT BUILDER
+// Turns voyage, vessel, bookings, space forecasts and contracts (plain Mongo
+// documents) into an EngineInput. Every plan-generation entry point goes
+// through buildEngineInput so the same voyage always yields the same input.
+// Pure functions — callers load the documents.
+//
+// Cargo source priority per contract counterparty:
+//   1. a booking for the shipper + contract (or a booking without shipper)
+//   2. SHIPPER_PORTAL / PLANNER_ENTRY forecast → ESTIMATED
+//   3. NO_CARGO forecast → nothing planned, recorded in the snapshot
+//   4. counterparty weeklyEstimate → CONTRACT_ESTIMATE
+// Contracts without counterparties fall back to contract.weeklyPallets.
+// ============================================================================
+
+import type {
+  EngineInput,
+  EngineSection,
+  EngineZone,
+  EngineBooking,
+  CargoCompatibility,
+  PortSequence,
+} from './types';
+import { getTempRange, type CargoTempRanges } from './temperature';
+import { getSectionArms, getVesselDimensions } from './geometry';
+import { resolveWeightPerUnit } from './weights';
+import { buildCargoAtmospheres, type CargoCarriageSpecs } from '@/lib/constants/cargo-carriage';
+
+// Area per pallet (m²) when a cooling section has no design stowage factor
+export const DEFAULT_DESIGN_STOWAGE_FACTOR = 1.32;
+
+const DEFAULT_CARGO_TYPE = 'OTHER_CHILLED';
+
+// Actual shipment weights keyed by bookingId (see summarizeShipmentWeights)
+export type ShipmentWeightMap = Map<string, { actualWeightKg: number; actualUnits: number }>;
+
+export type CargoSnapshotSource = 'BOOKING' | 'SHIPPER_PORTAL' | 'PLANNER_ENTRY' | 'CONTRACT_DEFAULT' | 'NO_CARGO';
+
+// One line of StowagePlan.cargoSnapshot — where each shipper's pallets came from
+export interface CargoSnapshotEntry {
+  shipperId: string;
+  shipperName: string;
+  contractId: string;
+  polPortCode: string;
+  podPortCode: string;
+  pallets: number;
+  source: CargoSnapshotSource;
+  sourceId: string;
+  snapshotAt: Date;
+}
+
+export interface EngineInputSources {
+  voyage: any;                                 // portCalls, serviceId
+  vessel: any;                                 // temperatureZones, holds, hydrostatics
+  bookings: any[];                             // CONFIRMED / PARTIAL / PENDING bookings
+  forecasts?: any[];                           // active SpaceForecasts (PENDING_REVIEW / INCORPORATED)
+  contracts?: any[];                           // active contracts on the voyage's service
+  carriage: CargoCarriageSpecs;                // temperature ranges and atmosphere per cargo code
+  compatibility?: CargoCompatibility;
+  shipmentWeights?: ShipmentWeightMap;
+  previousZoneTemps?: Record<string, number>;
+  plannerOverrides?: Record<string, number>;
+  now?: Date;                                  // snapshot timestamp
+}
+
+export interface BuiltEngineInput {
+  input: EngineInput;
+  realBookings: EngineBooking[];
+  forecastBookings: EngineBooking[];
+  contractEstimates: EngineBooking[];
+  cargoSnapshot: CargoSnapshotEntry[];
+  // Booking documents plus synthetic entries for forecasts and contract
+  // estimates, keyed by _id — what the output mapping looks bookings up in.
+  bookingMeta: any[];
+}
+
+// ----------------------------------------------------------------------------
+// Vessel
+// ----------------------------------------------------------------------------
+
+export function buildEngineSections(vessel: any): EngineSection[] {
+  const sections: EngineSection[] = [];
+  for (const zone of vessel.temperatureZones ?? []) {
+    for (const cs of zone.coolingSections ?? []) {
+      const holdNumber = parseInt(String(cs.sectionId).charAt(0), 10) || 1;
+      const dsf = cs.designStowageFactor ?? DEFAULT_DESIGN_STOWAGE_FACTOR;
+      const { longitudinalArm, transverseArm, verticalArm } = getSectionArms(vessel, cs.sectionId);
+      sections.push({
+        sectionId:           cs.sectionId,
+        zoneId:              zone.zoneId,
+        sqm:                 cs.sqm,
+        designStowageFactor: dsf,
+        maxPallets:          Math.floor(cs.sqm / dsf),
+        holdNumber,
+        longitudinalArm,
+        transverseArm,
+        verticalArm,
+        assignedTemperature: null,
+      });
+    }
+  }
+  return sections;
+}
+
+export function buildEngineZones(vessel: any): EngineZone[] {
+  return (vessel.temperatureZones ?? []).map((zone: any): EngineZone => ({
+    zoneId:              zone.zoneId,
+    sectionIds:          (zone.coolingSections ?? []).map((s: any) => s.sectionId as string),
+    assignedTemperature: null,
+    source:              null,
+    refrigerationCapacityKw: zone.refrigerationCapacityKw ?? undefined,
+    maxAdjacentDelta:        zone.maxAdjacentDelta ?? undefined,
+  }));
+}
+
+// ----------------------------------------------------------------------------
+// Voyage
+// ----------------------------------------------------------------------------
+
+// portCode → sequence; a port called twice resolves to its last call
+export function buildPortCallMap(voyage: any): Map<string, number> {
+  return new Map<string, number>(
+    (voyage.portCalls ?? []).map((pc: any) => [pc.portCode as string, pc.sequence as number]),
+  );
+}
+
+// POL / POD sequences as resolved on the engine bookings, so the engine's
+// re-enrichment from portSequence never disagrees with polSeq / podSeq.
+export function buildPortSequence(voyage: any, bookings: EngineBooking[]): PortSequence {
+  const etaBySeq = new Map<number, Date>(
+    (voyage.portCalls ?? []).map((pc: any) => [pc.sequence as number, pc.eta ? new Date(pc.eta) : new Date(0)]),
+  );
+  const collect = (pick: (b: EngineBooking) => [string, number]) => {
+    const ports = new Map<string, number>();
+    for (const b of bookings) {
+      const [portCode, seq] = pick(b);
+      if (portCode && !ports.has(portCode)) ports.set(portCode, seq);
+    }
+    return [...ports.entries()]
+      .map(([portCode, seq]) => ({ portCode, seq, eta: etaBySeq.get(seq) ?? new Date(0) }))
+      .sort((a, b) => a.seq - b.seq);
+  };
+  return {
+    polPorts: collect(b => [b.polPortCode ?? '', b.polSeq]),
+    podPorts: collect(b => [b.podPortCode ?? '', b.podSeq]),
+  };
+}
+
+// ----------------------------------------------------------------------------
+// Cargo
+// ----------------------------------------------------------------------------
+
+// Confirmed quantity once the booking is (partly) confirmed, requested before
+export function bookingPallets(booking: any): number {
+  return (booking.confirmedQuantity ?? 0) > 0 ? booking.confirmedQuantity : (booking.requestedQuantity ?? 0);
+}
+
+export function buildEngineBookings(
+  bookings: any[],
+  voyage: any,
+  carriage: CargoTempRanges,
+  shipmentWeights: ShipmentWeightMap = new Map(),
+): EngineBooking[] {
+  const portCallMap = buildPortCallMap(voyage);
+
+  const engineBookings: EngineBooking[] = [];
+  for (const b of bookings) {
+    const polSeq = portCallMap.get(b.pol?.portCode);
+    const podSeq = portCallMap.get(b.pod?.portCode);
+    if (polSeq === undefined || podSeq === undefined) continue; // port not in this voyage
+
+    const tempRange = getTempRange(b.cargoType ?? '', carriage);
+    const confirmed = (b.confirmedQuantity ?? 0) > 0;
+    const weightPerUnit = resolveWeightPerUnit({
+      cargoType: b.cargoType,
+      estimatedWeightPerUnit: b.estimatedWeightPerUnit,
+      ...shipmentWeights.get(b._id.toString()),
+    });
+
+    engineBookings.push({
+      bookingId:    b._id.toString(),
+      cargoType:    b.cargoType ?? DEFAULT_CARGO_TYPE,
+      tempMin:      tempRange.min,
+      tempMax:      tempRange.max,
+      pallets:      bookingPallets(b),
+      weightPerUnitKg: weightPerUnit.kgPerUnit,
+      polPortCode:  b.pol?.portCode ?? '',
+      podPortCode:  b.pod?.portCode ?? '',
+      polSeq,
+      podSeq,
+      polSequence:  polSeq,
+      podSequence:  podSeq,
+      shipperId:    b.shipperId?.toString() ?? b.shipper?.code ?? '',
+      consigneeCode: b.consignee?.code ?? '',
+      confidence:   confirmed ? 'CONFIRMED' : 'ESTIMATED',
+      frozen:       confirmed,
+    });
+  }
+  return engineBookings;
+}
+
+/**
+ * Forecast bookings and contract estimates for the cargo that has no booking
+ * yet, plus the snapshot line for every source that was considered.
+ */
+export function buildForecastAndContractCargo(
+  voyage: any,
+  bookings: any[],
+  forecasts: any[],
+  contracts: any[],
+  carriage: CargoTempRanges,
+  now: Date = new Date(),
+): { forecastBookings: EngineBooking[]; contractEstimates: EngineBooking[]; cargoSnapshot: CargoSnapshotEntry[] } {
+  const forecastBookings: EngineBooking[] = [];
+  const contractEstimates: EngineBooking[] = [];
+  const cargoSnapshot: CargoSnapshotEntry[] = [];
+  const portCallMap = buildPortCallMap(voyage);
+
+  // Map: `${shipperId}:${contractId}` → forecast (at most one active per pair)
+  const forecastByPair = new Map<string, any>();
+  for (const fc of forecasts) {
+    forecastByPair.set(`${fc.shipperId?.toString() ?? ''}:${fc.contractId?.toString() ?? ''}`, fc);
+  }
+
+  // contractId → shippers covered by a booking, or 'ALL' when a booking has
+  // no shipper (the whole contract is covered)
+  const coverage = new Map<string, Set<string> | 'ALL'>();
+  for (const b of bookings) {
+    const cid = b.contractId?.toString();
+    if (!cid) continue;
+    const sid = b.shipperId?.toString();
+    if (!sid) {
+      coverage.set(cid, 'ALL');
+    } else if (coverage.get(cid) !== 'ALL') {
+      if (!coverage.has(cid)) coverage.set(cid, new Set());
+      (coverage.get(cid) as Set<string>).add(sid);
+    }
+  }
+
+  for (const contract of contracts) {
+    const contractId = contract._id.toString();
+    const polPortCode: string = contract.originPort?.portCode ?? '';
+    const podPortCode: string = contract.destinationPort?.portCode ?? '';
+    const polSeq = portCallMap.get(polPortCode);
+    const podSeq = portCallMap.get(podPortCode);
+    if (polSeq === undefined || podSeq === undefined) continue; // route not on this voyage
+
+    const estimate = (
+      bookingId: string,
+      cargoType: string,
+      pallets: number,
+      extra: Partial<EngineBooking>,
+    ): EngineBooking => {
+      const tempRange = getTempRange(cargoType, carriage);
+      return {
+        bookingId,
+        cargoType,
+        tempMin:      tempRange.min,
+        tempMax:      tempRange.max,
+        pallets,
+        weightPerUnitKg: resolveWeightPerUnit({ cargoType }).kgPerUnit,
+        polPortCode,
+        podPortCode,
+        polSeq,
+        podSeq,
+        polSequence:  polSeq,
+        podSequence:  podSeq,
+        shipperId:    '',
+        consigneeCode: '',
+        confidence:   'CONTRACT_ESTIMATE',
+        frozen:       false,
+        ...extra,
+      };
+    };
+    const snapshot = (
+      shipperId: string,
+      shipperName: string,
+      pallets: number,
+      source: CargoSnapshotSource,
+      sourceId: string,
+    ) => cargoSnapshot.push({
+      shipperId, shipperName, contractId, polPortCode, podPortCode, pallets, source, sourceId, snapshotAt: now,
+    });
+
+    const counterparties: any[] = contract.counterparties ?? [];
+    const covered = coverage.get(contractId);
+
+    if (counterparties.length === 0) {
+      if (covered || !contract.weeklyPallets || contract.weeklyPallets <= 0) continue;
+      const cargoType: string = contract.cargoType ?? DEFAULT_CARGO_TYPE;
+      contractEstimates.push(estimate(`CONTRACT-ESTIMATE-${contractId}`, cargoType, contract.weeklyPallets, {}));
+      snapshot('', '', contract.weeklyPallets, 'CONTRACT_DEFAULT', contractId);
+      continue;
+    }
+
+    for (let i = 0; i < counterparties.length; i++) {
+      const cp = counterparties[i];
+      if (!cp.active) continue;
+
+      const shipperId: string = cp.shipperId?.toString() ?? '';
+      const shipperName: string = cp.shipperName ?? '';
+      if (covered === 'ALL' || (covered instanceof Set && covered.has(shipperId))) continue;
+
+      const forecast = forecastByPair.get(`${shipperId}:${contractId}`);
+      if (forecast?.source === 'NO_CARGO') {
+        snapshot(shipperId, shipperName, 0, 'NO_CARGO', forecast._id.toString());
+        continue;
+      }
+
+      if (forecast && (forecast.source === 'SHIPPER_PORTAL' || forecast.source === 'PLANNER_ENTRY')) {
+        const sourceId: string = forecast._id.toString();
+        const cargoType: string = forecast.cargoType ?? (cp.cargoTypes ?? [])[0] ?? contract.cargoType ?? DEFAULT_CARGO_TYPE;
+        forecastBookings.push(estimate(`FORECAST-${sourceId}`, cargoType, forecast.estimatedPallets, {
+          shipperId,
+          shipperName,
+          contractId,
+          consigneeCode: forecast.consigneeCode ?? '',
+          consigneeName: forecast.consigneeName ?? '',
+          confidence:    'ESTIMATED',
+        }));
+        snapshot(shipperId, shipperName, forecast.estimatedPallets, forecast.source, sourceId);
+        continue;
+      }
+
+      const pallets: number = cp.weeklyEstimate;
+      if (!pallets || pallets <= 0) continue;
+      const cargoType: string = (cp.cargoTypes ?? [])[0] ?? contract.cargoType ?? DEFAULT_CARGO_TYPE;
+      contractEstimates.push(estimate(`CONTRACT-ESTIMATE-${contractId}-${i}`, cargoType, pallets, {
+        shipperId,
+        shipperName,
+        contractId,
+      }));
+      snapshot(shipperId, shipperName, pallets, 'CONTRACT_DEFAULT', `${contractId}-${i}`);
+    }
+  }
+
+  return { forecastBookings, contractEstimates, cargoSnapshot };
+}
+
+// ----------------------------------------------------------------------------
+// Engine input
+// ----------------------------------------------------------------------------
+
+export function buildEngineInput(sources: EngineInputSources): BuiltEngineInput {
+  const { voyage, vessel, bookings, carriage } = sources;
+  const now = sources.now ?? new Date();
+
+  const realBookings = buildEngineBookings(bookings, voyage, carriage, sources.shipmentWeights);
+  const { forecastBookings, contractEstimates, cargoSnapshot } = buildForecastAndContractCargo(
+    voyage,
+    bookings,
+    sources.forecasts ?? [],
+    sources.contracts ?? [],
+    carriage,
+    now,
+  );
+
+  for (const b of bookings) {
+    cargoSnapshot.push({
+      shipperId:   b.shipperId?.toString() ?? '',
+      shipperName: b.shipper?.name ?? '',
+      contractId:  b.contractId?.toString() ?? '',
+      polPortCode: b.pol?.portCode ?? '',
+      podPortCode: b.pod?.portCode ?? '',
+      pallets:     bookingPallets(b),
+      source:      'BOOKING',
+      sourceId:    b._id.toString(),
+      snapshotAt:  now,
+    });
+  }
+
+  const engineBookings = [...realBookings, ...forecastBookings];
+  const plannerOverrides = sources.plannerOverrides && Object.keys(sources.plannerOverrides).length > 0
+    ? sources.plannerOverrides
+    : undefined;
+  const previousZoneTemps = sources.previousZoneTemps && Object.keys(sources.previousZoneTemps).length > 0
+    ? sources.previousZoneTemps
+    : undefined;
+
+  const input: EngineInput = {
+    vessel: {
+      sections:   buildEngineSections(vessel),
+      zones:      buildEngineZones(vessel),
+      dimensions: getVesselDimensions(vessel),
+    },
+    bookings:          engineBookings,
+    contractEstimates,
+    portSequence:      buildPortSequence(voyage, [...engineBookings, ...contractEstimates]),
+    portCalls:         (voyage.portCalls ?? []).map((pc: any) => ({
+      sequence: pc.sequence as number,
+      portCode: pc.portCode as string,
+    })),
+    previousZoneTemps,
+    plannerOverrides,
+    compatibility:     sources.compatibility,
+    atmosphere:        buildCargoAtmospheres(carriage),
+    phase: bookings.some((b: any) => (b.confirmedQuantity ?? 0) > 0) ? 'CONFIRMED' : 'ESTIMATED',
+  };
+
+  const bookingMeta = [
+    ...bookings,
+    ...[...forecastBookings, ...contractEstimates].map(e => ({
+      _id:           { toString: () => e.bookingId },
+      cargoType:     e.cargoType,
+      polPortCode:   e.polPortCode,
+      podPortCode:   e.podPortCode,
+      shipperName:   e.shipperName || undefined,
+      consigneeName: e.consigneeName || undefined,
+      confidence:    e.confidence,
+      polSeq:        e.polSeq,
+      podSeq:        e.podSeq,
+    })),
+  ];
+
+  return { input, realBookings, forecastBookings, contractEstimates, cargoSnapshot, bookingMeta };
+}
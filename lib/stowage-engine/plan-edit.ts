@@ -0,0 +1,404 @@
+// ============================================================================
+// STOWAGE ENGINE — EDITS TO A SAVED PLAN
+// Rebuilds engine state from a plan's hold cargoPositions (and staged cargo),
+// checks a planner's move against the same hard constraints the engine assigns with, and
+// re-evaluates stability and refrigeration before / after the move.
+// Deck containers are not in cooling sections and are left out.
+// Pure functions — callers load the documents.
+// ============================================================================
+
+import type {
+  EngineBooking,
+  EngineSection,
+  EngineZone,
+  EngineConflict,
+  EngineVesselDimensions,
+  CargoAssignment,
+  CargoCompatibility,
+  CargoAtmosphere,
+  ConflictType,
+  StabilityIndicator,
+} from './types';
+import { getTempRange, type CargoTempRanges } from './temperature';
+import { getVesselDimensions } from './geometry';
+import { resolveWeightPerUnit } from './weights';
+import { calculateStability } from './stability';
+import { checkRefrigeration } from './refrigeration';
+import { buildEngineSections, buildEngineZones } from './input';
+import {
+  isTemperatureCompatible,
+  getSectionRemainingCapacity,
+  isOverstowViolation,
+  getZoneGroups,
+  getIncompatibleZoneGroups,
+  getZoneCargoTypes,
+  getIncompatibleZoneAtmospheres,
+} from './constraints';
+import { resolveCargoLeg } from '@/lib/cargo-leg';
+
+// ----------------------------------------------------------------------------
+// Types
+// ----------------------------------------------------------------------------
+
+export interface PlanState {
+  sections: EngineSection[];
+  zones: EngineZone[];                      // temperatures as saved on the plan
+  bookings: EngineBooking[];                // one per bookingId stowed in the holds
+  assignments: CargoAssignment[];           // one per booking × section
+  portSequenceToCode: Map<number, string>;
+  dimensions?: EngineVesselDimensions;
+}
+
+export interface StowageEvaluation {
+  stabilityByPort: StabilityIndicator[];
+  conflicts: EngineConflict[];              // STABILITY_WARNING + REFRIGERATION_WARNING
+  zones: EngineZone[];                      // with heatLoadKw stamped
+}
+
+export interface CargoTransfer {
+  bookingId: string;
+  fromSectionId: string;
+  toSectionId: string;
+  pallets: number;
+}
+
+export interface TransferViolation {
+  type: ConflictType;
+  message: string;
+}
+
+export interface TransferPreview {
+  violations: TransferViolation[];          // empty = the move may be applied
+  targetTemperature: number | null;         // zone set point after the move
+  assignmentsAfter: CargoAssignment[];
+  before: StowageEvaluation;
+  after: StowageEvaluation;
+}
+
+// ----------------------------------------------------------------------------
+// Plan → engine state
+// ----------------------------------------------------------------------------
+
+export function buildPlanState(
+  vessel: any,
+  voyage: any,
+  plan: any,
+  carriage: CargoTempRanges,
+): PlanState {
+  const tempByZone = new Map<string, number>(
+    (plan.coolingSectionStatus ?? [])
+      .filter((cs: any) => cs.assignedTemperature != null)
+      .map((cs: any) => [cs.zoneId as string, cs.assignedTemperature as number]),
+  );
+  const zones = buildEngineZones(vessel).map(z => ({
+    ...z,
+    assignedTemperature: tempByZone.get(z.zoneId) ?? null,
+  }));
+  const sections = buildEngineSections(vessel).map(s => ({
+    ...s,
+    assignedTemperature: tempByZone.get(s.zoneId) ?? null,
+  }));
+  const sectionIds = new Set(sections.map(s => s.sectionId));
+
+  // Staged pallets (taken off a section, not yet re-placed) belong to the
+  // booking but have no assignment.
+  const bookingMap = new Map<string, EngineBooking>();
+  const bookingFor = (bookingId: string, entry: any, quantity: number): EngineBooking => {
+    let booking = bookingMap.get(bookingId);
+    if (booking) return booking;
+    const cargoType = entry.cargoType ?? '';
+    const range = getTempRange(cargoType, carriage);
+    const leg = resolveCargoLeg(entry, voyage.portCalls ?? []);
+    const polSeq = leg.polSeq ?? 1;
+    const podSeq = leg.podSeq ?? 1;
+    booking = {
+      bookingId,
+      cargoType,
+      tempMin: range.min,
+      tempMax: range.max,
+      pallets: 0,
+      weightPerUnitKg: (entry.weight ?? 0) > 0 && quantity > 0
+        ? entry.weight / quantity
+        : resolveWeightPerUnit({ cargoType }).kgPerUnit,
+      polPortCode: entry.polPortCode ?? '',
+      podPortCode: entry.podPortCode ?? '',
+      polSeq,
+      podSeq,
+      polSequence: polSeq,
+      podSequence: podSeq,
+      shipperId: '',
+      consigneeCode: '',
+      shipperName: entry.shipperName ?? undefined,
+      consigneeName: entry.consigneeName ?? undefined,
+      confidence: entry.confidence ?? 'CONFIRMED',
+      frozen: false,
+    };
+    bookingMap.set(bookingId, booking);
+    return booking;
+  };
+
+  const assignmentMap = new Map<string, CargoAssignment>();
+  for (const pos of plan.cargoPositions ?? []) {
+    const bookingId = String(pos.bookingId ?? '');
+    const sectionId = String(pos.compartment?.id ?? '');
+    const quantity = pos.quantity ?? 0;
+    if (!bookingId || !sectionIds.has(sectionId) || quantity <= 0) continue;
+
+    const booking = bookingFor(bookingId, pos, quantity);
+    booking.pallets += quantity;
+
+    const key = `${bookingId}|${sectionId}`;
+    const existing = assignmentMap.get(key);
+    const weightKg = (pos.weight ?? 0) > 0 ? pos.weight : quantity * booking.weightPerUnitKg;
+    if (existing) {
+      existing.palletsAssigned += quantity;
+      existing.weightKg += weightKg;
+    } else {
+      assignmentMap.set(key, {
+        bookingId,
+        sectionId,
+        palletsAssigned: quantity,
+        weightKg,
+        confidence: booking.confidence,
+        frozen: false,
+      });
+    }
+  }
+
+  for (const entry of plan.stagedCargo ?? []) {
+    const bookingId = String(entry.bookingId ?? '');
+    const quantity = entry.quantity ?? 0;
+    if (!bookingId || quantity <= 0) continue;
+    bookingFor(bookingId, entry, quantity).pallets += quantity;
+  }
+
+  return {
+    sections,
+    zones,
+    bookings: [...bookingMap.values()],
+    assignments: [...assignmentMap.values()],
+    portSequenceToCode: new Map<number, string>(
+      (voyage.portCalls ?? []).map((pc: any) => [pc.sequence as number, pc.portCode as string]),
+    ),
+    dimensions: getVesselDimensions(vessel),
+  };
+}
+
+// ----------------------------------------------------------------------------
+// Stability + refrigeration for a fixed set of assignments
+// ----------------------------------------------------------------------------
+
+export function evaluateStowage(
+  sections: EngineSection[],
+  zones: EngineZone[],
+  assignments: CargoAssignment[],
+  bookings: EngineBooking[],
+  portSequenceToCode: Map<number, string>,
+  dimensions?: EngineVesselDimensions,
+): StowageEvaluation {
+  // One stability snapshot per discharge port; stability.ts filters on podSequence.
+  const portSequences = [...new Set(bookings.map(b => b.podSeq))].sort((a, b) => a - b);
+  const stabilityBookings = bookings.map(b => ({ ...b, podSequence: b.podSeq }));
+  const stabilityByPort = calculateStability(
+    sections,
+    assignments,
+    stabilityBookings,
+    portSequences,
+    portSequenceToCode,
+    dimensions,
+  );
+
+  const stabilityConflicts: EngineConflict[] = stabilityByPort
+    .filter(s => s.status === 'RED')
+    .map(s => ({
+      type: 'STABILITY_WARNING' as const,
+      bookingIds: [],
+      sectionsInvolved: [],
+      palletsAffected: 0,
+      message: `Stability RED at port sequence ${s.portSequence}: trimIndex=${s.trimIndex}, listIndex=${s.listIndex}.`,
+      suggestedActions: [
+        'Redistribute cargo between fore and aft holds to improve trim balance.',
+      ],
+    }));
+
+  // Circuit capacity and adjacent-zone deltas; stamps heatLoadKw on the zones.
+  const refrigerationConflicts = checkRefrigeration(sections, zones, assignments, bookings);
+
+  return {
+    stabilityByPort,
+    conflicts: [...stabilityConflicts, ...refrigerationConflicts],
+    zones,
+  };
+}
+
+// ----------------------------------------------------------------------------
+// Transfer between cooling sections
+// ----------------------------------------------------------------------------
+
+// Assignments with `pallets` of the booking taken out of one section
+// (weight follows the assignment's own kg/pallet).
+export function removePallets(
+  assignments: CargoAssignment[],
+  bookingId: string,
+  sectionId: string,
+  pallets: number,
+): CargoAssignment[] {
+  const result: CargoAssignment[] = [];
+  for (const a of assignments) {
+    if (a.bookingId !== bookingId || a.sectionId !== sectionId) {
+      result.push({ ...a });
+      continue;
+    }
+    const kgPerPallet = a.palletsAssigned > 0 ? a.weightKg / a.palletsAssigned : 0;
+    const palletsAssigned = a.palletsAssigned - pallets;
+    if (palletsAssigned > 0) result.push({ ...a, palletsAssigned, weightKg: palletsAssigned * kgPerPallet });
+  }
+  return result;
+}
+
+// Assignments with `move.pallets` of the booking taken out of the source
+// section and added to the target (weight follows the booking's kg/pallet).
+export function applyTransfer(
+  assignments: CargoAssignment[],
+  move: CargoTransfer,
+  booking: EngineBooking,
+): CargoAssignment[] {
+  const result = removePallets(assignments, move.bookingId, move.fromSectionId, move.pallets);
+  const target = result.find(a => a.bookingId === move.bookingId && a.sectionId === move.toSectionId);
+  if (target) {
+    target.palletsAssigned += move.pallets;
+    target.weightKg += move.pallets * booking.weightPerUnitKg;
+  } else {
+    result.push({
+      bookingId: move.bookingId,
+      sectionId: move.toSectionId,
+      palletsAssigned: move.pallets,
+      weightKg: move.pallets * booking.weightPerUnitKg,
+      confidence: booking.confidence,
+      frozen: false,
+    });
+  }
+  return result;
+}
+
+/**
+ * Checks a move against temperature, capacity, overstow, compatibility group
+ * and atmosphere, and evaluates stability and refrigeration before and after.
+ * A target zone without a set point takes the source zone's temperature.
+ */
+export function previewTransfer(
+  state: PlanState,
+  move: CargoTransfer,
+  compatibility?: CargoCompatibility,
+  atmosphere?: Record<string, CargoAtmosphere>,
+): TransferPreview {
+  const violations: TransferViolation[] = [];
+  const booking = state.bookings.find(b => b.bookingId === move.bookingId);
+  const from = state.sections.find(s => s.sectionId === move.fromSectionId);
+  const to = state.sections.find(s => s.sectionId === move.toSectionId);
+  const zoneOf = (section?: EngineSection) => state.zones.find(z => z.zoneId === section?.zoneId);
+
+  const before = evaluateStowage(
+    state.sections,
+    state.zones.map(z => ({ ...z })),
+    state.assignments,
+    state.bookings,
+    state.portSequenceToCode,
+    state.dimensions,
+  );
+  const unchanged = (message: string): TransferPreview => ({
+    violations: [{ type: 'CAPACITY_CONFLICT', message }],
+    targetTemperature: zoneOf(to)?.assignedTemperature ?? null,
+    assignmentsAfter: state.assignments,
+    before,
+    after: before,
+  });
+
+  if (!booking) return unchanged(`Booking ${move.bookingId} has no cargo in the holds of this plan`);
+  if (!from) return unchanged(`Section ${move.fromSectionId} is not a cooling section of this vessel`);
+  if (!to) return unchanged(`Section ${move.toSectionId} is not a cooling section of this vessel`);
+  if (from.sectionId === to.sectionId) return unchanged('Source and target section are the same');
+
+  const stowed = state.assignments
+    .filter(a => a.bookingId === booking.bookingId && a.sectionId === from.sectionId)
+    .reduce((sum, a) => sum + a.palletsAssigned, 0);
+  if (move.pallets > stowed) {
+    return unchanged(`Only ${stowed} pallet(s) of this booking are in ${from.sectionId}`);
+  }
+
+  // Temperature: an unset target zone adopts the temperature the cargo travels at now
+  const targetZone = zoneOf(to);
+  const targetTemperature = targetZone?.assignedTemperature ?? zoneOf(from)?.assignedTemperature ?? null;
+  const effectiveZone: EngineZone = {
+    zoneId: to.zoneId,
+    sectionIds: targetZone?.sectionIds ?? [to.sectionId],
+    assignedTemperature: targetTemperature,
+    source: targetZone?.source ?? null,
+  };
+  if (!isTemperatureCompatible(booking, effectiveZone)) {
+    violations.push({
+      type: 'TEMPERATURE_CONFLICT',
+      message: targetTemperature === null
+        ? `Zone ${to.zoneId} has no set point`
+        : `${booking.cargoType} needs ${booking.tempMin}…${booking.tempMax}°C but zone ${to.zoneId} runs at ${targetTemperature}°C`,
+    });
+  }
+
+  const remaining = getSectionRemainingCapacity(to, state.assignments);
+  if (move.pallets > remaining) {
+    violations.push({
+      type: 'CAPACITY_CONFLICT',
+      message: `${to.sectionId} has room for ${Math.max(0, remaining)} more pallet(s), ${move.pallets} requested`,
+    });
+  }
+
+  // Constraints on what shares the target: judged without the pallets that leave the source
+  const withoutMoved = removePallets(state.assignments, booking.bookingId, from.sectionId, move.pallets);
+
+  if (isOverstowViolation(booking, to, withoutMoved, state.bookings)) {
+    violations.push({
+      type: 'OVERSTOW_CONFLICT',
+      message: `Cargo for ${booking.podPortCode || `port ${booking.podSeq}`} in ${to.sectionId} would block or be blocked by cargo for another discharge port in hold ${to.holdNumber}`,
+    });
+  }
+
+  if (compatibility) {
+    const zoneGroups = getZoneGroups(state.sections, withoutMoved, state.bookings, compatibility);
+    const incompatible = getIncompatibleZoneGroups(booking, zoneGroups.get(to.zoneId), compatibility);
+    if (incompatible.length > 0) {
+      violations.push({
+        type: 'COMPATIBILITY_CONFLICT',
+        message: `${booking.cargoType} (group ${compatibility.groupByCargoType[booking.cargoType]}) cannot share zone ${to.zoneId} with group ${incompatible.join(', ')}`,
+      });
+    }
+  }
+
+  if (atmosphere) {
+    const zoneCargoTypes = getZoneCargoTypes(state.sections, withoutMoved, state.bookings);
+    const blocking = getIncompatibleZoneAtmospheres(booking, zoneCargoTypes.get(to.zoneId), atmosphere);
+    if (blocking.length > 0) {
+      violations.push({
+        type: 'ATMOSPHERE_CONFLICT',
+        message: `${booking.cargoType} cannot share the atmosphere of zone ${to.zoneId} with ${blocking.join(', ')}`,
+      });
+    }
+  }
+
+  const assignmentsAfter = applyTransfer(state.assignments, move, booking);
+  const zonesAfter = state.zones.map(z => z.zoneId === to.zoneId
+    ? { ...z, assignedTemperature: targetTemperature }
+    : { ...z });
+  const sectionsAfter = state.sections.map(s => s.zoneId === to.zoneId
+    ? { ...s, assignedTemperature: targetTemperature }
+    : s);
+  const after = evaluateStowage(
+    sectionsAfter,
+    zonesAfter,
+    assignmentsAfter,
+    state.bookings,
+    state.portSequenceToCode,
+    state.dimensions,
+  );
+
+  return { violations, targetTemperature, assignmentsAfter, before, after };
+}
@@ -0,0 +1,230 @@
+// ============================================================================
+// STOWAGE ENGINE — REFRIGERATION LOAD
+// Heat-load estimate per refrigeration circuit (zone) and the warnings raised
+// when a plan asks more of a circuit than it can deliver.
+// Pure functions — no side effects.
+//
+// Heat load at a load port = respiration of all cargo aboard in the zone
+//                          + pull-down of the field heat of cargo loaded there.
+// ============================================================================
+
+import type {
+  CargoAssignment,
+  EngineBooking,
+  EngineConflict,
+  EngineSection,
+  EngineZone,
+} from './types';
+
+// Respiration heat at carriage temperature, W per tonne of cargo.
+export const RESPIRATION_W_PER_TONNE: Record<string, number> = {
+  BANANAS: 60, ORGANIC_BANANAS: 60, PLANTAINS: 60, BAN: 60, OBAN: 60, PLAN: 60,
+  AVOCADOS: 120, AVOC: 120,
+  MANGOES: 80, MANGO: 80,
+  PAPAYA: 70, PAPA: 70,
+  PINEAPPLES: 30, PINE: 30,
+  CITRUS: 20,
+  BERRIES: 60, BLUEBERRIES: 40, CHERRIES: 30,
+  TABLE_GRAPES: 10, GRAPE: 10,
+  KIWIS: 15, APPLES: 15, PEARS: 15, PLUMS: 15, PEACHES: 25,
+};
+export const DEFAULT_RESPIRATION_W_PER_TONNE = 30;
+
+// Cargo at or below this carriage maximum is frozen: no respiration.
+export const FROZEN_MAX_TEMP_C = -5;
+
+// Bananas and plantains are loaded straight from the field; other cargo is
+// pre-cooled and arrives a couple of degrees above its set point.
+export const FIELD_LOADING_TEMP_C: Record<string, number> = {
+  BANANAS: 25, ORGANIC_BANANAS: 25, PLANTAINS: 25, BAN: 25, OBAN: 25, PLAN: 25,
+};
+export const PRECOOLED_LOADING_DELTA_C = 2;
+
+export const SPECIFIC_HEAT_CHILLED_KJ_PER_KG_K = 3.6;
+export const SPECIFIC_HEAT_FROZEN_KJ_PER_KG_K = 1.8;
+
+// Time allowed to bring freshly loaded cargo down to the set point.
+export const PULL_DOWN_HOURS = 48;
+
+const LEVEL_ORDER = ['DECK', 'UPD', 'FC', 'A', 'B', 'C', 'D', 'E'];
+
+function parseSection(sectionId: string): { holdNumber: number; level: string } {
+  const match = sectionId.match(/^(\d+)(.+)$/);
+  return {
+    holdNumber: match ? parseInt(match[1], 10) : 1,
+    level: match ? match[2].toUpperCase() : sectionId.toUpperCase(),
+  };
+}
+
+const isFrozen = (booking: Pick<EngineBooking, 'tempMax'>) => booking.tempMax <= FROZEN_MAX_TEMP_C;
+
+export function respirationKw(booking: Pick<EngineBooking, 'cargoType' | 'tempMax'>, weightKg: number): number {
+  if (isFrozen(booking)) return 0;
+  const wPerTonne = RESPIRATION_W_PER_TONNE[booking.cargoType] ?? DEFAULT_RESPIRATION_W_PER_TONNE;
+  return (weightKg / 1000) * wPerTonne / 1000;
+}
+
+export function pullDownKw(
+  booking: Pick<EngineBooking, 'cargoType' | 'tempMax'>,
+  weightKg: number,
+  setPoint: number,
+): number {
+  const loadingTemp = FIELD_LOADING_TEMP_C[booking.cargoType] ?? setPoint + PRECOOLED_LOADING_DELTA_C;
+  const delta = Math.max(0, loadingTemp - setPoint);
+  const cp = isFrozen(booking) ? SPECIFIC_HEAT_FROZEN_KJ_PER_KG_K : SPECIFIC_HEAT_CHILLED_KJ_PER_KG_K;
+  return (weightKg * cp * delta) / (PULL_DOWN_HOURS * 3600);
+}
+
+export interface ZoneHeatLoad {
+  zoneId: string;
+  peakKw: number;
+  respirationKw: number;   // at the peak port
+  pullDownKw: number;      // at the peak port
+  polSeq: number;          // load port where the peak occurs
+}
+
+/**
+ * Peak heat load per zone over the voyage's load ports. Zones without cargo
+ * or without a set temperature are left out.
+ */
+export function estimateZoneHeatLoads(
+  sections: EngineSection[],
+  zones: EngineZone[],
+  assignments: CargoAssignment[],
+  bookings: EngineBooking[],
+): Map<string, ZoneHeatLoad> {
+  const zoneBySection = new Map(sections.map(s => [s.sectionId, s.zoneId]));
+  const bookingMap = new Map(bookings.map(b => [b.bookingId, b]));
+  const loads = new Map<string, ZoneHeatLoad>();
+
+  for (const zone of zones) {
+    if (zone.assignedTemperature === null) continue;
+    const entries = assignments
+      .filter(a => zoneBySection.get(a.sectionId) === zone.zoneId)
+      .map(a => ({ assignment: a, booking: bookingMap.get(a.bookingId) }))
+      .filter((e): e is { assignment: CargoAssignment; booking: EngineBooking } => !!e.booking);
+    if (entries.length === 0) continue;
+
+    const loadPorts = [...new Set(entries.map(e => e.booking.polSeq))].sort((a, b) => a - b);
+    for (const polSeq of loadPorts) {
+      let respiration = 0;
+      let pullDown = 0;
+      for (const { assignment, booking } of entries) {
+        // Aboard from its load port until its discharge port (always counted where it loads).
+        if (booking.polSeq > polSeq) continue;
+        if (booking.polSeq < polSeq && booking.podSeq <= polSeq) continue;
+        respiration += respirationKw(booking, assignment.weightKg);
+        if (booking.polSeq === polSeq) {
+          pullDown += pullDownKw(booking, assignment.weightKg, zone.assignedTemperature);
+        }
+      }
+      const peakKw = respiration + pullDown;
+      if (!loads.has(zone.zoneId) || peakKw > loads.get(zone.zoneId)!.peakKw) {
+        loads.set(zone.zoneId, { zoneId: zone.zoneId, peakKw, respirationKw: respiration, pullDownKw: pullDown, polSeq });
+      }
+    }
+  }
+  return loads;
+}
+
+/**
+ * Zone pairs that share a deck (same hold, next level down) or a bulkhead
+ * (same level, next hold). Each pair is returned once.
+ */
+export function getAdjacentZonePairs(sections: EngineSection[]): [string, string][] {
+  const pairs = new Map<string, [string, string]>();
+  const add = (a: string, b: string) => {
+    if (a === b) return;
+    const pair: [string, string] = a < b ? [a, b] : [b, a];
+    pairs.set(pair.join('|'), pair);
+  };
+
+  const parsed = sections.map(s => ({ ...parseSection(s.sectionId), zoneId: s.zoneId }));
+  const holds = [...new Set(parsed.map(p => p.holdNumber))];
+  for (const hold of holds) {
+    const stack = parsed
+      .filter(p => p.holdNumber === hold)
+      .sort((a, b) => LEVEL_ORDER.indexOf(a.level) - LEVEL_ORDER.indexOf(b.level));
+    for (let i = 1; i < stack.length; i++) add(stack[i - 1].zoneId, stack[i].zoneId);
+  }
+  for (const p of parsed) {
+    const next = parsed.find(q => q.holdNumber === p.holdNumber + 1 && q.level === p.level);
+    if (next) add(p.zoneId, next.zoneId);
+  }
+  return [...pairs.values()];
+}
+
+/**
+ * REFRIGERATION_WARNING conflicts: zones whose peak heat load exceeds the
+ * circuit capacity, and loaded neighbouring zones set further apart than
+ * their delta limit. Both checks only run where the vessel defines the limit.
+ * Also stamps heatLoadKw on the zones.
+ */
+export function checkRefrigeration(
+  sections: EngineSection[],
+  zones: EngineZone[],
+  assignments: CargoAssignment[],
+  bookings: EngineBooking[],
+): EngineConflict[] {
+  const conflicts: EngineConflict[] = [];
+  const loads = estimateZoneHeatLoads(sections, zones, assignments, bookings);
+  const zoneBySection = new Map(sections.map(s => [s.sectionId, s.zoneId]));
+  const bookingMap = new Map(bookings.map(b => [b.bookingId, b]));
+
+  // 1. Circuit capacity
+  for (const zone of zones) {
+    const load = loads.get(zone.zoneId);
+    if (!load) continue;
+    zone.heatLoadKw = Math.round(load.peakKw * 10) / 10;
+    const capacity = zone.refrigerationCapacityKw;
+    if (!capacity || load.peakKw <= capacity) continue;
+
+    const loadedHere = assignments.filter(a =>
+      zoneBySection.get(a.sectionId) === zone.zoneId && bookingMap.get(a.bookingId)?.polSeq === load.polSeq,
+    );
+    conflicts.push({
+      type: 'REFRIGERATION_WARNING',
+      bookingIds: [...new Set(loadedHere.map(a => a.bookingId))],
+      sectionsInvolved: zone.sectionIds,
+      palletsAffected: loadedHere.reduce((sum, a) => sum + a.palletsAssigned, 0),
+      message:
+        `Zone ${zone.zoneId} heat load ${load.peakKw.toFixed(0)} kW at port sequence ${load.polSeq}` +
+        ` exceeds its ${capacity} kW refrigeration capacity` +
+        ` (respiration ${load.respirationKw.toFixed(0)} kW, pull-down ${load.pullDownKw.toFixed(0)} kW).`,
+      suggestedActions: [
+        'Spread the cargo loaded at this port over more zones.',
+        'Ask the shipper for pre-cooled cargo or reduce the quantity loaded into this zone.',
+      ],
+    });
+  }
+
+  // 2. Temperature difference between loaded neighbouring zones
+  const zoneMap = new Map(zones.map(z => [z.zoneId, z]));
+  for (const [a, b] of getAdjacentZonePairs(sections)) {
+    const za = zoneMap.get(a);
+    const zb = zoneMap.get(b);
+    if (!za || !zb || !loads.has(a) || !loads.has(b)) continue;
+    if (za.assignedTemperature === null || zb.assignedTemperature === null) continue;
+    // Limits come from the vessel; the stricter side of the deck/bulkhead applies.
+    const limits = [za.maxAdjacentDelta, zb.maxAdjacentDelta].filter((l): l is number => typeof l === 'number');
+    if (limits.length === 0) continue;
+    const limit = Math.min(...limits);
+    const delta = Math.abs(za.assignedTemperature - zb.assignedTemperature);
+    if (delta <= limit) continue;
+    conflicts.push({
+      type: 'REFRIGERATION_WARNING',
+      bookingIds: [],
+      sectionsInvolved: [...za.sectionIds, ...zb.sectionIds],
+      palletsAffected: 0,
+      message:
+        `Adjacent zones ${a} (${za.assignedTemperature}°C) and ${b} (${zb.assignedTemperature}°C)` +
+        ` differ by ${delta.toFixed(1)}°C, above the ${limit}°C limit.`,
+      suggestedActions: [
+        'Move frozen or chilled cargo so the zones in between act as a buffer.',
+        `Bring the set points of ${a} and ${b} closer together.`,
+      ],
+    });
+  }
+
+  return conflicts;
+}
@@ -1,35 +1,21 @@
 // ============================================================================
 // STOWAGE ENGINE — STABILITY CALCULATIONS
-// Placeholder arms derived from sectionId hold number.
-// When real hydrostatic data is available, store arms in the vessel document.
+// Cargo-only trim/list indices per discharge port, using each section's
+// compartment centroid (EngineSection arms, see geometry.ts) and the
+// vessel's own LPP/beam. Cargo weight comes from each assignment's
+// resolved per-unit weight (see weights.ts).
 // ============================================================================
 
 import type {
   EngineSection,
   CargoAssignment,
   EngineBooking,
+  EngineVesselDimensions,
   StabilityIndicator,
 } from './types';
 
-// Default weight per pallet (kg) when no actual weight data is available.
-const AVG_PALLET_WEIGHT_KG = 850;
-
-// Placeholder vessel parameters (conservative defaults).
-const VESSEL_LPP = 150;   // metres between perpendiculars
-const VESSEL_BEAM = 24;   // metres
-
-// Approximate longitudinal arms by hold (metres from midship, + = forward).
-const HOLD_LONGITUDINAL_ARM: Record<number, number> = {
-  1: 60,
-  2: 20,
-  3: -20,
-  4: -60,
-};
-
-// Derive hold number from sectionId (first character is the hold digit).
-function holdFromSectionId(sectionId: string): number {
-  return parseInt(sectionId.charAt(0), 10) || 1;
-}
+// Used only when the caller has no vessel dimensions (e.g. unit tests).
+const DEFAULT_DIMENSIONS: EngineVesselDimensions = { lpp: 150, beam: 24, depth: 12.8 };
 
 function classifyStatus(
   trimIndex: number,
@@ -52,6 +38,7 @@ export function calculateStability(
   bookings: EngineBooking[],
   portSequences: number[],
   portSequenceToCode?: Map<number, string>,
+  dimensions: EngineVesselDimensions = DEFAULT_DIMENSIONS,
 ): StabilityIndicator[] {
   if (portSequences.length === 0) return [];
 
@@ -77,6 +64,8 @@ export function calculateStability(
       indicators.push({
         trimIndex: 0,
         listIndex: 0,
+        vcg: 0,
+        verticalMoment: 0,
         status: 'GREEN',
         portSequence: portSeq,
         portCode: portSequenceToCode?.get(portSeq) ?? `SEQ${portSeq}`,
@@ -87,27 +76,27 @@ export function calculateStability(
     let totalWeight = 0;
     let longMoment = 0;
     let transMoment = 0;
+    let vertMoment = 0;
 
     for (const a of active) {
       const sec = sectionMap.get(a.sectionId);
       const b   = bookingMap.get(a.bookingId);
       if (!sec || !b) continue;
 
-      const weight = a.palletsAssigned * AVG_PALLET_WEIGHT_KG;
-      const lArm   = sec.longitudinalArm !== 0
-        ? sec.longitudinalArm
-        : (HOLD_LONGITUDINAL_ARM[holdFromSectionId(sec.sectionId)] ?? 0);
-      const tArm   = sec.transverseArm;
+      const weight = a.weightKg; // palletsAssigned × booking.weightPerUnitKg
 
       totalWeight  += weight;
-      longMoment   += weight * lArm;
-      transMoment  += weight * tArm;
+      longMoment   += weight * sec.longitudinalArm;
+      transMoment  += weight * sec.transverseArm;
+      vertMoment   += weight * sec.verticalArm;
     }
 
     if (totalWeight === 0) {
       indicators.push({
         trimIndex: 0,
         listIndex: 0,
+        vcg: 0,
+        verticalMoment: 0,
         status: 'GREEN',
         portSequence: portSeq,
         portCode: portSequenceToCode?.get(portSeq) ?? `SEQ${portSeq}`,
@@ -117,13 +106,16 @@ export function calculateStability(
 
     const lcg = longMoment / totalWeight;
     const tcg = transMoment / totalWeight;
+    const vcg = vertMoment / totalWeight;
 
-    const trimIndex = lcg / VESSEL_LPP;
-    const listIndex = tcg / (VESSEL_BEAM / 2);
+    const trimIndex = lcg / dimensions.lpp;
+    const listIndex = tcg / (dimensions.beam / 2);
 
     indicators.push({
       trimIndex: Math.round(trimIndex * 10000) / 10000,
       listIndex: Math.round(listIndex * 10000) / 10000,
+      vcg: Math.round(vcg * 100) / 100,
+      verticalMoment: Math.round(vertMoment / 1000), // kg·m → t·m
       status: classifyStatus(trimIndex, listIndex),
       portSequence: portSeq,
       portCode: portSequenceToCode?.get(portSeq) ?? `SEQ${portSeq}`,
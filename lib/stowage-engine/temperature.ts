@@ -3,37 +3,23 @@
 // ============================================================================
 
 import type { EngineInput, EngineZone } from './types';
+import { DEFAULT_CARGO_CARRIAGE, FALLBACK_TEMP_RANGE } from '@/lib/constants/cargo-carriage';
 
 // ----------------------------------------------------------------------------
 // Cargo temperature ranges (°C).
+// Callers pass the ranges loaded from CargoProduct (lib/cargo-carriage.ts);
+// codes without a product fall back to DEFAULT_CARGO_CARRIAGE.
 // Group: bookings whose ranges overlap can share a zone.
 // ----------------------------------------------------------------------------
 
-const CARGO_TEMP_RANGES: Record<string, { min: number; max: number }> = {
-  BANANAS:          { min: 12,    max: 14   },
-  ORGANIC_BANANAS:  { min: 12,    max: 14   },
-  PLANTAINS:        { min: 12,    max: 14   },
-  FROZEN_FISH:      { min: -25,   max: -18  },
-  OTHER_FROZEN:     { min: -25,   max: -18  },
-  TABLE_GRAPES:     { min: -0.5,  max: 0.5  },
-  BERRIES:          { min: -0.5,  max: 1.0  },
-  CHERRIES:         { min: -0.5,  max: 0.5  },
-  BLUEBERRIES:      { min: -0.5,  max: 1.0  },
-  CITRUS:           { min: 4,     max: 10   },
-  AVOCADOS:         { min: 5,     max: 8    },
-  PINEAPPLES:       { min: 7,     max: 10   },
-  PAPAYA:           { min: 7,     max: 10   },
-  MANGOES:          { min: 7,     max: 10   },
-  KIWIS:            { min: -0.5,  max: 1    },
-  APPLES:           { min: -0.5,  max: 4    },
-  PEARS:            { min: -0.5,  max: 4    },
-  PLUMS:            { min: 0.0,   max: 2.0  },
-  PEACHES:          { min: -0.5,  max: 2    },
-  OTHER_CHILLED:    { min: 2,     max: 6    },
-};
-
-export function getTempRange(cargoType: string): { min: number; max: number } {
-  return CARGO_TEMP_RANGES[cargoType] ?? { min: 0, max: 4 };
+export type CargoTempRanges = Record<string, { min: number; max: number }>;
+
+export function getTempRange(
+  cargoType: string,
+  ranges: CargoTempRanges = DEFAULT_CARGO_CARRIAGE,
+): { min: number; max: number } {
+  const range = ranges[cargoType] ?? DEFAULT_CARGO_CARRIAGE[cargoType] ?? FALLBACK_TEMP_RANGE;
+  return { min: range.min, max: range.max };
 }
 
 // Returns true if the two temperature ranges overlap.
@@ -13,8 +13,9 @@ export interface EngineSection {
   designStowageFactor: number;  // m²/pallet, e.g. 1.32 (area per pallet)
   maxPallets: number;           // Math.floor(sqm / designStowageFactor)
   holdNumber: number;           // 1 | 2 | 3 | 4
-  longitudinalArm: number;      // metres from midship (+fwd / -aft)
-  transverseArm: number;        // metres from centreline (+port / -starboard)
+  longitudinalArm: number;      // metres from midship (+fwd / -aft) — compartment LCG
+  transverseArm: number;        // metres from centreline (+stbd / -port) — compartment TCG
+  verticalArm: number;          // metres above keel — compartment VCG
   assignedTemperature: number | null; // set once zone temp is initialised
 }
 
@@ -24,6 +25,27 @@ export interface EngineZone {
   sectionIds: string[];
   assignedTemperature: number | null;
   source: 'INHERITED' | 'MAJORITY_RULE' | 'PLANNER_OVERRIDE' | null;
+  atmosphere?: ZoneAtmosphere;  // resolved from the cargo stowed in the zone (absent = no cargo)
+  refrigerationCapacityKw?: number; // circuit capacity from the vessel (absent = not checked)
+  maxAdjacentDelta?: number;        // °C allowed against neighbouring zones (absent = not checked)
+  heatLoadKw?: number;              // peak estimated heat load over the load ports (see refrigeration.ts)
+}
+
+// Atmosphere a cargo type needs (CargoProduct.atmosphere + ventilation).
+// CA = controlled atmosphere: sealed zone, O2/CO2 held inside the given bands.
+export interface CargoAtmosphere {
+  mode: 'REGULAR' | 'CA';
+  o2?: { min: number; max: number };    // % — CA only
+  co2?: { min: number; max: number };   // % — CA only
+  ventilation?: number;                 // fresh-air exchange, air changes/hour (REGULAR only)
+}
+
+// Atmosphere set points for one zone — what the ship's crew dials in.
+export interface ZoneAtmosphere {
+  mode: 'REGULAR' | 'CA';
+  o2?: number;                          // % set point (CA)
+  co2?: number;                         // % set point (CA)
+  ventilation: number;                  // air changes/hour (0 = closed; always 0 under CA)
 }
 
 // A booking normalised for engine consumption.
@@ -33,6 +55,7 @@ export interface EngineBooking {
   tempMin: number;              // minimum compatible temperature for this cargo
   tempMax: number;              // maximum compatible temperature for this cargo
   pallets: number;              // requestedQuantity (ESTIMATED) or confirmedQuantity (CONFIRMED)
+  weightPerUnitKg: number;      // resolved per-unit weight (see weights.ts)
   polSequence: number;          // voyage port-call sequence for port of loading (legacy)
   podSequence: number;          // voyage port-call sequence for port of discharge (legacy)
   polSeq: number;               // 1, 2, 3... derived from voyage portCalls sorted by ETA
@@ -86,11 +109,26 @@ export interface EstimateStats {
   totalConfirmed: number;
 }
 
+// Hull dimensions used to normalise stability indices.
+export interface EngineVesselDimensions {
+  lpp: number;    // metres between perpendiculars
+  beam: number;   // metres
+  depth: number;  // metres, moulded
+}
+
+// Compatibility groups (CargoProduct.compatibilityGroupCode + CompatibilityGroup.canCoexistWith).
+// Cargo types without a group are unrestricted.
+export interface CargoCompatibility {
+  groupByCargoType: Record<string, string>;  // cargoType → groupCode
+  canCoexistWith: Record<string, string[]>;  // groupCode → groupCodes allowed in the same zone
+}
+
 // Full engine input bundle.
 export interface EngineInput {
   vessel: {
     sections: EngineSection[];
     zones: EngineZone[];
+    dimensions?: EngineVesselDimensions;
   };
   bookings: EngineBooking[];                           // confirmed + estimated bookings
   contractEstimates: EngineBooking[];                  // generated from contracts without bookings
@@ -98,6 +136,8 @@ export interface EngineInput {
   portCalls?: { sequence: number; portCode: string }[];  // legacy: for stability portCode resolution
   previousZoneTemps?: Record<string, number>;          // zoneId → temperature (INHERITED)
   plannerOverrides?: Record<string, number>;           // zoneId → temperature (PLANNER_OVERRIDE)
+  compatibility?: CargoCompatibility;                  // absent → no compatibility-group constraint
+  atmosphere?: Record<string, CargoAtmosphere>;        // cargoType → needs; absent → no atmosphere constraint
   phase: 'ESTIMATED' | 'CONFIRMED';
 }
 
@@ -106,6 +146,7 @@ export interface CargoAssignment {
   bookingId: string;
   sectionId: string;
   palletsAssigned: number;
+  weightKg: number;             // palletsAssigned × booking.weightPerUnitKg
   confidence: 'ESTIMATED' | 'CONFIRMED' | 'CONTRACT_ESTIMATE';
   frozen: boolean;
 }
@@ -119,6 +160,7 @@ export interface CargoPositionOutput {
   shipperName?: string;
   consigneeName?: string;
   snapshotQuantity: number;
+  weightKg: number;             // snapshotQuantity × booking.weightPerUnitKg
   confidence: 'CONFIRMED' | 'ESTIMATED' | 'CONTRACT_ESTIMATE';
   polPortCode: string;
   podPortCode: string;
@@ -131,6 +173,9 @@ export type ConflictType =
   | 'TEMPERATURE_CONFLICT'
   | 'CAPACITY_CONFLICT'
   | 'OVERSTOW_CONFLICT'
+  | 'COMPATIBILITY_CONFLICT'
+  | 'ATMOSPHERE_CONFLICT'
+  | 'REFRIGERATION_WARNING'
   | 'STABILITY_WARNING';
 
 export interface EngineConflict {
@@ -146,6 +191,8 @@ export interface EngineConflict {
 export interface StabilityIndicator {
   trimIndex: number;    // -1 to 1 (LCG deviation relative to Lpp)
   listIndex: number;    // -1 to 1 (TCG deviation relative to beam/2)
+  vcg: number;          // cargo VCG, metres above keel
+  verticalMoment: number; // cargo weight × VCG, t·m
   status: 'GREEN' | 'YELLOW' | 'RED';
   portSequence: number;
   portCode: string;
@@ -0,0 +1,69 @@
+// ============================================================================
+// STOWAGE ENGINE — CARGO WEIGHT RESOLUTION
+// Per-unit (pallet / container) weight used for assignments, cargo positions
+// and stability. Pure functions — callers pass the values they have loaded.
+// ============================================================================
+
+import { CARGO_WEIGHT_PER_UNIT, type CargoType } from '@/types/models';
+
+// Last-resort weight per unit (kg) when the cargo type has no default.
+export const DEFAULT_WEIGHT_PER_UNIT_KG = 1000;
+
+export type WeightSource = 'ACTUAL' | 'BOOKING_ESTIMATE' | 'CARGO_DEFAULT' | 'FALLBACK';
+
+export interface ResolvedWeight {
+  kgPerUnit: number;
+  source: WeightSource;
+}
+
+export interface WeightInputs {
+  cargoType?: string;
+  actualWeightKg?: number;          // sum of Shipment.actualWeight for the booking
+  actualUnits?: number;             // units covered by those shipments
+  estimatedWeightPerUnit?: number;  // Booking.estimatedWeightPerUnit
+}
+
+/**
+ * Resolves the weight of one unit in priority order:
+ *   1. actual shipment weight ÷ shipped units
+ *   2. booking estimate (estimatedWeightPerUnit)
+ *   3. cargo-type default (CARGO_WEIGHT_PER_UNIT)
+ *   4. DEFAULT_WEIGHT_PER_UNIT_KG
+ * Zero or missing values fall through to the next source.
+ */
+export function resolveWeightPerUnit(inputs: WeightInputs): ResolvedWeight {
+  const { actualWeightKg, actualUnits, estimatedWeightPerUnit, cargoType } = inputs;
+
+  if (actualWeightKg && actualWeightKg > 0 && actualUnits && actualUnits > 0) {
+    return { kgPerUnit: actualWeightKg / actualUnits, source: 'ACTUAL' };
+  }
+  if (estimatedWeightPerUnit && estimatedWeightPerUnit > 0) {
+    return { kgPerUnit: estimatedWeightPerUnit, source: 'BOOKING_ESTIMATE' };
+  }
+  const cargoDefault = cargoType ? CARGO_WEIGHT_PER_UNIT[cargoType as CargoType] : undefined;
+  if (cargoDefault) {
+    return { kgPerUnit: cargoDefault, source: 'CARGO_DEFAULT' };
+  }
+  return { kgPerUnit: DEFAULT_WEIGHT_PER_UNIT_KG, source: 'FALLBACK' };
+}
+
+/**
+ * Aggregates Shipment documents per booking into the actual-weight inputs
+ * for resolveWeightPerUnit. Shipments without actualWeight are ignored so a
+ * partially weighed booking uses the average of the weighed units only.
+ */
+export function summarizeShipmentWeights(
+  shipments: { bookingId: unknown; quantity?: number; actualWeight?: number; status?: string }[],
+): Map<string, { actualWeightKg: number; actualUnits: number }> {
+  const byBooking = new Map<string, { actualWeightKg: number; actualUnits: number }>();
+  for (const s of shipments) {
+    if (s.status === 'CANCELLED') continue;
+    if (!s.actualWeight || s.actualWeight <= 0 || !s.quantity || s.quantity <= 0) continue;
+    const key = String(s.bookingId);
+    const entry = byBooking.get(key) ?? { actualWeightKg: 0, actualUnits: 0 };
+    entry.actualWeightKg += s.actualWeight;
+    entry.actualUnits += s.quantity;
+    byBooking.set(key, entry);
+  }
+  return byBooking;
+}
@@ -87,6 +87,23 @@ export interface VesselLayout {
   holds: VesselHold[];
 }
 
+// Deck bay plan stacks and the containers placed in them (profile view
+// collapses rows: one cell per bay × tier above the hatch cover)
+export interface DeckProfileStack {
+  bay: number;
+  row: number;
+  holdNumber: number;
+  tiers: { tier: number; reeferPlug: boolean }[];
+}
+
+export interface DeckProfileContainer {
+  bay: number;
+  row: number;
+  tier: number;
+  podColor?: string;
+  label?: string;    // e.g. "BAN → RTM" — shown in the cell tooltip
+}
+
 // Build a VesselLayout from Vessel.temperatureZones DB data
 export function buildVesselLayout(temperatureZones: any[]): VesselLayout {
   const holdMap = new Map<number, VesselHoldLevel[]>();
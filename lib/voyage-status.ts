@@ -0,0 +1,55 @@
+// lib/voyage-status.ts
+// Automatic PLANNED → IN_PROGRESS → COMPLETED voyage transitions.
+//
+// Runs against all PLANNED / IN_PROGRESS voyages.
+// Rules (based on port call ETAs):
+//   firstLoadPort.eta <= now  AND  status === 'PLANNED'    → IN_PROGRESS
+//   lastPort.eta      <= now  AND  status === 'IN_PROGRESS' → COMPLETED
+//
+// Scheduled as the sync-voyage-statuses job (lib/jobs) and still called
+// fire-and-forget from getVoyages() / getAdminVoyages().
+
+import connectDB from '@/lib/db/connect';
+import { VoyageModel } from '@/lib/db/schemas';
+
+// Returns the number of voyages whose status moved
+export async function syncVoyageStatuses(now: Date = new Date()): Promise<number> {
+  await connectDB();
+
+  const voyages = await VoyageModel.find({
+    status: { $in: ['PLANNED', 'IN_PROGRESS'] },
+  }).lean();
+
+  const updates: Promise<any>[] = [];
+
+  for (const voyage of voyages as any[]) {
+    const portCalls: any[] = (voyage.portCalls ?? []).filter(
+      (pc: any) => pc.status !== 'CANCELLED' && pc.status !== 'SKIPPED'
+    );
+
+    if (portCalls.length === 0) continue;
+
+    // First load port (lowest sequence among ports with LOAD operation)
+    const loadPorts = portCalls.filter((pc: any) => (pc.operations ?? []).includes('LOAD'));
+    const firstLoadPort = loadPorts.sort((a: any, b: any) => a.sequence - b.sequence)[0];
+
+    // Last port overall (highest sequence)
+    const lastPort = [...portCalls].sort((a: any, b: any) => b.sequence - a.sequence)[0];
+
+    if (voyage.status === 'PLANNED' && firstLoadPort?.eta && new Date(firstLoadPort.eta) <= now) {
+      updates.push(
+        VoyageModel.updateOne({ _id: voyage._id }, { $set: { status: 'IN_PROGRESS' } })
+      );
+    } else if (voyage.status === 'IN_PROGRESS' && lastPort?.eta && new Date(lastPort.eta) <= now) {
+      updates.push(
+        VoyageModel.updateOne({ _id: voyage._id }, { $set: { status: 'COMPLETED' } })
+      );
+    }
+  }
+
+  if (updates.length > 0) {
+    await Promise.all(updates);
+    console.log(`[syncVoyageStatuses] Updated ${updates.length} voyage(s)`);
+  }
+  return updates.length;
+}
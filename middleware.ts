@@ -62,7 +62,8 @@ export default auth(function onRequest(req) {
       pathname === '/' ||
       pathname === '/voyages' ||
       pathname === '/stowage-plans' ||
-      (pathname.startsWith('/stowage-plans/') && !pathname.startsWith('/stowage-plans/new'));
+      (pathname.startsWith('/stowage-plans/') && !pathname.startsWith('/stowage-plans/new')) ||
+      /^\/api\/stowage-plans\/[^/]+\/(live|loading-sequence)$/.test(pathname);
 
     if (!allowed) return NextResponse.redirect(new URL('/stowage-plans', req.url));
   }
@@ -4,6 +4,7 @@
 import mongoose from 'mongoose';
 import connectDB from '../lib/db/connect';
 import { getTempRange } from '../lib/stowage-engine/temperature';
+import { buildCargoCarriageSpecs } from '../lib/constants/cargo-carriage';
 
 async function main() {
   await connectDB();
@@ -29,6 +30,11 @@ async function main() {
     (voyage.portCalls ?? []).map((pc: any) => [pc.sequence as number, pc.portCode as string]),
   );
 
+  // ── Load cargo carriage ranges (CargoProduct + defaults) ─────────────────
+  const tempRanges = buildCargoCarriageSpecs(
+    await db.collection('cargoproducts').find({ active: true }).toArray() as any[],
+  );
+
   // ── Load bookings ─────────────────────────────────────────────────────────
   const bookings = await db.collection('bookings').find({
     voyageId: voyage._id,
@@ -86,7 +92,7 @@ async function main() {
     const confirmed = (b.confirmedQuantity ?? 0) > 0;
     const pallets = confirmed ? b.confirmedQuantity : b.requestedQuantity;
     const cargoType = b.cargoType ?? 'OTHER_CHILLED';
-    const tr = getTempRange(cargoType);
+    const tr = getTempRange(cargoType, tempRanges);
     items.push({
       label: `BOOKING ${b._id.toString().slice(-6)}`,
       polCode: b.pol?.portCode ?? '',
@@ -125,7 +131,7 @@ async function main() {
 
         if (forecast && (forecast.source === 'SHIPPER_PORTAL' || forecast.source === 'PLANNER_ENTRY')) {
           const cargoType: string = forecast.cargoType ?? (cp.cargoTypes ?? [])[0] ?? contract.cargoType ?? 'OTHER_CHILLED';
-          const tr = getTempRange(cargoType);
+          const tr = getTempRange(cargoType, tempRanges);
           items.push({
             label: `FORECAST ${forecast._id.toString().slice(-6)}`,
             polCode, polSeq, podCode, podSeq,
@@ -141,7 +147,7 @@ async function main() {
         const pallets: number = cp.weeklyEstimate;
         if (!pallets || pallets <= 0) continue;
         const cargoType: string = (cp.cargoTypes ?? [])[0] ?? contract.cargoType ?? 'OTHER_CHILLED';
-        const tr = getTempRange(cargoType);
+        const tr = getTempRange(cargoType, tempRanges);
         items.push({
           label: `CONTRACT-EST ${contractId.slice(-6)}-${i}`,
           polCode, polSeq, podCode, podSeq,
@@ -155,7 +161,7 @@ async function main() {
       if (contractCoverageMap.has(contractId)) continue;
       if (!contract.weeklyPallets) continue;
       const cargoType: string = contract.cargoType ?? 'OTHER_CHILLED';
-      const tr = getTempRange(cargoType);
+      const tr = getTempRange(cargoType, tempRanges);
       items.push({
         label: `CONTRACT-EST ${contractId.slice(-6)}`,
         polCode, polSeq, podCode, podSeq,
@@ -1,35 +1,22 @@
 // scripts/cleanup-expired-forecasts.ts
 // Deletes SpaceForecast documents with planImpact REPLACED_BY_BOOKING or EXPIRED
-// that are older than 30 days.
+// that are older than 30 days. The cleanup-stale-forecasts job (lib/jobs) does
+// the same nightly; this script remains for one-off runs.
 //
 // Run manually:
 //   npx tsx --env-file=.env.local scripts/cleanup-expired-forecasts.ts
 
 require('dotenv').config({ path: '.env.local' });
 
-import connectDB from '../lib/db/connect';
-import { SpaceForecastModel } from '../lib/db/schemas';
+import { deleteStaleForecasts, STALE_FORECAST_DAYS } from '../lib/forecast-housekeeping';
 
 async function main() {
-  await connectDB();
-
-  const cutoff = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
-
-  const filter = {
-    planImpact: { $in: ['REPLACED_BY_BOOKING', 'EXPIRED'] },
-    updatedAt: { $lt: cutoff },
-  };
-
-  const count = await SpaceForecastModel.countDocuments(filter);
-  console.log(`Found ${count} stale forecast(s) older than 30 days (REPLACED_BY_BOOKING or EXPIRED).`);
-
-  if (count === 0) {
-    console.log('Nothing to delete.');
-    process.exit(0);
-  }
-
-  const result = await SpaceForecastModel.deleteMany(filter);
-  console.log(`Deleted ${result.deletedCount} forecast document(s).`);
+  const deleted = await deleteStaleForecasts();
+  console.log(
+    deleted === 0
+      ? `Nothing to delete (no REPLACED_BY_BOOKING or EXPIRED forecasts older than ${STALE_FORECAST_DAYS} days).`
+      : `Deleted ${deleted} forecast document(s) older than ${STALE_FORECAST_DAYS} days.`
+  );
   process.exit(0);
 }
 
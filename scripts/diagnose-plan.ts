@@ -4,81 +4,13 @@
 import mongoose from 'mongoose';
 import connectDB from '../lib/db/connect';
 import { generateStowagePlan } from '../lib/stowage-engine/index';
-import { getTempRange } from '../lib/stowage-engine/temperature';
-import type {
-  EngineInput,
-  EngineSection,
-  EngineZone,
-  EngineBooking,
-} from '../lib/stowage-engine/types';
+import { buildEngineInput } from '../lib/stowage-engine/input';
+import { buildCargoCarriageSpecs, buildCargoCompatibility } from '../lib/constants/cargo-carriage';
+import { getVesselDimensions } from '../lib/stowage-engine/geometry';
+import { summarizeShipmentWeights } from '../lib/stowage-engine/weights';
+import type { EngineBooking } from '../lib/stowage-engine/types';
 
-// ── Helpers (mirrors autoGenerateSinglePlan internals) ────────────────────────
-
-const HOLD_LONGITUDINAL_ARM: Record<number, number> = { 1: 60, 2: 20, 3: -20, 4: -60 };
-
-function buildEngineSections(vessel: any): EngineSection[] {
-  const sections: EngineSection[] = [];
-  for (const zone of vessel.temperatureZones ?? []) {
-    for (const cs of zone.coolingSections ?? []) {
-      const holdNumber = parseInt(String(cs.sectionId).charAt(0), 10) || 1;
-      const dsf = cs.designStowageFactor ?? 1.32;
-      sections.push({
-        sectionId:           cs.sectionId,
-        zoneId:              zone.zoneId,
-        sqm:                 cs.sqm,
-        designStowageFactor: dsf,
-        maxPallets:          Math.floor(cs.sqm * dsf),
-        holdNumber,
-        longitudinalArm:     HOLD_LONGITUDINAL_ARM[holdNumber] ?? 0,
-        transverseArm:       0,
-        assignedTemperature: null,
-      });
-    }
-  }
-  return sections;
-}
-
-function buildEngineZones(vessel: any): EngineZone[] {
-  return (vessel.temperatureZones ?? []).map((zone: any): EngineZone => ({
-    zoneId:              zone.zoneId,
-    sectionIds:          (zone.coolingSections ?? []).map((s: any) => s.sectionId as string),
-    assignedTemperature: null,
-    source:              null,
-  }));
-}
-
-function buildEngineBookings(bookings: any[], voyage: any): EngineBooking[] {
-  const portCallMap = new Map<string, number>(
-    (voyage.portCalls ?? []).map((pc: any) => [pc.portCode as string, pc.sequence as number]),
-  );
-  const result: EngineBooking[] = [];
-  for (const b of bookings) {
-    const polSeq = portCallMap.get(b.pol?.portCode);
-    const podSeq = portCallMap.get(b.pod?.portCode);
-    if (polSeq === undefined || podSeq === undefined) continue;
-    const tempRange = getTempRange(b.cargoType ?? '');
-    const confirmed = (b.confirmedQuantity ?? 0) > 0;
-    const pallets   = confirmed ? b.confirmedQuantity : b.requestedQuantity;
-    result.push({
-      bookingId:    b._id.toString(),
-      cargoType:    b.cargoType ?? 'OTHER_CHILLED',
-      tempMin:      tempRange.min,
-      tempMax:      tempRange.max,
-      pallets,
-      polPortCode:  b.pol?.portCode ?? '',
-      podPortCode:  b.pod?.portCode ?? '',
-      polSeq,
-      podSeq,
-      polSequence:  polSeq,
-      podSequence:  podSeq,
-      shipperId:    b.shipperId?.toString() ?? b.shipper?.code ?? '',
-      consigneeCode: b.consignee?.code ?? '',
-      confidence:   confirmed ? 'CONFIRMED' : 'ESTIMATED',
-      frozen:       confirmed,
-    });
-  }
-  return result;
-}
+// ── Helpers (mirrors the stowage-plan server action) ─────────────────────────
 
 function mapEngineOutputToDocument(
   engineOutput: ReturnType<typeof generateStowagePlan>,
@@ -113,6 +45,7 @@ function mapEngineOutputToDocument(
       podPortCode,
       quantity:         a.palletsAssigned,
       snapshotQuantity: cpSnap?.snapshotQuantity ?? a.palletsAssigned,
+      weight:           a.weightKg,
       confidence,
       polSeq:           (bk as any)?.polSeq ?? cpSnap?.polSeq ?? 0,
       podSeq:           (bk as any)?.podSeq ?? cpSnap?.podSeq ?? 0,
@@ -126,10 +59,13 @@ function mapEngineOutputToDocument(
     assignedTemperature: z.assignedTemperature ?? undefined,
     locked:              false,
     temperatureSource:   z.source ?? undefined,
+    atmosphere:          z.atmosphere,
+    heatLoadKw:          z.heatLoadKw,
   }));
 
   const hasHardConflict = engineOutput.conflicts.some(
-    c => c.type === 'TEMPERATURE_CONFLICT' || c.type === 'OVERSTOW_CONFLICT',
+    c => c.type === 'TEMPERATURE_CONFLICT' || c.type === 'OVERSTOW_CONFLICT' || c.type === 'COMPATIBILITY_CONFLICT' ||
+      c.type === 'ATMOSPHERE_CONFLICT',
   );
 
   return { cargoPositions, coolingSectionStatus, hasHardConflict };
@@ -200,6 +136,20 @@ async function diagnose() {
   }).toArray();
   console.log('Bookings loaded:', bookings.length);
 
+  const shipments = await db.collection('shipments').find({
+    bookingId: { $in: bookings.map((b: any) => b._id) },
+    actualWeight: { $gt: 0 },
+  }).toArray();
+  const shipmentWeights = summarizeShipmentWeights(shipments as any[]);
+  console.log('Bookings with actual shipment weight:', shipmentWeights.size);
+
+  const cargoProducts = await db.collection('cargoproducts').find({ active: true }).toArray() as any[];
+  const tempRanges = buildCargoCarriageSpecs(cargoProducts);
+  const compatibility = buildCargoCompatibility(
+    cargoProducts,
+    await db.collection('compatibilitygroups').find({ active: true }).toArray() as any[],
+  );
+
   // ── 5. Load SpaceForecasts ────────────────────────────────────────────────
   const activeForecasts = await db.collection('spaceforecasts').find({
     voyageId: voyage._id,
@@ -207,197 +157,51 @@ async function diagnose() {
   }).toArray();
   console.log('Active forecasts loaded:', activeForecasts.length);
 
-  const forecastByPair = new Map<string, any>();
-  for (const fc of activeForecasts) {
-    const key = `${fc.shipperId?.toString() ?? ''}:${fc.contractId?.toString() ?? ''}`;
-    forecastByPair.set(key, fc);
-  }
-
   // ── 6. Load active contracts for this service ─────────────────────────────
   const activeContracts = voyage.serviceId
     ? await db.collection('contracts').find({ serviceId: voyage.serviceId, active: true }).toArray()
     : [];
   console.log('Active contracts loaded:', activeContracts.length);
 
-  // ── 7. Build forecastBookings + contractDefaultEstimates ──────────────────
-  const portCallMap = new Map<string, number>(
-    (voyage.portCalls ?? []).map((pc: any) => [pc.portCode as string, pc.sequence as number]),
+  // ── 7. Inherited zone temps from the vessel's last completed plan ─────────
+  const priorPlan = await db.collection('stowageplans').findOne(
+    { vesselId: voyage.vesselId, status: 'COMPLETED', voyageId: { $ne: voyage._id } },
+    { sort: { createdAt: -1 } },
   );
-
-  const contractCoverageMap = new Map<string, Set<string> | 'ALL'>();
-  for (const b of bookings) {
-    const cid = b.contractId?.toString();
-    if (!cid) continue;
-    const sid = b.shipperId?.toString();
-    if (!sid) {
-      contractCoverageMap.set(cid, 'ALL');
-    } else if (contractCoverageMap.get(cid) !== 'ALL') {
-      if (!contractCoverageMap.has(cid)) contractCoverageMap.set(cid, new Set());
-      (contractCoverageMap.get(cid) as Set<string>).add(sid);
-    }
+  const previousZoneTemps: Record<string, number> = {};
+  for (const css of priorPlan?.coolingSectionStatus ?? []) {
+    if (css.assignedTemperature != null) previousZoneTemps[css.zoneId] = css.assignedTemperature;
   }
 
-  const forecastBookings: EngineBooking[] = [];
-  const contractDefaultEstimates: EngineBooking[] = [];
-
-  for (const contract of activeContracts as any[]) {
-    const contractId = contract._id.toString();
-    const polCode: string = contract.originPort?.portCode;
-    const podCode: string = contract.destinationPort?.portCode;
-    const polSeq = portCallMap.get(polCode);
-    const podSeq = portCallMap.get(podCode);
-    if (polSeq === undefined || podSeq === undefined) continue;
-
-    const counterparties: any[] = contract.counterparties ?? [];
-
-    if (counterparties.length > 0) {
-      for (let i = 0; i < counterparties.length; i++) {
-        const cp = counterparties[i];
-        if (!cp.active) continue;
-        const shipperId = cp.shipperId?.toString() ?? '';
-        const coverage = contractCoverageMap.get(contractId);
-        if (coverage === 'ALL') continue;
-        if (coverage instanceof Set && coverage.has(shipperId)) continue;
-
-        const pairKey = `${shipperId}:${contractId}`;
-        const forecast = forecastByPair.get(pairKey);
-
-        if (forecast?.source === 'NO_CARGO') continue;
-
-        if (forecast && (forecast.source === 'SHIPPER_PORTAL' || forecast.source === 'PLANNER_ENTRY')) {
-          const pallets: number = forecast.estimatedPallets;
-          const cargoType: string = forecast.cargoType ?? (cp.cargoTypes ?? [])[0] ?? contract.cargoType ?? 'OTHER_CHILLED';
-          const tempRange = getTempRange(cargoType);
-          forecastBookings.push({
-            bookingId:    `FORECAST-${(forecast as any)._id.toString()}`,
-            cargoType,
-            tempMin:      tempRange.min,
-            tempMax:      tempRange.max,
-            pallets,
-            polPortCode:  polCode,
-            podPortCode:  podCode,
-            polSeq,
-            podSeq,
-            polSequence:  polSeq,
-            podSequence:  podSeq,
-            shipperId,
-            consigneeCode: (forecast as any).consigneeCode ?? '',
-            consigneeName: (forecast as any).consigneeName ?? '',
-            confidence:   'ESTIMATED',
-            contractId,
-            shipperName:  cp.shipperName ?? '',
-            frozen:       false,
-          });
-          continue;
-        }
-
-        // CONTRACT_DEFAULT
-        const pallets: number = cp.weeklyEstimate;
-        if (!pallets || pallets <= 0) continue;
-        const cargoType: string = (cp.cargoTypes ?? [])[0] ?? contract.cargoType ?? 'OTHER_CHILLED';
-        const tempRange = getTempRange(cargoType);
-        contractDefaultEstimates.push({
-          bookingId:    `CONTRACT-ESTIMATE-${contractId}-${i}`,
-          cargoType,
-          tempMin:      tempRange.min,
-          tempMax:      tempRange.max,
-          pallets,
-          polPortCode:  polCode,
-          podPortCode:  podCode,
-          polSeq,
-          podSeq,
-          polSequence:  polSeq,
-          podSequence:  podSeq,
-          shipperId,
-          consigneeCode: '',
-          confidence:   'CONTRACT_ESTIMATE',
-          contractId,
-          shipperName:  cp.shipperName ?? '',
-          frozen:       false,
-        });
-      }
-    } else {
-      // No counterparties — contract-level fallback
-      if (contractCoverageMap.has(contractId)) continue;
-      if (!contract.weeklyPallets) continue;
-      const cargoType: string = contract.cargoType ?? 'OTHER_CHILLED';
-      const tempRange = getTempRange(cargoType);
-      contractDefaultEstimates.push({
-        bookingId:    `CONTRACT-ESTIMATE-${contractId}`,
-        cargoType,
-        tempMin:      tempRange.min,
-        tempMax:      tempRange.max,
-        pallets:      contract.weeklyPallets,
-        polPortCode:  polCode,
-        podPortCode:  podCode,
-        polSeq,
-        podSeq,
-        polSequence:  polSeq,
-        podSequence:  podSeq,
-        shipperId:    '',
-        consigneeCode: '',
-        confidence:   'CONTRACT_ESTIMATE',
-        frozen:       false,
-      });
-    }
-  }
-
-  console.log('Forecast bookings:', forecastBookings.length,
-    '· Contract defaults:', contractDefaultEstimates.length);
-
-  // ── 8. Build engine input ─────────────────────────────────────────────────
-  const realEngineBookings = buildEngineBookings(bookings, voyage);
-  console.log('Real engine bookings:', realEngineBookings.length);
-
-  const engineInput = {
-    vessel: {
-      sections: buildEngineSections(vessel),
-      zones:    buildEngineZones(vessel),
-    },
-    bookings:          [...realEngineBookings, ...forecastBookings],
+  // ── 8. Build engine input (same builder as the server actions) ────────────
+  const {
+    input: engineInput,
+    realBookings: realEngineBookings,
+    forecastBookings,
     contractEstimates: contractDefaultEstimates,
-    portCalls: (voyage.portCalls ?? []).map((pc: any) => ({
-      sequence: pc.sequence as number,
-      portCode: pc.portCode as string,
-    })),
-    portSequence: { polPorts: [], podPorts: [] },
-    previousZoneTemps: undefined,
-    plannerOverrides:  undefined,
-    phase: bookings.some((b: any) => (b.confirmedQuantity ?? 0) > 0) ? 'CONFIRMED' : 'ESTIMATED',
-  } as unknown as EngineInput;
+    bookingMeta,
+  } = buildEngineInput({
+    voyage,
+    vessel,
+    bookings,
+    forecasts: activeForecasts,
+    contracts: activeContracts,
+    carriage: tempRanges,
+    compatibility,
+    shipmentWeights,
+    previousZoneTemps,
+  });
+  console.log('Real engine bookings:', realEngineBookings.length,
+    '· Forecast bookings:', forecastBookings.length,
+    '· Contract defaults:', contractDefaultEstimates.length);
 
   // ── 9. Run engine ─────────────────────────────────────────────────────────
   console.log('\n--- Running engine... ---');
   const engineOutput = generateStowagePlan(engineInput);
 
   // ── 10. Map output to document format ─────────────────────────────────────
-  const allBookingMeta = [
-    ...bookings,
-    ...forecastBookings.map(fe => ({
-      _id:           { toString: () => fe.bookingId },
-      cargoType:     fe.cargoType,
-      polPortCode:   fe.polPortCode,
-      podPortCode:   fe.podPortCode,
-      shipperName:   (fe as any).shipperName ?? undefined,
-      consigneeName: (fe as any).consigneeName ?? undefined,
-      confidence:    fe.confidence,
-      polSeq:        fe.polSeq,
-      podSeq:        fe.podSeq,
-    })),
-    ...contractDefaultEstimates.map(ce => ({
-      _id:         { toString: () => ce.bookingId },
-      cargoType:   ce.cargoType,
-      polPortCode: ce.polPortCode,
-      podPortCode: ce.podPortCode,
-      shipperName: (ce as any).shipperName ?? undefined,
-      confidence:  ce.confidence,
-      polSeq:      ce.polSeq,
-      podSeq:      ce.podSeq,
-    })),
-  ];
-
   const { cargoPositions, coolingSectionStatus, hasHardConflict } =
-    mapEngineOutputToDocument(engineOutput, allBookingMeta);
+    mapEngineOutputToDocument(engineOutput, bookingMeta);
 
   const newStatus = hasHardConflict ? 'ESTIMATED' : 'DRAFT';
 
@@ -429,6 +233,15 @@ async function diagnose() {
     console.log(`  [${c.type}] ${c.palletsAffected} pallets — ${c.message}`);
   });
 
+  console.log('\n=== STABILITY BY PORT ===');
+  const dims = getVesselDimensions(vessel);
+  console.log(`  LPP=${dims.lpp.toFixed(1)}m  beam=${dims.beam.toFixed(1)}m  depth=${dims.depth.toFixed(1)}m`);
+  const cargoTonnes = engineOutput.assignments.reduce((sum, a) => sum + a.weightKg, 0) / 1000;
+  console.log(`  Cargo weight=${cargoTonnes.toFixed(1)} t`);
+  engineOutput.stabilityByPort.forEach(s => {
+    console.log(`  ${s.portCode} (seq ${s.portSequence}): ${s.status}  trim=${s.trimIndex}  list=${s.listIndex}  VCG=${s.vcg}m  VM=${s.verticalMoment} t·m`);
+  });
+
   const unassigned = engineOutput.unassignedBookings ?? [];
   console.log('\n=== UNASSIGNED BOOKINGS ===');
   console.log('Total:', unassigned.length);
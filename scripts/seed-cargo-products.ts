@@ -2,6 +2,20 @@
 
 import connectDB from '../lib/db/connect';
 import { CargoProductModel, CompatibilityGroupModel } from '../lib/db/schemas';
+import { DEFAULT_CARGO_CARRIAGE } from '../lib/constants/cargo-carriage';
+
+// Carriage fields (range, humidity, ventilation, ethylene) for a seeded code
+function carriageFields(code: string) {
+  const spec = DEFAULT_CARGO_CARRIAGE[code];
+  return {
+    minCarriageTemp:   spec.min,
+    maxCarriageTemp:   spec.max,
+    humidity:          spec.humidity,
+    ventilation:       spec.ventilation,
+    ethyleneSensitive: spec.ethyleneSensitive ?? false,
+    ethyleneProducer:  spec.ethyleneProducer ?? false,
+  };
+}
 
 const products = [
   { code: 'BAN',    name: 'Bananas',         shortLabel: 'BAN',  temperature: 13  },
@@ -44,6 +58,7 @@ async function seed() {
       {
         $setOnInsert: {
           ...p,
+          ...carriageFields(p.code),
           compatibilityGroupId:   groupId,
           compatibilityGroupCode: groupCode,
           createdBy:              'system',
@@ -52,8 +67,18 @@ async function seed() {
       },
       { upsert: true }
     );
-    const action = result.upsertedCount > 0 ? 'inserted' : 'skipped (exists)';
-    console.log(`✓ ${p.code.padEnd(7)} — ${p.name.padEnd(20)} ${p.temperature >= 0 ? '+' : ''}${p.temperature}°C  [${action}]`);
+
+    // Backfill carriage fields on products created before they existed
+    const backfill = result.upsertedCount > 0 ? null : await CargoProductModel.updateOne(
+      { code: p.code, minCarriageTemp: { $exists: false } },
+      { $set: carriageFields(p.code) },
+    );
+
+    const action = result.upsertedCount > 0
+      ? 'inserted'
+      : backfill?.modifiedCount ? 'carriage backfilled' : 'skipped (exists)';
+    const spec = DEFAULT_CARGO_CARRIAGE[p.code];
+    console.log(`✓ ${p.code.padEnd(7)} — ${p.name.padEnd(20)} ${p.temperature >= 0 ? '+' : ''}${p.temperature}°C  (${spec.min}…${spec.max}°C)  [${action}]`);
   }
 
   console.log('\nDone.');
@@ -0,0 +1,148 @@
+// scripts/stability-service-stub.ts
+// Local stand-in for stability-service (stability-service/main.py) so
+// calculateStabilityWithPython can be exercised without Python.
+// Speaks the same contract (lib/stability/service-client.ts) and computes
+// results with the TS hydrostatics/tank helpers.
+//
+// Usage:
+//   npm run stability:stub                      # http://localhost:8000
+//   npm run stability:stub -- --port=8010
+//   npm run stability:stub -- --delay=15000     # exercise the client timeout
+//   npm run stability:stub -- --fail            # HTTP 500 on /calculate-stability
+//   npm run stability:stub -- --down            # health check reports "degraded"
+//
+// Point the app at it with STABILITY_SERVICE_URL=http://localhost:<port>.
+
+import http from 'node:http';
+import { calculateFloatingCondition } from '../lib/stability/hydrostatics';
+import { calculateTankLoads } from '../lib/stability/tanks';
+import {
+  STABILITY_SERVICE_CONTRACT_VERSION,
+  type StabilityServiceConditionInput,
+  type StabilityServiceConditionResult,
+  type StabilityServiceRequest,
+} from '../lib/stability/service-client';
+
+function argValue(name: string): string | undefined {
+  const arg = process.argv.find(a => a.startsWith(`--${name}=`));
+  return arg?.split('=')[1];
+}
+
+const PORT = Number(argValue('port') ?? 8000);
+const DELAY_MS = Number(argValue('delay') ?? 0);
+const FAIL = process.argv.includes('--fail');
+const DOWN = process.argv.includes('--down');
+const VERSION = '0.0.0-stub';
+
+function calculate(req: StabilityServiceRequest, cond: StabilityServiceConditionInput): StabilityServiceConditionResult {
+  const { vessel } = req;
+  const ls = vessel.lightship;
+
+  const aboard = req.cargo.filter(item => {
+    if (cond.portSequence === null) return true;
+    const pol = item.polSeq ?? -Infinity;
+    const pod = item.podSeq ?? Infinity;
+    return pol <= cond.portSequence && cond.portSequence < pod;
+  });
+
+  const cargoWeight = aboard.reduce((sum, c) => sum + c.weight, 0);
+  const tanks = calculateTankLoads(req.tanks, cond.tankLevels);
+  const displacement = ls.weight + cargoWeight + tanks.weight;
+
+  const moment = (arm: 'lcg' | 'vcg' | 'tcg', tankMoment: number) =>
+    ls.weight * ls[arm] + aboard.reduce((sum, c) => sum + c.weight * c[arm], 0) + tankMoment;
+  const kg = moment('vcg', tanks.vcgMoment) / displacement;
+  const lcg = moment('lcg', tanks.lcgMoment) / displacement;
+  const tcg = moment('tcg', tanks.tcgMoment) / displacement;
+
+  const condition = calculateFloatingCondition({
+    displacement,
+    kg,
+    lcg,
+    tcg,
+    lpp: vessel.lpp,
+    hydrostatics: vessel.hydrostatics,
+    freeSurfaceMoment: tanks.freeSurfaceMoment,
+  });
+
+  const limits = vessel.referenceLimits;
+  const warnings: string[] = [];
+  if (condition.gm < limits.minGM) warnings.push(`GM below minimum reference (${condition.gm.toFixed(2)}m < ${limits.minGM}m)`);
+  if (condition.gm > limits.maxGM) warnings.push(`GM above maximum reference (${condition.gm.toFixed(2)}m > ${limits.maxGM}m)`);
+  if (Math.abs(condition.trim) > limits.maxTrim) warnings.push(`Trim exceeds reference limit (${Math.abs(condition.trim).toFixed(2)}m > ${limits.maxTrim}m)`);
+  if (Math.abs(condition.list) > limits.maxList) warnings.push(`List exceeds reference limit (${Math.abs(condition.list).toFixed(2)}° > ${limits.maxList}°)`);
+  const deepestDraft = Math.max(condition.drafts.forward, condition.drafts.aft);
+  if (deepestDraft > limits.maxDraft) warnings.push(`Draft exceeds maximum (${deepestDraft.toFixed(2)}m > ${limits.maxDraft}m)`);
+  if (condition.hydrostatics.outOfRange) {
+    warnings.push(`Displacement ${displacement.toFixed(0)}t is outside the hydrostatic table range — values clamped to the nearest row`);
+  }
+
+  const { draft, km, lcb, lcf, mct1cm, tpc, outOfRange } = condition.hydrostatics;
+  return {
+    id: cond.id,
+    portSequence: cond.portSequence,
+    cargoWeight,
+    tankWeight: tanks.weight,
+    displacement,
+    kg,
+    lcg,
+    tcg,
+    gm: condition.gm,
+    freeSurfaceCorrection: condition.freeSurfaceCorrection,
+    trim: condition.trim,
+    list: condition.list,
+    drafts: condition.drafts,
+    hydrostatics: { draft, km, lcb, lcf, mct1cm, tpc, outOfRange },
+    warnings,
+  };
+}
+
+function send(res: http.ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+const server = http.createServer((req, res) => {
+  if (req.method === 'GET' && req.url === '/health') {
+    send(res, 200, {
+      status: DOWN ? 'degraded' : 'ok',
+      version: VERSION,
+      contractVersion: STABILITY_SERVICE_CONTRACT_VERSION,
+    });
+    return;
+  }
+
+  if (req.method === 'POST' && req.url === '/calculate-stability') {
+    let raw = '';
+    req.on('data', chunk => { raw += chunk; });
+    req.on('end', () => {
+      setTimeout(() => {
+        if (FAIL) {
+          send(res, 500, { detail: 'Stub configured to fail (--fail)' });
+          return;
+        }
+        try {
+          const body = JSON.parse(raw) as StabilityServiceRequest;
+          console.log(`[stub] plan ${body.plan?.planNumber ?? body.plan?.planId}: ${body.cargo.length} cargo items, ${body.conditions.length} conditions`);
+          send(res, 200, {
+            contractVersion: STABILITY_SERVICE_CONTRACT_VERSION,
+            service: { name: 'stability-service-stub', version: VERSION },
+            results: body.conditions.map(c => calculate(body, c)),
+          });
+        } catch (err) {
+          send(res, 422, { detail: (err as Error).message });
+        }
+      }, DELAY_MS);
+    });
+    return;
+  }
+
+  send(res, 404, { detail: 'Not found' });
+});
+
+server.listen(PORT, () => {
+  console.log(`Stability service stub listening on http://localhost:${PORT}` +
+    (DELAY_MS ? ` (delay ${DELAY_MS} ms)` : '') +
+    (FAIL ? ' (failing)' : '') +
+    (DOWN ? ' (health degraded)' : ''));
+});
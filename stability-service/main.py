@@ -1,12 +1,276 @@
-from fastapi import FastAPI
+# stability-service/main.py
+# FastAPI microservice for preliminary stability (GM, trim, list, drafts)
+# Run: uvicorn main:app --port 8000 --reload
+#
+# Contract: lib/stability/service-client.ts (StabilityServiceRequest /
+# StabilityServiceResponse). Bump CONTRACT_VERSION together with
+# STABILITY_SERVICE_CONTRACT_VERSION on the TS side.
+#
+# Units: tonnes and metres. LCG/LCB/LCF + forward of midship, TCG + starboard,
+# VCG/KG/KM above keel, trim + by the stern, list in degrees + starboard.
 
-app = FastAPI()
+import math
+from typing import List, Optional
+
+from fastapi import FastAPI, HTTPException
+from pydantic import BaseModel
+
+SERVICE_NAME = 'reefer-stability-service'
+SERVICE_VERSION = '1.0.0'
+CONTRACT_VERSION = 1
+
+# Tanks above this fill are pressed up (no free surface) — same as lib/stability/tanks.ts
+PRESSED_UP_PERCENT = 98
+
+app = FastAPI(title='Reefer Stability Service', version=SERVICE_VERSION)
+
+
+# ----------------------------------------------------------------------------
+# CONTRACT — REQUEST
+# ----------------------------------------------------------------------------
+
+class HydrostaticRow(BaseModel):
+    draft: float
+    displacement: float
+    km: float
+    lcb: float
+    lcf: float
+    mct1cm: float
+    tpc: float
+
+
+class Lightship(BaseModel):
+    weight: float
+    lcg: float
+    vcg: float
+    tcg: float = 0
+
+
+class ReferenceLimits(BaseModel):
+    minGM: float
+    maxGM: float
+    maxTrim: float
+    maxList: float
+    maxDraft: float
+
+
+class Vessel(BaseModel):
+    name: str
+    imoNumber: Optional[str] = None
+    lpp: float
+    beam: float
+    depth: float
+    lightship: Lightship
+    hydrostatics: List[HydrostaticRow]
+    referenceLimits: ReferenceLimits
+
+
+class Tank(BaseModel):
+    tankId: str
+    name: str
+    type: str
+    capacity: float
+    density: float
+    lcg: float
+    vcg: float
+    tcg: float = 0
+    freeSurfaceMoment: float = 0
+
+
+class CargoItem(BaseModel):
+    sectionId: str
+    bookingId: Optional[str] = None
+    quantity: float
+    weight: float
+    lcg: float
+    vcg: float
+    tcg: float
+    polSeq: Optional[float] = None
+    podSeq: Optional[float] = None
+
+
+class TankLevel(BaseModel):
+    tankId: str
+    fillPercent: float
+
+
+class ConditionInput(BaseModel):
+    id: str
+    portSequence: Optional[float] = None
+    portCode: Optional[str] = None
+    tankLevels: List[TankLevel] = []
+
+
+class PlanRef(BaseModel):
+    planId: str
+    planNumber: Optional[str] = None
+    voyageNumber: Optional[str] = None
+
+
+class StabilityRequest(BaseModel):
+    contractVersion: int
+    plan: PlanRef
+    vessel: Vessel
+    tanks: List[Tank] = []
+    cargo: List[CargoItem] = []
+    conditions: List[ConditionInput]
+
+
+# ----------------------------------------------------------------------------
+# CALCULATIONS
+# ----------------------------------------------------------------------------
+
+def interpolate_hydrostatics(rows: List[HydrostaticRow], displacement: float) -> dict:
+    rows = sorted(rows, key=lambda r: r.displacement)
+    first, last = rows[0], rows[-1]
+    if displacement <= first.displacement:
+        return {**first.model_dump(), 'displacement': displacement,
+                'outOfRange': displacement < first.displacement}
+    if displacement >= last.displacement:
+        return {**last.model_dump(), 'displacement': displacement,
+                'outOfRange': displacement > last.displacement}
+
+    upper = next(i for i, r in enumerate(rows) if r.displacement >= displacement)
+    lo, hi = rows[upper - 1], rows[upper]
+    f = (displacement - lo.displacement) / (hi.displacement - lo.displacement)
+
+    def lerp(a: float, b: float) -> float:
+        return a + (b - a) * f
+
+    return {
+        'draft': lerp(lo.draft, hi.draft),
+        'displacement': displacement,
+        'km': lerp(lo.km, hi.km),
+        'lcb': lerp(lo.lcb, hi.lcb),
+        'lcf': lerp(lo.lcf, hi.lcf),
+        'mct1cm': lerp(lo.mct1cm, hi.mct1cm),
+        'tpc': lerp(lo.tpc, hi.tpc),
+        'outOfRange': False,
+    }
+
+
+def is_aboard(item: CargoItem, port_sequence: Optional[float]) -> bool:
+    # PRELIMINARY condition (no port) carries every cargo item in the plan
+    if port_sequence is None:
+        return True
+    pol = item.polSeq if item.polSeq is not None else -math.inf
+    pod = item.podSeq if item.podSeq is not None else math.inf
+    return pol <= port_sequence < pod
+
+
+def check_limits(limits: ReferenceLimits, result: dict) -> List[str]:
+    warnings = []
+    gm, trim, lst, drafts = result['gm'], result['trim'], result['list'], result['drafts']
+    if gm < limits.minGM:
+        warnings.append(f'GM below minimum reference ({gm:.2f}m < {limits.minGM}m)')
+    if gm > limits.maxGM:
+        warnings.append(f'GM above maximum reference ({gm:.2f}m > {limits.maxGM}m)')
+    if abs(trim) > limits.maxTrim:
+        warnings.append(f'Trim exceeds reference limit ({abs(trim):.2f}m > {limits.maxTrim}m)')
+    if abs(lst) > limits.maxList:
+        warnings.append(f'List exceeds reference limit ({abs(lst):.2f}° > {limits.maxList}°)')
+    deepest = max(drafts['forward'], drafts['aft'])
+    if deepest > limits.maxDraft:
+        warnings.append(f'Draft exceeds maximum ({deepest:.2f}m > {limits.maxDraft}m)')
+    if result['hydrostatics']['outOfRange']:
+        warnings.append(
+            f"Displacement {result['displacement']:.0f}t is outside the hydrostatic table range"
+            ' — values clamped to the nearest row'
+        )
+    return warnings
+
+
+def calculate_condition(req: StabilityRequest, cond: ConditionInput) -> dict:
+    vessel = req.vessel
+    ls = vessel.lightship
+
+    weight = ls.weight
+    lcg_m = ls.weight * ls.lcg
+    vcg_m = ls.weight * ls.vcg
+    tcg_m = ls.weight * ls.tcg
+
+    cargo_weight = 0.0
+    for item in req.cargo:
+        if not is_aboard(item, cond.portSequence):
+            continue
+        cargo_weight += item.weight
+        lcg_m += item.weight * item.lcg
+        vcg_m += item.weight * item.vcg
+        tcg_m += item.weight * item.tcg
+
+    levels = {lvl.tankId: lvl.fillPercent for lvl in cond.tankLevels}
+    tank_weight = 0.0
+    fsm = 0.0
+    for tank in req.tanks:
+        fill = min(100.0, max(0.0, levels.get(tank.tankId, 0.0)))
+        if fill <= 0:
+            continue
+        w = tank.capacity * (fill / 100) * tank.density
+        tank_weight += w
+        lcg_m += w * tank.lcg
+        vcg_m += w * tank.vcg
+        tcg_m += w * tank.tcg
+        if fill < PRESSED_UP_PERCENT:
+            fsm += tank.freeSurfaceMoment
+
+    displacement = weight + cargo_weight + tank_weight
+    kg = vcg_m / displacement
+    lcg = lcg_m / displacement
+    tcg = tcg_m / displacement
+
+    hydro = interpolate_hydrostatics(vessel.hydrostatics, displacement)
+    fsc = fsm / displacement if displacement > 0 else 0.0
+    gm = hydro['km'] - kg - fsc
+    trim = displacement * (hydro['lcb'] - lcg) / (100 * hydro['mct1cm'])
+
+    aft = hydro['draft'] + trim * ((vessel.lpp / 2 + hydro['lcf']) / vessel.lpp)
+    forward = aft - trim
+    if gm > 0:
+        lst = math.degrees(math.atan(tcg / gm))
+    else:
+        lst = 0.0 if tcg == 0 else math.copysign(90.0, tcg)
+
+    result = {
+        'id': cond.id,
+        'portSequence': cond.portSequence,
+        'cargoWeight': cargo_weight,
+        'tankWeight': tank_weight,
+        'displacement': displacement,
+        'kg': kg,
+        'lcg': lcg,
+        'tcg': tcg,
+        'gm': gm,
+        'freeSurfaceCorrection': fsc,
+        'trim': trim,
+        'list': lst,
+        'drafts': {'forward': forward, 'aft': aft, 'mean': (forward + aft) / 2},
+        'hydrostatics': {k: hydro[k] for k in ('draft', 'km', 'lcb', 'lcf', 'mct1cm', 'tpc', 'outOfRange')},
+    }
+    result['warnings'] = check_limits(vessel.referenceLimits, result)
+    return result
+
+
+# ----------------------------------------------------------------------------
+# ENDPOINTS
+# ----------------------------------------------------------------------------
+
+@app.get('/health')
+def health():
+    return {'status': 'ok', 'version': SERVICE_VERSION, 'contractVersion': CONTRACT_VERSION}
+
+
+@app.post('/calculate-stability')
+async def calculate_stability(req: StabilityRequest):
+    if req.contractVersion != CONTRACT_VERSION:
+        raise HTTPException(
+            status_code=422,
+            detail=f'Unsupported contractVersion {req.contractVersion} (service speaks {CONTRACT_VERSION})',
+        )
+    if len(req.vessel.hydrostatics) < 2:
+        raise HTTPException(status_code=422, detail='Hydrostatic table needs at least two rows')
 
-@app.post("/calculate-stability")
-async def calculate_stability(data: dict):
-    # Aquí irán los cálculos
     return {
-        "displacement": 8000,
-        "estimatedGM": 1.5,
-        "estimatedTrim": 0.2
-    }
\ No newline at end of file
+        'contractVersion': CONTRACT_VERSION,
+        'service': {'name': SERVICE_NAME, 'version': SERVICE_VERSION},
+        'results': [calculate_condition(req, cond) for cond in req.conditions],
+    }
@@ -26,8 +26,15 @@ from openpyxl.utils import get_column_letter
 # Higher index = deeper / less accessible (D is bottom, FC is deck)
 LEVEL_DEPTH = {'FC': 0, 'UPD': 1, 'A': 2, 'B': 3, 'C': 4, 'D': 5}
 
+# Fallback only — CargoProduct documents (min/maxCarriageTemp) are the source of
+# truth and override these in load_voyage_data. Mirrors DEFAULT_CARGO_CARRIAGE in
+# lib/constants/cargo-carriage.ts for codes that have no CargoProduct yet.
+# Codes with neither a CargoProduct nor an entry below — FALLBACK_TEMP_RANGE in
+# lib/constants/cargo-carriage.ts, so solver and engine place them alike
+FALLBACK_TEMP_RANGE = (0, 4)
+
 CARGO_TEMP_RANGES = {
-    # Short codes (current CargoProduct.code values)
+    # Short codes (seeded CargoProduct.code values)
     'BAN':              (12,    14),
     'OBAN':             (12,    14),
     'PLAN':             (12,    14),
@@ -36,7 +43,7 @@ CARGO_TEMP_RANGES = {
     'MANGO':            (7,    10),
     'AVOC':             (5,     8),
     'CITRUS':           (4,    10),
-    'GRAPE':            (-0.5,  0.5),
+    'GRAPE':            (-1,    0.5),
     # Legacy names (kept for backwards compatibility)
     'BANANAS':          (12,    14),
     'ORGANIC_BANANAS':  (12,    14),
@@ -99,7 +106,7 @@ def parse_section_id(sid):
     return 0, 'A'
 
 def get_temp_range(cargo_type):
-    return CARGO_TEMP_RANGES.get(cargo_type, (0, 25))
+    return CARGO_TEMP_RANGES.get(cargo_type, FALLBACK_TEMP_RANGE)
 
 def get_zone_temperature(zone):
     t = zone.get('currentTemperature')
@@ -179,11 +186,26 @@ def build_sections(vessel):
             })
     return sections
 
+def load_cargo_temp_map(db):
+    """Carriage range per CargoProduct code. Legacy products without
+    min/maxCarriageTemp use (temperature - 1, temperature + 1)."""
+    cargo_temp_map = {}
+    projection = {'code': 1, 'temperature': 1, 'minCarriageTemp': 1, 'maxCarriageTemp': 1}
+    for p in db['cargoproducts'].find({'active': True}, projection):
+        mn, mx = p.get('minCarriageTemp'), p.get('maxCarriageTemp')
+        if mn is not None and mx is not None:
+            cargo_temp_map[p['code']] = (mn, mx)
+            continue
+        t = p.get('temperature')
+        if t is not None:
+            cargo_temp_map[p['code']] = (t - 1, t + 1)
+    return cargo_temp_map
+
 def build_cargo_items(bookings, forecasts, port_seq_map, cargo_temp_map=None):
     def _get_temp(code):
         if cargo_temp_map and code in cargo_temp_map:
             return cargo_temp_map[code]
-        return CARGO_TEMP_RANGES.get(code, (0, 25))
+        return get_temp_range(code)
 
     items = []
     for b in bookings:
@@ -656,12 +678,7 @@ def load_voyage_data(voyage_id: str):
     port_seq_map = build_port_seq_map(voyage.get('portCalls', []))
     sections     = build_sections(vessel)
 
-    # Load cargo product temperatures from DB; range = (temp - 1, temp + 1)
-    cargo_temp_map = {}
-    for p in db['cargoProducts'].find({'active': True}, {'code': 1, 'temperature': 1}):
-        t = p.get('temperature')
-        if t is not None:
-            cargo_temp_map[p['code']] = (t - 1, t + 1)
+    cargo_temp_map = load_cargo_temp_map(db)
 
     cargo_items  = build_cargo_items(bookings, forecasts, port_seq_map, cargo_temp_map)
 
@@ -64,10 +64,20 @@ export interface Service {
   cycleDurationWeeks: number;
   vesselPool: string[]; // Array de vessel IDs
   cargoTypes: CargoType[];
+  standbyPolicy?: StandbyPolicy;
+  bookingDeadlineReminderHours?: number[]; // default [72, 24]
   createdAt: Date;
   updatedAt: Date;
 }
 
+// Order in which freed space is offered to the standby queue
+export type StandbyOrder = 'FIFO' | 'CONTRACT_PRIORITY' | 'CARGO_FIT';
+
+export interface StandbyPolicy {
+  order: StandbyOrder;
+  autoConfirmMaxPallets: number; // promotions up to this size skip planner approval; 0 = always ask
+}
+
 // ----------------------------------------------------------------------------
 // VOYAGE (Viaje - cada "vuelta" de un barco)
 // ----------------------------------------------------------------------------
@@ -249,6 +259,19 @@ export interface Booking {
   requestedDate: Date;
   confirmedDate?: Date;
   approvedBy?: string;
+  capacityOverride?: {
+    reason: string;
+    availablePallets: number;
+    confirmedQuantity: number;
+    overriddenBy: string;
+    overriddenAt: Date;
+  };
+  // Freed space offered from the standby queue, awaiting planner approval
+  standbyOffer?: {
+    pallets: number;
+    offeredAt: Date;
+    freedByBookingNumber: string;
+  };
   rejectionReason?: string;
   notes?: string;
   changelog?: Array<{
@@ -408,7 +431,7 @@ export interface CoolingSectionDetail {
   historicalStowageFactor?: number; // rolling average across completed voyages
   historicalVoyageCount?: number; // # voyages in historical average
   isFull?: boolean;               // true when section is fully loaded in current stowage plan
-  // maxPallets is CALCULATED: Math.floor(sqm * chosenFactor)
+  // maxPallets is CALCULATED: Math.floor(sqm / chosenFactor)
 }
 
 // CoolingSection = one temperature zone entry on the Vessel document.
@@ -419,6 +442,8 @@ export interface CoolingSection {
   assignedTemperatureZone?: string;
   currentTemperature?: number;
   locked: boolean;
+  refrigerationCapacityKw?: number; // circuit capacity — absent: not checked
+  maxAdjacentDelta?: number;        // °C allowed against neighbouring zones
 }
 
 export interface Compartment {
@@ -459,7 +484,73 @@ export interface Hold {
   totalCapacitySqm: number;
 }
 
+// One row of the vessel's hydrostatic tables (even keel, sea water 1.025 t/m³).
+// Longitudinal values are metres from midship, + = forward.
+export interface HydrostaticRow {
+  draft: number;          // m, moulded draft at LCF
+  displacement: number;   // tonnes
+  km: number;             // m, transverse metacentre above keel
+  lcb: number;            // m, longitudinal centre of buoyancy
+  lcf: number;            // m, longitudinal centre of flotation
+  mct1cm: number;         // t·m, moment to change trim 1 cm
+  tpc: number;            // t, tonnes per cm immersion
+}
+
+export type TankType = 'BALLAST' | 'FUEL' | 'FRESH_WATER';
+
+// Deadweight tank — centroid assumed fixed (no shift with fill level).
+export interface VesselTank {
+  tankId: string;              // "DB1P", "FOT3S", "FWT-AFT"
+  name: string;
+  type: TankType;
+  capacity: number;            // m³ at 100%
+  density: number;             // t/m³ (SW 1.025, HFO ~0.99, FW 1.0)
+  lcg: number;                 // m from midship, + = forward
+  vcg: number;                 // m above keel
+  tcg: number;                 // m from centreline, + = starboard
+  freeSurfaceMoment: number;   // t·m, maximum (slack tank)
+}
+
+export type ContainerType = '20FT' | '40FT' | '40HC';
+
+// Deck bay plan — one entry per stack (bay × row) on a hatch cover.
+// ISO numbering: 20' bays odd / 40' bays even, rows odd = starboard /
+// even = port / 00 = centreline, deck tiers 82, 84, 86…
+export interface DeckTier {
+  tier: number;
+  reeferPlug: boolean;         // plug available at this slot
+  allowsHighCube: boolean;     // 9'6" fits (lashing / visibility limits)
+}
+
+export interface DeckStack {
+  bay: number;
+  row: number;
+  holdNumber: number;          // hatch cover the stack sits on
+  slotLength: '20FT' | '40FT'; // 20FT slots take 20' boxes; 40FT slots take 40'/40HC
+  maxStackWeight: number;      // kg, all tiers combined
+  lcg: number;                 // m from midship, + = forward
+  tcg: number;                 // m from centreline, + = starboard
+  baseVcg: number;             // m above keel at the bottom of the first tier
+  tiers: DeckTier[];           // bottom → top
+}
+
+export interface TankLevel {
+  tankId: string;
+  fillPercent: number;         // 0–100
+}
+
+// Planned tank levels at departure from one port call
+export interface TankPlanEntry {
+  portSequence: number;
+  portCode: string;
+  levels: TankLevel[];
+  source: 'PLANNER' | 'BALLAST_PROPOSAL';
+  updatedAt: Date;
+}
+
 export interface VesselStability {
+  lpp?: number;                      // m, length between perpendiculars
+  hydrostatics?: HydrostaticRow[];   // sorted by displacement ascending
   lightship: {
     weight: number;
     lcg: number;
@@ -496,8 +587,10 @@ export interface Vessel {
     maxTEU: number;
     maxFEU: number;
   };
+  deckBayPlan?: DeckStack[];   // absent = legacy plug-count check only
   
   stability: VesselStability;
+  tanks?: VesselTank[];
   classification: {
     society: string;
     mainClass: string;
@@ -526,6 +619,128 @@ export interface TemperatureChangelogEntry {
   affectedBookings: string[];
 }
 
+// TRANSFER = section to section, OFFLOAD = section to staging,
+// CANCEL = pallets dropped and booking reduced, PLACE = staging back into a section
+export type CargoChangeAction = 'TRANSFER' | 'OFFLOAD' | 'CANCEL' | 'PLACE';
+
+// Planner edit to stowed hold cargo
+export interface CargoChangelogEntry {
+  changedAt: Date;
+  changedBy: string;
+  action: CargoChangeAction;
+  bookingId: string;
+  bookingNumber?: string;
+  cargoType?: string;
+  fromSectionId?: string;
+  toSectionId?: string;
+  pallets: number;
+  reason?: string;
+}
+
+// Pallets taken off the plan but kept for re-placement — unassigned, yet
+// distinct from cargo the plan never placed. One entry per booking.
+export interface StagedCargo {
+  bookingId: string;
+  bookingNumber?: string;
+  cargoType?: string;
+  shipperName?: string;
+  consigneeName?: string;
+  polPortCode?: string;
+  podPortCode?: string;
+  polSeq?: number;
+  podSeq?: number;
+  confidence?: 'CONFIRMED' | 'ESTIMATED';
+  quantity: number;
+  weight?: number;
+  fromSectionId?: string;       // section the latest pallets came from
+  reason: string;
+  stagedAt: Date;
+  stagedBy: string;
+}
+
+// Manual edits recorded in a plan's undo/redo history
+export type PlanOperationType = 'ASSIGN' | 'REMOVE' | 'TRANSFER' | 'REDUCE' | 'SET_TEMPERATURE';
+
+// The part of a plan one operation touched, as it was before or after it
+export interface PlanEditSlice {
+  positions: CargoPosition[];
+  staged: StagedCargo[];
+  temperatures: { zoneId: string; temperature: number | null }[];
+}
+
+export interface PlanOperation {
+  seq: number;
+  type: PlanOperationType;
+  summary: string;
+  performedAt: Date;
+  performedBy: string;
+  undone: boolean;
+  reduceMode?: 'STAGE' | 'CANCEL';   // REDUCE only; CANCEL also lowered the booking
+  positionKeys: string[];            // `${bookingId}|${sectionId}` touched
+  stagedBookingIds: string[];
+  before: PlanEditSlice;
+  after: PlanEditSlice;
+}
+
+// Returned with a refused save: the plan was edited after the caller loaded it
+export interface PlanEditConflict {
+  version: number;                  // editVersion now stored on the plan
+  lastEditedBy: string | null;
+  lastEditedAt: Date | null;
+}
+
+// Another user with the plan page open (heartbeat, see PlanPresence schema)
+export interface PlanViewer {
+  userId: string;
+  userName: string;
+  officeCode?: string;
+  editing: boolean;                 // has an edit dialog open or a save in flight
+  lastSeenAt: Date;
+}
+
+// Loading sequence for the LOAD port calls of a plan (see lib/loading-sequence.ts)
+export interface LoadingStepBooking {
+  bookingId: string;
+  bookingNumber?: string;
+  shipperName?: string;
+  consigneeName?: string;
+  cargoType: string;
+  podPortCode?: string;
+  pallets: number;
+}
+
+export interface LoadingStep {
+  step: number;                     // work order at the port, 1-based
+  gang: number;                     // gang / crane working the step, 1-based
+  holdNumber: number;
+  sectionId: string;
+  level: string;
+  pallets: number;
+  startHours: number;               // hours from start of loading at the port
+  durationHours: number;
+  bookings: LoadingStepBooking[];
+  doneAt?: Date;
+  doneBy?: string;
+}
+
+export interface PortLoadingSequence {
+  portCode: string;
+  portName: string;
+  sequence: number;                 // voyage port-call sequence
+  palletsPerHour: number;           // per gang
+  gangs: number;
+  totalPallets: number;
+  totalHours: number;
+  warnings: string[];               // hatch access problems
+  steps: LoadingStep[];
+}
+
+export interface LoadingSequence {
+  generatedAt: Date;
+  generatedBy: string;
+  ports: PortLoadingSequence[];
+}
+
 export interface CargoPosition {
   shipmentId?: string;
   bookingId?: string;
@@ -550,6 +765,7 @@ export interface CargoPosition {
     tcg: number;
     vcg: number;
   };
+  setTemperature?: number;  // °C reefer set point — deck containers
 }
 
 export interface PreliminaryStabilityEstimate {
@@ -571,9 +787,38 @@ export interface PreliminaryStabilityEstimate {
     warnings: string[];
     notes: string[];
   };
+  source?: 'TS_ESTIMATE' | 'STABILITY_SERVICE'; // who produced the numbers
+  serviceVersion?: string;                       // stability-service version when source is STABILITY_SERVICE
   disclaimer: string;
 }
 
+// Loading condition at departure from a LOAD/DISCHARGE port call.
+// Only cargo with polSeq <= sequence < podSeq is aboard.
+export interface DepartureCondition {
+  portCode: string;
+  portName?: string;
+  sequence: number;
+  operations: ('LOAD' | 'DISCHARGE')[];
+  palletsAboard: number;
+  cargoWeight: number;     // tonnes
+  tankWeight: number;      // tonnes (ballast + fuel + fresh water)
+  displacement: number;    // tonnes
+  kg: number;
+  lcg: number;
+  tcg: number;
+  gm: number;              // fluid GM (free-surface corrected)
+  freeSurfaceCorrection: number; // m
+  trim: number;            // m, + = by the stern
+  list: number;            // degrees, + = starboard
+  drafts: {
+    forward: number;
+    aft: number;
+    mean: number;
+  };
+  withinReferenceLimits: boolean;
+  warnings: string[];
+}
+
 export type StowagePlanStatus = 
   | 'ESTIMATED'     // CAMBIO #1: Basado solo en estimaciones
   | 'DRAFT'
@@ -596,6 +841,9 @@ export interface StowagePlan {
   vesselName: string;
   cargoPositions: CargoPosition[];
   preliminaryStability: PreliminaryStabilityEstimate;
+  departureConditions?: DepartureCondition[];
+  tankPlan?: TankPlanEntry[];
+  departureConditionsCalculatedAt?: Date;
   status: StowagePlanStatus;
   
   // Validaciones
@@ -619,9 +867,23 @@ export interface StowagePlan {
     coolingSectionIds: string[];
     assignedTemperature?: number;
     locked: boolean;
+    atmosphere?: {
+      mode: 'REGULAR' | 'CA';
+      o2?: number;                // % set point (CA)
+      co2?: number;               // % set point (CA)
+      ventilation?: number;       // air changes/hour (0 = closed)
+    };
+    heatLoadKw?: number;          // peak estimated heat load (respiration + pull-down)
   }>;
 
   temperatureChangelog?: TemperatureChangelogEntry[];
+  cargoChangelog?: CargoChangelogEntry[];
+  stagedCargo?: StagedCargo[];
+  editHistory?: PlanOperation[];
+  editVersion?: number;             // bumped on every save — optimistic concurrency token
+  lastEditedBy?: string;
+  lastEditedAt?: Date;
+  loadingSequence?: LoadingSequence;
 
   // Comunicación con capitán
   captainCommunication?: {
@@ -708,6 +970,7 @@ export interface SpaceForecast {
   reviewedAt?: Date;
   previousForecastId?: string;
   notes?: string;
+  deadlineRemindersSent?: number[];
   createdAt: Date;
   updatedAt: Date;
 }
@@ -738,6 +1001,18 @@ export interface CargoProduct {
   compatibilityGroupCode: string; // denormalized for fast access
   notes?: string;
   active: boolean;
+  temperature: number;            // °C transport set point
+  minCarriageTemp?: number;       // °C — legacy products without a range use temperature ± 1
+  maxCarriageTemp?: number;
+  humidity?: { min: number; max: number };  // % RH
+  ventilation?: number;           // fresh-air exchange, air changes/hour (0 = closed)
+  atmosphere?: {
+    mode: 'REGULAR' | 'CA';       // CA = controlled atmosphere
+    o2?: { min: number; max: number };   // % — CA only
+    co2?: { min: number; max: number };  // % — CA only
+  };
+  ethyleneSensitive: boolean;
+  ethyleneProducer: boolean;
   createdBy: string;
   createdAt: Date;
   updatedAt: Date;